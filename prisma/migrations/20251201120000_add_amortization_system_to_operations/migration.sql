@@ -0,0 +1,2 @@
+-- AlterTable: Add amortization system (PRICE, SAC, SIMPLE, BULLET) to operations
+ALTER TABLE "operations" ADD COLUMN "amortization_system" TEXT;
@@ -0,0 +1,51 @@
+-- AlterTable: Track paid/remaining amounts and late fees paid on installments
+ALTER TABLE "installments"
+  ADD COLUMN "paid_amount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+  ADD COLUMN "remaining_amount" DECIMAL(65,30),
+  ADD COLUMN "late_fees_paid" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "payment_allocations" (
+    "id" BIGSERIAL NOT NULL,
+    "payment_id" BIGINT NOT NULL,
+    "installment_id" BIGINT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "fee_amount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "interest_amount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "principal_amount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_payment_allocation_payment_id" ON "payment_allocations"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "idx_payment_allocation_installment_id" ON "payment_allocations"("installment_id");
+
+-- AddForeignKey
+ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_installment_id_fkey" FOREIGN KEY ("installment_id") REFERENCES "installments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: paid amount from existing payments linked to each installment
+UPDATE "installments" i
+SET "paid_amount" = LEAST(i."amount", p."total")
+FROM (
+  SELECT "installment_id", SUM("amount") AS "total"
+  FROM "payments"
+  WHERE "installment_id" IS NOT NULL AND "deleted_at" IS NULL
+  GROUP BY "installment_id"
+) p
+WHERE p."installment_id" = i."id";
+
+UPDATE "installments" SET "paid_amount" = "amount" WHERE "status" = 'PAID';
+
+UPDATE "installments" SET "remaining_amount" = "amount" - "paid_amount";
+
+UPDATE "installments"
+SET "status" = 'PARTIALLY_PAID'
+WHERE "status" = 'PENDING' AND "paid_amount" > 0 AND "remaining_amount" > 0;
@@ -0,0 +1,8 @@
+-- AlterTable: Link compensating reversal entries to the original payment
+ALTER TABLE "payments" ADD COLUMN "reversal_of_id" BIGINT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_reversal_of_id_key" ON "payments"("reversal_of_id");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_reversal_of_id_fkey" FOREIGN KEY ("reversal_of_id") REFERENCES "payments"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable: Link renegotiated operations to the operation they replace
+ALTER TABLE "operations" ADD COLUMN "parent_operation_id" BIGINT;
+
+-- CreateIndex
+CREATE INDEX "idx_operation_parent_operation_id" ON "operations"("parent_operation_id");
+
+-- AddForeignKey
+ALTER TABLE "operations" ADD CONSTRAINT "operations_parent_operation_id_fkey" FOREIGN KEY ("parent_operation_id") REFERENCES "operations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- Backfill: operations created before the lifecycle existed
+UPDATE "operations" o SET "status" = 'SETTLED'
+WHERE o."status" IS NULL
+  AND EXISTS (SELECT 1 FROM "installments" i WHERE i."operation_id" = o."id" AND i."deleted_at" IS NULL)
+  AND NOT EXISTS (
+    SELECT 1 FROM "installments" i
+    WHERE i."operation_id" = o."id" AND i."deleted_at" IS NULL AND i."status" NOT IN ('PAID', 'CANCELLED')
+  );
+
+UPDATE "operations" o SET "status" = 'OVERDUE'
+WHERE o."status" IS NULL
+  AND EXISTS (
+    SELECT 1 FROM "installments" i
+    WHERE i."operation_id" = o."id" AND i."deleted_at" IS NULL AND i."status" = 'LATE'
+  );
+
+UPDATE "operations" SET "status" = 'ACTIVE' WHERE "status" IS NULL;
+
+-- AlterTable
+ALTER TABLE "operations" ALTER COLUMN "status" SET NOT NULL,
+ALTER COLUMN "status" SET DEFAULT 'ACTIVE';
+
+-- CreateTable
+CREATE TABLE "operation_status_changes" (
+    "id" BIGSERIAL NOT NULL,
+    "operation_id" BIGINT NOT NULL,
+    "from_status" TEXT,
+    "to_status" TEXT NOT NULL,
+    "actor" TEXT,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "operation_status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_operation_status_change_operation_created" ON "operation_status_changes"("operation_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "operation_status_changes" ADD CONSTRAINT "operation_status_changes_operation_id_fkey" FOREIGN KEY ("operation_id") REFERENCES "operations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the timeline with the current status of every operation
+INSERT INTO "operation_status_changes" ("operation_id", "from_status", "to_status", "actor", "reason", "created_at")
+SELECT "id", NULL, "status", 'system', 'Lifecycle backfill', CURRENT_TIMESTAMP FROM "operations";
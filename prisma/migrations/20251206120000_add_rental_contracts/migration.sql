@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "rental_contracts" (
+    "id" BIGSERIAL NOT NULL,
+    "operation_id" BIGINT NOT NULL,
+    "rent_amount" DECIMAL(65,30) NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3),
+    "adjustment_index" TEXT NOT NULL DEFAULT 'NONE',
+    "next_adjustment_at" TIMESTAMP(3),
+    "months_ahead" INTEGER NOT NULL DEFAULT 3,
+    "charges_generated" INTEGER NOT NULL DEFAULT 0,
+    "deposit_amount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "deposit_status" TEXT NOT NULL DEFAULT 'NONE',
+    "deposit_returned_amount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "deposit_retained_amount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "deposit_notes" TEXT,
+    "deposit_settled_at" TIMESTAMP(3),
+    "ended_at" TIMESTAMP(3),
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rental_contracts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rent_adjustments" (
+    "id" BIGSERIAL NOT NULL,
+    "contract_id" BIGINT NOT NULL,
+    "index" TEXT NOT NULL,
+    "percent" DECIMAL(65,30) NOT NULL,
+    "previous_amount" DECIMAL(65,30) NOT NULL,
+    "new_amount" DECIMAL(65,30) NOT NULL,
+    "effective_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rent_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "economic_index_rates" (
+    "id" SERIAL NOT NULL,
+    "index" TEXT NOT NULL,
+    "reference_month" DATE NOT NULL,
+    "rate" DECIMAL(65,30) NOT NULL,
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "economic_index_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rental_contracts_operation_id_key" ON "rental_contracts"("operation_id");
+
+-- CreateIndex
+CREATE INDEX "idx_rental_contract_ended_at" ON "rental_contracts"("ended_at");
+
+-- CreateIndex
+CREATE INDEX "idx_rent_adjustment_contract_id" ON "rent_adjustments"("contract_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "economic_index_rates_index_reference_month_key" ON "economic_index_rates"("index", "reference_month");
+
+-- AddForeignKey
+ALTER TABLE "rental_contracts" ADD CONSTRAINT "rental_contracts_operation_id_fkey" FOREIGN KEY ("operation_id") REFERENCES "operations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rent_adjustments" ADD CONSTRAINT "rent_adjustments_contract_id_fkey" FOREIGN KEY ("contract_id") REFERENCES "rental_contracts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
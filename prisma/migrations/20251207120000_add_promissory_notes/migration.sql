@@ -0,0 +1,74 @@
+-- CreateTable
+CREATE TABLE "promissory_notes" (
+    "id" BIGSERIAL NOT NULL,
+    "account_id" INTEGER NOT NULL,
+    "operation_id" BIGINT NOT NULL,
+    "installment_id" BIGINT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "total_notes" INTEGER NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'BRL',
+    "issue_date" TIMESTAMP(3) NOT NULL,
+    "due_date" TIMESTAMP(3) NOT NULL,
+    "issue_place" TEXT,
+    "payment_place" TEXT,
+    "issuer" JSONB NOT NULL,
+    "beneficiary" JSONB NOT NULL,
+    "guarantor" JSONB,
+    "guarantor_client_id" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'ISSUED',
+    "paid_at" TIMESTAMP(3),
+    "protested_at" TIMESTAMP(3),
+    "protest_notes" TEXT,
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promissory_notes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "promissory_note_endorsements" (
+    "id" BIGSERIAL NOT NULL,
+    "note_id" BIGINT NOT NULL,
+    "endorsee_name" TEXT NOT NULL,
+    "endorsee_document" TEXT,
+    "endorsed_at" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promissory_note_endorsements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promissory_notes_installment_id_key" ON "promissory_notes"("installment_id");
+
+-- CreateIndex
+CREATE INDEX "idx_promissory_note_operation_id" ON "promissory_notes"("operation_id");
+
+-- CreateIndex
+CREATE INDEX "idx_promissory_note_status" ON "promissory_notes"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promissory_notes_account_id_number_key" ON "promissory_notes"("account_id", "number");
+
+-- CreateIndex
+CREATE INDEX "idx_promissory_note_endorsement_note_id" ON "promissory_note_endorsements"("note_id");
+
+-- AddForeignKey
+ALTER TABLE "promissory_notes" ADD CONSTRAINT "promissory_notes_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promissory_notes" ADD CONSTRAINT "promissory_notes_operation_id_fkey" FOREIGN KEY ("operation_id") REFERENCES "operations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promissory_notes" ADD CONSTRAINT "promissory_notes_installment_id_fkey" FOREIGN KEY ("installment_id") REFERENCES "installments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promissory_notes" ADD CONSTRAINT "promissory_notes_guarantor_client_id_fkey" FOREIGN KEY ("guarantor_client_id") REFERENCES "clients"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promissory_note_endorsements" ADD CONSTRAINT "promissory_note_endorsements_note_id_fkey" FOREIGN KEY ("note_id") REFERENCES "promissory_notes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "pix_charges" (
+    "id" BIGSERIAL NOT NULL,
+    "account_id" INTEGER NOT NULL,
+    "installment_id" BIGINT NOT NULL,
+    "txid" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "pix_key" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "paid_at" TIMESTAMP(3),
+    "payment_id" BIGINT,
+    "end_to_end_id" TEXT,
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pix_charges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pix_charges_txid_key" ON "pix_charges"("txid");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pix_charges_payment_id_key" ON "pix_charges"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "idx_pix_charge_installment_status" ON "pix_charges"("installment_id", "status");
+
+-- CreateIndex
+CREATE INDEX "idx_pix_charge_account_id" ON "pix_charges"("account_id");
+
+-- AddForeignKey
+ALTER TABLE "pix_charges" ADD CONSTRAINT "pix_charges_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pix_charges" ADD CONSTRAINT "pix_charges_installment_id_fkey" FOREIGN KEY ("installment_id") REFERENCES "installments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pix_charges" ADD CONSTRAINT "pix_charges_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "payment_webhook_events" (
+    "id" BIGSERIAL NOT NULL,
+    "provider" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'RECEIVED',
+    "reference" TEXT,
+    "amount" DECIMAL(65,30),
+    "currency" TEXT,
+    "paid_at" TIMESTAMP(3),
+    "method" TEXT,
+    "payload" JSONB NOT NULL,
+    "account_id" INTEGER,
+    "installment_id" BIGINT,
+    "payment_id" BIGINT,
+    "error" TEXT,
+    "notes" TEXT,
+    "processed_at" TIMESTAMP(3),
+    "resolved_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_webhook_events_payment_id_key" ON "payment_webhook_events"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "idx_payment_webhook_event_status" ON "payment_webhook_events"("status");
+
+-- CreateIndex
+CREATE INDEX "idx_payment_webhook_event_reference" ON "payment_webhook_events"("reference");
+
+-- CreateIndex
+CREATE INDEX "idx_payment_webhook_event_account_id" ON "payment_webhook_events"("account_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_webhook_events_provider_event_id_key" ON "payment_webhook_events"("provider", "event_id");
+
+-- AddForeignKey
+ALTER TABLE "payment_webhook_events" ADD CONSTRAINT "payment_webhook_events_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_webhook_events" ADD CONSTRAINT "payment_webhook_events_installment_id_fkey" FOREIGN KEY ("installment_id") REFERENCES "installments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_webhook_events" ADD CONSTRAINT "payment_webhook_events_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,68 @@
+-- CreateTable
+CREATE TABLE "bank_statements" (
+    "id" BIGSERIAL NOT NULL,
+    "account_id" INTEGER NOT NULL,
+    "format" TEXT NOT NULL,
+    "file_name" TEXT,
+    "transaction_count" INTEGER NOT NULL DEFAULT 0,
+    "duplicate_count" INTEGER NOT NULL DEFAULT 0,
+    "skipped_count" INTEGER NOT NULL DEFAULT 0,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bank_statements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_statement_transactions" (
+    "id" BIGSERIAL NOT NULL,
+    "statement_id" BIGINT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "external_id" TEXT,
+    "posted_at" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "description" TEXT,
+    "payer_name" TEXT,
+    "payer_document" TEXT,
+    "reference" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'UNMATCHED',
+    "installment_id" BIGINT,
+    "match_score" INTEGER,
+    "match_reasons" JSONB,
+    "payment_id" BIGINT,
+    "error" TEXT,
+    "confirmed_at" TIMESTAMP(3),
+    "confirmed_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bank_statement_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_bank_statement_account_id" ON "bank_statements"("account_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_statement_transactions_fingerprint_key" ON "bank_statement_transactions"("fingerprint");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_statement_transactions_payment_id_key" ON "bank_statement_transactions"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "idx_bank_statement_transaction_statement_status" ON "bank_statement_transactions"("statement_id", "status");
+
+-- CreateIndex
+CREATE INDEX "idx_bank_statement_transaction_installment_id" ON "bank_statement_transactions"("installment_id");
+
+-- AddForeignKey
+ALTER TABLE "bank_statements" ADD CONSTRAINT "bank_statements_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_transactions" ADD CONSTRAINT "bank_statement_transactions_statement_id_fkey" FOREIGN KEY ("statement_id") REFERENCES "bank_statements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_transactions" ADD CONSTRAINT "bank_statement_transactions_installment_id_fkey" FOREIGN KEY ("installment_id") REFERENCES "installments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_transactions" ADD CONSTRAINT "bank_statement_transactions_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
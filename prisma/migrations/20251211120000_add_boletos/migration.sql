@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "boletos" (
+    "id" BIGSERIAL NOT NULL,
+    "account_id" INTEGER NOT NULL,
+    "installment_id" BIGINT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "bank_code" TEXT NOT NULL,
+    "nosso_numero" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "due_date" TIMESTAMP(3) NOT NULL,
+    "barcode" TEXT NOT NULL,
+    "digitable_line" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ISSUED',
+    "remessa_id" BIGINT,
+    "paid_at" TIMESTAMP(3),
+    "paid_amount" DECIMAL(65,30),
+    "payment_id" BIGINT,
+    "error" TEXT,
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "boletos_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "boleto_remessas" (
+    "id" BIGSERIAL NOT NULL,
+    "account_id" INTEGER NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "bank_code" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "boleto_count" INTEGER NOT NULL,
+    "total_amount" DECIMAL(65,30) NOT NULL,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "boleto_remessas_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "boletos_payment_id_key" ON "boletos"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "idx_boleto_account_nosso_numero" ON "boletos"("account_id", "nosso_numero");
+
+-- CreateIndex
+CREATE INDEX "idx_boleto_installment_status" ON "boletos"("installment_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "boletos_account_id_sequence_key" ON "boletos"("account_id", "sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "boleto_remessas_account_id_sequence_key" ON "boleto_remessas"("account_id", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "boletos" ADD CONSTRAINT "boletos_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "boletos" ADD CONSTRAINT "boletos_installment_id_fkey" FOREIGN KEY ("installment_id") REFERENCES "installments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "boletos" ADD CONSTRAINT "boletos_remessa_id_fkey" FOREIGN KEY ("remessa_id") REFERENCES "boleto_remessas"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "boletos" ADD CONSTRAINT "boletos_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "boleto_remessas" ADD CONSTRAINT "boleto_remessas_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "message_templates" (
+    "id" SERIAL NOT NULL,
+    "account_id" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "locale" TEXT NOT NULL DEFAULT 'pt-BR',
+    "channel" TEXT,
+    "subject" TEXT,
+    "body" TEXT NOT NULL,
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "deleted_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "message_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_message_template_account_key" ON "message_templates"("account_id", "key");
+
+-- CreateIndex
+CREATE INDEX "idx_message_template_deleted_at" ON "message_templates"("deleted_at");
+
+-- AddForeignKey
+ALTER TABLE "message_templates" ADD CONSTRAINT "message_templates_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
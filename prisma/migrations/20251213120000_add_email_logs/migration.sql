@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "email_logs" (
+    "id" SERIAL NOT NULL,
+    "account_id" INTEGER,
+    "to" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "locale" TEXT NOT NULL DEFAULT 'pt-BR',
+    "subject" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "provider" TEXT,
+    "provider_message_id" TEXT,
+    "error" TEXT,
+    "reference" TEXT,
+    "meta" JSONB,
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_email_log_account_id" ON "email_logs"("account_id");
+
+-- CreateIndex
+CREATE INDEX "idx_email_log_to" ON "email_logs"("to");
+
+-- CreateIndex
+CREATE INDEX "idx_email_log_template" ON "email_logs"("template");
+
+-- CreateIndex
+CREATE INDEX "idx_email_log_status" ON "email_logs"("status");
+
+-- CreateIndex
+CREATE INDEX "idx_email_log_created_at" ON "email_logs"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "email_logs" ADD CONSTRAINT "email_logs_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
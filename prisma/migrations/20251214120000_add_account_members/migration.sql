@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "account_members" (
+    "id" SERIAL NOT NULL,
+    "account_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'agent',
+    "last_accessed_at" TIMESTAMP(3),
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "deleted_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "account_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "account_invitations" (
+    "id" SERIAL NOT NULL,
+    "account_id" INTEGER NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "invited_by_id" INTEGER,
+    "accepted_by_id" INTEGER,
+    "accepted_at" TIMESTAMP(3),
+    "created_by" TEXT,
+    "updated_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "account_invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "account_members_account_id_user_id_key" ON "account_members"("account_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_account_member_user_id" ON "account_members"("user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_account_member_account_deleted" ON "account_members"("account_id", "deleted_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "account_invitations_token_hash_key" ON "account_invitations"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "idx_account_invitation_account_status" ON "account_invitations"("account_id", "status");
+
+-- CreateIndex
+CREATE INDEX "idx_account_invitation_email" ON "account_invitations"("email");
+
+-- AddForeignKey
+ALTER TABLE "account_members" ADD CONSTRAINT "account_members_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "account_members" ADD CONSTRAINT "account_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "platform_users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "account_invitations" ADD CONSTRAINT "account_invitations_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "account_invitations" ADD CONSTRAINT "account_invitations_invited_by_id_fkey" FOREIGN KEY ("invited_by_id") REFERENCES "platform_users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing owners become members of their accounts; the newest account stays the active one
+INSERT INTO "account_members" ("account_id", "user_id", "role", "last_accessed_at", "created_at", "updated_at")
+SELECT "id", "owner_id", 'owner', "created_at", "created_at", CURRENT_TIMESTAMP
+FROM "accounts"
+WHERE "owner_id" IS NOT NULL AND "deleted_at" IS NULL;
@@ -0,0 +1,10 @@
+-- Alerts that were already due before the notification dispatcher existed were never sent:
+-- cancel them (same marker as stale reminders) so its first run does not deliver the backlog
+UPDATE "alerts"
+SET "enabled" = false,
+    "meta" = (CASE WHEN jsonb_typeof("meta") = 'object' THEN "meta" ELSE '{}'::jsonb END)
+        || jsonb_build_object('cancelledAt', to_char(CURRENT_TIMESTAMP AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')),
+    "updated_at" = CURRENT_TIMESTAMP
+WHERE "enabled" = true
+  AND "deleted_at" IS NULL
+  AND "send_at" <= (CURRENT_TIMESTAMP AT TIME ZONE 'UTC');
@@ -0,0 +1,175 @@
+/**
+ * Account Members Tests
+ */
+
+import HttpStatusCodes from '../common/HttpStatusCodes';
+import { IReq, IRes } from '../common/types';
+import { AccountMembersController } from '../controllers/accountMembersController';
+import { AccountMembersService } from '../services/accountMembersService';
+import {
+  createInvitationToken,
+  hashInvitationToken,
+  invitationStatus,
+  seatsLeft,
+} from '../utils/accountMembers';
+import { renderEmail } from '../utils/emailTemplates';
+
+describe('invitations', () => {
+  it('should store only the hash of the emailed token', () => {
+    const { token, tokenHash } = createInvitationToken();
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(tokenHash).toBe(hashInvitationToken(token));
+    expect(tokenHash).not.toBe(token);
+    expect(createInvitationToken().token).not.toBe(token);
+  });
+
+  it('should report pending invitations past their expiration as expired', () => {
+    const now = new Date('2025-03-10T12:00:00Z');
+    const expiresAt = new Date('2025-03-10T11:59:59Z');
+
+    expect(invitationStatus({ status: 'PENDING', expiresAt }, now)).toBe('EXPIRED');
+    expect(invitationStatus({ status: 'PENDING', expiresAt: new Date('2025-03-17T12:00:00Z') }, now)).toBe('PENDING');
+    expect(invitationStatus({ status: 'ACCEPTED', expiresAt }, now)).toBe('ACCEPTED');
+  });
+
+  it('should render the invitation email with the role in the locale', () => {
+    const email = renderEmail('invitation', 'pt-BR', {
+      inviterName: 'Ana',
+      accountName: 'Imobiliária Centro',
+      role: 'operador(a)',
+      link: 'http://localhost:5173/invitations/accept?token=abc',
+      days: 7,
+    });
+
+    expect(email.subject).toBe('Ana convidou você para Imobiliária Centro');
+    expect(email.text).toContain('como operador(a)');
+    expect(email.text).toContain('http://localhost:5173/invitations/accept?token=abc');
+  });
+});
+
+describe('seatsLeft', () => {
+  it('should count members and pending invitations against maxUsers', () => {
+    expect(seatsLeft(5, 3, 1)).toBe(1);
+    expect(seatsLeft(3, 2, 1)).toBe(0);
+    expect(seatsLeft(2, 3)).toBe(0);
+  });
+
+  it('should be unlimited without maxUsers', () => {
+    expect(seatsLeft(null, 50, 10)).toBeNull();
+    expect(seatsLeft(undefined, 1)).toBeNull();
+  });
+});
+
+describe('AccountMembersController errors', () => {
+  function remove(error: Error) {
+    const accountMembersService = { removeMember: jest.fn().mockRejectedValue(error) };
+    const controller = new AccountMembersController({ accountMembersService: accountMembersService as any });
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+    const req = { params: { id: '1', userId: '2' }, query: {}, body: {}, user: { id: 10 } } as unknown as IReq;
+    return { res, call: () => controller.delete(req, res as unknown as IRes) };
+  }
+
+  it('should map known service errors to their status', async () => {
+    const notFound = remove(new Error('Member not found'));
+    await notFound.call();
+    expect(notFound.res.status).toHaveBeenCalledWith(HttpStatusCodes.NOT_FOUND);
+
+    const owner = remove(new Error('The account owner cannot be removed'));
+    await owner.call();
+    expect(owner.res.status).toHaveBeenCalledWith(HttpStatusCodes.BAD_REQUEST);
+  });
+
+  it('should leave unexpected errors to the error middleware', async () => {
+    const { res, call } = remove(new Error('Connection terminated unexpectedly'));
+
+    await expect(call()).rejects.toThrow('Connection terminated unexpectedly');
+    expect(res.status).not.toHaveBeenCalled();
+  });
+});
+
+describe('AccountMembersService.acceptInvitation', () => {
+  const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  function setup(maxUsers: number, members: number) {
+    const invitations = new Map<string, Record<string, any>>();
+    const memberships: Record<string, any>[] = Array.from({ length: members }, (_, i) => ({ userId: i + 1 }));
+    let users = 100;
+    // Transactions run one after the other, as the account row lock makes them
+    let queue: Promise<unknown> = Promise.resolve();
+    const prisma: any = {
+      accountInvitation: {
+        findUnique: async ({ where }: any) => {
+          const invitation = invitations.get(where.tokenHash);
+          return invitation && { ...invitation };
+        },
+        updateMany: async ({ where, data }: any) => {
+          const invitation = Array.from(invitations.values()).find((i) => i.id === where.id);
+          if (!invitation || invitation.status !== where.status) return { count: 0 };
+          Object.assign(invitation, data);
+          return { count: 1 };
+        },
+      },
+      platformUser: {
+        findFirst: async () => null,
+        create: async ({ data }: any) => ({ id: ++users, ...data }),
+      },
+      accountMember: {
+        count: async () => memberships.length,
+        upsert: async ({ create }: any) => {
+          memberships.push(create);
+          return create;
+        },
+      },
+      $queryRaw: async () => [],
+      $transaction: (fn: (tx: any) => Promise<unknown>) => {
+        const run = queue.then(() => fn(prisma));
+        queue = run.catch(() => undefined);
+        return run;
+      },
+    };
+    const invite = (id: number, token: string) => {
+      invitations.set(hashInvitationToken(token), {
+        id,
+        accountId: 1,
+        email: `user${id}@example.com`,
+        role: 'seller',
+        status: 'PENDING',
+        expiresAt,
+        account: { deletedAt: null, plan: { maxUsers } },
+      });
+    };
+    return { service: new AccountMembersService({ prisma }), invite, memberships };
+  }
+
+  const accept = (token: string) => ({ token, name: 'Maria', password: 'Str0ng!Passw0rd' });
+
+  it('should accept an invitation once when it is used twice at once', async () => {
+    const { service, invite, memberships } = setup(10, 1);
+    invite(1, 'token-1');
+
+    const results = await Promise.allSettled([
+      service.acceptInvitation(accept('token-1')),
+      service.acceptInvitation(accept('token-1')),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(memberships).toHaveLength(2);
+  });
+
+  it('should recount the seats when invitations are accepted at once', async () => {
+    const { service, invite, memberships } = setup(2, 1);
+    invite(1, 'token-1');
+    invite(2, 'token-2');
+
+    const results = await Promise.allSettled([
+      service.acceptInvitation(accept('token-1')),
+      service.acceptInvitation(accept('token-2')),
+    ]);
+
+    expect(results.filter((r) => r.status === 'rejected')).toEqual([
+      expect.objectContaining({ reason: new Error('User limit reached: the plan allows 2 users') }),
+    ]);
+    expect(memberships).toHaveLength(2);
+  });
+});
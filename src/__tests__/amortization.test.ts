@@ -0,0 +1,87 @@
+/**
+ * Amortization Schedule Tests
+ */
+
+import { generateAmortizationSchedule } from '../utils/amortization';
+import { AmortizationSystem } from '../constants/enums';
+
+const sum = (values: number[]) => Math.round(values.reduce((acc, value) => acc + value, 0) * 100) / 100;
+
+describe('generateAmortizationSchedule', () => {
+  const baseInput = {
+    financedAmount: 1000,
+    interestRate: 2,
+    count: 3,
+    startDate: new Date('2024-01-15T00:00:00Z'),
+    frequency: 'MONTHLY',
+  };
+
+  describe('PRICE', () => {
+    it('should generate fixed installments with decreasing interest', () => {
+      const schedule = generateAmortizationSchedule({ ...baseInput, system: AmortizationSystem.PRICE });
+
+      expect(schedule).toHaveLength(3);
+      expect(schedule[0].amount).toBe(346.75);
+      expect(schedule[1].amount).toBe(346.75);
+      expect(schedule[0].interest).toBe(20);
+      expect(schedule[1].interest).toBeLessThan(schedule[0].interest);
+      expect(sum(schedule.map((i) => i.principal))).toBe(1000);
+      expect(schedule[2].balance).toBe(0);
+    });
+
+    it('should split evenly when there is no interest', () => {
+      const schedule = generateAmortizationSchedule({
+        ...baseInput,
+        interestRate: 0,
+        system: AmortizationSystem.PRICE,
+      });
+
+      expect(schedule.map((i) => i.amount)).toEqual([333.33, 333.33, 333.34]);
+      expect(sum(schedule.map((i) => i.amount))).toBe(1000);
+    });
+  });
+
+  describe('SAC', () => {
+    it('should keep principal constant and land residue on the last installment', () => {
+      const schedule = generateAmortizationSchedule({ ...baseInput, system: AmortizationSystem.SAC });
+
+      expect(schedule.map((i) => i.principal)).toEqual([333.33, 333.33, 333.34]);
+      expect(schedule.map((i) => i.interest)).toEqual([20, 13.33, 6.67]);
+      expect(sum(schedule.map((i) => i.principal))).toBe(1000);
+    });
+  });
+
+  describe('SIMPLE', () => {
+    it('should charge simple interest over the financed amount', () => {
+      const schedule = generateAmortizationSchedule({ ...baseInput, system: AmortizationSystem.SIMPLE });
+
+      expect(sum(schedule.map((i) => i.interest))).toBe(60);
+      expect(sum(schedule.map((i) => i.amount))).toBe(1060);
+    });
+  });
+
+  describe('BULLET', () => {
+    it('should pay only interest until the last installment', () => {
+      const schedule = generateAmortizationSchedule({ ...baseInput, system: AmortizationSystem.BULLET });
+
+      expect(schedule.map((i) => i.principal)).toEqual([0, 0, 1000]);
+      expect(schedule.map((i) => i.amount)).toEqual([20, 20, 1020]);
+    });
+  });
+
+  it('should compute due dates from frequency', () => {
+    const schedule = generateAmortizationSchedule({
+      ...baseInput,
+      frequency: 'WEEKLY',
+      system: AmortizationSystem.PRICE,
+    });
+
+    expect(schedule[0].dueDate).toEqual(new Date('2024-01-22T00:00:00Z'));
+  });
+
+  it('should reject unsupported systems', () => {
+    expect(() => generateAmortizationSchedule({ ...baseInput, system: 'UNKNOWN' })).toThrow(
+      'Unsupported amortization system: UNKNOWN'
+    );
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Auth Sessions Tests
+ */
+
+import { SessionRevokeReason } from '../constants/enums';
+import { AuthSessionsService } from '../services/authSessionsService';
+import {
+  createRefreshToken,
+  describeDevice,
+  hashRefreshToken,
+  isSessionActive,
+  parseRefreshToken,
+  shouldTouchSession,
+} from '../utils/authSessions';
+
+// In-memory authSession table with the calls the service makes
+function fakePrisma() {
+  const sessions: Record<string, any>[] = [];
+  const audit: Record<string, any>[] = [];
+  const matches = (row: Record<string, any>, where: Record<string, any>) =>
+    Object.entries(where).every(([key, value]) =>
+      value && typeof value === 'object' && 'gt' in value ? row[key] > value.gt : row[key] === value
+    );
+
+  const prisma: any = {
+    authSession: {
+      create: async ({ data }: any) => {
+        const session = { id: sessions.length + 1, revokedAt: null, lastUsedAt: new Date(), ...data };
+        sessions.push(session);
+        return { ...session };
+      },
+      findUnique: async ({ where }: any) => sessions.find((row) => row.id === where.id) ?? null,
+      findUniqueOrThrow: async ({ where }: any) => sessions.find((row) => row.id === where.id),
+      update: async ({ where, data }: any) => Object.assign(sessions.find((row) => row.id === where.id)!, data),
+      updateMany: async ({ where, data }: any) => {
+        const rows = sessions.filter((row) => matches(row, where));
+        rows.forEach((row) => Object.assign(row, data));
+        return { count: rows.length };
+      },
+    },
+    auditLog: { create: async ({ data }: any) => audit.push(data) },
+    $transaction: (fn: (tx: any) => Promise<unknown>) => fn(prisma),
+  };
+  return { prisma, sessions, audit };
+}
+
+const inThirtyDays = () => new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+const laptop = { ip: '10.0.0.1', userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/126.0 Safari/537.36' };
+const phone = { ip: '10.0.0.3', userAgent: 'Mozilla/5.0 (Linux; Android 14) Chrome/126.0 Mobile Safari/537.36' };
+
+describe('refresh tokens', () => {
+  it('should carry the session id and store only the hash', () => {
+    const { token, tokenHash } = createRefreshToken(42);
+
+    expect(token).toMatch(/^42\.[0-9a-f]{64}$/);
+    expect(tokenHash).toBe(hashRefreshToken(token));
+    expect(parseRefreshToken(token)).toBe(42);
+    expect(parseRefreshToken('eyJhbGciOiJIUzI1NiJ9.e30.x')).toBeNull();
+  });
+
+  it('should describe the device of the user agent', () => {
+    const iPhone = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) Version/17.5 Mobile Safari/604.1';
+
+    expect(describeDevice(laptop.userAgent)).toBe('Chrome on Windows');
+    expect(describeDevice(iPhone)).toBe('Safari on iOS');
+    expect(describeDevice('curl/8.4.0')).toBeNull();
+    expect(describeDevice(undefined)).toBeNull();
+  });
+
+  it('should treat revoked and expired sessions as inactive', () => {
+    const now = new Date('2025-03-10T12:00:00Z');
+
+    expect(isSessionActive({ revokedAt: null, expiresAt: new Date('2025-04-09T12:00:00Z') }, now)).toBe(true);
+    expect(isSessionActive({ revokedAt: now, expiresAt: new Date('2025-04-09T12:00:00Z') }, now)).toBe(false);
+    expect(isSessionActive({ revokedAt: null, expiresAt: new Date('2025-03-10T11:00:00Z') }, now)).toBe(false);
+    expect(shouldTouchSession(new Date('2025-03-10T11:56:00Z'), now)).toBe(false);
+    expect(shouldTouchSession(new Date('2025-03-10T11:55:00Z'), now)).toBe(true);
+  });
+});
+
+describe('AuthSessionsService', () => {
+  it('should rotate the refresh token on every refresh', async () => {
+    const { prisma, sessions } = fakePrisma();
+    const service = new AuthSessionsService({ prisma });
+
+    const opened = await service.create(7, 1, laptop, inThirtyDays());
+    const refreshed = await service.rotate(opened.refreshToken, { ip: '10.0.0.2' }, inThirtyDays());
+
+    expect(refreshed.session.id).toBe(opened.session.id);
+    expect(refreshed.refreshToken).not.toBe(opened.refreshToken);
+    expect(sessions[0].refreshTokenHash).toBe(hashRefreshToken(refreshed.refreshToken));
+    expect(sessions[0].device).toBeNull();
+    expect(sessions[0].ip).toBe('10.0.0.2');
+  });
+
+  it('should revoke the session when a rotated refresh token is used again', async () => {
+    const { prisma, sessions, audit } = fakePrisma();
+    const service = new AuthSessionsService({ prisma });
+    const opened = await service.create(7, 1, laptop, inThirtyDays());
+    const refreshed = await service.rotate(opened.refreshToken, laptop, inThirtyDays());
+
+    await expect(service.rotate(opened.refreshToken, laptop, inThirtyDays())).rejects.toMatchObject({
+      message: 'Refresh token reuse detected',
+    });
+    expect(sessions[0].revokedReason).toBe(SessionRevokeReason.REUSE_DETECTED);
+    expect(audit[0].action).toBe('SESSION_REUSE_DETECTED');
+
+    // The legitimate holder is signed out too
+    await expect(service.rotate(refreshed.refreshToken, laptop, inThirtyDays())).rejects.toMatchObject({
+      message: 'Invalid refresh token',
+    });
+    expect(await service.findActive(opened.session.id)).toBeNull();
+  });
+
+  it('should only let users revoke their own sessions', async () => {
+    const { prisma } = fakePrisma();
+    const service = new AuthSessionsService({ prisma });
+    const mine = await service.create(7, 1, laptop, inThirtyDays());
+    const other = await service.create(8, 2, laptop, inThirtyDays());
+
+    await expect(service.revoke(7, other.session.id, SessionRevokeReason.REVOKED)).rejects.toMatchObject({
+      message: 'Session not found',
+    });
+    await service.revoke(7, mine.session.id, SessionRevokeReason.REVOKED);
+
+    expect(await service.findActive(mine.session.id)).toBeNull();
+    expect((await service.findActive(other.session.id))!.userId).toBe(8);
+  });
+
+  it('should log out everywhere', async () => {
+    const { prisma } = fakePrisma();
+    const service = new AuthSessionsService({ prisma });
+    const onPhone = await service.create(7, 1, phone, inThirtyDays());
+    await service.create(7, 1, laptop, inThirtyDays());
+
+    expect(onPhone.session.device).toBe('Chrome on Android');
+    expect(await service.revokeAll(7, SessionRevokeReason.LOGOUT_ALL)).toBe(2);
+    await expect(service.rotate(onPhone.refreshToken, phone, inThirtyDays())).rejects.toMatchObject({
+      message: 'Invalid refresh token',
+    });
+  });
+});
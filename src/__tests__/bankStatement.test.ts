@@ -0,0 +1,298 @@
+/**
+ * Bank Statement Parsing and Matching Tests
+ */
+
+import { BankStatementsService } from '../services/bankStatementsService';
+import {
+  detectStatementFormat,
+  extractDocument,
+  MatchCandidate,
+  mentionsReference,
+  parseBankStatement,
+  parseStatementAmount,
+  proposeMatches,
+  scoreMatch,
+  StatementTransaction,
+} from '../utils/bankStatement';
+
+// Fixed-width record with fields at 1-based positions
+function record(length: number, fields: Array<[number, string]>): string {
+  const chars = ' '.repeat(length).split('');
+  for (const [start, value] of fields) {
+    value.split('').forEach((char, i) => (chars[start - 1 + i] = char));
+  }
+  return chars.join('');
+}
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+describe('parseStatementAmount', () => {
+  it('should read Brazilian and international formats', () => {
+    expect(parseStatementAmount('1.234,56')).toBe(1234.56);
+    expect(parseStatementAmount('1,234.56')).toBe(1234.56);
+    expect(parseStatementAmount('R$ -10,00')).toBe(-10);
+    expect(parseStatementAmount('150.00')).toBe(150);
+    expect(parseStatementAmount('abc')).toBeNull();
+  });
+});
+
+describe('extractDocument', () => {
+  it('should find a CPF or CNPJ in the description', () => {
+    expect(extractDocument('PIX RECEBIDO 123.456.789-09 FULANO')).toBe('12345678909');
+    expect(extractDocument('TED 12.345.678/0001-90 EMPRESA')).toBe('12345678000190');
+    expect(extractDocument('DOC 98765432100 MARIA')).toBe('98765432100');
+    expect(extractDocument('TARIFA BANCARIA')).toBeNull();
+  });
+});
+
+describe('parseBankStatement', () => {
+  it('should parse OFX 1.x without closing tags', () => {
+    const ofx = [
+      'OFXHEADER:100',
+      'DATA:OFXSGML',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+      '<STMTTRN>',
+      '<TRNTYPE>CREDIT',
+      '<DTPOSTED>20250310120000[-3:BRT]',
+      '<TRNAMT>150.00',
+      '<FITID>202503100001',
+      '<MEMO>PIX RECEBIDO 123.456.789-09 FULANO INST42',
+      '<STMTTRN>',
+      '<TRNTYPE>DEBIT',
+      '<DTPOSTED>20250311',
+      '<TRNAMT>-12,50',
+      '<FITID>202503110002',
+      '<MEMO>TARIFA',
+      '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+    ].join('\n');
+
+    const parsed = parseBankStatement(ofx);
+
+    expect(parsed.format).toBe('OFX');
+    expect(parsed.transactions).toHaveLength(2);
+    expect(parsed.transactions[0]).toMatchObject({
+      externalId: '202503100001',
+      amount: 150,
+      payerDocument: '12345678909',
+    });
+    expect(parsed.transactions[0].postedAt.toISOString()).toBe('2025-03-10T00:00:00.000Z');
+    expect(parsed.transactions[1].amount).toBe(-12.5);
+  });
+
+  it('should parse CSV with Portuguese headers and ; separator', () => {
+    const csv = [
+      'Data;Histórico;Valor;CPF/CNPJ;Referência',
+      '10/03/2025;"PIX RECEBIDO; FULANO";1.234,56;123.456.789-09;INST42',
+      '11/03/2025;TARIFA;-10,00;;',
+    ].join('\n');
+
+    const parsed = parseBankStatement(csv);
+
+    expect(parsed.format).toBe('CSV');
+    expect(parsed.transactions[0]).toMatchObject({
+      description: 'PIX RECEBIDO; FULANO',
+      amount: 1234.56,
+      payerDocument: '12345678909',
+      reference: 'INST42',
+    });
+    expect(parsed.transactions[1].amount).toBe(-10);
+  });
+
+  it('should reject CSV rows with an invalid date', () => {
+    expect(() => parseBankStatement('data,valor\n31/02/2025,10.00')).toThrow('Invalid bank statement file: line 2');
+  });
+
+  it('should parse CNAB 240 retorno settlements', () => {
+    const header = record(240, [[1, '341'], [4, '0000'], [8, '0']]);
+    const segmentT = record(240, [
+      [8, '3'], [14, 'T'], [16, '06'],
+      [38, '00000000000000012345'],
+      [59, 'INST42'],
+      [74, '10032025'],
+      [82, '000000000015000'],
+      [133, '1'], [134, '000012345678909'],
+      [149, 'FULANO DE TAL'],
+    ]);
+    const segmentU = record(240, [
+      [8, '3'], [14, 'U'], [16, '06'],
+      [18, '000000000000150'],
+      [78, '000000000015150'],
+      [138, '12032025'],
+      [146, '13032025'],
+    ]);
+    const baixa = record(240, [[8, '3'], [14, 'T'], [16, '02'], [38, '99']]);
+    const content = [header, segmentT, segmentU, baixa].join('\r\n');
+
+    expect(detectStatementFormat(content)).toBe('CNAB240');
+    const parsed = parseBankStatement(content);
+
+    expect(parsed.transactions).toHaveLength(1);
+    expect(parsed.transactions[0]).toMatchObject({
+      reference: '00000000000000012345',
+      amount: 151.5,
+      payerDocument: '12345678909',
+      payerName: 'FULANO DE TAL',
+    });
+    expect(parsed.transactions[0].description).toContain('INST42');
+    expect(parsed.transactions[0].postedAt.toISOString()).toBe('2025-03-13T00:00:00.000Z');
+  });
+
+  it('should parse CNAB 400 retorno settlements', () => {
+    const header = record(400, [[1, '0'], [2, '2RETORNO']]);
+    const detail = record(400, [
+      [1, '1'],
+      [71, '000000012345'],
+      [109, '06'],
+      [111, '120325'],
+      [117, 'INST42'],
+      [147, '100325'],
+      [153, '0000000015000'],
+      [254, '0000000015000'],
+    ]);
+
+    const parsed = parseBankStatement([header, detail].join('\n'));
+
+    expect(parsed.format).toBe('CNAB400');
+    expect(parsed.transactions).toHaveLength(1);
+    expect(parsed.transactions[0]).toMatchObject({ reference: '000000012345', amount: 150 });
+    expect(parsed.transactions[0].postedAt.toISOString()).toBe('2025-03-12T00:00:00.000Z');
+  });
+});
+
+describe('matching', () => {
+  const transaction = (overrides: Partial<StatementTransaction> = {}): StatementTransaction => ({
+    externalId: null,
+    postedAt: day('2025-03-10'),
+    amount: 150,
+    description: null,
+    payerName: null,
+    payerDocument: null,
+    reference: null,
+    ...overrides,
+  });
+
+  const candidate = (overrides: Partial<MatchCandidate> = {}): MatchCandidate => ({
+    installmentId: 1n,
+    dueDate: day('2025-03-08'),
+    clientDocument: '123.456.789-09',
+    amounts: [150],
+    references: ['INST1'],
+    ...overrides,
+  });
+
+  it('should score reference, amount, document and date', () => {
+    const proposal = scoreMatch(
+      transaction({ description: 'PIX INST1', payerDocument: '12345678909' }),
+      candidate()
+    );
+
+    expect(proposal).toEqual({ installmentId: 1n, score: 100, reasons: ['reference', 'amount', 'payer_document', 'date_window'] });
+  });
+
+  it('should accept amount within the date window', () => {
+    expect(scoreMatch(transaction(), candidate())?.score).toBe(40);
+  });
+
+  it('should not propose on document and date alone', () => {
+    expect(scoreMatch(transaction({ amount: 99, payerDocument: '12345678909' }), candidate())).toBeNull();
+  });
+
+  it('should not propose an amount outside the date window', () => {
+    expect(scoreMatch(transaction({ postedAt: day('2025-05-10') }), candidate())).toBeNull();
+  });
+
+  it('should find a boleto nosso número without its zero padding', () => {
+    expect(mentionsReference(transaction({ description: 'Liquidação boleto 00012345' }), '12345')).toBe(true);
+    expect(mentionsReference(transaction({ reference: 'INST12' }), '12')).toBe(false);
+  });
+
+  it('should propose each installment once, best score first', () => {
+    const proposals = proposeMatches(
+      [transaction(), transaction({ payerDocument: '12345678909' }), transaction({ amount: -150 })],
+      [candidate(), candidate({ installmentId: 2n, dueDate: day('2025-03-20'), clientDocument: null })]
+    );
+
+    expect(proposals[1]?.installmentId).toBe(1n);
+    expect(proposals[0]?.installmentId).toBe(2n);
+    expect(proposals[2]).toBeNull();
+  });
+});
+
+describe('BankStatementsService.confirm', () => {
+  // A statement with one credit of boleto 12345 and the installment it pays
+  function fakeStatement(boletoStatus: string) {
+    const transaction: Record<string, any> = {
+      id: 10n,
+      statementId: 1n,
+      status: 'PROPOSED',
+      installmentId: 5n,
+      amount: 150,
+      postedAt: day('2025-03-10'),
+      externalId: '00012345',
+      reference: '00012345',
+      description: 'Liquidação boleto 00012345',
+    };
+    const boleto: Record<string, any> = { id: 7n, nossoNumero: '12345', status: boletoStatus };
+    const payments: Record<string, unknown>[] = [];
+    const matches = (row: Record<string, any>, where: Record<string, any>) =>
+      Object.entries(where).every(([key, value]) =>
+        value?.in ? value.in.includes(row[key]) : value?.notIn ? !value.notIn.includes(row[key]) : row[key] === value
+      );
+    const table = (row: Record<string, any>) => ({
+      updateMany: async ({ where, data }: any) => {
+        if (!matches(row, where)) return { count: 0 };
+        Object.assign(row, data);
+        return { count: 1 };
+      },
+      update: async ({ data }: any) => Object.assign(row, data),
+    });
+
+    const prisma: any = {
+      bankStatement: { findUnique: async () => ({ id: 1n, accountId: 1 }) },
+      bankStatementTransaction: { ...table(transaction), findFirst: async () => ({ ...transaction }) },
+      installment: {
+        findFirst: async () => ({
+          id: 5n,
+          operationId: 1n,
+          status: 'PENDING',
+          operation: { currency: 'BRL' },
+          boletos: [{ id: boleto.id, nossoNumero: boleto.nossoNumero }],
+          pixCharges: [],
+        }),
+      },
+      boleto: table(boleto),
+      $transaction: (fn: (tx: any) => Promise<unknown>) => fn(prisma),
+    };
+    const service = new BankStatementsService({ prisma });
+    (service as any).paymentAllocationService = {
+      recordPayment: async (_tx: unknown, input: Record<string, unknown>) => {
+        payments.push(input);
+        return { id: 77n, client: { email: null } };
+      },
+      sendReceipt: () => undefined,
+    };
+    return { service, transaction, boleto, payments };
+  }
+
+  it('should mark the boleto named by the credit as paid', async () => {
+    const { service, transaction, boleto, payments } = fakeStatement('REGISTERED');
+
+    const result = await service.confirm(1n, { matches: [{ transactionId: '10' }] });
+
+    expect(result.confirmed).toBe(1);
+    expect(boleto.status).toBe('PAID');
+    expect(boleto.paymentId).toBe(77n);
+    expect(transaction.status).toBe('CONFIRMED');
+    expect(payments[0].method).toBe('BOLETO');
+  });
+
+  it('should not pay a boleto again that its retorno already settled', async () => {
+    const { service, payments } = fakeStatement('PAID');
+
+    const result = await service.confirm(1n, { matches: [{ transactionId: '10' }] });
+
+    expect(result.failed).toBe(1);
+    expect(result.results[0].error).toBe('Boleto 12345 is already paid or cancelled');
+    expect(payments).toHaveLength(0);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Boleto and CNAB Remessa/Retorno Tests
+ */
+
+import {
+  barcodeFromDigitableLine,
+  BOLETO_BANKS,
+  buildBoletoCodes,
+  dueDateFactor,
+  modulo10,
+  normalizeBoletoSettings,
+  resolveBoletoBank,
+} from '../utils/boleto';
+import { buildCnab240Remessa, cnabField, cnabRecord, parseCnab240Movements } from '../utils/cnab';
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+describe('boleto codes', () => {
+  it('should match the Banco do Brasil example', () => {
+    const codes = buildBoletoCodes({
+      bankCode: '001',
+      dueDate: day('2007-12-31'),
+      amount: 1,
+      freeField: '0500940144816060680935031',
+    });
+
+    expect(codes.barcode).toBe('00193373700000001000500940144816060680935031');
+    expect(codes.digitableLine).toBe('00190.50095 40144.816069 06809.350314 3 37370000000100');
+  });
+
+  it('should restart the due date factor after 9999', () => {
+    expect(dueDateFactor(day('2025-02-21'))).toBe('9999');
+    expect(dueDateFactor(day('2025-02-22'))).toBe('1000');
+    expect(dueDateFactor(day('2025-03-10'))).toBe('1016');
+  });
+
+  it('should convert the linha digitável back to the barcode', () => {
+    const codes = buildBoletoCodes({ bankCode: '237', dueDate: day('2025-03-10'), amount: 150, freeField: '1234090000000000112345670' });
+
+    expect(barcodeFromDigitableLine(codes.digitableLine)).toBe(codes.barcode);
+    expect(barcodeFromDigitableLine(codes.digitableLine.replace('23791', '23792'))).toBeNull();
+  });
+
+  it('should compute modulo 10', () => {
+    expect(modulo10('001905009')).toBe(5);
+    expect(modulo10('4014481606')).toBe(9);
+  });
+});
+
+describe('bank free fields', () => {
+  it('should build the Bradesco free field', () => {
+    const settings = normalizeBoletoSettings({ bankCode: '237', agency: '1234', account: '1234567', wallet: '09' });
+    const bank = resolveBoletoBank(settings);
+
+    expect(bank.nossoNumero(settings, 1)).toBe('00000000001');
+    expect(bank.freeField(settings, '00000000001')).toBe('1234090000000000112345670');
+  });
+
+  it('should build the Itaú free field with its check digits', () => {
+    const settings = normalizeBoletoSettings({ bankCode: 341, agency: '0057', account: '12345', wallet: '109' });
+    const freeField = BOLETO_BANKS['341'].freeField(settings, '12345678');
+
+    expect(freeField).toHaveLength(25);
+    expect(freeField.substring(0, 11)).toBe('10912345678');
+    expect(freeField.substring(12, 22)).toBe('0057123457');
+  });
+
+  it('should require a supported and complete agreement', () => {
+    expect(() => resolveBoletoBank(normalizeBoletoSettings(null))).toThrow('not configured');
+    expect(() => resolveBoletoBank(normalizeBoletoSettings({ bankCode: '999', agency: '1', account: '2' }))).toThrow(
+      'Bank 999 is not supported for boletos'
+    );
+    expect(() => resolveBoletoBank(normalizeBoletoSettings({ bankCode: '001', agency: '1', account: '2', agreement: '123' }))).toThrow(
+      '7-digit agreement'
+    );
+  });
+});
+
+describe('buildCnab240Remessa', () => {
+  const content = buildCnab240Remessa({
+    beneficiary: {
+      bankCode: '237',
+      bankName: 'BANCO BRADESCO S.A.',
+      document: '12.345.678/0001-90',
+      name: 'Crédito Fácil Ltda',
+      agreement: '1234567',
+      agency: '1234',
+      agencyDigit: '5',
+      account: '1234567',
+      accountDigit: '8',
+      wallet: '09',
+    },
+    sequence: 7,
+    generatedAt: new Date('2025-03-01T10:20:30.000Z'),
+    titles: [1, 2].map((n) => ({
+      nossoNumero: `0000000000${n}`,
+      documentNumber: `INST${40 + n}`,
+      issuedAt: day('2025-03-01'),
+      dueDate: day('2025-03-10'),
+      amount: 150.5,
+      monthlyInterestPercent: 1,
+      finePercent: 2,
+      chargesFrom: day('2025-03-11'),
+      payer: {
+        document: '123.456.789-09',
+        name: 'José da Silva',
+        address: 'Rua A 10',
+        district: 'Centro',
+        zipCode: '01001-000',
+        city: 'São Paulo',
+        state: 'SP',
+      },
+    })),
+  });
+  const lines = content.split('\r\n').filter((line) => line.length > 0);
+
+  it('should write 240-character records with header, P/Q/R segments and trailers', () => {
+    expect(lines.every((line) => line.length === 240)).toBe(true);
+    expect(lines.map((line) => (cnabField(line, 8, 8) === '3' ? `3${cnabField(line, 14, 14)}` : cnabField(line, 8, 8)))).toEqual([
+      '0', '1', '3P', '3Q', '3R', '3P', '3Q', '3R', '5', '9',
+    ]);
+  });
+
+  it('should fill the title fields', () => {
+    const segmentP = lines[2];
+    expect(cnabField(segmentP, 38, 57)).toBe('00000000000000000001');
+    expect(cnabField(segmentP, 63, 77).trim()).toBe('INST41');
+    expect(cnabField(segmentP, 78, 85)).toBe('10032025');
+    expect(cnabField(segmentP, 86, 100)).toBe('000000000015050');
+
+    const segmentQ = lines[3];
+    expect(cnabField(segmentQ, 19, 33)).toBe('000012345678909');
+    expect(cnabField(segmentQ, 34, 73).trim()).toBe('JOSE DA SILVA');
+    expect(cnabField(segmentQ, 137, 151).trim()).toBe('SAO PAULO');
+  });
+
+  it('should count records and totals in the trailers', () => {
+    expect(cnabField(lines[0], 158, 163)).toBe('000007');
+    expect(cnabField(lines[8], 18, 23)).toBe('000008');
+    expect(cnabField(lines[8], 24, 29)).toBe('000002');
+    expect(cnabField(lines[8], 30, 46)).toBe('00000000000030100');
+    expect(cnabField(lines[9], 24, 29)).toBe('000010');
+  });
+});
+
+describe('parseCnab240Movements', () => {
+  it('should read registrations, rejections and settlements', () => {
+    const segmentT = (code: string, nossoNumero: string, reasons = '') =>
+      cnabRecord(240, [[8, '3'], [14, 'T'], [16, code], [38, nossoNumero], [59, 'INST41'], [214, reasons]]);
+    const segmentU = (paid: string, date: string) =>
+      cnabRecord(240, [[8, '3'], [14, 'U'], [78, paid], [138, date]]);
+
+    const movements = parseCnab240Movements([
+      segmentT('02', '00000000000000000001'), segmentU('000000000000000', '02032025'),
+      segmentT('03', '00000000000000000002', 'A1B2'), segmentU('000000000000000', '02032025'),
+      segmentT('06', '00000000000000000001'), segmentU('000000000015050', '10032025'),
+    ].join('\n'));
+
+    expect(movements.map((m) => m.movementCode)).toEqual(['02', '03', '06']);
+    expect(movements[1].rejectionReasons).toBe('A1B2');
+    expect(movements[2]).toMatchObject({ paidAmount: 150.5, documentNumber: 'INST41' });
+    expect(movements[2].occurredAt?.toISOString()).toBe('2025-03-10T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Document Templates and Renderers Tests
+ */
+
+import { renderReceiptPdf } from '../utils/documentRenderers';
+import { DEFAULT_DOCUMENT_TEMPLATES, normalizeDocumentTemplates } from '../utils/documentTemplates';
+
+describe('normalizeDocumentTemplates', () => {
+  it('should fall back to the defaults', () => {
+    expect(normalizeDocumentTemplates(null)).toEqual(DEFAULT_DOCUMENT_TEMPLATES);
+    expect(normalizeDocumentTemplates('invalid')).toEqual(DEFAULT_DOCUMENT_TEMPLATES);
+  });
+
+  it('should merge partial templates', () => {
+    const templates = normalizeDocumentTemplates({
+      footer: 'contato@empresa.com',
+      contract: { title: 'CONTRATO DE MÚTUO' },
+      receipt: { notes: '' },
+    });
+
+    expect(templates.footer).toBe('contato@empresa.com');
+    expect(templates.contract.title).toBe('CONTRATO DE MÚTUO');
+    expect(templates.contract.clauses).toEqual(DEFAULT_DOCUMENT_TEMPLATES.contract.clauses);
+    expect(templates.receipt.title).toBe(DEFAULT_DOCUMENT_TEMPLATES.receipt.title);
+    expect(templates.receipt.notes).toBeNull();
+  });
+
+  it('should keep only text lines and clauses', () => {
+    const templates = normalizeDocumentTemplates({
+      header: { lines: ['(11) 4000-0000', 42] },
+      contract: { clauses: [] },
+    });
+
+    expect(templates.header.lines).toEqual(['(11) 4000-0000']);
+    expect(templates.contract.clauses).toEqual([]);
+  });
+});
+
+describe('renderReceiptPdf', () => {
+  it('should render a PDF with the amount in words', () => {
+    const pdf = renderReceiptPdf(
+      {
+        account: { name: 'Empresa', document: null, address: null },
+        client: { name: 'Maria', document: null, address: null },
+        payment: {
+          id: BigInt(1),
+          amount: 150,
+          currency: 'BRL',
+          paidAt: new Date('2024-03-10T00:00:00.000Z'),
+          method: 'PIX',
+          reference: null,
+          reversalOfId: null,
+          reversedAt: null,
+        },
+        operation: { id: BigInt(7), type: 'LOAN', title: null },
+        allocations: [],
+        issuedAt: new Date('2024-03-10T00:00:00.000Z'),
+      },
+      DEFAULT_DOCUMENT_TEMPLATES
+    );
+
+    const content = pdf.toString('latin1');
+    expect(content.startsWith('%PDF-')).toBe(true);
+    expect(content).toContain('cento e cinquenta reais');
+    expect(content).toContain('10/03/2024');
+  });
+});
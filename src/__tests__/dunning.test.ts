@@ -0,0 +1,109 @@
+/**
+ * Dunning Rules Tests
+ */
+
+import {
+  DEFAULT_DUNNING_RULES,
+  dunningStepType,
+  normalizeDunningRules,
+  planDunningAlerts,
+  reconcileDunningAlerts,
+} from '../utils/dunning';
+
+const rules = normalizeDunningRules({ enabled: true });
+const installments = [{ id: BigInt(41), dueDate: new Date('2025-03-10T00:00:00.000Z') }];
+
+describe('normalizeDunningRules', () => {
+  it('should default to the disabled standard cadence', () => {
+    expect(normalizeDunningRules(null)).toEqual(DEFAULT_DUNNING_RULES);
+    expect(rules.steps.map((s) => s.offsetDays)).toEqual([-3, 0, 1, 5, 15]);
+  });
+
+  it('should drop invalid steps and sort the rest', () => {
+    const normalized = normalizeDunningRules({
+      enabled: true,
+      sendHour: 30,
+      steps: [
+        { offsetDays: 5, channel: 'email', template: 'Olá {{client.name}}' },
+        { offsetDays: 'x' },
+        { offsetDays: -1, channel: 'SMS' },
+        { offsetDays: 5, channel: 'PUSH' },
+      ],
+    });
+
+    expect(normalized.sendHour).toBe(DEFAULT_DUNNING_RULES.sendHour);
+    expect(normalized.steps).toEqual([
+      { offsetDays: -1, channel: 'WHATSAPP', template: null },
+      { offsetDays: 5, channel: 'EMAIL', template: 'Olá {{client.name}}' },
+    ]);
+  });
+});
+
+describe('planDunningAlerts', () => {
+  it('should plan one alert per step at the send hour', () => {
+    const planned = planDunningAlerts(installments, rules);
+
+    expect(planned.map((p) => p.sendAt.toISOString())).toEqual([
+      '2025-03-07T12:00:00.000Z',
+      '2025-03-10T12:00:00.000Z',
+      '2025-03-11T12:00:00.000Z',
+      '2025-03-15T12:00:00.000Z',
+      '2025-03-25T12:00:00.000Z',
+    ]);
+    expect(planned[0]).toMatchObject({ type: 'PAYMENT_REMINDER', key: '41:2025-03-10:-3' });
+    expect(planDunningAlerts(installments, DEFAULT_DUNNING_RULES)).toEqual([]);
+  });
+
+  it('should type the steps by their offset', () => {
+    expect(dunningStepType(-3)).toBe('PAYMENT_REMINDER');
+    expect(dunningStepType(0)).toBe('PAYMENT_DUE');
+    expect(dunningStepType(5)).toBe('PAYMENT_OVERDUE');
+  });
+});
+
+describe('reconcileDunningAlerts', () => {
+  const planned = planDunningAlerts(installments, rules);
+  const meta = (offsetDays: number, dueDate = '2025-03-10', extra: Record<string, unknown> = {}) => ({
+    installmentId: '41',
+    channel: 'WHATSAPP',
+    dunning: { offsetDays, dueDate },
+    ...extra,
+  });
+
+  it('should only create the steps still ahead', () => {
+    const { create, cancel } = reconcileDunningAlerts([], planned, new Date('2025-03-10T13:00:00.000Z'));
+
+    expect(create.map((p) => p.dunning.offsetDays)).toEqual([1, 5, 15]);
+    expect(cancel).toEqual([]);
+  });
+
+  it('should keep pending and sent steps and cancel the ones of another due date', () => {
+    const { create, cancel } = reconcileDunningAlerts(
+      [
+        { id: 1, enabled: false, meta: meta(-3, '2025-03-10', { delivery: { status: 'SENT' } }) },
+        { id: 2, enabled: true, meta: meta(0) },
+        { id: 3, enabled: true, meta: meta(1, '2025-03-01') },
+        { id: 4, enabled: true, meta: { note: 'created by hand' } },
+      ],
+      planned,
+      new Date('2025-03-01T00:00:00.000Z')
+    );
+
+    expect(create.map((p) => p.dunning.offsetDays)).toEqual([1, 5, 15]);
+    expect(cancel).toEqual([3]);
+  });
+
+  it('should cancel every pending step when the installment is no longer open', () => {
+    const { create, cancel } = reconcileDunningAlerts(
+      [
+        { id: 5, enabled: true, meta: meta(5) },
+        { id: 6, enabled: true, meta: meta(15, '2025-03-10', { delivery: { status: 'RETRYING' } }) },
+      ],
+      [],
+      new Date('2025-03-12T00:00:00.000Z')
+    );
+
+    expect(create).toEqual([]);
+    expect(cancel).toEqual([5]);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Transactional Email Tests
+ * Templates and the email providers (outbox and SMTP failures)
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { OutboxNotificationProvider } from '../adapters/notificationProviders';
+import { SmtpNotificationProvider } from '../adapters/notificationProviders/smtpProvider';
+import { EMAIL_TEMPLATE_KEYS, EMAIL_TEMPLATES, escapeHtml, paymentMethodLabel, renderEmail } from '../utils/emailTemplates';
+import { extractPlaceholders, TEMPLATE_LOCALES } from '../utils/messageTemplates';
+
+const email = (to: string | null) => ({
+  channel: 'EMAIL',
+  recipient: { name: 'Maria', email: to },
+  title: 'Seu código de verificação: 123456',
+  body: 'Olá Maria',
+  html: '<p>Olá Maria</p>',
+  attachments: [{ filename: 'recibo-1.pdf', content: Buffer.from('%PDF-1.4'), contentType: 'application/pdf' }],
+  reference: 'verification:1',
+});
+
+describe('renderEmail', () => {
+  it('should render subject, text and HTML of the verification code', () => {
+    const rendered = renderEmail('verification', 'pt-BR', { name: 'Maria', code: '123456', minutes: 10 });
+
+    expect(rendered.subject).toBe('Seu código de verificação: 123456');
+    expect(rendered.text).toContain('Seu código de verificação é 123456. Ele expira em 10 minutos.');
+    expect(rendered.html).toContain('<html lang="pt-BR">');
+    expect(rendered.html).toContain('>123456</p>');
+    expect(rendered.html).toContain('Esta é uma mensagem automática');
+  });
+
+  it('should escape the values in the HTML only', () => {
+    const rendered = renderEmail('welcome', 'en', {
+      name: '<script>alert(1)</script>',
+      accountName: 'Tom & Jerry',
+      link: 'http://localhost:5173/login',
+    });
+
+    expect(rendered.text).toContain('Hi <script>alert(1)</script>,');
+    expect(rendered.html).not.toContain('<script>');
+    expect(rendered.html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(rendered.html).toContain('<strong>Tom &amp; Jerry</strong>');
+    expect(rendered.html).toContain('href="http://localhost:5173/login"');
+  });
+
+  it('should put the reset link in both versions', () => {
+    const link = 'http://localhost:5173/reset-password?token=abc';
+    const rendered = renderEmail('password_reset', 'es', { name: 'Juan', link, hours: 1 });
+
+    expect(rendered.subject).toBe('Restablecer contraseña');
+    expect(rendered.text).toContain(link);
+    expect(rendered.html).toContain(`href="${escapeHtml(link)}"`);
+  });
+
+  it('should use the same placeholders in every locale', () => {
+    for (const key of EMAIL_TEMPLATE_KEYS) {
+      const [first, ...others] = TEMPLATE_LOCALES.map((locale) => {
+        const { subject, text, html } = EMAIL_TEMPLATES[key][locale];
+        return extractPlaceholders(subject, text, html).sort();
+      });
+      for (const placeholders of others) {
+        expect(placeholders).toEqual(first);
+      }
+    }
+  });
+
+  it('should label the payment method in the locale', () => {
+    expect(paymentMethodLabel('BANK_TRANSFER', 'pt-BR')).toBe('Transferência bancária');
+    expect(paymentMethodLabel('CASH', 'en')).toBe('Cash');
+    expect(paymentMethodLabel('OTHER', 'es')).toBe('OTHER');
+    expect(paymentMethodLabel(null, 'es')).toBe('-');
+  });
+});
+
+describe('OutboxNotificationProvider', () => {
+  it('should keep the email in memory', async () => {
+    const provider = new OutboxNotificationProvider();
+    const result = await provider.send(email('maria@example.com'));
+
+    expect(result.provider).toBe('outbox');
+    expect(provider.outbox[0]).toMatchObject({
+      id: result.providerMessageId,
+      to: 'maria@example.com',
+      subject: 'Seu código de verificação: 123456',
+      attachments: [{ filename: 'recibo-1.pdf', contentType: 'application/pdf', size: 8 }],
+    });
+  });
+
+  it('should write the JSON and HTML files to the folder', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    const provider = new OutboxNotificationProvider(directory);
+    await provider.send(email('maria@example.com'));
+
+    const files = (await fs.readdir(directory)).sort();
+    expect(files.length).toBe(2);
+    expect(await fs.readFile(path.join(directory, files[0]), 'utf8')).toBe('<p>Olá Maria</p>');
+    expect(JSON.parse(await fs.readFile(path.join(directory, files[1]), 'utf8')).to).toBe('maria@example.com');
+
+    await fs.rm(directory, { recursive: true });
+  });
+
+  it('should fail permanently without an address', async () => {
+    await expect(new OutboxNotificationProvider().send(email(null))).rejects.toMatchObject({ retryable: false });
+  });
+});
+
+describe('SmtpNotificationProvider', () => {
+  const config = { host: '127.0.0.1', port: 1, secure: false, user: '', password: '', from: 'no-reply@example.com' };
+
+  it('should retry connection errors', async () => {
+    await expect(new SmtpNotificationProvider(config).send(email('maria@example.com'))).rejects.toMatchObject({
+      retryable: true,
+    });
+  });
+
+  it('should not retry without a host', async () => {
+    await expect(new SmtpNotificationProvider({ ...config, host: '' }).send(email('maria@example.com'))).rejects.toMatchObject({
+      retryable: false,
+      message: 'SMTP host is not configured',
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Late Fees Tests
+ */
+
+import { LateFeesService } from '../services/lateFeesService';
+import {
+  calculateDaysLate,
+  calculateLateFees,
+  DEFAULT_LATE_FEE_POLICY,
+  normalizeLateFeePolicy,
+} from '../utils/lateFees';
+
+const d = (date: string) => new Date(`${date}T12:00:00Z`);
+const dueDate = d('2025-03-01');
+
+describe('calculateLateFees', () => {
+  it('should count whole days past the due date', () => {
+    expect(calculateDaysLate(dueDate, new Date('2025-03-02T00:30:00Z'))).toBe(1);
+    expect(calculateDaysLate(dueDate, d('2025-02-20'))).toBe(0);
+  });
+
+  it('should charge nothing before the due date or within the grace days', () => {
+    const policy = { ...DEFAULT_LATE_FEE_POLICY, graceDays: 3 };
+
+    expect(calculateLateFees(1000, dueDate, policy, d('2025-02-25'))).toMatchObject({
+      daysLate: 0,
+      fine: 0,
+      interest: 0,
+      amountDue: 1000,
+    });
+    expect(calculateLateFees(1000, dueDate, policy, d('2025-03-04'))).toMatchObject({
+      daysLate: 3,
+      fine: 0,
+      interest: 0,
+      amountDue: 1000,
+    });
+  });
+
+  it('should add the fine and the daily interest once past the grace days', () => {
+    const policy = { ...DEFAULT_LATE_FEE_POLICY, graceDays: 3 };
+
+    // 2% fine and 4 days at 1%/30 per day
+    expect(calculateLateFees(1000, dueDate, policy, d('2025-03-05'))).toMatchObject({
+      daysLate: 4,
+      fine: 20,
+      interest: 1.33,
+      amountDue: 1021.33,
+    });
+    expect(calculateLateFees(1000, dueDate, DEFAULT_LATE_FEE_POLICY, d('2025-03-11'))).toMatchObject({
+      daysLate: 10,
+      fine: 20,
+      interest: 3.33,
+      amountDue: 1023.33,
+    });
+  });
+
+  it('should deduct the late fees already paid', () => {
+    expect(calculateLateFees(1000, dueDate, DEFAULT_LATE_FEE_POLICY, d('2025-03-11'), 5).amountDue).toBe(1018.33);
+    expect(calculateLateFees(1000, dueDate, DEFAULT_LATE_FEE_POLICY, d('2025-03-11'), 30).amountDue).toBe(1000);
+  });
+
+  it('should round fees and the amount due to cents', () => {
+    const accrual = calculateLateFees(333.33, dueDate, DEFAULT_LATE_FEE_POLICY, d('2025-03-08'));
+
+    expect(accrual).toMatchObject({ fine: 6.67, interest: 0.78, amountDue: 340.78 });
+  });
+
+  it('should not accrue on a settled balance', () => {
+    expect(calculateLateFees(0, dueDate, DEFAULT_LATE_FEE_POLICY, d('2025-03-11'))).toMatchObject({
+      fine: 0,
+      interest: 0,
+      amountDue: 0,
+    });
+  });
+
+  it('should fill a partial policy with the defaults', () => {
+    expect(normalizeLateFeePolicy({ finePercent: '5', graceDays: null })).toEqual({
+      finePercent: 5,
+      dailyInterestPercent: DEFAULT_LATE_FEE_POLICY.dailyInterestPercent,
+      graceDays: 0,
+    });
+  });
+});
+
+describe('LateFeesService.calculateAccrual', () => {
+  const service = new LateFeesService({ prisma: {} as any });
+  const asOf = d('2025-03-11');
+
+  it('should accrue on the remaining amount less the fees already paid', () => {
+    const accrual = service.calculateAccrual(
+      { amount: 1500, paidAmount: 500, remainingAmount: 1000, lateFeesPaid: 5, dueDate, status: 'PARTIALLY_PAID' },
+      DEFAULT_LATE_FEE_POLICY,
+      asOf
+    );
+
+    expect(accrual).toMatchObject({ openAmount: 1000, fine: 20, interest: 3.33, feesPaid: 5, amountDue: 1018.33 });
+  });
+
+  it('should use the fine percent frozen on the installment', () => {
+    const accrual = service.calculateAccrual(
+      { amount: 1000, dueDate, status: 'LATE', lateFeePercent: 10 },
+      DEFAULT_LATE_FEE_POLICY,
+      asOf
+    );
+
+    expect(accrual).toMatchObject({ fine: 100, amountDue: 1103.33 });
+  });
+
+  it('should not accrue on paid or cancelled installments', () => {
+    expect(service.calculateAccrual({ amount: 1000, dueDate, status: 'PAID' }, DEFAULT_LATE_FEE_POLICY, asOf)).toBeNull();
+    expect(
+      service.calculateAccrual({ amount: 1000, dueDate, status: 'CANCELLED' }, DEFAULT_LATE_FEE_POLICY, asOf)
+    ).toBeNull();
+  });
+});
+
+describe('LateFeesService.markOverdueInstallments', () => {
+  const asOf = d('2025-03-11');
+
+  function setup(installments: Record<string, any>[], settings: Record<string, any>[] = []) {
+    const prisma: any = {
+      installment: {
+        findMany: jest.fn(async () =>
+          installments.filter((i) => ['PENDING', 'PARTIALLY_PAID'].includes(i.status) && i.dueDate < asOf)
+        ),
+        updateMany: jest.fn(async ({ where, data }: any) => {
+          const matched = installments.filter(
+            (i) => where.id.in.includes(i.id) && (!where.status || where.status.in.includes(i.status))
+          );
+          matched.forEach((i) => Object.assign(i, data));
+          return { count: matched.length };
+        }),
+      },
+      setting: { findMany: jest.fn(async () => settings) },
+    };
+    const service = new LateFeesService({ prisma });
+    const syncWithInstallments = jest.fn(async () => undefined);
+    (service as any).lifecycleService = { syncWithInstallments };
+    return { service, syncWithInstallments };
+  }
+
+  const installment = (id: number, dueDate: Date, status: string, accountId = 1, lateFeePercent: number | null = null) => ({
+    id: BigInt(id),
+    operationId: BigInt(100 + accountId),
+    dueDate,
+    status,
+    lateFeePercent,
+    operation: { accountId },
+  });
+
+  it('should flip open installments past the grace days to LATE and freeze the fine percent', async () => {
+    const installments = [
+      installment(1, d('2025-03-01'), 'PENDING'),
+      installment(2, d('2025-03-05'), 'PARTIALLY_PAID', 1, 3),
+      installment(3, d('2025-03-01'), 'PAID'),
+      installment(4, d('2025-03-20'), 'PENDING'),
+    ];
+    const { service, syncWithInstallments } = setup(installments);
+
+    expect(await service.markOverdueInstallments(asOf)).toEqual({ updated: 2 });
+    expect(installments.map((i) => i.status)).toEqual(['LATE', 'LATE', 'PAID', 'PENDING']);
+    expect(installments.map((i) => i.lateFeePercent)).toEqual([2, 3, null, null]);
+    expect(syncWithInstallments).toHaveBeenCalledWith(expect.anything(), BigInt(101));
+  });
+
+  it('should leave installments within the account grace days open', async () => {
+    const installments = [
+      installment(1, d('2025-03-01'), 'PENDING', 1),
+      installment(2, d('2025-03-01'), 'PENDING', 2),
+    ];
+    const { service, syncWithInstallments } = setup(installments, [
+      { accountId: 2, value: { graceDays: 15 } },
+    ]);
+
+    expect(await service.markOverdueInstallments(asOf)).toEqual({ updated: 1 });
+    expect(installments.map((i) => i.status)).toEqual(['LATE', 'PENDING']);
+    expect(syncWithInstallments).toHaveBeenCalledTimes(1);
+  });
+});
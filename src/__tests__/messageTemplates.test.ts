@@ -0,0 +1,102 @@
+/**
+ * Message Templates Tests
+ */
+
+import {
+  DEFAULT_MESSAGE_TEMPLATES,
+  defaultMessageTemplate,
+  extractPlaceholders,
+  findUnknownVariables,
+  formatTemplateDate,
+  formatTemplateMoney,
+  isLiteralTemplate,
+  normalizeTemplateKey,
+  pickTemplateVariant,
+  renderTemplate,
+  resolveLocale,
+} from '../utils/messageTemplates';
+
+// Intl separates the currency symbol with a non-breaking space
+const plain = (text: string) => text.replace(/\s/g, ' ');
+
+describe('renderTemplate', () => {
+  it('should replace nested placeholders and blank unknown ones', () => {
+    const text = renderTemplate('Olá {{ client.name }}, parcela {{installment.dueDate}}{{missing.value}}', {
+      client: { name: 'Maria' },
+      installment: { dueDate: '15/03/2025' },
+    });
+
+    expect(text).toBe('Olá Maria, parcela 15/03/2025');
+  });
+});
+
+describe('template variables', () => {
+  it('should list the placeholders once', () => {
+    expect(extractPlaceholders('{{client.name}} {{pix.code}}', 'Oi {{ client.name }}', null)).toEqual([
+      'client.name',
+      'pix.code',
+    ]);
+  });
+
+  it('should report variables outside the catalog', () => {
+    expect(findUnknownVariables('{{client.firstName}} {{client.age}}', '{{payoff.link}} {{foo}}')).toEqual([
+      'client.age',
+      'foo',
+    ]);
+    expect(findUnknownVariables(DEFAULT_MESSAGE_TEMPLATES.payment_overdue.es.body)).toEqual([]);
+  });
+});
+
+describe('template keys', () => {
+  it('should normalize legacy names and tell keys from literal texts', () => {
+    expect(normalizeTemplateKey('PAYMENT_REMINDER_template')).toBe('payment_reminder');
+    expect(isLiteralTemplate('payment_due')).toBe(false);
+    expect(isLiteralTemplate('Pague {{installment.amount}} hoje')).toBe(true);
+  });
+
+  it('should fall back to the built-in templates of the locale', () => {
+    expect(defaultMessageTemplate('PAYMENT_DUE', 'en')).toEqual(DEFAULT_MESSAGE_TEMPLATES.payment_due.en);
+    expect(defaultMessageTemplate('custom_key', 'pt-BR')).toBeNull();
+  });
+});
+
+describe('resolveLocale', () => {
+  it('should accept language tags and default to pt-BR', () => {
+    expect(resolveLocale(undefined, 'en-US')).toBe('en');
+    expect(resolveLocale('es_AR')).toBe('es');
+    expect(resolveLocale('pt')).toBe('pt-BR');
+    expect(resolveLocale('fr', 42)).toBe('pt-BR');
+  });
+});
+
+describe('pickTemplateVariant', () => {
+  const variants = [
+    { id: 1, locale: 'pt-BR', channel: null },
+    { id: 2, locale: 'en', channel: null },
+    { id: 3, locale: 'en', channel: 'EMAIL' },
+  ];
+
+  it('should prefer the channel-specific template of the locale', () => {
+    expect(pickTemplateVariant(variants, 'en', 'EMAIL')?.id).toBe(3);
+    expect(pickTemplateVariant(variants, 'en', 'WHATSAPP')?.id).toBe(2);
+  });
+
+  it('should fall back to the default locale', () => {
+    expect(pickTemplateVariant(variants, 'es', 'WHATSAPP')?.id).toBe(1);
+    expect(pickTemplateVariant([{ locale: 'en', channel: 'EMAIL' }], 'es', 'WHATSAPP')).toBeNull();
+  });
+});
+
+describe('formatting', () => {
+  it('should format money in the operation currency for the locale', () => {
+    expect(plain(formatTemplateMoney(1234.5, 'BRL', 'pt-BR'))).toBe('R$ 1.234,50');
+    expect(formatTemplateMoney(1234.5, 'USD', 'en')).toBe('$1,234.50');
+  });
+
+  it('should format dates in UTC for the locale', () => {
+    const date = new Date('2025-03-05T00:00:00.000Z');
+
+    expect(formatTemplateDate(date, 'pt-BR')).toBe('05/03/2025');
+    expect(formatTemplateDate(date, 'en')).toBe('3/5/2025');
+  });
+});
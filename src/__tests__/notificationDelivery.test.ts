@@ -0,0 +1,167 @@
+/**
+ * Notification Delivery Tests
+ */
+
+import EnvVars from '../common/EnvVars';
+import { NotificationChannel, NotificationDeliveryStatus } from '../constants/enums';
+import {
+  createNotificationProviders,
+  LogNotificationProvider,
+  NotificationDeliveryError,
+} from '../adapters/notificationProviders';
+import {
+  readDeliveryState,
+  recordDeliveryFailure,
+  recordProviderStatus,
+  recordDeliverySuccess,
+  retryDelayMinutes,
+  withDeliveryState,
+} from '../utils/notificationDelivery';
+
+const now = new Date('2025-03-10T12:00:00.000Z');
+
+describe('delivery state', () => {
+  it('should schedule retries with increasing delays and give up at the limit', () => {
+    const first = recordDeliveryFailure(null, 'WHATSAPP', 'relay', { message: 'timeout', retryable: true }, 3, now);
+    expect(first).toMatchObject({ status: NotificationDeliveryStatus.RETRYING, attempts: 1, lastError: 'timeout' });
+    expect(first.nextAttemptAt).toBe('2025-03-10T12:01:00.000Z');
+
+    const second = recordDeliveryFailure(first, 'WHATSAPP', 'relay', { message: 'timeout', retryable: true }, 3, now);
+    expect(second.nextAttemptAt).toBe('2025-03-10T12:05:00.000Z');
+
+    const third = recordDeliveryFailure(second, 'WHATSAPP', 'relay', { message: 'timeout', retryable: true }, 3, now);
+    expect(third).toMatchObject({ status: NotificationDeliveryStatus.FAILED, attempts: 3, nextAttemptAt: null });
+    expect(third.history).toHaveLength(3);
+  });
+
+  it('should not retry permanent failures', () => {
+    const state = recordDeliveryFailure(null, 'EMAIL', 'log', { message: 'no email', retryable: false }, 5, now);
+    expect(state.status).toBe(NotificationDeliveryStatus.FAILED);
+  });
+
+  it('should record the provider response on success', () => {
+    const failed = recordDeliveryFailure(null, 'PUSH', 'relay', { message: 'down', retryable: true }, 5, now);
+    const sentAt = new Date('2025-03-10T12:01:30.000Z');
+    const state = recordDeliverySuccess(failed, 'PUSH', { provider: 'relay', providerMessageId: 'msg_1', sentAt }, now);
+
+    expect(state).toMatchObject({
+      status: NotificationDeliveryStatus.SENT,
+      attempts: 2,
+      providerMessageId: 'msg_1',
+      sentAt: '2025-03-10T12:01:30.000Z',
+      lastError: null,
+    });
+  });
+
+  it('should keep the other meta keys', () => {
+    const state = recordDeliveryFailure(null, 'PUSH', 'relay', { message: 'down', retryable: true }, 5, now);
+    const meta = withDeliveryState({ channel: 'PUSH', installmentId: '7' }, state);
+
+    expect(meta.installmentId).toBe('7');
+    expect(readDeliveryState(meta)?.attempts).toBe(1);
+    expect(readDeliveryState({ channel: 'PUSH' })).toBeNull();
+    expect(retryDelayMinutes(20)).toBe(240);
+  });
+});
+
+describe('provider status callbacks', () => {
+  const sent = recordDeliverySuccess(null, 'WHATSAPP', { provider: 'whatsapp', providerMessageId: 'wamid.1', sentAt: now }, now);
+  const at = (minutes: number) => new Date(now.getTime() + minutes * 60000);
+
+  it('should record delivery and read times even out of order', () => {
+    const read = recordProviderStatus(sent, { status: 'read', timestamp: at(5) });
+    const delivered = recordProviderStatus(read, { status: 'delivered', timestamp: at(1) });
+
+    expect(delivered).toMatchObject({
+      status: NotificationDeliveryStatus.READ,
+      deliveredAt: '2025-03-10T12:05:00.000Z',
+      readAt: '2025-03-10T12:05:00.000Z',
+    });
+    expect(delivered.history.map((h) => h.status)).toEqual([
+      NotificationDeliveryStatus.SENT,
+      NotificationDeliveryStatus.READ,
+      NotificationDeliveryStatus.DELIVERED,
+    ]);
+  });
+
+  it('should fail undelivered messages without scheduling a retry', () => {
+    const failed = recordProviderStatus(sent, { status: 'failed', timestamp: at(1), error: '131026 Message undeliverable' });
+
+    expect(failed).toMatchObject({
+      status: NotificationDeliveryStatus.FAILED,
+      lastError: '131026 Message undeliverable',
+      nextAttemptAt: null,
+    });
+
+    const delivered = recordProviderStatus(sent, { status: 'delivered', timestamp: at(1) });
+    expect(recordProviderStatus(delivered, { status: 'failed', timestamp: at(2) }).status).toBe(
+      NotificationDeliveryStatus.DELIVERED
+    );
+  });
+});
+
+describe('LogNotificationProvider', () => {
+  it('should keep sent messages in its outbox', async () => {
+    const provider = new LogNotificationProvider();
+    const result = await provider.send({
+      channel: 'WHATSAPP',
+      recipient: { phone: '+5511999990000' },
+      title: 'Lembrete',
+      body: 'Teste',
+      reference: 'alert:1',
+    });
+
+    expect(result.providerMessageId).toMatch(/^log-/);
+    expect(provider.outbox).toHaveLength(1);
+  });
+
+  it('should fail permanently without the channel address', async () => {
+    const provider = new LogNotificationProvider();
+    await expect(
+      provider.send({ channel: 'EMAIL', recipient: { name: 'Maria' }, title: 'T', body: 'B', reference: 'alert:2' })
+    ).rejects.toThrow(NotificationDeliveryError);
+  });
+});
+
+describe('createNotificationProviders', () => {
+  const { NodeEnv } = EnvVars;
+  const providers = { ...EnvVars.Notifications.Providers };
+
+  afterEach(() => {
+    EnvVars.NodeEnv = NodeEnv;
+    Object.assign(EnvVars.Notifications.Providers, providers);
+  });
+
+  const message = {
+    channel: 'WHATSAPP',
+    recipient: { phone: '+5511999990000' },
+    title: 'T',
+    body: 'Code 123456',
+    reference: 'verification:1',
+  };
+
+  it('should fall back to the development providers outside production', () => {
+    EnvVars.NodeEnv = 'development';
+    Object.assign(EnvVars.Notifications.Providers, { Whatsapp: '', Push: '', Email: '' });
+
+    const resolved = createNotificationProviders();
+    expect(resolved[NotificationChannel.WHATSAPP].name).toBe('log');
+    expect(resolved[NotificationChannel.EMAIL].name).toBe('outbox');
+  });
+
+  it('should fail sends in production without a real provider', async () => {
+    EnvVars.NodeEnv = 'production';
+    Object.assign(EnvVars.Notifications.Providers, { Whatsapp: '', Push: 'log', Email: 'outbox' });
+
+    const resolved = createNotificationProviders();
+    await expect(resolved[NotificationChannel.WHATSAPP].send(message)).rejects.toMatchObject({
+      retryable: false,
+      message: expect.stringContaining('NOTIFICATION_PROVIDER_WHATSAPP'),
+    });
+    await expect(resolved[NotificationChannel.PUSH].send({ ...message, channel: 'PUSH' })).rejects.toThrow(
+      'only for development'
+    );
+    expect(resolved[NotificationChannel.EMAIL].name).toBe('unconfigured');
+    expect(resolved[NotificationChannel.IN_APP].name).toBe('in_app');
+  });
+});
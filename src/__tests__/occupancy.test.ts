@@ -0,0 +1,103 @@
+/**
+ * Resource Occupancy Tests
+ */
+
+import { bookingPeriod, occupancyRates, periodsOverlap, summarizeAvailability } from '../utils/occupancy';
+import ResourcesService from '../services/resourcesService';
+
+const d = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe('bookingPeriod', () => {
+  it('should use the rental contract period when there is one', () => {
+    expect(bookingPeriod({
+      startDate: d('2024-01-10'),
+      dueDate: null,
+      rentalContract: { startDate: d('2024-01-10'), endDate: d('2024-07-10') },
+    })).toEqual({ start: d('2024-01-10'), end: d('2024-07-10') });
+  });
+
+  it('should fall back to start and due dates', () => {
+    expect(bookingPeriod({ startDate: d('2024-01-10'), dueDate: d('2024-02-10') }))
+      .toEqual({ start: d('2024-01-10'), end: d('2024-02-10') });
+  });
+});
+
+describe('periodsOverlap', () => {
+  it('should not conflict for back-to-back periods', () => {
+    expect(periodsOverlap(
+      { start: d('2024-01-01'), end: d('2024-02-01') },
+      { start: d('2024-02-01'), end: d('2024-03-01') }
+    )).toBe(false);
+  });
+
+  it('should treat a missing end as open-ended', () => {
+    expect(periodsOverlap(
+      { start: d('2024-01-01'), end: null },
+      { start: d('2025-06-01'), end: d('2025-07-01') }
+    )).toBe(true);
+  });
+});
+
+describe('summarizeAvailability', () => {
+  it('should merge overlapping bookings and list free periods', () => {
+    const summary = summarizeAvailability(
+      [
+        { start: d('2024-02-20'), end: d('2024-03-05') },
+        { start: d('2024-03-03'), end: d('2024-03-10') },
+        { start: d('2024-03-20'), end: null },
+      ],
+      d('2024-03-01'),
+      d('2024-04-01')
+    );
+
+    expect(summary.occupied).toEqual([
+      { start: d('2024-03-01'), end: d('2024-03-10') },
+      { start: d('2024-03-20'), end: d('2024-04-01') },
+    ]);
+    expect(summary.free).toEqual([{ start: d('2024-03-10'), end: d('2024-03-20') }]);
+    expect(summary).toMatchObject({ totalDays: 31, occupiedDays: 21, occupancyRate: 67.74, vacancyRate: 32.26 });
+  });
+
+  it('should be fully vacant without bookings', () => {
+    const summary = summarizeAvailability([], d('2024-03-01'), d('2024-03-31'));
+
+    expect(summary.free).toEqual([{ start: d('2024-03-01'), end: d('2024-03-31') }]);
+    expect(summary).toMatchObject({ occupiedDays: 0, occupancyRate: 0, vacancyRate: 100 });
+  });
+});
+
+describe('occupancyRates', () => {
+  it('should return zero rates for an empty period', () => {
+    expect(occupancyRates(0, 0)).toEqual({ occupancyRate: 0, vacancyRate: 0 });
+  });
+});
+
+describe('ResourcesService.assertAvailable', () => {
+  it('should lock the resource before reading its bookings', async () => {
+    const calls: string[] = [];
+    const tx = {
+      $queryRaw: jest.fn(async () => { calls.push('lock'); return []; }),
+      operation: {
+        findMany: jest.fn(async () => {
+          calls.push('bookings');
+          return [{
+            id: BigInt(7),
+            resourceId: 4,
+            type: 'RENTAL',
+            status: 'ACTIVE',
+            startDate: d('2024-01-01'),
+            dueDate: null,
+            client: { id: 1, name: 'Maria' },
+            rentalContract: { startDate: d('2024-01-01'), endDate: d('2024-06-30') },
+          }];
+        }),
+      },
+    };
+    const service = new ResourcesService({ prisma: {} as any });
+
+    await expect(
+      service.assertAvailable(tx as any, 4, { start: d('2024-03-01'), end: d('2024-04-01') })
+    ).rejects.toThrow('Resource is already booked by operation #7 in this period');
+    expect(calls).toEqual(['lock', 'bookings']);
+  });
+});
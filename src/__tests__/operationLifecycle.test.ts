@@ -0,0 +1,57 @@
+/**
+ * Operation Lifecycle Tests
+ */
+
+import { canTransition, deriveOperationStatus } from '../utils/operationLifecycle';
+import { InstallmentStatus, OperationStatus } from '../constants/enums';
+
+describe('canTransition', () => {
+  it('should allow the forward lifecycle', () => {
+    expect(canTransition(OperationStatus.DRAFT, OperationStatus.ACTIVE)).toBe(true);
+    expect(canTransition(OperationStatus.ACTIVE, OperationStatus.OVERDUE)).toBe(true);
+    expect(canTransition(OperationStatus.OVERDUE, OperationStatus.DEFAULTED)).toBe(true);
+    expect(canTransition(OperationStatus.DEFAULTED, OperationStatus.SETTLED)).toBe(true);
+  });
+
+  it('should reject transitions out of final states', () => {
+    expect(canTransition(OperationStatus.CANCELLED, OperationStatus.ACTIVE)).toBe(false);
+    expect(canTransition(OperationStatus.RENEGOTIATED, OperationStatus.SETTLED)).toBe(false);
+    expect(canTransition(OperationStatus.DRAFT, OperationStatus.SETTLED)).toBe(false);
+  });
+
+  it('should treat operations without status as active', () => {
+    expect(canTransition(null, OperationStatus.OVERDUE)).toBe(true);
+  });
+});
+
+describe('deriveOperationStatus', () => {
+  it('should flag operations with late installments as overdue', () => {
+    expect(
+      deriveOperationStatus(OperationStatus.ACTIVE, [InstallmentStatus.PAID, InstallmentStatus.LATE])
+    ).toBe(OperationStatus.OVERDUE);
+  });
+
+  it('should return to active once late installments are caught up', () => {
+    expect(
+      deriveOperationStatus(OperationStatus.OVERDUE, [InstallmentStatus.PAID, InstallmentStatus.PARTIALLY_PAID])
+    ).toBe(OperationStatus.ACTIVE);
+  });
+
+  it('should settle when every installment is paid', () => {
+    expect(
+      deriveOperationStatus(OperationStatus.DEFAULTED, [InstallmentStatus.PAID, InstallmentStatus.CANCELLED])
+    ).toBe(OperationStatus.SETTLED);
+  });
+
+  it('should keep running rentals active when every charge so far is paid', () => {
+    expect(deriveOperationStatus(OperationStatus.OVERDUE, [InstallmentStatus.PAID], true)).toBe(OperationStatus.ACTIVE);
+    expect(deriveOperationStatus(OperationStatus.SETTLED, [InstallmentStatus.PAID], true)).toBe(OperationStatus.ACTIVE);
+    expect(deriveOperationStatus(OperationStatus.ACTIVE, [InstallmentStatus.PAID], false)).toBe(OperationStatus.SETTLED);
+  });
+
+  it('should keep defaulted, draft and final operations untouched', () => {
+    expect(deriveOperationStatus(OperationStatus.DEFAULTED, [InstallmentStatus.PENDING])).toBeNull();
+    expect(deriveOperationStatus(OperationStatus.DRAFT, [InstallmentStatus.LATE])).toBeNull();
+    expect(deriveOperationStatus(OperationStatus.RENEGOTIATED, [InstallmentStatus.CANCELLED])).toBeNull();
+  });
+});
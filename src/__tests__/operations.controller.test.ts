@@ -31,13 +31,17 @@ describe('OperationsController', () => {
       findAll: jest.fn(),
       findById: jest.fn(),
       create: jest.fn(),
+      simulate: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
       registerPayment: jest.fn(),
+      renegotiate: jest.fn(),
+      settle: jest.fn(),
+      getHistory: jest.fn(),
       triggerAlert: jest.fn(),
     } as unknown as jest.Mocked<OperationsService>;
 
-    controller = new OperationsController(mockService);
+    controller = new OperationsController({ operationsService: mockService });
 
     mockReq = {
       params: {},
@@ -66,7 +70,7 @@ describe('OperationsController', () => {
       expect(mockRes.status).toHaveBeenCalledWith(HttpStatusCodes.OK);
       expect(mockRes.json).toHaveBeenCalledWith({
         success: true,
-        data: mockData,
+        ...mockData,
       });
     });
 
@@ -152,9 +156,57 @@ describe('OperationsController', () => {
 
       await controller.create(mockReq as IReq, mockRes as IRes);
 
-      expect(mockService.create).toHaveBeenCalledWith(mockReq.body);
+      expect(mockService.create).toHaveBeenCalledWith(mockReq.body, expect.anything());
       expect(mockRes.status).toHaveBeenCalledWith(HttpStatusCodes.CREATED);
     });
+
+    it('should return 409 when the resource is already booked', async () => {
+      mockService.create.mockRejectedValue(
+        new Error('Resource is already booked by operation #7 in this period')
+      );
+      mockReq.body = { accountId: 1, clientId: 1, type: 'RENTAL', resourceId: 4 };
+
+      await controller.create(mockReq as IReq, mockRes as IRes);
+
+      expect(mockRes.status).toHaveBeenCalledWith(HttpStatusCodes.CONFLICT);
+    });
+  });
+
+  describe('simulate', () => {
+    it('should return the simulated schedule without creating the operation', async () => {
+      const mockSimulation = {
+        financedAmount: 1000,
+        installments: [],
+        totals: { principal: 1000, interest: 40.26, fees: 0, installments: 1040.26, total: 1040.26 },
+        effectiveRate: { periodic: 2, monthly: 2, annual: 26.8242 },
+      };
+      mockService.simulate.mockReturnValue(mockSimulation as any);
+      mockReq.body = {
+        accountId: 1,
+        clientId: 1,
+        type: 'LOAN',
+        principalAmount: 1000,
+        interestRate: 2,
+        installments: 3,
+        startDate: '2024-01-01T00:00:00Z',
+      };
+
+      await controller.simulate(mockReq as IReq, mockRes as IRes);
+
+      expect(mockService.simulate).toHaveBeenCalledWith(mockReq.body);
+      expect(mockService.create).not.toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(HttpStatusCodes.OK);
+    });
+
+    it('should return 400 when the terms are invalid', async () => {
+      mockService.simulate.mockImplementation(() => {
+        throw new Error('Entry amount must be lower than principal amount');
+      });
+
+      await controller.simulate(mockReq as IReq, mockRes as IRes);
+
+      expect(mockRes.status).toHaveBeenCalledWith(HttpStatusCodes.BAD_REQUEST);
+    });
   });
 
   describe('registerPayment', () => {
@@ -172,7 +224,6 @@ describe('OperationsController', () => {
       mockReq.body = {
         amount: 100,
         method: 'PIX',
-        clientId: 1,
       };
 
       await controller.registerPayment(mockReq as IReq, mockRes as IRes);
@@ -182,6 +233,102 @@ describe('OperationsController', () => {
     });
   });
 
+  describe('history', () => {
+    it('should return the status timeline', async () => {
+      const mockHistory = {
+        operationId: BigInt(1),
+        status: 'OVERDUE',
+        history: [
+          { id: BigInt(1), fromStatus: null, toStatus: 'ACTIVE', actor: '1-owner@example.com' },
+          { id: BigInt(2), fromStatus: 'ACTIVE', toStatus: 'OVERDUE', actor: 'system' },
+        ],
+      };
+      mockService.getHistory.mockResolvedValue(mockHistory as any);
+      mockReq.params = { id: '1' };
+
+      await controller.history(mockReq as IReq, mockRes as IRes);
+
+      expect(mockService.getHistory).toHaveBeenCalledWith(BigInt(1));
+      expect(mockRes.status).toHaveBeenCalledWith(HttpStatusCodes.OK);
+    });
+
+    it('should return 404 if operation not found', async () => {
+      mockService.getHistory.mockResolvedValue(null);
+      mockReq.params = { id: '999' };
+
+      await controller.history(mockReq as IReq, mockRes as IRes);
+
+      expect(mockRes.status).toHaveBeenCalledWith(HttpStatusCodes.NOT_FOUND);
+    });
+  });
+
+  describe('renegotiate', () => {
+    it('should create the child operation linked to the parent', async () => {
+      const mockChild = {
+        id: BigInt(2),
+        parentOperationId: BigInt(1),
+        principalAmount: 1029.98,
+        installmentsList: [],
+      };
+      mockService.renegotiate.mockResolvedValue(mockChild as any);
+      mockReq.params = { id: '1' };
+      mockReq.body = { interestRate: 1.5, installments: 6 };
+
+      await controller.renegotiate(mockReq as IReq, mockRes as IRes);
+
+      expect(mockService.renegotiate).toHaveBeenCalledWith(BigInt(1), mockReq.body, expect.anything(), undefined);
+      expect(mockRes.status).toHaveBeenCalledWith(HttpStatusCodes.CREATED);
+    });
+
+    it('should return 404 if operation not found', async () => {
+      mockService.renegotiate.mockRejectedValue(new Error('Operation not found'));
+      mockReq.params = { id: '999' };
+
+      await controller.renegotiate(mockReq as IReq, mockRes as IRes);
+
+      expect(mockRes.status).toHaveBeenCalledWith(HttpStatusCodes.NOT_FOUND);
+    });
+
+    it('should return 409 when a payment landed during the renegotiation', async () => {
+      mockService.renegotiate.mockRejectedValue(
+        new Error('Operation installments changed during renegotiation, please retry')
+      );
+      mockReq.params = { id: '1' };
+
+      await controller.renegotiate(mockReq as IReq, mockRes as IRes);
+
+      expect(mockRes.status).toHaveBeenCalledWith(HttpStatusCodes.CONFLICT);
+    });
+
+    it('should return 400 when the operation was already renegotiated', async () => {
+      mockService.renegotiate.mockRejectedValue(new Error('Operation cannot be renegotiated in status RENEGOTIATED'));
+      mockReq.params = { id: '1' };
+
+      await controller.renegotiate(mockReq as IReq, mockRes as IRes);
+
+      expect(mockRes.status).toHaveBeenCalledWith(HttpStatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe('settle', () => {
+    it('should return 400 when the amount does not cover the payoff total', async () => {
+      mockService.settle.mockRejectedValue(new Error('Settlement amount is lower than the payoff total (1029.98)'));
+      mockReq.params = { id: '1' };
+
+      await controller.settle(mockReq as IReq, mockRes as IRes);
+
+      expect(mockRes.status).toHaveBeenCalledWith(HttpStatusCodes.BAD_REQUEST);
+    });
+
+    it('should leave unexpected errors to the error middleware', async () => {
+      mockService.settle.mockRejectedValue(new Error('Transaction already closed'));
+      mockReq.params = { id: '1' };
+
+      await expect(controller.settle(mockReq as IReq, mockRes as IRes)).rejects.toThrow('Transaction already closed');
+      expect(mockRes.status).not.toHaveBeenCalled();
+    });
+  });
+
   // TODO: Add more test cases for update, delete, triggerAlert
 });
 
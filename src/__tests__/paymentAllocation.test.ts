@@ -0,0 +1,236 @@
+/**
+ * Payment Allocation Tests
+ */
+
+import { AuditAction } from '../constants/enums';
+import { PaymentAllocationService } from '../services/paymentAllocationService';
+import { allocatePayment, getRemainingAmount } from '../utils/paymentAllocation';
+
+describe('allocatePayment', () => {
+  const installments = [
+    { id: BigInt(1), amount: 346.75, interest: 20, paidAmount: 0, outstandingFees: 10 },
+    { id: BigInt(2), amount: 346.75, interest: 13.47, paidAmount: 0, outstandingFees: 0 },
+  ];
+
+  it('should apply fees, then interest, then principal', () => {
+    const plan = allocatePayment(15, installments);
+
+    expect(plan.allocations).toHaveLength(1);
+    expect(plan.allocations[0]).toMatchObject({
+      feeAmount: 10,
+      interestAmount: 5,
+      principalAmount: 0,
+      paidAmount: 5,
+      remainingAmount: 341.75,
+      settled: false,
+    });
+  });
+
+  it('should roll overpayment to the next installment', () => {
+    const plan = allocatePayment(400, installments);
+
+    expect(plan.allocations).toHaveLength(2);
+    expect(plan.allocations[0]).toMatchObject({ amount: 356.75, settled: true, remainingAmount: 0 });
+    expect(plan.allocations[1]).toMatchObject({
+      installmentId: BigInt(2),
+      amount: 43.25,
+      interestAmount: 13.47,
+      principalAmount: 29.78,
+      settled: false,
+    });
+    expect(plan.unallocatedAmount).toBe(0);
+  });
+
+  it('should consider interest already paid on partially paid installments', () => {
+    const plan = allocatePayment(100, [{ ...installments[0], paidAmount: 15, outstandingFees: 0 }]);
+
+    expect(plan.allocations[0]).toMatchObject({
+      interestAmount: 5,
+      principalAmount: 95,
+      paidAmount: 115,
+      remainingAmount: 231.75,
+    });
+  });
+
+  it('should keep what exceeds every open installment as unallocated', () => {
+    const plan = allocatePayment(1000, installments);
+
+    expect(plan.allocations.every((a) => a.settled)).toBe(true);
+    expect(plan.unallocatedAmount).toBe(296.5);
+  });
+});
+
+describe('getRemainingAmount', () => {
+  it('should fall back to amount minus paid amount', () => {
+    expect(getRemainingAmount({ amount: 100, paidAmount: 30.1, remainingAmount: null })).toBe(69.9);
+    expect(getRemainingAmount({ amount: 100, paidAmount: 30, remainingAmount: 50 })).toBe(50);
+  });
+});
+
+describe('PaymentAllocationService.reversePayment', () => {
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const future = new Date('2099-01-10T12:00:00Z');
+
+  const installment = (id: number, fields: Record<string, unknown>) => ({
+    id: BigInt(id),
+    amount: 200,
+    paidAmount: 0,
+    lateFeesPaid: 0,
+    dueDate: future,
+    status: 'PAID',
+    ...fields,
+  });
+  const allocation = (installmentId: number, amount: number, parts: Record<string, number> = {}) => ({
+    installmentId: BigInt(installmentId),
+    amount,
+    feeAmount: 0,
+    interestAmount: 0,
+    principalAmount: amount,
+    ...parts,
+  });
+
+  function setup(original: Record<string, any> | null, installments: Record<string, any>[], graceDays = 0) {
+    const created = { payments: [] as any[], allocations: [] as any[], audit: [] as any[] };
+    const updates = new Map<bigint, Record<string, any>>();
+    const prisma: any = {
+      $queryRaw: jest.fn(async () => []),
+      payment: {
+        findFirst: async () => original,
+        create: async ({ data }: any) => {
+          created.payments.push(data);
+          return { id: BigInt(99), ...data };
+        },
+        findUnique: async () => ({ id: BigInt(99), ...created.payments[0] }),
+      },
+      paymentAllocation: { create: async ({ data }: any) => created.allocations.push(data) },
+      installment: {
+        findMany: async () => installments,
+        update: async ({ where, data }: any) => updates.set(where.id, data),
+      },
+      setting: { findMany: async () => [{ accountId: 1, value: { graceDays } }] },
+      auditLog: { create: async ({ data }: any) => created.audit.push(data) },
+      $transaction: (fn: (tx: any) => Promise<unknown>) => fn(prisma),
+    };
+    const service = new PaymentAllocationService({ prisma });
+    const syncWithInstallments = jest.fn(async () => undefined);
+    (service as any).lifecycleService = { syncWithInstallments };
+    return { service, prisma, created, updates, syncWithInstallments };
+  }
+
+  const payment = (allocations: Record<string, unknown>[], fields: Record<string, unknown> = {}) => ({
+    id: BigInt(1),
+    clientId: 3,
+    operationId: BigInt(10),
+    installmentId: BigInt(1),
+    amount: allocations.reduce((sum: number, a: any) => sum + a.amount, 0),
+    currency: 'BRL',
+    method: 'PIX',
+    reference: 'E2E1',
+    reversalOfId: null,
+    reversal: null,
+    operation: { accountId: 1 },
+    allocations,
+    ...fields,
+  });
+
+  it('should record a compensating payment with mirrored negative allocations', async () => {
+    const original = payment([allocation(1, 210, { feeAmount: 10, principalAmount: 200 })]);
+    const { service, created, syncWithInstallments } = setup(original, [
+      installment(1, { paidAmount: 200, lateFeesPaid: 10 }),
+    ]);
+
+    await service.reversePayment(BigInt(1), { reason: 'Chargeback', actor: '1-owner@example.com' });
+
+    expect(created.payments).toEqual([
+      expect.objectContaining({ amount: -210, reversalOfId: BigInt(1), clientId: 3, meta: { reason: 'Chargeback' } }),
+    ]);
+    expect(created.allocations).toEqual([
+      {
+        paymentId: BigInt(99),
+        installmentId: BigInt(1),
+        amount: -210,
+        feeAmount: -10,
+        interestAmount: -0,
+        principalAmount: -200,
+      },
+    ]);
+    expect(syncWithInstallments).toHaveBeenCalledWith(expect.anything(), BigInt(10), expect.objectContaining({
+      reason: 'Payment #1 reversed',
+    }));
+  });
+
+  it('should reopen installments as pending, partially paid or late', async () => {
+    const original = payment([
+      allocation(1, 200),
+      allocation(2, 90, { interestAmount: 10, principalAmount: 80 }),
+      allocation(3, 210, { feeAmount: 10, principalAmount: 200 }),
+    ]);
+    const { service, updates } = setup(original, [
+      installment(1, {}),
+      installment(2, { paidAmount: 150, status: 'PARTIALLY_PAID' }),
+      installment(3, { paidAmount: 200, lateFeesPaid: 10, dueDate: daysAgo(30) }),
+    ]);
+
+    await service.reversePayment(BigInt(1), { reason: 'Wrong client' });
+
+    expect(updates.get(BigInt(1))).toEqual({
+      paidAmount: 0,
+      remainingAmount: 200,
+      lateFeesPaid: 0,
+      status: 'PENDING',
+      paidAt: null,
+    });
+    expect(updates.get(BigInt(2))).toMatchObject({ paidAmount: 60, remainingAmount: 140, status: 'PARTIALLY_PAID' });
+    expect(updates.get(BigInt(3))).toMatchObject({ paidAmount: 0, lateFeesPaid: 0, status: 'LATE' });
+  });
+
+  it('should only reopen as late after the grace days and keep cancelled installments cancelled', async () => {
+    const original = payment([allocation(1, 200), allocation(2, 50)]);
+    const { service, updates } = setup(
+      original,
+      [installment(1, { dueDate: daysAgo(2) }), installment(2, { paidAmount: 50, status: 'CANCELLED' })],
+      5
+    );
+
+    await service.reversePayment(BigInt(1), { reason: 'Duplicate' });
+
+    expect(updates.get(BigInt(1))).toMatchObject({ status: 'PENDING' });
+    expect(updates.get(BigInt(2))).toMatchObject({ paidAmount: 0, status: 'CANCELLED' });
+  });
+
+  it('should log the reversal in the audit trail', async () => {
+    const original = payment([allocation(1, 200)]);
+    const { service, created } = setup(original, [installment(1, {})]);
+
+    await service.reversePayment(BigInt(1), { reason: 'Chargeback', actor: '1-owner@example.com', ip: '10.0.0.1' });
+
+    expect(created.audit).toEqual([
+      expect.objectContaining({
+        actor: '1-owner@example.com',
+        action: AuditAction.PAYMENT_REVERSED,
+        entity: 'Payment',
+        entityId: '1',
+        after: { reversalId: '99', reason: 'Chargeback' },
+        ip: '10.0.0.1',
+      }),
+    ]);
+    expect(created.audit[0].before.payment).toMatchObject({ id: '1', amount: 200 });
+  });
+
+  it('should refuse to reverse a payment twice or to reverse a reversal', async () => {
+    const reversed = setup(payment([allocation(1, 200)], { reversal: { id: BigInt(99) } }), []);
+    await expect(reversed.service.reversePayment(BigInt(1), { reason: 'Again' })).rejects.toThrow(
+      'Payment has already been reversed'
+    );
+
+    const reversal = setup(payment([allocation(1, -200)], { reversalOfId: BigInt(1) }), []);
+    await expect(reversal.service.reversePayment(BigInt(2), { reason: 'Undo' })).rejects.toThrow(
+      'A reversal entry cannot be reversed'
+    );
+
+    const missing = setup(null, []);
+    await expect(missing.service.reversePayment(BigInt(3), { reason: 'Missing' })).rejects.toThrow('Payment not found');
+    expect(reversed.created.payments).toHaveLength(0);
+    expect(reversal.created.payments).toHaveLength(0);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Payment Provider Adapters Tests
+ */
+
+import { createHmac } from 'crypto';
+import { GenericPaymentAdapter } from '../adapters/paymentProviders/genericAdapter';
+import { PixPaymentAdapter } from '../adapters/paymentProviders/pixAdapter';
+import { StripePaymentAdapter } from '../adapters/paymentProviders/stripeAdapter';
+import { WebhookRequest } from '../adapters/paymentProviders';
+import { installmentReference, parseInstallmentReference } from '../utils/paymentReference';
+import { PaymentWebhooksService } from '../services/paymentWebhooksService';
+
+const SECRET = 'whsec_test';
+
+function webhookRequest(body: unknown, headers: Record<string, string> = {}, query = {}): WebhookRequest {
+  const rawBody = Buffer.from(JSON.stringify(body));
+  return { rawBody, headers, query, body };
+}
+
+const sign = (content: string) => createHmac('sha256', SECRET).update(content).digest('hex');
+
+describe('GenericPaymentAdapter', () => {
+  const adapter = new GenericPaymentAdapter(SECRET);
+  const body = { id: 'evt_1', type: 'payment.confirmed', reference: 'INST42', amount: 150.5, method: 'BANK_TRANSFER' };
+
+  it('should verify the HMAC signature of the raw body', () => {
+    const signature = sign(JSON.stringify(body));
+    expect(adapter.verifySignature(webhookRequest(body, { 'x-signature': `sha256=${signature}` }))).toBe(true);
+    expect(adapter.verifySignature(webhookRequest(body, { 'x-signature': 'sha256=deadbeef' }))).toBe(false);
+    expect(adapter.verifySignature(webhookRequest(body))).toBe(false);
+  });
+
+  it('should reject every call when no secret is configured', () => {
+    const unconfigured = new GenericPaymentAdapter('');
+    expect(unconfigured.verifySignature(webhookRequest(body, { 'x-signature': sign(JSON.stringify(body)) }))).toBe(false);
+  });
+
+  it('should map the payload to a payment event', () => {
+    const [event] = adapter.parseEvents(webhookRequest(body));
+    expect(event).toMatchObject({
+      eventId: 'evt_1',
+      isPayment: true,
+      reference: 'INST42',
+      amount: 150.5,
+      currency: 'BRL',
+      method: 'BANK_TRANSFER',
+    });
+  });
+
+  it('should flag non-payment events and reject invalid payloads', () => {
+    const [event] = adapter.parseEvents(webhookRequest({ id: 'evt_2', type: 'charge.created' }));
+    expect(event.isPayment).toBe(false);
+    expect(() => adapter.parseEvents(webhookRequest({ type: 'payment.confirmed' }))).toThrow('Invalid webhook payload');
+    expect(() => adapter.parseEvents(webhookRequest({ id: 'evt_3', type: 'payment.confirmed' }))).toThrow(
+      'Invalid webhook payload'
+    );
+  });
+});
+
+describe('PixPaymentAdapter', () => {
+  const adapter = new PixPaymentAdapter(SECRET);
+  const body = {
+    pix: [
+      { endToEndId: 'E1234', txid: 'I42ABC', valor: '110.00', horario: '2024-03-10T12:00:00.000Z' },
+      { endToEndId: 'E5678', valor: '5.00' },
+    ],
+  };
+
+  it('should accept the shared secret in the header or the hmac query parameter', () => {
+    expect(adapter.verifySignature(webhookRequest(body, { 'x-webhook-token': SECRET }))).toBe(true);
+    expect(adapter.verifySignature(webhookRequest(body, {}, { hmac: SECRET }))).toBe(true);
+    expect(adapter.verifySignature(webhookRequest(body, {}, { hmac: 'wrong' }))).toBe(false);
+  });
+
+  it('should map each received PIX to an event keyed by endToEndId', () => {
+    const events = adapter.parseEvents(webhookRequest(body));
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({ eventId: 'E1234', reference: 'I42ABC', amount: 110, method: 'PIX' });
+    expect(events[0].paidAt.toISOString()).toBe('2024-03-10T12:00:00.000Z');
+    expect(events[1].reference).toBeNull();
+  });
+});
+
+describe('StripePaymentAdapter', () => {
+  const now = new Date('2024-03-10T12:00:00.000Z');
+  const adapter = new StripePaymentAdapter(SECRET, () => now);
+  const timestamp = Math.floor(now.getTime() / 1000);
+  const body = {
+    id: 'evt_3',
+    type: 'payment_intent.succeeded',
+    data: { object: { amount_received: 15050, currency: 'brl', created: timestamp, metadata: { reference: 'INST42' } } },
+  };
+
+  it('should verify the timestamped signature', () => {
+    const header = `t=${timestamp},v1=${sign(`${timestamp}.${JSON.stringify(body)}`)}`;
+    expect(adapter.verifySignature(webhookRequest(body, { 'stripe-signature': header }))).toBe(true);
+  });
+
+  it('should reject signatures outside the tolerance window', () => {
+    const old = timestamp - 3600;
+    const header = `t=${old},v1=${sign(`${old}.${JSON.stringify(body)}`)}`;
+    expect(adapter.verifySignature(webhookRequest(body, { 'stripe-signature': header }))).toBe(false);
+  });
+
+  it('should convert cents and read the reference from metadata', () => {
+    const [event] = adapter.parseEvents(webhookRequest(body));
+    expect(event).toMatchObject({ eventId: 'evt_3', isPayment: true, reference: 'INST42', amount: 150.5, currency: 'BRL' });
+  });
+});
+
+describe('installment references', () => {
+  it('should round-trip installment ids', () => {
+    expect(installmentReference(BigInt(42))).toBe('INST42');
+    expect(parseInstallmentReference('inst42')).toBe(BigInt(42));
+    expect(parseInstallmentReference('I42ABC')).toBeNull();
+  });
+});
+
+describe('PaymentWebhooksService reconciliation', () => {
+  const installment = { id: BigInt(42), operationId: BigInt(1), status: 'PENDING', operation: { accountId: 1, currency: 'BRL' } };
+
+  function setup() {
+    const event: Record<string, any> = {
+      id: BigInt(7),
+      provider: 'generic',
+      eventId: 'evt_1',
+      status: 'UNMATCHED',
+      amount: 150,
+      currency: 'BRL',
+      reference: null,
+      paidAt: null,
+    };
+    const payments: Record<string, unknown>[] = [];
+    const prisma: any = {
+      paymentWebhookEvent: {
+        findUnique: async () => ({ ...event }),
+        findUniqueOrThrow: async () => ({ ...event }),
+        updateMany: async ({ where, data }: any) => {
+          if (!where.status.in.includes(event.status)) return { count: 0 };
+          Object.assign(event, data);
+          return { count: 1 };
+        },
+        update: async ({ data }: any) => Object.assign(event, data),
+      },
+      installment: { findFirst: async () => installment },
+      $transaction: (fn: (tx: any) => Promise<unknown>) => fn(prisma),
+    };
+    const service = new PaymentWebhooksService({ prisma });
+    (service as any).paymentAllocationService = {
+      recordPayment: async (_tx: unknown, input: Record<string, unknown>) => {
+        payments.push(input);
+        return { id: BigInt(payments.length), client: { email: null } };
+      },
+      sendReceipt: () => undefined,
+    };
+    return { event, payments, service };
+  }
+
+  it('should record one payment when an event is reconciled twice at once', async () => {
+    const { event, payments, service } = setup();
+
+    const results = await Promise.allSettled([
+      service.reconcile(event.id, { installmentId: '42' } as any),
+      service.reconcile(event.id, { installmentId: '42' } as any),
+    ]);
+
+    expect(payments).toHaveLength(1);
+    expect(results.filter((r) => r.status === 'rejected')).toEqual([
+      expect.objectContaining({ reason: new Error('Payment event is already reconciled') }),
+    ]);
+    expect(event).toMatchObject({ status: 'RECONCILED', paymentId: BigInt(1) });
+  });
+
+  it('should let only one of a concurrent reconcile and ignore resolve the event', async () => {
+    const { event, payments, service } = setup();
+
+    const results = await Promise.allSettled([
+      service.reconcile(event.id, { installmentId: '42' } as any),
+      service.ignore(event.id, {} as any),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(event.status).toBe(results[0].status === 'fulfilled' ? 'RECONCILED' : 'IGNORED');
+    expect(payments).toHaveLength(event.status === 'RECONCILED' ? 1 : 0);
+  });
+});
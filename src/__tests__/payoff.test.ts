@@ -0,0 +1,65 @@
+/**
+ * Early Payoff Tests
+ */
+
+import { calculatePayoffQuote } from '../utils/payoff';
+import { generateAmortizationSchedule } from '../utils/amortization';
+import { AmortizationSystem } from '../constants/enums';
+
+describe('calculatePayoffQuote', () => {
+  const schedule = generateAmortizationSchedule({
+    financedAmount: 1000,
+    interestRate: 2,
+    count: 3,
+    startDate: new Date('2024-01-15T00:00:00Z'),
+    frequency: 'MONTHLY',
+    system: AmortizationSystem.PRICE,
+  });
+
+  const installments = schedule.map((installment, index) => ({
+    id: BigInt(index + 1),
+    dueDate: installment.dueDate,
+    status: 'PENDING',
+    amount: installment.amount,
+    interest: installment.interest,
+    paidAmount: 0,
+    openAmount: installment.amount,
+    lateFees: index === 0 ? 7.52 : 0,
+  }));
+
+  const terms = { interestRate: 2, amortizationSystem: AmortizationSystem.PRICE, frequency: 'MONTHLY' };
+
+  it('should charge overdue installments in full with late fees', () => {
+    const quote = calculatePayoffQuote(installments, terms, new Date('2024-02-20T12:00:00Z'));
+
+    expect(quote.installments[0]).toMatchObject({ anticipated: false, interestDiscount: 0, amountDue: 354.27 });
+    expect(quote.lateFees).toBe(7.52);
+    expect(quote.outstandingPrincipal).toBe(1000);
+  });
+
+  it('should discount anticipated installments to present value', () => {
+    const quote = calculatePayoffQuote(installments, terms, new Date('2024-02-20T12:00:00Z'));
+
+    expect(quote.installments[1]).toMatchObject({ anticipated: true, interestDiscount: 5.45, amountDue: 341.3 });
+    expect(quote.interestDiscount).toBe(17.81);
+    expect(quote.total).toBe(1029.98);
+  });
+
+  it('should use simple discount for the SIMPLE system', () => {
+    const quote = calculatePayoffQuote(
+      installments,
+      { ...terms, amortizationSystem: AmortizationSystem.SIMPLE },
+      new Date('2024-02-20T12:00:00Z')
+    );
+
+    expect(quote.interestDiscount).toBe(17.73);
+  });
+
+  it('should not discount anything without interest', () => {
+    const quote = calculatePayoffQuote(installments, { ...terms, interestRate: 0 }, new Date('2024-01-20T00:00:00Z'));
+
+    expect(quote.interestDiscount).toBe(0);
+    expect(quote.lateFees).toBe(0);
+    expect(quote.total).toBe(1040.27);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Permissions Tests
+ */
+
+import HttpStatusCodes from '../common/HttpStatusCodes';
+import { IReq, IRes } from '../common/types';
+import { AccountRolesController } from '../controllers/accountRolesController';
+import {
+  ACCOUNT_PERMISSIONS,
+  ALL_PERMISSIONS,
+  canEditRole,
+  canManageRole,
+  hasPermission,
+  invalidPermissions,
+  rolePermissions,
+  SYSTEM_ROLES,
+} from '../utils/permissions';
+
+const owner = { role: 'owner', permissions: rolePermissions('owner') };
+const admin = { role: 'admin', permissions: rolePermissions('admin') };
+const agent = { role: 'agent', permissions: rolePermissions('agent') };
+const viewer = { role: 'viewer', permissions: rolePermissions('viewer') };
+
+describe('rolePermissions', () => {
+  it('should give the owner every account permission and none of the platform', () => {
+    expect(rolePermissions('owner', [])).toEqual(ACCOUNT_PERMISSIONS);
+    expect(rolePermissions('owner')).not.toContain('platform:manage');
+    expect(ALL_PERMISSIONS).toContain('platform:manage');
+  });
+
+  it('should use the defaults until the account edits the role', () => {
+    expect(rolePermissions('agent')).toEqual(SYSTEM_ROLES.agent.permissions);
+    expect(rolePermissions('agent', ['payments:reverse'])).toEqual(['payments:reverse']);
+    expect(rolePermissions('viewer')).toEqual([]);
+  });
+
+  it('should drop permissions that are not in the catalog', () => {
+    expect(rolePermissions('auditor', ['clients:export', 'clients:teleport', 'platform:users'])).toEqual(['clients:export']);
+  });
+
+  it('should keep the default agent away from destructive actions', () => {
+    expect(hasPermission(agent.permissions, 'operations:create')).toBe(true);
+    expect(hasPermission(agent.permissions, 'payments:reverse')).toBe(false);
+    expect(hasPermission(agent.permissions, 'clients:delete')).toBe(false);
+    expect(hasPermission(admin.permissions, 'roles:manage')).toBe(false);
+  });
+
+  it('should report unknown and platform permissions as invalid', () => {
+    expect(invalidPermissions(['clients:export', 'platform:manage', 'foo:bar'])).toEqual(['platform:manage', 'foo:bar']);
+  });
+});
+
+describe('canManageRole', () => {
+  it('should let the owner manage every role but the owner', () => {
+    expect(canManageRole(owner, admin)).toBe(true);
+    expect(canManageRole(owner, viewer)).toBe(true);
+    expect(canManageRole(owner, owner)).toBe(false);
+  });
+
+  it('should let others manage only roles with part of their permissions', () => {
+    expect(canManageRole(admin, agent)).toBe(true);
+    expect(canManageRole(admin, viewer)).toBe(true);
+    expect(canManageRole(admin, admin)).toBe(false);
+    expect(canManageRole(admin, { role: 'finance', permissions: ['payments:create', 'payments:reverse'] })).toBe(true);
+    expect(canManageRole(admin, { role: 'twin', permissions: admin.permissions })).toBe(false);
+  });
+
+  it('should require members:manage', () => {
+    expect(canManageRole(agent, viewer)).toBe(false);
+  });
+});
+
+describe('canEditRole', () => {
+  it('should require roles:manage and never touch the owner role', () => {
+    expect(canEditRole(owner, agent)).toBe(true);
+    expect(canEditRole(admin, agent)).toBe(false);
+    expect(canEditRole(owner, owner)).toBe(false);
+  });
+
+  it('should not let a member grant permissions they lack', () => {
+    const manager = { role: 'manager', permissions: ['roles:manage', 'clients:create'] };
+
+    expect(canEditRole(manager, { role: 'intern', permissions: ['clients:create'] })).toBe(true);
+    expect(canEditRole(manager, { role: 'intern', permissions: ['clients:create', 'clients:delete'] })).toBe(false);
+  });
+});
+
+describe('AccountRolesController errors', () => {
+  function remove(error: Error) {
+    const accountRolesService = { delete: jest.fn().mockRejectedValue(error) };
+    const controller = new AccountRolesController({ accountRolesService: accountRolesService as any });
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+    const req = { params: { id: '1', key: 'seller' }, query: {}, body: {}, user: { id: 10 } } as unknown as IReq;
+    return { res, call: () => controller.delete(req, res as unknown as IRes) };
+  }
+
+  it('should map known service errors to their status', async () => {
+    const system = remove(new Error('System roles cannot be deleted'));
+    await system.call();
+    expect(system.res.status).toHaveBeenCalledWith(HttpStatusCodes.BAD_REQUEST);
+
+    const inUse = remove(new Error('Role is in use by 2 members and 0 pending invitations'));
+    await inUse.call();
+    expect(inUse.res.status).toHaveBeenCalledWith(HttpStatusCodes.CONFLICT);
+  });
+
+  it('should leave unexpected errors to the error middleware', async () => {
+    const { res, call } = remove(new Error('Connection terminated unexpectedly'));
+
+    await expect(call()).rejects.toThrow('Connection terminated unexpectedly');
+    expect(res.status).not.toHaveBeenCalled();
+  });
+});
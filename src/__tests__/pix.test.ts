@@ -0,0 +1,108 @@
+/**
+ * PIX BR Code Tests
+ */
+
+import { PixChargesService } from '../services/pixChargesService';
+import { buildPixPayload, crc16, generateTxid, normalizePixSettings, parsePixPayload } from '../utils/pix';
+
+describe('crc16', () => {
+  it('should compute CRC16-CCITT', () => {
+    expect(crc16('123456789')).toBe('29B1');
+  });
+});
+
+describe('buildPixPayload', () => {
+  it('should match the Banco Central example', () => {
+    const payload = buildPixPayload({
+      key: '123e4567-e12b-12d1-a456-426655440000',
+      merchantName: 'Fulano de Tal',
+      merchantCity: 'BRASILIA',
+    });
+
+    expect(payload).toBe(
+      '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000' +
+        '5204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***63041D3D'
+    );
+  });
+
+  it('should include amount and txid and strip accents', () => {
+    const payload = buildPixPayload({
+      key: 'financeiro@empresa.com',
+      merchantName: 'José Ação Empréstimos e Locações',
+      merchantCity: 'São José dos Campos',
+      amount: 150.5,
+      txid: 'I12ABC',
+    });
+    const fields = parsePixPayload(payload);
+
+    expect(fields['54']).toBe('150.50');
+    expect(fields['59']).toBe('Jose Acao Emprestimos e L');
+    expect(fields['60']).toBe('Sao Jose dos Ca');
+    expect(fields['62']).toBe('0506I12ABC');
+  });
+
+  it('should reject invalid txids', () => {
+    expect(() =>
+      buildPixPayload({ key: 'x', merchantName: 'A', merchantCity: 'B', txid: 'not-valid' })
+    ).toThrow('PIX txid must have up to 25 letters or digits');
+  });
+});
+
+describe('parsePixPayload', () => {
+  it('should reject a wrong checksum', () => {
+    expect(() => parsePixPayload('000201630400000')).toThrow('Invalid PIX payload checksum');
+  });
+});
+
+describe('generateTxid', () => {
+  it('should generate up to 25 letters and digits', () => {
+    const txid = generateTxid('I-123');
+    expect(txid).toMatch(/^I123[A-F0-9]{21}$/);
+  });
+});
+
+describe('normalizePixSettings', () => {
+  it('should default missing fields to null', () => {
+    expect(normalizePixSettings({ key: ' 12345678000190 ' })).toEqual({
+      key: '12345678000190',
+      merchantName: null,
+      merchantCity: null,
+    });
+    expect(normalizePixSettings(null).key).toBeNull();
+  });
+});
+
+describe('PixChargesService.confirm', () => {
+  it('should record one payment when a txid is confirmed twice at once', async () => {
+    const installment = { id: BigInt(5), operationId: BigInt(1), status: 'PENDING', operation: {} };
+    const charge: Record<string, any> = { id: BigInt(9), txid: 'TX1', amount: 150, status: 'ACTIVE', installment };
+    const payments: Record<string, any>[] = [];
+    const prisma: any = {
+      pixCharge: {
+        findUnique: async () => ({ ...charge }),
+        findUniqueOrThrow: async () => ({ ...charge }),
+        updateMany: async ({ where, data }: any) => {
+          if (where.id !== charge.id || charge.status !== where.status) return { count: 0 };
+          Object.assign(charge, data);
+          return { count: 1 };
+        },
+        update: async ({ data }: any) => Object.assign(charge, data),
+      },
+      $transaction: (fn: (tx: any) => Promise<unknown>) => fn(prisma),
+    };
+    const service = new PixChargesService({ prisma });
+    (service as any).paymentAllocationService = {
+      recordPayment: async (_tx: unknown, input: Record<string, unknown>) => {
+        payments.push(input);
+        return { id: BigInt(payments.length), client: { email: null } };
+      },
+      sendReceipt: () => undefined,
+    };
+
+    const results = await Promise.allSettled([service.confirm('TX1', {}), service.confirm('TX1', {})]);
+
+    expect(payments).toHaveLength(1);
+    expect(results.filter((r) => r.status === 'rejected')).toHaveLength(1);
+    expect(charge.status).toBe('PAID');
+  });
+});
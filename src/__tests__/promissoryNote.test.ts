@@ -0,0 +1,60 @@
+/**
+ * Promissory Note Helpers Tests
+ */
+
+import {
+  amountInWords,
+  derivePromissoryNoteStatus,
+  formatPartyAddress,
+  numberInWords,
+} from '../utils/promissoryNote';
+
+describe('derivePromissoryNoteStatus', () => {
+  it('should follow the installment status', () => {
+    expect(derivePromissoryNoteStatus('PENDING')).toBe('ISSUED');
+    expect(derivePromissoryNoteStatus('PAID', new Date())).toBe('PAID');
+    expect(derivePromissoryNoteStatus('CANCELLED')).toBe('CANCELLED');
+  });
+
+  it('should stay protested while the installment is open', () => {
+    expect(derivePromissoryNoteStatus('LATE', new Date('2024-03-01'))).toBe('PROTESTED');
+  });
+});
+
+describe('numberInWords', () => {
+  it('should write numbers in pt-BR', () => {
+    expect(numberInWords(100)).toBe('cem');
+    expect(numberInWords(101)).toBe('cento e um');
+    expect(numberInWords(1000)).toBe('mil');
+    expect(numberInWords(1100)).toBe('mil e cem');
+    expect(numberInWords(1250)).toBe('mil duzentos e cinquenta');
+    expect(numberInWords(21345)).toBe('vinte e um mil trezentos e quarenta e cinco');
+    expect(numberInWords(2000000)).toBe('dois milhões');
+  });
+});
+
+describe('amountInWords', () => {
+  it('should write reais and centavos', () => {
+    expect(amountInWords(1234.56)).toBe('mil duzentos e trinta e quatro reais e cinquenta e seis centavos');
+    expect(amountInWords(1)).toBe('um real');
+    expect(amountInWords(0.01)).toBe('um centavo');
+  });
+
+  it('should use "de" after round millions', () => {
+    expect(amountInWords(1000000)).toBe('um milhão de reais');
+  });
+});
+
+describe('formatPartyAddress', () => {
+  it('should join the address parts in a single line', () => {
+    expect(formatPartyAddress({
+      street: 'Rua A',
+      number: '10',
+      neighborhood: 'Centro',
+      city: 'São Paulo',
+      state: 'SP',
+      zip: '01000-000',
+    })).toBe('Rua A, 10 - Centro, São Paulo/SP, 01000-000');
+    expect(formatPartyAddress(null)).toBeNull();
+  });
+});
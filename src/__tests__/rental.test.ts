@@ -0,0 +1,109 @@
+/**
+ * Rental Helpers Tests
+ */
+
+import { InstallmentStatus, OperationStatus } from '../constants/enums';
+import { OperationLifecycleService } from '../services/operationLifecycleService';
+import { RentalsService } from '../services/rentalsService';
+import {
+  accumulateIndexVariation,
+  adjustmentReferenceMonths,
+  readjustRent,
+  rentChargeDueDate,
+} from '../utils/rental';
+
+describe('rentChargeDueDate', () => {
+  it('should be due N months after the contract start', () => {
+    const start = new Date('2024-01-10T00:00:00Z');
+
+    expect(rentChargeDueDate(start, 1)).toEqual(new Date('2024-02-10T00:00:00Z'));
+    expect(rentChargeDueDate(start, 12)).toEqual(new Date('2025-01-10T00:00:00Z'));
+  });
+});
+
+describe('adjustmentReferenceMonths', () => {
+  it('should use the 12 months before the anniversary month', () => {
+    const months = adjustmentReferenceMonths(new Date('2025-01-10T00:00:00Z'));
+
+    expect(months).toHaveLength(12);
+    expect(months[0]).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect(months[11]).toEqual(new Date('2024-12-01T00:00:00Z'));
+  });
+});
+
+describe('accumulateIndexVariation', () => {
+  it('should compound monthly variations', () => {
+    expect(accumulateIndexVariation(Array(12).fill(1))).toBe(12.6825);
+    expect(accumulateIndexVariation([0.5, -0.5])).toBe(-0.0025);
+  });
+});
+
+describe('readjustRent', () => {
+  it('should apply the accumulated variation', () => {
+    expect(readjustRent(1500, 4.5)).toBe(1567.5);
+  });
+
+  it('should never reduce the rent', () => {
+    expect(readjustRent(1500, -3.2)).toBe(1500);
+  });
+});
+
+// One running rental (three charges, all paid) with the calls the services make
+function fakeRental() {
+  const operation = { id: BigInt(1), status: OperationStatus.OVERDUE as string };
+  const contract = {
+    id: BigInt(1),
+    operationId: operation.id,
+    rentAmount: 1500,
+    startDate: new Date('2025-01-10T00:00:00Z'),
+    endDate: null,
+    endedAt: null,
+    adjustmentIndex: 'NONE',
+    nextAdjustmentAt: null,
+    monthsAhead: 3,
+    chargesGenerated: 3,
+  };
+  const installments: Record<string, any>[] = [1, 2, 3].map((month) => ({
+    dueDate: new Date(Date.UTC(2025, month, 10)),
+    status: InstallmentStatus.PAID,
+  }));
+
+  const prisma: any = {
+    operation: {
+      findFirst: async () => null,
+      findUnique: async () => ({
+        ...operation,
+        installmentsList: installments.map(({ status }) => ({ status })),
+        rentalContract: { endedAt: contract.endedAt },
+      }),
+      update: async ({ data }: any) => Object.assign(operation, data),
+    },
+    operationStatusChange: { create: async () => ({}) },
+    promissoryNote: { findMany: async () => [] },
+    rentalContract: {
+      findMany: async ({ where }: any) =>
+        where.operation.status.in.includes(operation.status) ? [{ operationId: operation.id }] : [],
+      findUnique: async () => contract,
+      update: async ({ data }: any) => Object.assign(contract, data),
+    },
+    installment: {
+      createMany: async ({ data }: any) => installments.push(...data),
+    },
+    $transaction: (fn: (tx: any) => Promise<unknown>) => fn(prisma),
+  };
+  return { prisma, operation, installments };
+}
+
+describe('RentalsService', () => {
+  it('should keep charging a running rental after every charge so far is paid', async () => {
+    const { prisma, operation, installments } = fakeRental();
+
+    await new OperationLifecycleService({ prisma }).syncWithInstallments(prisma, operation.id);
+    expect(operation.status).toBe(OperationStatus.ACTIVE);
+
+    const result = await new RentalsService({ prisma }).generateUpcomingCharges(new Date('2025-04-15T00:00:00Z'));
+
+    expect(result.created).toBe(3);
+    expect(installments.filter((i) => i.status === InstallmentStatus.PENDING)).toHaveLength(3);
+  });
+});
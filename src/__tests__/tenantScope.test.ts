@@ -0,0 +1,170 @@
+/**
+ * Tenant Scope Tests
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { RecordNotFoundError } from '../common/classes';
+import HttpStatusCodes from '../common/HttpStatusCodes';
+import { IReq, IRes } from '../common/types';
+import { ClientsController } from '../controllers/clientsController';
+import { runWithTenant, tenantExtension, tenantQuery, withoutTenantScope } from '../prisma/tenant';
+import { ClientsService } from '../services/clientsService';
+import { scopeArgs, scopeWhere } from '../utils/tenantScope';
+
+const tenant = { accountId: 1, userId: 10 };
+
+// Two accounts with one client and one operation (and installment) each
+const tables: Record<string, Record<string, any>[]> = {
+  Client: [
+    { id: 1, accountId: 1, name: 'Ana', deletedAt: null },
+    { id: 2, accountId: 2, name: 'Bruno', deletedAt: null },
+  ],
+  Operation: [
+    { id: 11, accountId: 1, clientId: 1 },
+    { id: 12, accountId: 2, clientId: 2 },
+  ],
+  Installment: [
+    { id: 21, operationId: 11, amount: 100 },
+    { id: 22, operationId: 12, amount: 100 },
+  ],
+};
+const relations: Record<string, { table: string; key: string }> = {
+  operation: { table: 'Operation', key: 'operationId' },
+  client: { table: 'Client', key: 'clientId' },
+};
+
+// Enough of Prisma's where for these tests: equality, AND, OR and to-one relations
+function matches(row: Record<string, any>, where: Record<string, any> = {}): boolean {
+  return Object.entries(where).every(([key, value]) => {
+    if (key === 'AND') return (value as any[]).every((condition) => matches(row, condition));
+    if (key === 'OR') return (value as any[]).some((condition) => matches(row, condition));
+    if (relations[key]) {
+      const { table, key: foreignKey } = relations[key];
+      const related = tables[table].find((candidate) => candidate.id === row[foreignKey]);
+      return !!related && matches(related, value);
+    }
+    return row[key] === value;
+  });
+}
+
+// Query function of a model as the extension receives it
+function query(model: string, operation: string) {
+  return async (args: any) => {
+    const rows = tables[model].filter((row) => matches(row, args.where));
+    if (operation === 'findMany') return rows;
+    if (operation === 'findFirst') return rows[0] ?? null;
+    if (operation === 'update') {
+      if (!rows[0]) {
+        throw new Prisma.PrismaClientKnownRequestError('Record to update not found.', {
+          code: 'P2025',
+          clientVersion: Prisma.prismaVersion.client,
+        });
+      }
+      return { ...rows[0], ...args.data };
+    }
+    throw new Error(`Unsupported operation ${operation}`);
+  };
+}
+
+// Query made in the tenant, or in the context of the caller without one
+function run(model: string, operation: string, args: any, scope: 'tenant' | 'context' = 'tenant') {
+  const params = { model, operation, args, query: query(model, operation) };
+  return scope === 'tenant' ? tenantQuery(params, tenant) : tenantQuery(params);
+}
+
+describe('tenant scope', () => {
+  it('should narrow the where of reads and writes to the account', () => {
+    expect(scopeWhere('Client', { id: 2 }, tenant)).toEqual({ id: 2, AND: [{ accountId: 1 }] });
+    expect(scopeWhere('Installment', { AND: { status: 'PENDING' } }, tenant)).toEqual({
+      AND: [{ status: 'PENDING' }, { operation: { accountId: 1 } }],
+    });
+    expect(scopeArgs('Notification', 'findMany', {}, tenant)).toEqual({ where: { userId: 10 } });
+    expect(scopeArgs('Plan', 'findMany', {}, tenant)).toEqual({});
+  });
+
+  it('should fill in the account of created records and refuse another one', () => {
+    expect(scopeArgs('Client', 'create', { data: { name: 'Ana' } }, tenant)).toEqual({
+      data: { name: 'Ana', accountId: 1 },
+    });
+    expect(() => scopeArgs('Client', 'create', { data: { name: 'Ana', accountId: 2 } }, tenant)).toThrow(
+      'Account not found'
+    );
+    expect(() => scopeArgs('Operation', 'update', { where: { id: 11 }, data: { accountId: 2 } }, tenant)).toThrow(
+      'Account not found'
+    );
+  });
+
+  it('should not find records of another account', async () => {
+    expect(await run('Client', 'findFirst', { where: { id: 2 } })).toBeNull();
+    expect(await run('Client', 'findMany', { where: { accountId: 2 } })).toEqual([]);
+    expect(await run('Installment', 'findFirst', { where: { id: 22 } })).toBeNull();
+    expect(((await run('Installment', 'findFirst', { where: { id: 21 } })) as any).id).toBe(21);
+  });
+
+  it('should answer 404 to updates of records of another account', async () => {
+    let error: any;
+    try {
+      await run('Installment', 'update', { where: { id: 22 }, data: { amount: 0 } });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error instanceof RecordNotFoundError).toBe(true);
+    expect(error.status).toBe(HttpStatusCodes.NOT_FOUND);
+    expect(error.message).toBe('Installment not found');
+  });
+
+  it('should answer 404 when a user opens a client of another account', async () => {
+    const prisma = { client: { findFirst: (args: any) => run('Client', 'findFirst', args, 'context') } };
+    const controller = new ClientsController({ clientsService: new ClientsService({ prisma: prisma as any }) });
+    const show = async (id: string) => {
+      const res: any = { json: () => res };
+      res.status = (code: number) => Object.assign(res, { code });
+      const req = { params: { id }, query: {}, body: {}, user: { id: 10, accountId: 1 } } as unknown as IReq;
+      await runWithTenant(tenant, () => controller.show(req, res as IRes));
+      return res.code;
+    };
+
+    expect(await show('2')).toBe(HttpStatusCodes.NOT_FOUND);
+    expect(await show('1')).toBe(HttpStatusCodes.OK);
+  });
+
+  it('should leave queries without a tenant (admins, jobs) unscoped', async () => {
+    const client = (await run('Client', 'findFirst', { where: { id: 2 } }, 'context')) as any;
+
+    expect(client.name).toBe('Bruno');
+  });
+});
+
+describe('withoutTenantScope', () => {
+  // Extended client whose innermost extension records the final args instead of querying
+  const captured: any[] = [];
+  const prisma = new PrismaClient().$extends(tenantExtension).$extends({
+    query: {
+      $allModels: {
+        $allOperations: async ({ args }) => {
+          captured.push(args);
+          return null;
+        },
+      },
+    },
+  });
+
+  beforeEach(() => {
+    captured.length = 0;
+  });
+
+  it('should scope lazy queries started inside the tenant context', async () => {
+    await runWithTenant(tenant, async () => await prisma.client.findFirst({ where: { email: 'ana@example.com' } }));
+
+    expect(captured).toEqual([{ where: { email: 'ana@example.com', AND: [{ accountId: 1 }] } }]);
+  });
+
+  it('should leave queries of platform-wide checks unscoped', async () => {
+    await runWithTenant(tenant, async () => {
+      await withoutTenantScope(() => prisma.client.findFirst({ where: { email: 'ana@example.com' } }));
+    });
+
+    expect(captured).toEqual([{ where: { email: 'ana@example.com' } }]);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * WhatsApp Cloud API Tests
+ * The provider runs against the local mock server
+ */
+
+import { NotificationDeliveryError, WhatsappCloudNotificationProvider } from '../adapters/notificationProviders';
+import {
+  buildTemplateMessage,
+  normalizeWhatsappNumber,
+  parseWhatsappStatuses,
+  verifyWhatsappSignature,
+} from '../adapters/whatsapp/cloudApi';
+import { MockWhatsappServer, startMockWhatsappServer } from '../adapters/whatsapp/mockServer';
+import { hmacSha256 } from '../adapters/paymentProviders';
+
+const ACCESS_TOKEN = 'test-token';
+
+let mock: MockWhatsappServer;
+let provider: WhatsappCloudNotificationProvider;
+
+const message = (phone: string | null, template = true) => ({
+  channel: 'WHATSAPP',
+  recipient: { name: 'Maria', phone },
+  title: 'Parcela em atraso',
+  body: 'Olá Maria, sua parcela venceu',
+  reference: 'alert:1',
+  ...(template ? { template: { name: 'payment_overdue', locale: 'pt-BR', parameters: ['Maria', 'R$ 150,00'] } } : {}),
+});
+
+beforeAll(async () => {
+  mock = await startMockWhatsappServer({ accessToken: ACCESS_TOKEN });
+  provider = new WhatsappCloudNotificationProvider({
+    apiUrl: mock.url,
+    apiVersion: 'v21.0',
+    phoneNumberId: '1234567890',
+    accessToken: ACCESS_TOKEN,
+  });
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+describe('Cloud API payloads', () => {
+  it('should normalize numbers to country code and digits', () => {
+    expect(normalizeWhatsappNumber('+55 (11) 99999-0000')).toBe('5511999990000');
+    expect(normalizeWhatsappNumber('99999')).toBeNull();
+  });
+
+  it('should fill the body parameters and the copy-code button', () => {
+    const payload = buildTemplateMessage('5511999990000', {
+      name: 'codigo_verificacao',
+      locale: 'pt-BR',
+      parameters: ['123456'],
+      copyCode: true,
+    });
+
+    expect(payload.template.language).toEqual({ code: 'pt_BR' });
+    expect(payload.template.components).toEqual([
+      { type: 'body', parameters: [{ type: 'text', text: '123456' }] },
+      { type: 'button', sub_type: 'url', index: '0', parameters: [{ type: 'text', text: '123456' }] },
+    ]);
+  });
+
+  it('should replace empty parameters and line breaks', () => {
+    const payload = buildTemplateMessage('5511999990000', { name: 'generic', locale: 'en', parameters: ['', 'a\n\nb'] });
+
+    expect(payload.template.language).toEqual({ code: 'en_US' });
+    expect(payload.template.components[0].parameters).toEqual([
+      { type: 'text', text: '-' },
+      { type: 'text', text: 'a b' },
+    ]);
+  });
+});
+
+describe('WhatsappCloudNotificationProvider', () => {
+  it('should send the approved template and return the wamid', async () => {
+    const result = await provider.send(message('+55 11 99999-0000'));
+
+    expect(result.provider).toBe('whatsapp');
+    expect(result.providerMessageId).toBe(mock.messages[0].id);
+    expect(mock.messages[0].phoneNumberId).toBe('1234567890');
+    expect(mock.messages[0].payload).toMatchObject({ to: '5511999990000', type: 'template' });
+  });
+
+  it('should send free text without a template', async () => {
+    await provider.send(message('5511999990000', false));
+
+    expect(mock.messages[1].payload.text.body).toBe('*Parcela em atraso*\nOlá Maria, sua parcela venceu');
+  });
+
+  it('should retry throttling and give up on permanent errors', async () => {
+    mock.failNext(400, 130429, 'Rate limit hit');
+    await expect(provider.send(message('5511999990000'))).rejects.toMatchObject({ retryable: true });
+
+    mock.failNext(400, 132001, 'Template name does not exist in the translation');
+    await expect(provider.send(message('5511999990000'))).rejects.toMatchObject({
+      retryable: false,
+      message: 'WhatsApp Cloud API answered 400 (132001): Template name does not exist in the translation',
+    });
+  });
+
+  it('should reject a wrong token and a missing phone without retrying', async () => {
+    const unauthorized = new WhatsappCloudNotificationProvider({
+      apiUrl: mock.url,
+      apiVersion: 'v21.0',
+      phoneNumberId: '1234567890',
+      accessToken: 'expired',
+    });
+    await expect(unauthorized.send(message('5511999990000'))).rejects.toMatchObject({ retryable: false });
+
+    await expect(provider.send(message(null))).rejects.toThrow(NotificationDeliveryError);
+  });
+});
+
+describe('status callbacks', () => {
+  it('should parse the statuses of a callback', () => {
+    const payload = mock.statusPayload(mock.messages[0].id, 'failed', { code: 131026, title: 'Message undeliverable' });
+    const [update] = parseWhatsappStatuses(payload);
+
+    expect(update).toMatchObject({
+      messageId: mock.messages[0].id,
+      status: 'failed',
+      recipientId: '5511999990000',
+      error: '131026 Message undeliverable',
+    });
+    const templateReview = {
+      object: 'whatsapp_business_account',
+      entry: [{ changes: [{ field: 'message_template_status_update', value: {} }] }],
+    };
+    expect(parseWhatsappStatuses(templateReview)).toEqual([]);
+    expect(() => parseWhatsappStatuses({ entry: [] })).toThrow('Invalid webhook payload');
+  });
+
+  it('should check the X-Hub-Signature-256 header', () => {
+    const body = Buffer.from(JSON.stringify(mock.statusPayload('wamid.1', 'read')));
+
+    expect(verifyWhatsappSignature(body, `sha256=${hmacSha256('secret', body)}`, 'secret')).toBe(true);
+    expect(verifyWhatsappSignature(body, `sha256=${hmacSha256('other', body)}`, 'secret')).toBe(false);
+    expect(verifyWhatsappSignature(body, null, 'secret')).toBe(false);
+  });
+});
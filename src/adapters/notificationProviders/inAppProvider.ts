@@ -0,0 +1,22 @@
+/**
+ * In-app notifications are read from the notifications table by the frontend, so the
+ * stored row is the delivery: the provider only checks there is a platform user to show it to.
+ */
+
+import {
+  NotificationDeliveryError,
+  NotificationDeliveryResult,
+  NotificationMessage,
+  NotificationProvider,
+} from './notificationProvider';
+
+export class InAppNotificationProvider implements NotificationProvider {
+  readonly name = 'in_app';
+
+  async send(message: NotificationMessage): Promise<NotificationDeliveryResult> {
+    if (!message.recipient.userId) {
+      throw new NotificationDeliveryError('In-app notifications require a platform user', false);
+    }
+    return { provider: this.name, providerMessageId: null, sentAt: new Date() };
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Notification providers per channel
+ * Register new providers here; the one used by each channel comes from NOTIFICATION_PROVIDER_<CHANNEL>.
+ * Outside production a channel without one falls back to the development providers (log, outbox);
+ * in production those are refused and such a channel fails every send.
+ */
+
+import EnvVars from '../../common/EnvVars';
+import { NodeEnvs } from '../../common/misc';
+import { NotificationChannel } from '../../constants/enums';
+import { InAppNotificationProvider } from './inAppProvider';
+import { LogNotificationProvider } from './logProvider';
+import { NotificationProvider } from './notificationProvider';
+import { OutboxNotificationProvider } from './outboxProvider';
+import { RelayNotificationProvider } from './relayProvider';
+import { SmtpNotificationProvider } from './smtpProvider';
+import { UnconfiguredNotificationProvider } from './unconfiguredProvider';
+import { WhatsappCloudNotificationProvider } from './whatsappCloudProvider';
+
+export * from './notificationProvider';
+export { LogNotificationProvider } from './logProvider';
+export { OutboxNotificationProvider } from './outboxProvider';
+export { UnconfiguredNotificationProvider } from './unconfiguredProvider';
+export type { OutboxEmail } from './outboxProvider';
+export { WhatsappCloudNotificationProvider } from './whatsappCloudProvider';
+
+export type NotificationProviders = Record<NotificationChannel, NotificationProvider>;
+
+// Providers that print or store messages instead of delivering them
+const DEVELOPMENT_PROVIDERS = ['log', 'outbox'];
+
+const DEVELOPMENT_DEFAULTS: Record<NotificationChannel, string> = {
+  [NotificationChannel.WHATSAPP]: 'log',
+  [NotificationChannel.PUSH]: 'log',
+  [NotificationChannel.IN_APP]: 'in_app',
+  [NotificationChannel.EMAIL]: 'outbox',
+};
+
+export function createNotificationProviders(): NotificationProviders {
+  const { Providers, Relay } = EnvVars.Notifications;
+  const { Smtp } = EnvVars.Email;
+  const available: Record<string, () => NotificationProvider> = {
+    log: () => new LogNotificationProvider(),
+    relay: () => new RelayNotificationProvider(Relay.Url, Relay.Secret),
+    in_app: () => new InAppNotificationProvider(),
+    whatsapp: () =>
+      new WhatsappCloudNotificationProvider({
+        apiUrl: EnvVars.Whatsapp.ApiUrl,
+        apiVersion: EnvVars.Whatsapp.ApiVersion,
+        phoneNumberId: EnvVars.Whatsapp.PhoneNumberId,
+        accessToken: EnvVars.Whatsapp.AccessToken,
+      }),
+    smtp: () =>
+      new SmtpNotificationProvider({
+        host: Smtp.Host,
+        port: Smtp.Port,
+        secure: Smtp.Secure,
+        user: Smtp.User,
+        password: Smtp.Password,
+        from: EnvVars.Email.From,
+      }),
+    outbox: () => new OutboxNotificationProvider(EnvVars.Email.OutboxDir),
+  };
+
+  const production = EnvVars.NodeEnv === NodeEnvs.Production.valueOf();
+  const resolve = (channel: NotificationChannel, configured: string): NotificationProvider => {
+    const name = (configured || (production ? '' : DEVELOPMENT_DEFAULTS[channel])).toLowerCase();
+    if (!name) {
+      return new UnconfiguredNotificationProvider(channel, 'none configured');
+    }
+    if (production && DEVELOPMENT_PROVIDERS.includes(name)) {
+      return new UnconfiguredNotificationProvider(channel, `"${name}" is only for development`);
+    }
+
+    const factory = available[name];
+    if (!factory) {
+      throw new Error(`Unknown notification provider "${configured}" for ${channel}`);
+    }
+    return factory();
+  };
+
+  return {
+    [NotificationChannel.WHATSAPP]: resolve(NotificationChannel.WHATSAPP, Providers.Whatsapp),
+    [NotificationChannel.PUSH]: resolve(NotificationChannel.PUSH, Providers.Push),
+    [NotificationChannel.IN_APP]: resolve(NotificationChannel.IN_APP, Providers.InApp),
+    [NotificationChannel.EMAIL]: resolve(NotificationChannel.EMAIL, Providers.Email),
+  };
+}
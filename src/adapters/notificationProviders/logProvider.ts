@@ -0,0 +1,34 @@
+/**
+ * Local provider for development: prints the message and keeps it in an in-memory outbox
+ * instead of contacting any service. Messages are accepted immediately.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  NotificationDeliveryResult,
+  NotificationMessage,
+  NotificationProvider,
+  requireAddress,
+} from './notificationProvider';
+
+const OUTBOX_SIZE = 100;
+
+export class LogNotificationProvider implements NotificationProvider {
+  readonly name = 'log';
+  readonly outbox: Array<NotificationMessage & { providerMessageId: string }> = [];
+
+  async send(message: NotificationMessage): Promise<NotificationDeliveryResult> {
+    // Same address checks as the real providers of the channel
+    const to =
+      message.channel === 'WHATSAPP' ? requireAddress(message, 'phone')
+      : message.channel === 'EMAIL' ? requireAddress(message, 'email')
+      : `user:${message.recipient.userId ?? '-'}`;
+
+    const providerMessageId = `log-${randomUUID()}`;
+    this.outbox.push({ ...message, providerMessageId });
+    if (this.outbox.length > OUTBOX_SIZE) this.outbox.shift();
+
+    console.log(`📨 [${message.channel}] ${to} — ${message.title}: ${message.body}`);
+    return { provider: this.name, providerMessageId, sentAt: new Date() };
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Notification provider contract
+ *
+ * Each channel (WhatsApp, push, in-app, email) is delivered by a provider that sends an
+ * already rendered message and reports what the provider accepted. Throwing means the
+ * attempt failed; NotificationDeliveryError tells whether retrying can help.
+ */
+
+export interface NotificationRecipient {
+  userId?: number | null; // platform user (notifications)
+  name?: string | null;
+  phone?: string | null;
+  email?: string | null;
+}
+
+// Pre-approved template for channels that only accept them outside a conversation (WhatsApp)
+export interface NotificationTemplate {
+  name: string; // template key, e.g. "payment_overdue"
+  locale: string;
+  parameters: string[]; // positional values ({{1}}, {{2}}...)
+  copyCode?: boolean; // authentication template: the first parameter also fills the copy-code button
+}
+
+export interface NotificationAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface NotificationMessage {
+  channel: string;
+  recipient: NotificationRecipient;
+  title: string;
+  body: string;
+  html?: string; // email: HTML version of the body
+  attachments?: NotificationAttachment[]; // email only
+  reference: string; // e.g. "alert:12" or "notification:5", sent to providers as idempotency key
+  template?: NotificationTemplate; // providers without templates send title/body
+  meta?: Record<string, unknown>;
+}
+
+export interface NotificationDeliveryResult {
+  provider: string;
+  providerMessageId: string | null;
+  sentAt: Date; // when the provider accepted the message
+  response?: unknown; // provider payload, kept in the delivery history
+}
+
+export interface NotificationProvider {
+  readonly name: string;
+  send(message: NotificationMessage): Promise<NotificationDeliveryResult>;
+}
+
+export class NotificationDeliveryError extends Error {
+  constructor(message: string, public readonly retryable = true) {
+    super(message);
+    this.name = 'NotificationDeliveryError';
+  }
+}
+
+/**
+ * Address the channel delivers to, failing permanently when the recipient has none
+ */
+export function requireAddress(message: NotificationMessage, field: 'phone' | 'email'): string {
+  const address = message.recipient[field]?.trim();
+  if (!address) {
+    throw new NotificationDeliveryError(`Recipient has no ${field} for ${message.channel}`, false);
+  }
+  return address;
+}
@@ -0,0 +1,72 @@
+/**
+ * Development mailbox for the email channel: keeps the emails in memory and, with a folder,
+ * writes each one as <date>-<id>.json (headers, text, attachment names) and .html, so they can
+ * be opened in a browser. Nothing leaves the machine; messages are accepted immediately.
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  NotificationDeliveryError,
+  NotificationDeliveryResult,
+  NotificationMessage,
+  NotificationProvider,
+  requireAddress,
+} from './notificationProvider';
+
+const OUTBOX_SIZE = 100;
+
+export interface OutboxEmail {
+  id: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string | null;
+  attachments: Array<{ filename: string; contentType: string; size: number }>;
+  reference: string;
+  sentAt: string;
+}
+
+export class OutboxNotificationProvider implements NotificationProvider {
+  readonly name = 'outbox';
+  readonly outbox: OutboxEmail[] = [];
+
+  constructor(private directory = '') {}
+
+  async send(message: NotificationMessage): Promise<NotificationDeliveryResult> {
+    const sentAt = new Date();
+    const email: OutboxEmail = {
+      id: `outbox-${randomUUID()}`,
+      to: requireAddress(message, 'email'),
+      subject: message.title,
+      text: message.body,
+      html: message.html ?? null,
+      attachments: (message.attachments ?? []).map((a) => ({
+        filename: a.filename,
+        contentType: a.contentType,
+        size: a.content.length,
+      })),
+      reference: message.reference,
+      sentAt: sentAt.toISOString(),
+    };
+
+    this.outbox.push(email);
+    if (this.outbox.length > OUTBOX_SIZE) this.outbox.shift();
+
+    let file: string | null = null;
+    if (this.directory) {
+      file = path.join(this.directory, `${email.sentAt.replace(/[:.]/g, '-')}-${email.id}`);
+      try {
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(`${file}.json`, JSON.stringify(email, null, 2));
+        if (email.html) await fs.writeFile(`${file}.html`, email.html);
+      } catch (error) {
+        throw new NotificationDeliveryError(`Outbox folder is not writable: ${(error as Error).message}`, false);
+      }
+    }
+
+    console.log(`✉️  [EMAIL] ${email.to} — ${email.subject}${file ? ` (${file}.json)` : ''}`);
+    return { provider: this.name, providerMessageId: email.id, sentAt };
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * HTTP relay: posts the message to a gateway we run in front of the channel services
+ * (push, SMS/WhatsApp brokers...). Body signed like our generic payment webhooks:
+ *
+ * Header `X-Signature: sha256=<hex hmac of the body>` and `Idempotency-Key: <reference>`; body:
+ * { "reference": "alert:12", "channel": "PUSH", "recipient": { "userId": 3 }, "title": "...", "body": "..." }
+ * The gateway answers 2xx with { "id": "msg_1", "sentAt": "2024-03-10T12:00:00Z" }.
+ */
+
+import axios, { AxiosError } from 'axios';
+import { createHmac } from 'crypto';
+import {
+  NotificationDeliveryError,
+  NotificationDeliveryResult,
+  NotificationMessage,
+  NotificationProvider,
+} from './notificationProvider';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Client errors that may succeed later
+const RETRYABLE_STATUSES = [408, 409, 425, 429];
+
+export class RelayNotificationProvider implements NotificationProvider {
+  readonly name = 'relay';
+
+  constructor(private url: string, private secret: string) {}
+
+  async send(message: NotificationMessage): Promise<NotificationDeliveryResult> {
+    if (!this.url) {
+      throw new NotificationDeliveryError('Notification relay URL is not configured', false);
+    }
+
+    const body = JSON.stringify({
+      reference: message.reference,
+      channel: message.channel,
+      recipient: message.recipient,
+      title: message.title,
+      body: message.body,
+      meta: message.meta ?? {},
+    });
+
+    try {
+      const response = await axios.post(this.url, body, {
+        timeout: REQUEST_TIMEOUT_MS,
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': message.reference,
+          ...(this.secret ? { 'X-Signature': `sha256=${createHmac('sha256', this.secret).update(body).digest('hex')}` } : {}),
+        },
+      });
+
+      const data = (response.data ?? {}) as Record<string, unknown>;
+      const sentAt = data.sentAt ? new Date(String(data.sentAt)) : new Date();
+      return {
+        provider: this.name,
+        providerMessageId: data.id !== undefined && data.id !== null ? String(data.id) : null,
+        sentAt: isNaN(sentAt.getTime()) ? new Date() : sentAt,
+        response: data,
+      };
+    } catch (error) {
+      const status = (error as AxiosError).response?.status;
+      const retryable = !status || status >= 500 || RETRYABLE_STATUSES.includes(status);
+      throw new NotificationDeliveryError(
+        status ? `Notification relay answered ${status}` : `Notification relay unreachable: ${(error as Error).message}`,
+        retryable
+      );
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * SMTP provider for the email channel (nodemailer). The SMTP reply decides whether a
+ * failure is retried: 4xx replies and connection errors are temporary, 5xx are not.
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import {
+  NotificationDeliveryError,
+  NotificationDeliveryResult,
+  NotificationMessage,
+  NotificationProvider,
+  requireAddress,
+} from './notificationProvider';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  password: string;
+  from: string;
+}
+
+// Errors of the login or the message itself, which a new attempt does not fix
+const PERMANENT_ERROR_CODES = ['EAUTH', 'EENVELOPE', 'EMESSAGE'];
+
+export class SmtpNotificationProvider implements NotificationProvider {
+  readonly name = 'smtp';
+  private transporter: Transporter | null = null;
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: NotificationMessage): Promise<NotificationDeliveryResult> {
+    if (!this.config.host) {
+      throw new NotificationDeliveryError('SMTP host is not configured', false);
+    }
+    const to = requireAddress(message, 'email');
+
+    try {
+      const info = await this.getTransporter().sendMail({
+        from: this.config.from,
+        to: message.recipient.name ? { name: message.recipient.name, address: to } : to,
+        subject: message.title,
+        text: message.body,
+        html: message.html,
+        attachments: message.attachments,
+        headers: { 'X-Reference': message.reference },
+      });
+
+      return {
+        provider: this.name,
+        providerMessageId: info.messageId ?? null,
+        sentAt: new Date(),
+        response: { response: info.response, accepted: info.accepted, rejected: info.rejected },
+      };
+    } catch (error) {
+      const { code, responseCode, message: reason } = error as Error & { code?: string; responseCode?: number };
+      const retryable = responseCode ? responseCode < 500 : !PERMANENT_ERROR_CODES.includes(code ?? '');
+      throw new NotificationDeliveryError(
+        `SMTP ${responseCode ? `answered ${responseCode}` : 'failed'}: ${reason}`,
+        retryable
+      );
+    }
+  }
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      const { host, port, secure, user, password } = this.config;
+      this.transporter = nodemailer.createTransport({
+        host,
+        port,
+        secure,
+        ...(user ? { auth: { user, pass: password } } : {}),
+      });
+    }
+    return this.transporter;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Stand-in for a channel without a provider in production: every send fails (without retries)
+ * so nothing is reported as delivered and the error says what to configure
+ */
+
+import {
+  NotificationDeliveryError,
+  NotificationDeliveryResult,
+  NotificationMessage,
+  NotificationProvider,
+} from './notificationProvider';
+
+export class UnconfiguredNotificationProvider implements NotificationProvider {
+  readonly name = 'unconfigured';
+
+  constructor(private readonly channel: string, private readonly reason: string) {}
+
+  async send(_message: NotificationMessage): Promise<NotificationDeliveryResult> {
+    throw new NotificationDeliveryError(
+      `No ${this.channel} provider: ${this.reason} (NOTIFICATION_PROVIDER_${this.channel})`,
+      false
+    );
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * WhatsApp Cloud API provider
+ *
+ * Messages with a template are sent as that approved template (same name as our template key,
+ * body parameters in the order the placeholders appear); messages without one are sent as
+ * free text, which WhatsApp only delivers within 24h of the client's last message.
+ * The returned wamid is matched by the status callbacks (see services/whatsappService).
+ */
+
+import axios, { AxiosError } from 'axios';
+import { buildTemplateMessage, buildTextMessage, normalizeWhatsappNumber } from '../whatsapp/cloudApi';
+import {
+  NotificationDeliveryError,
+  NotificationDeliveryResult,
+  NotificationMessage,
+  NotificationProvider,
+  requireAddress,
+} from './notificationProvider';
+
+export interface WhatsappCloudConfig {
+  apiUrl: string;
+  apiVersion: string;
+  phoneNumberId: string;
+  accessToken: string;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Graph API error codes worth retrying: throttling and temporary outages
+const RETRYABLE_ERROR_CODES = [1, 2, 4, 80007, 130429, 131016, 131048, 131056, 133004];
+
+export class WhatsappCloudNotificationProvider implements NotificationProvider {
+  readonly name = 'whatsapp';
+
+  constructor(private config: WhatsappCloudConfig) {}
+
+  async send(message: NotificationMessage): Promise<NotificationDeliveryResult> {
+    const { apiUrl, apiVersion, phoneNumberId, accessToken } = this.config;
+    if (!phoneNumberId || !accessToken) {
+      throw new NotificationDeliveryError('WhatsApp Cloud API is not configured', false);
+    }
+
+    const to = normalizeWhatsappNumber(requireAddress(message, 'phone'));
+    if (!to) {
+      throw new NotificationDeliveryError('Recipient phone is not a valid WhatsApp number', false);
+    }
+
+    const payload = message.template
+      ? buildTemplateMessage(to, message.template)
+      : buildTextMessage(to, message.title ? `*${message.title}*\n${message.body}` : message.body);
+
+    try {
+      const response = await axios.post(
+        `${apiUrl.replace(/\/+$/, '')}/${apiVersion}/${phoneNumberId}/messages`,
+        payload,
+        {
+          timeout: REQUEST_TIMEOUT_MS,
+          headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+        }
+      );
+
+      const data = (response.data ?? {}) as { messages?: Array<{ id?: string }> };
+      return {
+        provider: this.name,
+        providerMessageId: data.messages?.[0]?.id ?? null,
+        sentAt: new Date(),
+        response: data,
+      };
+    } catch (error) {
+      const response = (error as AxiosError).response;
+      if (!response) {
+        throw new NotificationDeliveryError(`WhatsApp Cloud API unreachable: ${(error as Error).message}`, true);
+      }
+
+      const graphError = ((response.data ?? {}) as { error?: { code?: number; message?: string } }).error ?? {};
+      const code = Number(graphError.code) || null;
+      const retryable = response.status >= 500 || response.status === 429 || (!!code && RETRYABLE_ERROR_CODES.includes(code));
+      throw new NotificationDeliveryError(
+        `WhatsApp Cloud API answered ${response.status}${code ? ` (${code})` : ''}: ${graphError.message ?? 'request failed'}`,
+        retryable
+      );
+    }
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Generic provider: our own JSON format signed with HMAC-SHA256
+ *
+ * Header `X-Signature: sha256=<hex hmac of the raw body>`; body:
+ * { "id": "evt_1", "type": "payment.confirmed", "reference": "INST42", "amount": 150.5,
+ *   "currency": "BRL", "paidAt": "2024-03-10T12:00:00Z", "method": "BANK_TRANSFER" }
+ */
+
+import { PaymentMethod } from '../../constants/enums';
+import {
+  headerValue,
+  hmacSha256,
+  parseEventDate,
+  PaymentProviderAdapter,
+  ProviderPaymentEvent,
+  safeEqual,
+  WebhookRequest,
+} from './paymentProviderAdapter';
+
+const PAYMENT_EVENT_TYPES = ['payment.confirmed', 'payment.paid'];
+const PAYMENT_METHODS: string[] = Object.values(PaymentMethod);
+
+export class GenericPaymentAdapter implements PaymentProviderAdapter {
+  readonly provider = 'generic';
+
+  constructor(private secret: string) {}
+
+  verifySignature(request: WebhookRequest): boolean {
+    const signature = headerValue(request, 'x-signature');
+    if (!this.secret || !signature) return false;
+    return safeEqual(signature.replace(/^sha256=/, ''), hmacSha256(this.secret, request.rawBody));
+  }
+
+  parseEvents(request: WebhookRequest): ProviderPaymentEvent[] {
+    const body = request.body as Record<string, unknown>;
+    if (!body || typeof body.id !== 'string' || typeof body.type !== 'string') {
+      throw new Error('Invalid webhook payload');
+    }
+
+    const isPayment = PAYMENT_EVENT_TYPES.includes(body.type);
+    const amount = body.amount !== undefined ? Number(body.amount) : null;
+    if (isPayment && (amount === null || !(amount > 0))) {
+      throw new Error('Invalid webhook payload');
+    }
+
+    return [
+      {
+        eventId: body.id,
+        eventType: body.type,
+        isPayment,
+        reference: typeof body.reference === 'string' ? body.reference : null,
+        amount,
+        currency: typeof body.currency === 'string' ? body.currency.toUpperCase() : 'BRL',
+        paidAt: parseEventDate(body.paidAt),
+        method: PAYMENT_METHODS.includes(String(body.method)) ? String(body.method) : null,
+        payload: body,
+      },
+    ];
+  }
+}
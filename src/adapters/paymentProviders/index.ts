@@ -0,0 +1,21 @@
+/**
+ * Payment provider adapters available for webhooks (/webhooks/payments/:provider)
+ * Register new gateways here; secrets come from PAYMENT_WEBHOOK_SECRET_<PROVIDER>.
+ */
+
+import EnvVars from '../../common/EnvVars';
+import { GenericPaymentAdapter } from './genericAdapter';
+import { PaymentProviderAdapter } from './paymentProviderAdapter';
+import { PixPaymentAdapter } from './pixAdapter';
+import { StripePaymentAdapter } from './stripeAdapter';
+
+export * from './paymentProviderAdapter';
+
+export function createPaymentProviderAdapters(): PaymentProviderAdapter[] {
+  const secrets = EnvVars.PaymentWebhooks.Secrets;
+  return [
+    new GenericPaymentAdapter(secrets.Generic),
+    new PixPaymentAdapter(secrets.Pix),
+    new StripePaymentAdapter(secrets.Stripe),
+  ];
+}
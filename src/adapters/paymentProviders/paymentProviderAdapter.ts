@@ -0,0 +1,64 @@
+/**
+ * Payment provider adapter contract
+ *
+ * Each gateway (PIX PSP, boleto issuer, card processor) gets an adapter that checks the
+ * webhook authenticity and maps its payload to provider-agnostic payment events.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface WebhookRequest {
+  rawBody: Buffer;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, unknown>;
+  body: unknown;
+}
+
+export interface ProviderPaymentEvent {
+  eventId: string; // provider's unique id, used for idempotency
+  eventType: string;
+  isPayment: boolean; // false for events that do not move money (ignored)
+  reference: string | null; // PIX txid, boleto number or installment reference
+  amount: number | null;
+  currency: string;
+  paidAt: Date;
+  method: string | null;
+  endToEndId?: string; // PIX transaction id
+  payload: unknown; // provider item as received
+}
+
+export interface PaymentProviderAdapter {
+  readonly provider: string;
+  verifySignature(request: WebhookRequest): boolean;
+  parseEvents(request: WebhookRequest): ProviderPaymentEvent[];
+}
+
+/**
+ * Constant-time comparison of two secrets/signatures
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function hmacSha256(secret: string, content: string | Buffer): string {
+  return createHmac('sha256', secret).update(content).digest('hex');
+}
+
+export function headerValue(request: WebhookRequest, name: string): string | null {
+  const value = request.headers[name.toLowerCase()];
+  return (Array.isArray(value) ? value[0] : value) || null;
+}
+
+/**
+ * Date sent by the provider (now when missing)
+ */
+export function parseEventDate(value: unknown): Date {
+  if (value === undefined || value === null || value === '') return new Date();
+  const date = new Date(typeof value === 'number' ? value : String(value));
+  if (isNaN(date.getTime())) {
+    throw new Error('Invalid webhook payload');
+  }
+  return date;
+}
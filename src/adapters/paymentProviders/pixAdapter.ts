@@ -0,0 +1,56 @@
+/**
+ * PIX PSPs following the Banco Central "API Pix" webhook format
+ *
+ * Body: { "pix": [{ "endToEndId": "E...", "txid": "...", "valor": "150.50", "horario": "..." }] }
+ * The standard relies on mTLS (terminated at the proxy); the callback URL also carries a
+ * shared secret, sent as `?hmac=<secret>` or in the `X-Webhook-Token` header.
+ */
+
+import { PaymentMethod } from '../../constants/enums';
+import {
+  headerValue,
+  parseEventDate,
+  PaymentProviderAdapter,
+  ProviderPaymentEvent,
+  safeEqual,
+  WebhookRequest,
+} from './paymentProviderAdapter';
+
+export class PixPaymentAdapter implements PaymentProviderAdapter {
+  readonly provider = 'pix';
+
+  constructor(private secret: string) {}
+
+  verifySignature(request: WebhookRequest): boolean {
+    const token = headerValue(request, 'x-webhook-token') || (request.query.hmac as string | undefined);
+    if (!this.secret || typeof token !== 'string') return false;
+    return safeEqual(token, this.secret);
+  }
+
+  parseEvents(request: WebhookRequest): ProviderPaymentEvent[] {
+    const body = request.body as { pix?: Array<Record<string, unknown>> };
+    if (!body || !Array.isArray(body.pix)) {
+      throw new Error('Invalid webhook payload');
+    }
+
+    return body.pix.map((item) => {
+      const amount = Number(item.valor);
+      if (typeof item.endToEndId !== 'string' || !(amount > 0)) {
+        throw new Error('Invalid webhook payload');
+      }
+
+      return {
+        eventId: item.endToEndId,
+        eventType: 'pix.received',
+        isPayment: true,
+        reference: typeof item.txid === 'string' ? item.txid : null,
+        amount,
+        currency: 'BRL',
+        paidAt: parseEventDate(item.horario),
+        method: PaymentMethod.PIX,
+        endToEndId: item.endToEndId,
+        payload: item,
+      };
+    });
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Card payments through Stripe (payment_intent.succeeded events)
+ *
+ * Header `Stripe-Signature: t=<timestamp>,v1=<hex hmac of "<timestamp>.<raw body>">`.
+ * The installment reference travels in the payment intent `metadata.reference`.
+ */
+
+import { PaymentMethod } from '../../constants/enums';
+import {
+  headerValue,
+  hmacSha256,
+  PaymentProviderAdapter,
+  ProviderPaymentEvent,
+  safeEqual,
+  WebhookRequest,
+} from './paymentProviderAdapter';
+
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export class StripePaymentAdapter implements PaymentProviderAdapter {
+  readonly provider = 'stripe';
+
+  constructor(private secret: string, private now: () => Date = () => new Date()) {}
+
+  verifySignature(request: WebhookRequest): boolean {
+    const header = headerValue(request, 'stripe-signature');
+    if (!this.secret || !header) return false;
+
+    const parts = header.split(',').map((part) => part.split('='));
+    const timestamp = parts.find(([key]) => key === 't')?.[1];
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+    if (!timestamp || !signatures.length) return false;
+
+    const age = Math.abs(this.now().getTime() / 1000 - Number(timestamp));
+    if (!(age <= SIGNATURE_TOLERANCE_SECONDS)) return false;
+
+    const expected = hmacSha256(this.secret, `${timestamp}.${request.rawBody.toString('utf8')}`);
+    return signatures.some((signature) => safeEqual(signature, expected));
+  }
+
+  parseEvents(request: WebhookRequest): ProviderPaymentEvent[] {
+    const event = request.body as {
+      id?: string;
+      type?: string;
+      created?: number;
+      data?: { object?: Record<string, any> };
+    };
+    if (!event || typeof event.id !== 'string' || typeof event.type !== 'string') {
+      throw new Error('Invalid webhook payload');
+    }
+
+    const intent = event.data?.object || {};
+    const isPayment = event.type === 'payment_intent.succeeded';
+    const cents = Number(intent.amount_received ?? intent.amount);
+
+    return [
+      {
+        eventId: event.id,
+        eventType: event.type,
+        isPayment,
+        reference: typeof intent.metadata?.reference === 'string' ? intent.metadata.reference : null,
+        amount: isNaN(cents) ? null : cents / 100,
+        currency: typeof intent.currency === 'string' ? intent.currency.toUpperCase() : 'BRL',
+        paidAt: new Date((Number(intent.created ?? event.created) || this.now().getTime() / 1000) * 1000),
+        method: PaymentMethod.CARD,
+        payload: event,
+      },
+    ];
+  }
+}
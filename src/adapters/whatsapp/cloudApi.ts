@@ -0,0 +1,120 @@
+/**
+ * WhatsApp Cloud API (Meta Graph API) message and callback formats
+ *
+ * Messages: POST {apiUrl}/{version}/{phoneNumberId}/messages with `Authorization: Bearer <token>`.
+ * Business-initiated messages must use a template approved in WhatsApp Manager, filled with
+ * positional body parameters; free text is only accepted within 24h of the client's last message.
+ *
+ * Status callbacks: POST to our webhook with `X-Hub-Signature-256: sha256=<hmac of the body
+ * with the app secret>`; body:
+ * { "object": "whatsapp_business_account", "entry": [{ "changes": [{ "field": "messages",
+ *   "value": { "statuses": [{ "id": "wamid...", "status": "delivered", "timestamp": "1710072000",
+ *   "recipient_id": "5511999990000" }] } }] }] }
+ */
+
+import { hmacSha256, safeEqual } from '../paymentProviders/paymentProviderAdapter';
+import { NotificationTemplate } from '../notificationProviders/notificationProvider';
+
+export type WhatsappMessageStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface WhatsappStatusUpdate {
+  messageId: string;
+  status: WhatsappMessageStatus;
+  timestamp: Date;
+  recipientId: string | null;
+  error: string | null; // failed messages: "<code> <title>"
+}
+
+// Template language codes of our locales
+const LANGUAGE_CODES: Record<string, string> = {
+  'pt-BR': 'pt_BR',
+  en: 'en_US',
+  es: 'es',
+};
+
+const STATUSES: string[] = ['sent', 'delivered', 'read', 'failed'];
+
+/**
+ * Number as the API expects it: country code and digits only ("+55 (11) 99999-0000" -> "5511999990000")
+ */
+export function normalizeWhatsappNumber(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length >= 10 && digits.length <= 15 ? digits : null;
+}
+
+export function whatsappLanguageCode(locale: string): string {
+  return LANGUAGE_CODES[locale] ?? locale.replace('-', '_');
+}
+
+// Parameters may not be empty nor contain new lines, tabs or long runs of spaces
+function parameterText(value: string): string {
+  return value.replace(/\s+/g, ' ').trim() || '-';
+}
+
+export function buildTemplateMessage(to: string, template: NotificationTemplate) {
+  const parameters = template.parameters.map((value) => ({ type: 'text', text: parameterText(value) }));
+  const components: Array<Record<string, unknown>> = parameters.length ? [{ type: 'body', parameters }] : [];
+  if (template.copyCode && parameters.length) {
+    components.push({ type: 'button', sub_type: 'url', index: '0', parameters: [parameters[0]] });
+  }
+
+  return {
+    messaging_product: 'whatsapp',
+    recipient_type: 'individual',
+    to,
+    type: 'template',
+    template: {
+      name: template.name,
+      language: { code: whatsappLanguageCode(template.locale) },
+      components,
+    },
+  };
+}
+
+export function buildTextMessage(to: string, body: string) {
+  return {
+    messaging_product: 'whatsapp',
+    recipient_type: 'individual',
+    to,
+    type: 'text',
+    text: { preview_url: false, body },
+  };
+}
+
+export function verifyWhatsappSignature(rawBody: Buffer, signature: string | null, appSecret: string): boolean {
+  if (!appSecret || !signature) return false;
+  return safeEqual(signature.replace(/^sha256=/, ''), hmacSha256(appSecret, rawBody));
+}
+
+/**
+ * Message status updates of a callback; other changes (incoming messages, template reviews) are skipped
+ */
+export function parseWhatsappStatuses(body: unknown): WhatsappStatusUpdate[] {
+  const payload = body as { object?: unknown; entry?: unknown };
+  if (!payload || payload.object !== 'whatsapp_business_account' || !Array.isArray(payload.entry)) {
+    throw new Error('Invalid webhook payload');
+  }
+
+  const updates: WhatsappStatusUpdate[] = [];
+  for (const entry of payload.entry as Array<{ changes?: unknown }>) {
+    const changes = Array.isArray(entry?.changes) ? entry.changes : [];
+    for (const change of changes as Array<{ field?: string; value?: { statuses?: unknown } }>) {
+      if (change?.field !== 'messages' || !Array.isArray(change.value?.statuses)) continue;
+
+      for (const status of change.value.statuses as Array<Record<string, unknown>>) {
+        if (typeof status?.id !== 'string' || !STATUSES.includes(String(status.status))) continue;
+        const seconds = Number(status.timestamp);
+        const errors = Array.isArray(status.errors) ? (status.errors as Array<Record<string, unknown>>) : [];
+
+        updates.push({
+          messageId: status.id,
+          status: status.status as WhatsappMessageStatus,
+          timestamp: seconds > 0 ? new Date(seconds * 1000) : new Date(),
+          recipientId: typeof status.recipient_id === 'string' ? status.recipient_id : null,
+          error: errors.length ? `${errors[0].code ?? ''} ${errors[0].title ?? errors[0].message ?? ''}`.trim() : null,
+        });
+      }
+    }
+  }
+  return updates;
+}
@@ -0,0 +1,166 @@
+/**
+ * Local WhatsApp Cloud API mock for tests and development
+ *
+ * Accepts POST /{version}/{phoneNumberId}/messages like the Graph API (bearer token, template
+ * and text payloads), answers with a wamid and keeps the requests. `failNext` makes the next
+ * request fail with a Graph API error; `sendStatus` posts a signed status callback to our webhook.
+ *
+ * Standalone: `npx ts-node src/adapters/whatsapp/mockServer.ts`, then
+ * WHATSAPP_API_URL=http://localhost:4010 and any WHATSAPP_PHONE_NUMBER_ID/WHATSAPP_ACCESS_TOKEN.
+ */
+
+import axios from 'axios';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { hmacSha256 } from '../paymentProviders/paymentProviderAdapter';
+import { WhatsappMessageStatus } from './cloudApi';
+
+export interface MockWhatsappMessage {
+  id: string; // wamid returned to the caller
+  phoneNumberId: string;
+  payload: Record<string, any>;
+}
+
+export interface MockWhatsappServerOptions {
+  port?: number; // random free port by default
+  accessToken?: string; // required bearer token; any token when empty
+  appSecret?: string; // signs the status callbacks
+  webhookUrl?: string; // where sendStatus posts, e.g. http://localhost:3000/webhooks/whatsapp
+  log?: boolean; // print accepted messages
+}
+
+export interface MockWhatsappServer {
+  url: string;
+  messages: MockWhatsappMessage[];
+  failNext(status: number, code: number, message?: string): void;
+  statusPayload(messageId: string, status: WhatsappMessageStatus, error?: { code: number; title: string }): Record<string, unknown>;
+  sendStatus(messageId: string, status: WhatsappMessageStatus): Promise<number>;
+  close(): Promise<void>;
+}
+
+const MESSAGES_PATH = /^\/v[\d.]+\/([^/]+)\/messages$/;
+
+export async function startMockWhatsappServer(options: MockWhatsappServerOptions = {}): Promise<MockWhatsappServer> {
+  const messages: MockWhatsappMessage[] = [];
+  const failures: Array<{ status: number; code: number; message: string }> = [];
+  let sequence = 0;
+
+  const reply = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+  const graphError = (res: ServerResponse, status: number, code: number, message: string) =>
+    reply(res, status, { error: { message, type: 'OAuthException', code, fbtrace_id: 'mock' } });
+
+  const handle = (req: IncomingMessage, res: ServerResponse, raw: string) => {
+    const match = req.method === 'POST' ? MESSAGES_PATH.exec(req.url ?? '') : null;
+    if (!match) return graphError(res, 404, 100, 'Unknown path');
+
+    if (options.accessToken && req.headers.authorization !== `Bearer ${options.accessToken}`) {
+      return graphError(res, 401, 190, 'Invalid OAuth access token');
+    }
+
+    const failure = failures.shift();
+    if (failure) return graphError(res, failure.status, failure.code, failure.message);
+
+    let payload: Record<string, any>;
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      return graphError(res, 400, 100, 'Invalid JSON');
+    }
+
+    const valid =
+      payload.messaging_product === 'whatsapp' &&
+      /^\d{10,15}$/.test(String(payload.to)) &&
+      ((payload.type === 'template' && payload.template?.name && payload.template?.language?.code) ||
+        (payload.type === 'text' && payload.text?.body));
+    if (!valid) return graphError(res, 400, 100, 'Invalid parameter');
+
+    const id = `wamid.MOCK${String(++sequence).padStart(8, '0')}`;
+    messages.push({ id, phoneNumberId: match[1], payload });
+    if (options.log) {
+      console.log(`📱 ${id} → ${payload.to}: ${payload.type === 'template' ? payload.template.name : payload.text.body}`);
+    }
+    reply(res, 200, {
+      messaging_product: 'whatsapp',
+      contacts: [{ input: payload.to, wa_id: payload.to }],
+      messages: [{ id }],
+    });
+  };
+
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => handle(req, res, raw));
+  });
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const statusPayload: MockWhatsappServer['statusPayload'] = (messageId, status, error) => {
+    const message = messages.find((m) => m.id === messageId);
+    return {
+      object: 'whatsapp_business_account',
+      entry: [
+        {
+          id: 'mock-waba',
+          changes: [
+            {
+              field: 'messages',
+              value: {
+                messaging_product: 'whatsapp',
+                metadata: { phone_number_id: message?.phoneNumberId ?? 'mock' },
+                statuses: [
+                  {
+                    id: messageId,
+                    status,
+                    timestamp: String(Math.floor(Date.now() / 1000)),
+                    recipient_id: message?.payload.to ?? '',
+                    ...(error ? { errors: [error] } : {}),
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    };
+  };
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    messages,
+    failNext(status, code, message = 'Mock failure') {
+      failures.push({ status, code, message });
+    },
+    statusPayload,
+    async sendStatus(messageId, status) {
+      if (!options.webhookUrl) {
+        throw new Error('Mock WhatsApp server has no webhookUrl');
+      }
+      const body = JSON.stringify(
+        statusPayload(messageId, status, status === 'failed' ? { code: 131026, title: 'Message undeliverable' } : undefined)
+      );
+      const response = await axios.post(options.webhookUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.appSecret ? { 'X-Hub-Signature-256': `sha256=${hmacSha256(options.appSecret, body)}` } : {}),
+        },
+        validateStatus: () => true,
+      });
+      return response.status;
+    },
+    close() {
+      return new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+    },
+  };
+}
+
+if (require.main === module) {
+  startMockWhatsappServer({
+    port: Number(process.env.WHATSAPP_MOCK_PORT ?? 4010),
+    appSecret: process.env.WHATSAPP_APP_SECRET,
+    webhookUrl: process.env.WHATSAPP_MOCK_WEBHOOK_URL,
+    log: true,
+  }).then((mock) => console.log(`📱 WhatsApp Cloud API mock listening on ${mock.url}`));
+}
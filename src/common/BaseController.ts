@@ -50,6 +50,49 @@ export abstract class BaseController {
     } as SuccessResponse<T>);
   }
 
+  /**
+   * Send a PDF document (200 OK), displayed inline by browsers
+   */
+  protected pdf(content: Buffer, filename: string): Response {
+    return this.res
+      .status(HttpStatusCodes.OK)
+      .setHeader('Content-Type', 'application/pdf')
+      .setHeader('Content-Disposition', `inline; filename="${filename}"`)
+      .send(content);
+  }
+
+  /**
+   * Send a PNG image (200 OK)
+   */
+  protected png(content: Buffer, filename: string): Response {
+    return this.res
+      .status(HttpStatusCodes.OK)
+      .setHeader('Content-Type', 'image/png')
+      .setHeader('Content-Disposition', `inline; filename="${filename}"`)
+      .send(content);
+  }
+
+  /**
+   * Send a plain text file as a download (200 OK)
+   */
+  protected textFile(content: string, filename: string): Response {
+    return this.res
+      .status(HttpStatusCodes.OK)
+      .setHeader('Content-Type', 'text/plain; charset=utf-8')
+      .setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+      .send(content);
+  }
+
+  /**
+   * Send plain text (200 OK), e.g. webhook subscription challenges
+   */
+  protected text(content: string): Response {
+    return this.res
+      .status(HttpStatusCodes.OK)
+      .setHeader('Content-Type', 'text/plain; charset=utf-8')
+      .send(content);
+  }
+
   /**
    * Send no content response (204 No Content)
    */
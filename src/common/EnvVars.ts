@@ -35,4 +35,58 @@ export default {
       ? process.env.CORS_ORIGINS.split(',').map(origin => origin.trim())
       : ['http://localhost:5173', 'http://localhost:3000'], // Default to common dev ports
   },
+  PaymentWebhooks: {
+    // Shared secrets per provider; webhooks of a provider without secret are rejected
+    Secrets: {
+      Generic: (process.env.PAYMENT_WEBHOOK_SECRET_GENERIC ?? ''),
+      Pix: (process.env.PAYMENT_WEBHOOK_SECRET_PIX ?? ''),
+      Stripe: (process.env.PAYMENT_WEBHOOK_SECRET_STRIPE ?? ''),
+    },
+  },
+  Notifications: {
+    // Provider per channel: 'log' (dev, prints the message), 'relay' (HTTP gateway), 'whatsapp'
+    // (WhatsApp Cloud API), 'smtp', 'outbox' (dev mailbox) or 'in_app'. Unset channels use
+    // log/outbox outside production and fail in production (adapters/notificationProviders).
+    Providers: {
+      Whatsapp: (process.env.NOTIFICATION_PROVIDER_WHATSAPP ?? ''),
+      Push: (process.env.NOTIFICATION_PROVIDER_PUSH ?? ''),
+      InApp: (process.env.NOTIFICATION_PROVIDER_IN_APP ?? 'in_app'),
+      Email: (process.env.NOTIFICATION_PROVIDER_EMAIL ?? ''),
+    },
+    Relay: {
+      Url: (process.env.NOTIFICATION_RELAY_URL ?? ''),
+      Secret: (process.env.NOTIFICATION_RELAY_SECRET ?? ''),
+    },
+    MaxAttempts: Number(process.env.NOTIFICATION_MAX_ATTEMPTS ?? 5),
+  },
+  Whatsapp: {
+    // WhatsApp Cloud API (Meta Graph API); WHATSAPP_API_URL points to the mock server in tests
+    ApiUrl: (process.env.WHATSAPP_API_URL ?? 'https://graph.facebook.com'),
+    ApiVersion: (process.env.WHATSAPP_API_VERSION ?? 'v21.0'),
+    PhoneNumberId: (process.env.WHATSAPP_PHONE_NUMBER_ID ?? ''),
+    AccessToken: (process.env.WHATSAPP_ACCESS_TOKEN ?? ''),
+    // Status callbacks: app secret of the X-Hub-Signature-256 header and subscription token
+    AppSecret: (process.env.WHATSAPP_APP_SECRET ?? ''),
+    VerifyToken: (process.env.WHATSAPP_VERIFY_TOKEN ?? ''),
+    // Approved authentication template for verification codes
+    OtpTemplate: (process.env.WHATSAPP_OTP_TEMPLATE ?? 'codigo_verificacao'),
+  },
+  Email: {
+    From: (process.env.EMAIL_FROM ?? 'Operações <no-reply@example.com>'),
+    // Frontend used in links (password reset, login)
+    AppUrl: (process.env.APP_URL ?? 'http://localhost:5173'),
+    Smtp: {
+      Host: (process.env.SMTP_HOST ?? ''),
+      Port: Number(process.env.SMTP_PORT ?? 587),
+      Secure: (process.env.SMTP_SECURE === 'true'), // TLS from the start (port 465)
+      User: (process.env.SMTP_USER ?? ''),
+      Password: (process.env.SMTP_PASSWORD ?? ''),
+    },
+    // Outbox provider: also writes each email (.json and .html) to this folder when set
+    OutboxDir: (process.env.EMAIL_OUTBOX_DIR ?? ''),
+  },
+  Templates: {
+    // Payoff page used by {{payoff.link}}, e.g. https://app.example.com/payoff/{operationId}
+    PayoffUrl: (process.env.PAYOFF_URL ?? ''),
+  },
 } as const;
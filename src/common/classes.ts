@@ -122,3 +122,13 @@ export class PhoneNotVerifiedError extends RouteError {
     );
   }
 }
+
+/**
+ * Record not found (or outside the account of the request)
+ */
+export class RecordNotFoundError extends RouteError {
+  public constructor(model = 'Record') {
+    super(HttpStatusCodes.NOT_FOUND, `${model} not found`);
+    this.name = 'NOT_FOUND';
+  }
+}
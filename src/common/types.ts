@@ -12,5 +12,8 @@ type TObj = Record<string, unknown>;
 
 export type IReq = Request<TObj, void, TObj, TObj>;
 
+// Request with the unparsed body kept for webhook signature checks
+export type IRawReq = IReq & { rawBody?: Buffer };
+
 export type IRes = Response<unknown, TObj>
 
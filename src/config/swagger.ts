@@ -129,6 +129,34 @@ const options = {
         name: 'Resources',
         description: 'Gestão de recursos (imóveis, veículos, etc.)',
       },
+      {
+        name: 'Rentals',
+        description: 'Contratos de locação, reajustes por índice e caução',
+      },
+      {
+        name: 'PromissoryNotes',
+        description: 'Notas promissórias por parcela: emissão, protesto, endosso e PDF',
+      },
+      {
+        name: 'PIX',
+        description: 'Cobranças PIX por parcela: BR Code (copia e cola), QR code e confirmação por txid',
+      },
+      {
+        name: 'Webhooks',
+        description: 'Webhooks de provedores de pagamento e do WhatsApp, e fila de conciliação de eventos',
+      },
+      {
+        name: 'BankStatements',
+        description: 'Importação de extratos bancários (OFX, CSV, CNAB) e conciliação com parcelas',
+      },
+      {
+        name: 'Boletos',
+        description: 'Emissão de boletos, remessa CNAB 240 e processamento do retorno bancário',
+      },
+      {
+        name: 'Documents',
+        description: 'Documentos em PDF: contrato da operação, recibo de pagamento e extrato do cliente',
+      },
       {
         name: 'Alerts',
         description: 'Gestão de alertas',
@@ -137,6 +165,14 @@ const options = {
         name: 'Notifications',
         description: 'Gestão de notificações',
       },
+      {
+        name: 'Templates',
+        description: 'Templates de mensagem por conta, com variáveis, idiomas e pré-visualização',
+      },
+      {
+        name: 'Emails',
+        description: 'E-mails transacionais enviados (verificação, senha, boas-vindas e recibos)',
+      },
       {
         name: 'Settings',
         description: 'Configurações',
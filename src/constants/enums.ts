@@ -5,6 +5,7 @@
 export const OperationType = {
   LOAN: 'LOAN',
   RENTAL: 'RENTAL',
+  PROMISSORY_NOTE: 'PROMISSORY_NOTE',
   OTHER: 'OTHER',
 } as const;
 
@@ -18,8 +19,30 @@ export const Frequency = {
 
 export type Frequency = typeof Frequency[keyof typeof Frequency];
 
+export const AmortizationSystem = {
+  PRICE: 'PRICE',
+  SAC: 'SAC',
+  SIMPLE: 'SIMPLE',
+  BULLET: 'BULLET',
+} as const;
+
+export type AmortizationSystem = typeof AmortizationSystem[keyof typeof AmortizationSystem];
+
+export const OperationStatus = {
+  DRAFT: 'DRAFT',
+  ACTIVE: 'ACTIVE',
+  OVERDUE: 'OVERDUE',
+  SETTLED: 'SETTLED',
+  DEFAULTED: 'DEFAULTED',
+  CANCELLED: 'CANCELLED',
+  RENEGOTIATED: 'RENEGOTIATED',
+} as const;
+
+export type OperationStatus = typeof OperationStatus[keyof typeof OperationStatus];
+
 export const InstallmentStatus = {
   PENDING: 'PENDING',
+  PARTIALLY_PAID: 'PARTIALLY_PAID',
   PAID: 'PAID',
   LATE: 'LATE',
   CANCELLED: 'CANCELLED',
@@ -27,23 +50,111 @@ export const InstallmentStatus = {
 
 export type InstallmentStatus = typeof InstallmentStatus[keyof typeof InstallmentStatus];
 
+export const AdjustmentIndex = {
+  IGPM: 'IGPM',
+  IPCA: 'IPCA',
+  NONE: 'NONE',
+} as const;
+
+export type AdjustmentIndex = typeof AdjustmentIndex[keyof typeof AdjustmentIndex];
+
+export const DepositStatus = {
+  NONE: 'NONE',
+  HELD: 'HELD',
+  RETURNED: 'RETURNED',
+  PARTIALLY_RETAINED: 'PARTIALLY_RETAINED',
+  RETAINED: 'RETAINED',
+} as const;
+
+export type DepositStatus = typeof DepositStatus[keyof typeof DepositStatus];
+
+export const PromissoryNoteStatus = {
+  ISSUED: 'ISSUED',
+  PAID: 'PAID',
+  PROTESTED: 'PROTESTED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type PromissoryNoteStatus = typeof PromissoryNoteStatus[keyof typeof PromissoryNoteStatus];
+
 export const PaymentMethod = {
   CASH: 'CASH',
   BANK_TRANSFER: 'BANK_TRANSFER',
   PIX: 'PIX',
   CARD: 'CARD',
+  BOLETO: 'BOLETO',
 } as const;
 
 export type PaymentMethod = typeof PaymentMethod[keyof typeof PaymentMethod];
 
+export const PixChargeStatus = {
+  ACTIVE: 'ACTIVE',
+  PAID: 'PAID',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type PixChargeStatus = typeof PixChargeStatus[keyof typeof PixChargeStatus];
+
+export const BoletoStatus = {
+  ISSUED: 'ISSUED',
+  SENT: 'SENT',
+  REGISTERED: 'REGISTERED',
+  REJECTED: 'REJECTED',
+  PAID: 'PAID',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type BoletoStatus = typeof BoletoStatus[keyof typeof BoletoStatus];
+
+export const PaymentWebhookEventStatus = {
+  RECEIVED: 'RECEIVED',
+  PROCESSED: 'PROCESSED',
+  UNMATCHED: 'UNMATCHED',
+  FAILED: 'FAILED',
+  RECONCILED: 'RECONCILED',
+  IGNORED: 'IGNORED',
+} as const;
+
+export type PaymentWebhookEventStatus = typeof PaymentWebhookEventStatus[keyof typeof PaymentWebhookEventStatus];
+
+export const BankStatementFormat = {
+  OFX: 'OFX',
+  CSV: 'CSV',
+  CNAB240: 'CNAB240',
+  CNAB400: 'CNAB400',
+} as const;
+
+export type BankStatementFormat = typeof BankStatementFormat[keyof typeof BankStatementFormat];
+
+export const BankStatementTransactionStatus = {
+  UNMATCHED: 'UNMATCHED',
+  PROPOSED: 'PROPOSED',
+  CONFIRMED: 'CONFIRMED',
+  IGNORED: 'IGNORED',
+} as const;
+
+export type BankStatementTransactionStatus = typeof BankStatementTransactionStatus[keyof typeof BankStatementTransactionStatus];
+
 export const NotificationChannel = {
   WHATSAPP: 'WHATSAPP',
   PUSH: 'PUSH',
   IN_APP: 'IN_APP',
+  EMAIL: 'EMAIL',
 } as const;
 
 export type NotificationChannel = typeof NotificationChannel[keyof typeof NotificationChannel];
 
+// Delivery state kept in meta.delivery of alerts and notifications
+export const NotificationDeliveryStatus = {
+  SENT: 'SENT',
+  DELIVERED: 'DELIVERED', // provider status callbacks (WhatsApp)
+  READ: 'READ',
+  RETRYING: 'RETRYING',
+  FAILED: 'FAILED',
+} as const;
+
+export type NotificationDeliveryStatus = typeof NotificationDeliveryStatus[keyof typeof NotificationDeliveryStatus];
+
 export const ResourceType = {
   PROPERTY: 'PROPERTY',
   VEHICLE: 'VEHICLE',
@@ -78,10 +189,96 @@ export const UserRole = {
 
 export type UserRole = typeof UserRole[keyof typeof UserRole];
 
+export const AccountInvitationStatus = {
+  PENDING: 'PENDING',
+  ACCEPTED: 'ACCEPTED',
+  REVOKED: 'REVOKED', // revoked by the account or replaced by a new invitation
+  EXPIRED: 'EXPIRED',
+} as const;
+
+export type AccountInvitationStatus = typeof AccountInvitationStatus[keyof typeof AccountInvitationStatus];
+
+/**
+ * Why a sign-in session (AuthSession) was revoked
+ */
+export const SessionRevokeReason = {
+  LOGOUT: 'LOGOUT',
+  LOGOUT_ALL: 'LOGOUT_ALL', // "log out everywhere"
+  REVOKED: 'REVOKED', // ended from the session list
+  REUSE_DETECTED: 'REUSE_DETECTED', // an already rotated refresh token was used again
+  PASSWORD_RESET: 'PASSWORD_RESET',
+} as const;
+
+export type SessionRevokeReason = typeof SessionRevokeReason[keyof typeof SessionRevokeReason];
+
+/**
+ * Permission catalog. Account permissions are granted through the roles of each account
+ * (AccountRole); platform permissions belong only to platform admins.
+ */
+export const Permission = {
+  ACCOUNTS_UPDATE: 'accounts:update',
+  MEMBERS_MANAGE: 'members:manage',
+  ROLES_MANAGE: 'roles:manage',
+  CLIENTS_CREATE: 'clients:create',
+  CLIENTS_UPDATE: 'clients:update',
+  CLIENTS_DELETE: 'clients:delete',
+  CLIENTS_EXPORT: 'clients:export',
+  OPERATIONS_CREATE: 'operations:create',
+  OPERATIONS_UPDATE: 'operations:update',
+  OPERATIONS_DELETE: 'operations:delete',
+  OPERATIONS_SETTLE: 'operations:settle',
+  INSTALLMENTS_UPDATE: 'installments:update',
+  PAYMENTS_CREATE: 'payments:create',
+  PAYMENTS_REVERSE: 'payments:reverse',
+  BILLING_MANAGE: 'billing:manage',
+  BANK_STATEMENTS_IMPORT: 'bank_statements:import',
+  PROMISSORY_NOTES_MANAGE: 'promissory_notes:manage',
+  RESOURCES_MANAGE: 'resources:manage',
+  ALERTS_MANAGE: 'alerts:manage',
+  TEMPLATES_MANAGE: 'templates:manage',
+  SETTINGS_MANAGE: 'settings:manage',
+  PLATFORM_MANAGE: 'platform:manage',
+  PLATFORM_USERS: 'platform:users',
+  PLATFORM_PAYMENTS: 'platform:payments',
+} as const;
+
+export type Permission = typeof Permission[keyof typeof Permission];
+
 export const OnboardingStatus = {
   NOT_STARTED: 'NOT_STARTED',
   IN_PROGRESS: 'IN_PROGRESS',
   COMPLETED: 'COMPLETED',
 } as const;
 
-export type OnboardingStatus = typeof OnboardingStatus[keyof typeof OnboardingStatus];
\ No newline at end of file
+export type OnboardingStatus = typeof OnboardingStatus[keyof typeof OnboardingStatus];
+
+/**
+ * Account-scoped setting keys (Setting.key)
+ */
+export const SettingKey = {
+  LATE_FEE_POLICY: 'late_fee_policy',
+  DOCUMENT_TEMPLATES: 'document_templates',
+  PIX_SETTINGS: 'pix_settings',
+  BOLETO_SETTINGS: 'boleto_settings',
+  DUNNING_RULES: 'dunning_rules',
+} as const;
+
+export type SettingKey = typeof SettingKey[keyof typeof SettingKey];
+/**
+ * Audit trail actions (AuditLog.action)
+ */
+export const AuditAction = {
+  PAYMENT_REVERSED: 'PAYMENT_REVERSED',
+  OPERATION_RENEGOTIATED: 'OPERATION_RENEGOTIATED',
+  RENTAL_ENDED: 'RENTAL_ENDED',
+  PROMISSORY_NOTE_PROTESTED: 'PROMISSORY_NOTE_PROTESTED',
+  PROMISSORY_NOTE_ENDORSED: 'PROMISSORY_NOTE_ENDORSED',
+  MEMBER_ROLE_CHANGED: 'MEMBER_ROLE_CHANGED',
+  MEMBER_REMOVED: 'MEMBER_REMOVED',
+  ROLE_CREATED: 'ROLE_CREATED',
+  ROLE_UPDATED: 'ROLE_UPDATED',
+  ROLE_DELETED: 'ROLE_DELETED',
+  SESSION_REUSE_DETECTED: 'SESSION_REUSE_DETECTED',
+} as const;
+
+export type AuditAction = typeof AuditAction[keyof typeof AuditAction];
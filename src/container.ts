@@ -3,12 +3,13 @@ import { asClass, asValue, createContainer, Lifetime } from 'awilix';
 import { scopePerRequest } from 'awilix-express';
 import { Application } from 'express';
 import logger from 'jet-logger';
+import { createTenantClient } from './prisma/tenant';
 
 export const loadContainer = (app: Application) => {
   const container = createContainer();
 
-  // Create a single PrismaClient instance
-  const prisma = new PrismaClient();
+  // Create a single PrismaClient instance, scoped to the account of each request
+  const prisma = createTenantClient(new PrismaClient());
 
   // Register PrismaClient
   container.register({
@@ -0,0 +1,112 @@
+/**
+ * Account Members Controller
+ * Members of an account, their roles and invitations
+ */
+
+import { IReq, IRes } from '../common/types';
+import { BaseController } from '../common/BaseController';
+import { AccountMembersService } from '../services/accountMembersService';
+import { serializeBigInt } from '../utils/serializeBigInt';
+
+export class AccountMembersController extends BaseController {
+  private accountMembersService: AccountMembersService;
+
+  constructor({ accountMembersService }: { accountMembersService: AccountMembersService }) {
+    super();
+    this.accountMembersService = accountMembersService;
+  }
+
+  async index(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const members = await this.accountMembersService.findMembers(Number(req.params.id), req.user!);
+      this.ok(serializeBigInt(members));
+    } catch (error) {
+      this.handleError(error, 'Failed to list members');
+    }
+  }
+
+  async update(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const member = await this.accountMembersService.updateMemberRole(
+        Number(req.params.id),
+        Number(req.params.userId),
+        req.body as any,
+        req.user!
+      );
+      this.ok(serializeBigInt(member));
+    } catch (error) {
+      this.handleError(error, 'Failed to update member');
+    }
+  }
+
+  async delete(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      await this.accountMembersService.removeMember(Number(req.params.id), Number(req.params.userId), req.user!);
+      this.noContent();
+    } catch (error) {
+      this.handleError(error, 'Failed to remove member');
+    }
+  }
+
+  async invitations(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const status = req.query.status as string | undefined;
+      const invitations = await this.accountMembersService.findInvitations(Number(req.params.id), req.user!, status);
+      this.ok(serializeBigInt(invitations));
+    } catch (error) {
+      this.handleError(error, 'Failed to list invitations');
+    }
+  }
+
+  async invite(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const invitation = await this.accountMembersService.invite(Number(req.params.id), req.body as any, req.user!);
+      this.created(serializeBigInt(invitation));
+    } catch (error) {
+      this.handleError(error, 'Failed to create invitation');
+    }
+  }
+
+  async revokeInvitation(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const invitation = await this.accountMembersService.revokeInvitation(
+        Number(req.params.id),
+        Number(req.params.invitationId),
+        req.user!
+      );
+      this.ok(serializeBigInt(invitation));
+    } catch (error) {
+      this.handleError(error, 'Failed to revoke invitation');
+    }
+  }
+
+  // Known service errors become 4xx; anything else goes to the error middleware
+  private handleError(error: unknown, fallback: string): void {
+    const message = error instanceof Error ? error.message : fallback;
+    if (message.startsWith('Access denied')) {
+      this.forbidden(message, 'FORBIDDEN');
+    } else if (message.startsWith('User limit reached')) {
+      this.forbidden(message, 'USER_LIMIT_REACHED');
+    } else if (['Member not found', 'Account not found', 'Invitation not found'].includes(message)) {
+      this.notFound(message);
+    } else if (message === 'User is already a member of this account') {
+      this.conflict(message, 'ALREADY_A_MEMBER');
+    } else if (
+      message === 'The account owner cannot be removed'
+      || message === 'Invitation is no longer pending'
+      || message.startsWith('Unknown role')
+    ) {
+      this.badRequest(message);
+    } else {
+      throw error;
+    }
+  }
+}
+
+export default AccountMembersController;
@@ -0,0 +1,92 @@
+/**
+ * Account Roles Controller
+ * Permission catalog and the roles of an account
+ */
+
+import { IReq, IRes } from '../common/types';
+import { BaseController } from '../common/BaseController';
+import { AccountRolesService } from '../services/accountRolesService';
+import { PERMISSION_CATALOG } from '../utils/permissions';
+
+export class AccountRolesController extends BaseController {
+  private accountRolesService: AccountRolesService;
+
+  constructor({ accountRolesService }: { accountRolesService: AccountRolesService }) {
+    super();
+    this.accountRolesService = accountRolesService;
+  }
+
+  async permissions(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    this.ok(PERMISSION_CATALOG.map((permission) => ({ ...permission, platform: !!permission.platform })));
+  }
+
+  async index(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const roles = await this.accountRolesService.findAll(Number(req.params.id), req.user!);
+      this.ok(roles);
+    } catch (error) {
+      this.handleError(error, 'Failed to list roles');
+    }
+  }
+
+  async create(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const role = await this.accountRolesService.create(Number(req.params.id), req.body as any, req.user!);
+      this.created(role);
+    } catch (error) {
+      this.handleError(error, 'Failed to create role');
+    }
+  }
+
+  async update(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const role = await this.accountRolesService.update(
+        Number(req.params.id),
+        String(req.params.key),
+        req.body as any,
+        req.user!
+      );
+      this.ok(role);
+    } catch (error) {
+      this.handleError(error, 'Failed to update role');
+    }
+  }
+
+  async delete(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      await this.accountRolesService.delete(Number(req.params.id), String(req.params.key), req.user!);
+      this.noContent();
+    } catch (error) {
+      this.handleError(error, 'Failed to delete role');
+    }
+  }
+
+  // Known service errors become 4xx; anything else goes to the error middleware
+  private handleError(error: unknown, fallback: string): void {
+    const message = error instanceof Error ? error.message : fallback;
+    if (message.startsWith('Access denied')) {
+      this.forbidden(message, 'FORBIDDEN');
+    } else if (message === 'Role not found') {
+      this.notFound(message);
+    } else if (message.startsWith('Role already exists')) {
+      this.conflict(message, 'ROLE_EXISTS');
+    } else if (message.startsWith('Role is in use')) {
+      this.conflict(message, 'ROLE_IN_USE');
+    } else if (
+      message === 'The owner role cannot be changed'
+      || message === 'System roles cannot be deleted'
+      || message.startsWith('Unknown permissions')
+    ) {
+      this.badRequest(message);
+    } else {
+      throw error;
+    }
+  }
+}
+
+export default AccountRolesController;
@@ -6,6 +6,8 @@ import { IReq, IRes } from '../common/types';
 import { BaseController } from '../common/BaseController';
 import { AuthService } from '../services/authService';
 import { serializeBigInt } from '../utils/serializeBigInt';
+import { WeakPasswordError } from '../common/classes';
+import { sessionClientFromRequest } from '../utils/authSessions';
 
 export class AuthController extends BaseController {
   constructor(private authService: AuthService) {
@@ -15,7 +17,7 @@ export class AuthController extends BaseController {
   async login(req: IReq, res: IRes): Promise<void> {
     this.setResponse(res);
     try {
-      const result = await this.authService.login(req.body as any);
+      const result = await this.authService.login(req.body as any, sessionClientFromRequest(req));
       this.ok({
         user: serializeBigInt(result.user),
         ...result.tokens,
@@ -29,10 +31,11 @@ export class AuthController extends BaseController {
     this.setResponse(res);
     try {
       const refreshToken = req.body.refreshToken as string;
-      const tokens = await this.authService.refreshToken(refreshToken);
+      const tokens = await this.authService.refreshToken(refreshToken, sessionClientFromRequest(req));
       this.ok(tokens);
     } catch (error) {
-      this.unauthorized(error instanceof Error ? error.message : 'Invalid refresh token');
+      const message = error instanceof Error ? error.message : 'Invalid refresh token';
+      this.unauthorized(message, message === 'Refresh token reuse detected' ? 'REFRESH_TOKEN_REUSED' : 'UNAUTHORIZED');
     }
   }
 
@@ -51,7 +54,14 @@ export class AuthController extends BaseController {
       }
 
       const { passwordHash, passwordResetToken, passwordResetExpires, ...userWithoutSensitive } = user;
-      this.ok(serializeBigInt(userWithoutSensitive));
+      this.ok(
+        serializeBigInt({
+          ...userWithoutSensitive,
+          accountId: req.user.accountId ?? null,
+          accountRole: req.user.role,
+          permissions: req.user.permissions,
+        })
+      );
     } catch (error) {
       this.internalServerError();
     }
@@ -82,16 +92,58 @@ export class AuthController extends BaseController {
 
   async logout(req: IReq, res: IRes): Promise<void> {
     this.setResponse(res);
-    // JWT is stateless, so logout is handled client-side by removing the token
-    // Optionally, you could implement a token blacklist here
+    if (!req.user) {
+      this.unauthorized();
+      return;
+    }
+
+    // Revoking the session invalidates its refresh token and every access token issued for it
+    await this.authService.logout(req.user.id, req.user.sessionId);
     this.ok({ message: 'Logged out successfully' });
   }
 
+  async logoutAll(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    if (!req.user) {
+      this.unauthorized();
+      return;
+    }
+
+    const sessions = await this.authService.logoutAll(req.user.id);
+    this.ok({ message: 'Logged out of every session', sessions });
+  }
+
+  async sessions(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    if (!req.user) {
+      this.unauthorized();
+      return;
+    }
+
+    const sessions = await this.authService.getSessions(req.user.id, req.user.sessionId);
+    this.ok(sessions);
+  }
+
+  async revokeSession(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    if (!req.user) {
+      this.unauthorized();
+      return;
+    }
+
+    try {
+      await this.authService.revokeSession(req.user.id, Number(req.params.id));
+      this.noContent();
+    } catch (error) {
+      this.notFound(error instanceof Error ? error.message : 'Session not found');
+    }
+  }
+
   async register(req: IReq, res: IRes): Promise<void> {
     this.setResponse(res);
     try {
       const { email, password, name } = req.body as { email: string; password: string; name?: string };
-      const result = await this.authService.register(email, password, name);
+      const result = await this.authService.register(email, password, name, sessionClientFromRequest(req));
       this.ok({
         user: serializeBigInt(result.user),
         ...result.tokens,
@@ -108,6 +160,69 @@ export class AuthController extends BaseController {
     }
   }
 
+  async accounts(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    if (!req.user) {
+      this.unauthorized();
+      return;
+    }
+
+    const accounts = await this.authService.getAccounts(req.user.id);
+    this.ok(accounts.map((account) => ({ ...account, active: account.accountId === req.user!.accountId })));
+  }
+
+  async switchAccount(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    if (!req.user) {
+      this.unauthorized();
+      return;
+    }
+
+    try {
+      const tokens = await this.authService.switchAccount(req.user.id, Number(req.body.accountId), req.user.sessionId);
+      this.ok(tokens);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to switch account';
+      if (message === 'Account not found') {
+        this.notFound(message);
+        return;
+      }
+      this.unauthorized(message);
+    }
+  }
+
+  async invitation(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const invitation = await this.authService.getInvitation(String(req.params.token));
+      this.ok(serializeBigInt(invitation));
+    } catch (error) {
+      this.notFound(error instanceof Error ? error.message : 'Invitation not found');
+    }
+  }
+
+  async acceptInvitation(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const result = await this.authService.acceptInvitation(req.body as any, sessionClientFromRequest(req));
+      this.ok({
+        user: serializeBigInt(result.user),
+        ...result.tokens,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to accept invitation';
+      if (error instanceof WeakPasswordError) {
+        this.badRequest(message, 'WEAK_PASSWORD');
+      } else if (message === 'Invalid email or password' || message === 'User not found or inactive') {
+        this.unauthorized(message);
+      } else if (message.startsWith('User limit reached')) {
+        this.forbidden(message, 'USER_LIMIT_REACHED');
+      } else {
+        this.badRequest(message);
+      }
+    }
+  }
+
   async checkEmail(req: IReq, res: IRes): Promise<void> {
     this.setResponse(res);
     try {
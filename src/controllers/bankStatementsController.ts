@@ -0,0 +1,100 @@
+/**
+ * Bank Statements Controller
+ * Statement import (OFX, CSV, CNAB retorno) and confirmation of the proposed matches
+ */
+
+import { IReq, IRes } from '../common/types';
+import { BaseController } from '../common/BaseController';
+import { BankStatementsService } from '../services/bankStatementsService';
+import { serializeBigInt } from '../utils/serializeBigInt';
+import { parsePaginationParams } from '../utils/pagination';
+import { getActorFromUser } from '../utils/audit';
+
+export class BankStatementsController extends BaseController {
+  private bankStatementsService: BankStatementsService;
+
+  constructor({ bankStatementsService }: { bankStatementsService: BankStatementsService }) {
+    super();
+    this.bankStatementsService = bankStatementsService;
+  }
+
+  async index(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const { page, limit } = parsePaginationParams(req.query);
+    const accountId = req.query.accountId ? Number(req.query.accountId) : undefined;
+
+    const result = await this.bankStatementsService.findAll({ page, limit, accountId });
+    this.ok(serializeBigInt(result));
+  }
+
+  async show(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    const statement = await this.bankStatementsService.findById(id);
+
+    if (!statement) {
+      this.notFound('Bank statement not found');
+      return;
+    }
+
+    this.ok(serializeBigInt(statement));
+  }
+
+  async upload(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const statement = await this.bankStatementsService.importFile(req.body as any, getActorFromUser(req.user));
+      this.created(serializeBigInt(statement));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to import bank statement';
+      if (message === 'Account not found') {
+        this.notFound(message);
+        return;
+      }
+      if (message.startsWith('Invalid bank statement file') || message.startsWith('No transactions found')) {
+        this.unprocessableEntity(message, 'INVALID_STATEMENT_FILE');
+        return;
+      }
+      throw error;
+    }
+  }
+
+  async confirm(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    try {
+      const result = await this.bankStatementsService.confirm(id, req.body as any, getActorFromUser(req.user));
+      this.ok(serializeBigInt(result));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to confirm bank statement matches';
+      if (message === 'Bank statement not found') {
+        this.notFound(message);
+        return;
+      }
+      this.badRequest(message);
+    }
+  }
+
+  async ignoreTransaction(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    const transactionId = BigInt(String(req.params.transactionId));
+    try {
+      const transaction = await this.bankStatementsService.ignoreTransaction(
+        id,
+        transactionId,
+        getActorFromUser(req.user)
+      );
+      this.ok(serializeBigInt(transaction));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to ignore transaction';
+      if (message === 'Bank statement transaction not found') {
+        this.notFound(message);
+        return;
+      }
+      this.conflict(message, 'TRANSACTION_RESOLVED');
+    }
+  }
+}
+
+export default BankStatementsController;
@@ -0,0 +1,136 @@
+/**
+ * Boletos Controller
+ * Boleto issuance, CNAB 240 remessa files and retorno processing
+ */
+
+import { IReq, IRes } from '../common/types';
+import { BaseController } from '../common/BaseController';
+import { BoletosService } from '../services/boletosService';
+import { serializeBigInt } from '../utils/serializeBigInt';
+import { parsePaginationParams } from '../utils/pagination';
+import { getActorFromUser } from '../utils/audit';
+
+// Errors caused by a missing or unsupported bank agreement
+const isAgreementError = (message: string) =>
+  message === 'Boleto bank agreement is not configured for this account' ||
+  message.includes('is not supported for boletos') ||
+  message.includes('require a 7-digit agreement');
+
+export class BoletosController extends BaseController {
+  private boletosService: BoletosService;
+
+  constructor({ boletosService }: { boletosService: BoletosService }) {
+    super();
+    this.boletosService = boletosService;
+  }
+
+  async index(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const { page, limit } = parsePaginationParams(req.query);
+    const accountId = req.query.accountId ? Number(req.query.accountId) : undefined;
+    const installmentId = req.query.installmentId ? BigInt(String(req.query.installmentId)) : undefined;
+    const status = req.query.status as string | undefined;
+
+    const result = await this.boletosService.findAll({ page, limit, accountId, installmentId, status });
+    this.ok(serializeBigInt(result));
+  }
+
+  async show(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    const boleto = await this.boletosService.findById(id);
+
+    if (!boleto) {
+      this.notFound('Boleto not found');
+      return;
+    }
+
+    this.ok(serializeBigInt(boleto));
+  }
+
+  async create(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const installmentId = BigInt(String(req.params.id));
+    try {
+      const boleto = await this.boletosService.createForInstallment(installmentId, getActorFromUser(req.user));
+      this.created(serializeBigInt(boleto));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to issue boleto';
+      if (message === 'Installment not found') {
+        this.notFound(message);
+        return;
+      }
+      if (isAgreementError(message)) {
+        this.unprocessableEntity(message, 'BOLETO_NOT_CONFIGURED');
+        return;
+      }
+      if (message === 'Installment already has a boleto registered with the bank') {
+        this.conflict(message, 'BOLETO_ALREADY_REGISTERED');
+        return;
+      }
+      this.badRequest(message);
+    }
+  }
+
+  async remessas(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const { page, limit } = parsePaginationParams(req.query);
+    const accountId = req.query.accountId ? Number(req.query.accountId) : undefined;
+
+    const result = await this.boletosService.findRemessas({ page, limit, accountId });
+    this.ok(serializeBigInt(result));
+  }
+
+  async createRemessa(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const remessa = await this.boletosService.createRemessa(req.body as any, getActorFromUser(req.user));
+      this.created(serializeBigInt(remessa));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create remessa';
+      if (message === 'Account not found') {
+        this.notFound(message);
+        return;
+      }
+      if (isAgreementError(message)) {
+        this.unprocessableEntity(message, 'BOLETO_NOT_CONFIGURED');
+        return;
+      }
+      this.badRequest(message);
+    }
+  }
+
+  async remessaFile(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    const file = await this.boletosService.getRemessaFile(id);
+
+    if (!file) {
+      this.notFound('Remessa not found');
+      return;
+    }
+
+    this.textFile(file.content, file.fileName);
+  }
+
+  async retorno(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const summary = await this.boletosService.processRetorno(req.body as any, getActorFromUser(req.user));
+      this.ok(serializeBigInt(summary));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to process retorno';
+      if (message === 'Account not found') {
+        this.notFound(message);
+        return;
+      }
+      if (message === 'Invalid retorno file') {
+        this.unprocessableEntity(message, 'INVALID_RETORNO_FILE');
+        return;
+      }
+      throw error;
+    }
+  }
+}
+
+export default BoletosController;
@@ -0,0 +1,66 @@
+/**
+ * Documents Controller
+ * Printable PDFs: operation contract, payment receipt and client statement
+ */
+
+import { IReq, IRes } from '../common/types';
+import { BaseController } from '../common/BaseController';
+import { DocumentsService } from '../services/documentsService';
+
+export class DocumentsController extends BaseController {
+  private documentsService: DocumentsService;
+
+  constructor({ documentsService }: { documentsService: DocumentsService }) {
+    super();
+    this.documentsService = documentsService;
+  }
+
+  async contract(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    const pdf = await this.documentsService.getContractPdf(id);
+
+    if (!pdf) {
+      this.notFound('Operation not found');
+      return;
+    }
+
+    this.pdf(pdf, `contrato-${id}.pdf`);
+  }
+
+  async receipt(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    const pdf = await this.documentsService.getReceiptPdf(id);
+
+    if (!pdf) {
+      this.notFound('Payment not found');
+      return;
+    }
+
+    this.pdf(pdf, `recibo-${id}.pdf`);
+  }
+
+  async statement(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = Number(req.params.id);
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime())) || (from && to && to < from)) {
+      this.badRequest('Invalid period: "to" must be a date after "from"', 'VALIDATION_ERROR');
+      return;
+    }
+
+    const pdf = await this.documentsService.getStatementPdf(id, { from, to });
+
+    if (!pdf) {
+      this.notFound('Client not found');
+      return;
+    }
+
+    this.pdf(pdf, `extrato-cliente-${id}.pdf`);
+  }
+}
+
+export default DocumentsController;
@@ -0,0 +1,37 @@
+/**
+ * Economic Indexes Controller
+ */
+
+import { IReq, IRes } from '../common/types';
+import { BaseController } from '../common/BaseController';
+import { EconomicIndexesService } from '../services/economicIndexesService';
+import { getActorFromUser } from '../utils/audit';
+
+export class EconomicIndexesController extends BaseController {
+  private economicIndexesService: EconomicIndexesService;
+
+  constructor({ economicIndexesService }: { economicIndexesService: EconomicIndexesService }) {
+    super();
+    this.economicIndexesService = economicIndexesService;
+  }
+
+  async index(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const index = req.query.index as string | undefined;
+    const from = req.query.from ? new Date(`${req.query.from}-01T00:00:00Z`) : undefined;
+    const to = req.query.to ? new Date(`${req.query.to}-01T00:00:00Z`) : undefined;
+
+    const rates = await this.economicIndexesService.findAll({ index, from, to });
+    this.ok({ data: rates });
+  }
+
+  async upsert(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const rates = await this.economicIndexesService.upsertRates(
+      String(req.params.index),
+      req.body as any,
+      getActorFromUser(req.user)
+    );
+    this.ok({ data: rates });
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Emails Controller
+ * Log of transactional emails and receipt (re)sending
+ */
+
+import { IReq, IRes } from '../common/types';
+import { BaseController } from '../common/BaseController';
+import { EmailService } from '../services/emailService';
+import { serializeBigInt } from '../utils/serializeBigInt';
+import { parsePaginationParams } from '../utils/pagination';
+
+export class EmailsController extends BaseController {
+  private emailService: EmailService;
+
+  constructor({ emailService }: { emailService: EmailService }) {
+    super();
+    this.emailService = emailService;
+  }
+
+  async index(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const { page, limit } = parsePaginationParams(req.query);
+    const accountId = req.query.accountId ? Number(req.query.accountId) : undefined;
+    const to = req.query.to as string | undefined;
+    const template = req.query.template as string | undefined;
+    const status = req.query.status as string | undefined;
+
+    const result = await this.emailService.findAll({ page, limit, accountId, to, template, status });
+    this.ok(serializeBigInt(result));
+  }
+
+  async show(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = Number(req.params.id);
+    const email = await this.emailService.findById(id);
+
+    if (!email) {
+      this.notFound('Email not found');
+      return;
+    }
+
+    this.ok(serializeBigInt(email));
+  }
+
+  async sendReceipt(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    try {
+      const email = await this.emailService.sendPaymentReceipt(id);
+      if (!email) {
+        this.unprocessableEntity('Client has no email', 'CLIENT_WITHOUT_EMAIL');
+        return;
+      }
+      this.created(serializeBigInt(email));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to send receipt';
+      if (message === 'Payment not found') {
+        this.notFound(message);
+        return;
+      }
+      throw error;
+    }
+  }
+}
+
+export default EmailsController;
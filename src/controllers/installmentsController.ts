@@ -7,6 +7,7 @@ import { BaseController } from '../common/BaseController';
 import { InstallmentsService } from '../services/installmentsService';
 import { serializeBigInt } from '../utils/serializeBigInt';
 import { parsePaginationParams } from '../utils/pagination';
+import { getActorFromUser } from '../utils/audit';
 
 export class InstallmentsController extends BaseController {
   private installmentsService: InstallmentsService;
@@ -65,14 +66,28 @@ export class InstallmentsController extends BaseController {
     this.setResponse(res);
     const id = BigInt(String(req.params.id));
     const body = req.body as any;
-    const installment = await this.installmentsService.markPaid(id, {
-      amount: body.amount,
-      method: body.method,
-      clientId: body.clientId ? Number(body.clientId) : undefined,
-      operationId: body.operationId ? BigInt(String(body.operationId)) : undefined,
-    });
-
-    this.ok(serializeBigInt(installment));
+    try {
+      const installment = await this.installmentsService.markPaid(id, {
+        amount: body.amount !== undefined ? Number(body.amount) : undefined,
+        method: body.method,
+      }, getActorFromUser(req.user));
+      this.ok(serializeBigInt(installment));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to mark installment as paid';
+      if (message === 'Installment not found') {
+        this.notFound(message);
+        return;
+      }
+      if (message.startsWith('Installment is already')) {
+        this.conflict(message, 'INSTALLMENT_SETTLED');
+        return;
+      }
+      if (message.startsWith('Payment amount is lower') || message.startsWith('Operation does not accept payments')) {
+        this.badRequest(message);
+        return;
+      }
+      throw error;
+    }
   }
 }
 
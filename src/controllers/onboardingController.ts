@@ -18,6 +18,7 @@ import {
   PhoneNotVerifiedError,
 } from '../common/classes';
 import HttpStatusCodes from '../common/HttpStatusCodes';
+import { sessionClientFromRequest } from '../utils/authSessions';
 
 export class OnboardingController extends BaseController {
   private onboardingService: OnboardingService;
@@ -68,7 +69,7 @@ export class OnboardingController extends BaseController {
   async submit(req: IReq, res: IRes): Promise<void> {
     this.setResponse(res);
     try {
-      const result = await this.onboardingService.submitOnboarding(req.body as any);
+      const result = await this.onboardingService.submitOnboarding(req.body as any, sessionClientFromRequest(req));
       this.ok(result);
     } catch (error) {
       if (error instanceof EmailAlreadyExistsError) {
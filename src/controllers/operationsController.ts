@@ -7,6 +7,7 @@ import { BaseController } from '../common/BaseController';
 import { OperationsService } from '../services/operationsService';
 import { serializeBigInt } from '../utils/serializeBigInt';
 import { parsePaginationParams } from '../utils/pagination';
+import { getActorFromUser } from '../utils/audit';
 export class OperationsController extends BaseController {
   private operationsService: OperationsService;
   
@@ -49,15 +50,51 @@ export class OperationsController extends BaseController {
 
   async create(req: IReq, res: IRes): Promise<void> {
     this.setResponse(res);
-    const operation = await this.operationsService.create(req.body as any);
-    this.created(serializeBigInt(operation));
+    try {
+      const operation = await this.operationsService.create(req.body as any, getActorFromUser(req.user));
+      this.created(serializeBigInt(operation));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create operation';
+      if (message.startsWith('Resource is already booked')) {
+        this.conflict(message, 'RESOURCE_UNAVAILABLE');
+        return;
+      }
+      if (message.startsWith('Guarantor')) {
+        this.badRequest(message, 'INVALID_GUARANTOR');
+        return;
+      }
+      throw error;
+    }
+  }
+
+  async simulate(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const simulation = this.operationsService.simulate(req.body as any);
+      this.ok(simulation);
+    } catch (error) {
+      this.badRequest(error instanceof Error ? error.message : 'Failed to simulate operation');
+    }
   }
 
   async update(req: IReq, res: IRes): Promise<void> {
     this.setResponse(res);
     const id = BigInt(String(req.params.id));
-    const operation = await this.operationsService.update(id, req.body as any);
-    this.ok(serializeBigInt(operation));
+    try {
+      const operation = await this.operationsService.update(id, req.body as any, getActorFromUser(req.user));
+      this.ok(serializeBigInt(operation));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update operation';
+      if (message.startsWith('Invalid operation status transition')) {
+        this.badRequest(message, 'INVALID_STATUS_TRANSITION');
+        return;
+      }
+      if (message.startsWith('Resource is already booked')) {
+        this.conflict(message, 'RESOURCE_UNAVAILABLE');
+        return;
+      }
+      throw error;
+    }
   }
 
   async delete(req: IReq, res: IRes): Promise<void> {
@@ -71,25 +108,109 @@ export class OperationsController extends BaseController {
     this.setResponse(res);
     const operationId = BigInt(String(req.params.id));
     const body = req.body as any;
-    const clientId = req.user?.accountId || body.clientId;
-    
-    if (!clientId) {
-      this.badRequest('Client ID is required', 'VALIDATION_ERROR');
-      return;
-    }
 
     const payment = await this.operationsService.registerPayment(operationId, {
       amount: body.amount,
       method: body.method,
       installmentId: body.installmentId ? BigInt(String(body.installmentId)) : undefined,
-      clientId: Number(clientId),
       reference: body.reference,
       meta: body.meta,
-    });
+    }, getActorFromUser(req.user));
 
     this.created(serializeBigInt(payment));
   }
 
+  async payoffQuote(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    const asOf = req.query.date ? new Date(req.query.date as string) : new Date();
+
+    if (isNaN(asOf.getTime())) {
+      this.badRequest('Invalid date', 'VALIDATION_ERROR');
+      return;
+    }
+
+    const quote = await this.operationsService.getPayoffQuote(id, asOf);
+
+    if (!quote) {
+      this.notFound('Operation not found');
+      return;
+    }
+
+    this.ok(serializeBigInt(quote));
+  }
+
+  async settle(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    try {
+      const payment = await this.operationsService.settle(id, req.body as any, getActorFromUser(req.user));
+      this.created(serializeBigInt(payment));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to settle operation';
+      if (message === 'Operation not found') {
+        this.notFound(message);
+        return;
+      }
+      if (
+        message === 'Operation is already settled'
+        || message === 'Operation has no open installments'
+        || message.startsWith('Operation cannot be settled')
+        || message.startsWith('Settlement amount is lower')
+      ) {
+        this.badRequest(message);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  async history(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    const history = await this.operationsService.getHistory(id);
+
+    if (!history) {
+      this.notFound('Operation not found');
+      return;
+    }
+
+    this.ok(serializeBigInt(history));
+  }
+
+  async renegotiate(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    try {
+      const operation = await this.operationsService.renegotiate(
+        id,
+        req.body as any,
+        getActorFromUser(req.user),
+        req.ip
+      );
+      this.created(serializeBigInt(operation));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to renegotiate operation';
+      if (message === 'Operation not found') {
+        this.notFound(message);
+        return;
+      }
+      if (message.startsWith('Operation installments changed')) {
+        this.conflict(message, 'OPERATION_CHANGED');
+        return;
+      }
+      if (
+        message === 'Operation has no open installments'
+        || message.startsWith('Operation cannot be renegotiated')
+        || message.startsWith('Entry amount must be lower')
+      ) {
+        this.badRequest(message);
+        return;
+      }
+      throw error;
+    }
+  }
+
   async triggerAlert(req: IReq, res: IRes): Promise<void> {
     this.setResponse(res);
     const operationId = BigInt(String(req.params.id));
@@ -0,0 +1,115 @@
+/**
+ * Payment Webhooks Controller
+ * Provider callbacks (public, signature-verified) and the reconciliation queue
+ */
+
+import { IRawReq, IReq, IRes } from '../common/types';
+import { BaseController } from '../common/BaseController';
+import { PaymentWebhooksService } from '../services/paymentWebhooksService';
+import { serializeBigInt } from '../utils/serializeBigInt';
+import { parsePaginationParams } from '../utils/pagination';
+import { getActorFromUser } from '../utils/audit';
+
+export class PaymentWebhooksController extends BaseController {
+  private paymentWebhooksService: PaymentWebhooksService;
+
+  constructor({ paymentWebhooksService }: { paymentWebhooksService: PaymentWebhooksService }) {
+    super();
+    this.paymentWebhooksService = paymentWebhooksService;
+  }
+
+  async receive(req: IRawReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const summary = await this.paymentWebhooksService.ingest(String(req.params.provider), {
+        rawBody: req.rawBody || Buffer.alloc(0),
+        headers: req.headers,
+        query: req.query,
+        body: req.body,
+      });
+      this.ok(summary);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to process webhook';
+      if (message === 'Unknown payment provider') {
+        this.notFound(message);
+        return;
+      }
+      if (message === 'Invalid webhook signature') {
+        this.unauthorized(message, 'INVALID_SIGNATURE');
+        return;
+      }
+      if (message === 'Invalid webhook payload') {
+        this.badRequest(message, 'VALIDATION_ERROR');
+        return;
+      }
+      throw error;
+    }
+  }
+
+  async index(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const { page, limit } = parsePaginationParams(req.query);
+    const provider = req.query.provider as string | undefined;
+    const status = req.query.status as string | undefined;
+    const accountId = req.query.accountId ? Number(req.query.accountId) : undefined;
+    const pending = req.query.pending === 'true';
+
+    const result = await this.paymentWebhooksService.findAll({ page, limit, provider, status, accountId, pending });
+    this.ok(serializeBigInt(result));
+  }
+
+  async show(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    const event = await this.paymentWebhooksService.findById(id);
+
+    if (!event) {
+      this.notFound('Payment event not found');
+      return;
+    }
+
+    this.ok(serializeBigInt(event));
+  }
+
+  async reconcile(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    try {
+      const event = await this.paymentWebhooksService.reconcile(id, req.body as any, getActorFromUser(req.user));
+      this.ok(serializeBigInt(event));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to reconcile payment event';
+      if (message === 'Payment event not found' || message === 'Installment not found') {
+        this.notFound(message);
+        return;
+      }
+      if (message.startsWith('Payment event is already')) {
+        this.conflict(message, 'PAYMENT_EVENT_RESOLVED');
+        return;
+      }
+      this.badRequest(message);
+    }
+  }
+
+  async ignore(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    try {
+      const event = await this.paymentWebhooksService.ignore(id, req.body as any, getActorFromUser(req.user));
+      this.ok(serializeBigInt(event));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to ignore payment event';
+      if (message === 'Payment event not found') {
+        this.notFound(message);
+        return;
+      }
+      if (message.startsWith('Payment event is already')) {
+        this.conflict(message, 'PAYMENT_EVENT_RESOLVED');
+        return;
+      }
+      throw error;
+    }
+  }
+}
+
+export default PaymentWebhooksController;
@@ -7,6 +7,7 @@ import { BaseController } from '../common/BaseController';
 import { PaymentsService } from '../services/paymentsService';
 import { serializeBigInt } from '../utils/serializeBigInt';
 import { parsePaginationParams } from '../utils/pagination';
+import { getActorFromUser } from '../utils/audit';
 export class PaymentsController extends BaseController {
   private paymentsService: PaymentsService;
   
@@ -51,8 +52,28 @@ export class PaymentsController extends BaseController {
 
   async create(req: IReq, res: IRes): Promise<void> {
     this.setResponse(res);
-    const payment = await this.paymentsService.create(req.body as any);
+    const payment = await this.paymentsService.create(req.body as any, getActorFromUser(req.user));
     this.created(serializeBigInt(payment));
   }
-}
 
+  async reverse(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    try {
+      const reversal = await this.paymentsService.reverse(
+        id,
+        req.body as any,
+        getActorFromUser(req.user),
+        req.ip
+      );
+      this.created(serializeBigInt(reversal));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to reverse payment';
+      if (message === 'Payment not found') {
+        this.notFound(message);
+        return;
+      }
+      this.badRequest(message);
+    }
+  }
+}
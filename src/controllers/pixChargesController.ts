@@ -0,0 +1,104 @@
+/**
+ * PIX Charges Controller
+ */
+
+import { IReq, IRes } from '../common/types';
+import { BaseController } from '../common/BaseController';
+import { PixChargesService } from '../services/pixChargesService';
+import { serializeBigInt } from '../utils/serializeBigInt';
+import { parsePaginationParams } from '../utils/pagination';
+import { getActorFromUser } from '../utils/audit';
+
+export class PixChargesController extends BaseController {
+  private pixChargesService: PixChargesService;
+
+  constructor({ pixChargesService }: { pixChargesService: PixChargesService }) {
+    super();
+    this.pixChargesService = pixChargesService;
+  }
+
+  async index(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const { page, limit } = parsePaginationParams(req.query);
+    const accountId = req.query.accountId ? Number(req.query.accountId) : undefined;
+    const installmentId = req.query.installmentId ? BigInt(String(req.query.installmentId)) : undefined;
+    const status = req.query.status as string | undefined;
+
+    const result = await this.pixChargesService.findAll({ page, limit, accountId, installmentId, status });
+    this.ok(serializeBigInt(result));
+  }
+
+  async show(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const charge = await this.pixChargesService.findByTxid(String(req.params.txid));
+
+    if (!charge) {
+      this.notFound('PIX charge not found');
+      return;
+    }
+
+    this.ok(serializeBigInt(charge));
+  }
+
+  async create(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const installmentId = BigInt(String(req.params.id));
+    try {
+      const charge = await this.pixChargesService.createForInstallment(installmentId, getActorFromUser(req.user));
+      this.created(serializeBigInt(charge));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create PIX charge';
+      if (message === 'Installment not found') {
+        this.notFound(message);
+        return;
+      }
+      if (message === 'PIX key is not configured for this account') {
+        this.unprocessableEntity(message, 'PIX_NOT_CONFIGURED');
+        return;
+      }
+      this.badRequest(message);
+    }
+  }
+
+  async qrCode(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const installmentId = BigInt(String(req.params.id));
+    const image = await this.pixChargesService.getQrCodePng(installmentId);
+
+    if (!image) {
+      this.notFound('Installment has no active PIX charge');
+      return;
+    }
+
+    this.png(image, `pix-parcela-${installmentId}.png`);
+  }
+
+  async confirm(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const charge = await this.pixChargesService.confirm(
+        String(req.params.txid),
+        req.body as any,
+        getActorFromUser(req.user)
+      );
+      this.ok(serializeBigInt(charge));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to confirm PIX charge';
+      if (message === 'PIX charge not found') {
+        this.notFound(message);
+        return;
+      }
+      if (message === 'PIX charge is already paid') {
+        this.conflict(message, 'PIX_CHARGE_ALREADY_PAID');
+        return;
+      }
+      if (message === 'PIX charge is cancelled') {
+        this.conflict(message, 'PIX_CHARGE_CANCELLED');
+        return;
+      }
+      this.badRequest(message);
+    }
+  }
+}
+
+export default PixChargesController;
@@ -0,0 +1,101 @@
+/**
+ * Promissory Notes Controller
+ */
+
+import { IReq, IRes } from '../common/types';
+import { BaseController } from '../common/BaseController';
+import { PromissoryNotesService } from '../services/promissoryNotesService';
+import { serializeBigInt } from '../utils/serializeBigInt';
+import { parsePaginationParams } from '../utils/pagination';
+import { getActorFromUser } from '../utils/audit';
+
+export class PromissoryNotesController extends BaseController {
+  private promissoryNotesService: PromissoryNotesService;
+
+  constructor({ promissoryNotesService }: { promissoryNotesService: PromissoryNotesService }) {
+    super();
+    this.promissoryNotesService = promissoryNotesService;
+  }
+
+  async index(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const { page, limit } = parsePaginationParams(req.query);
+    const accountId = req.query.accountId ? Number(req.query.accountId) : undefined;
+    const operationId = req.query.operationId ? BigInt(String(req.query.operationId)) : undefined;
+    const status = req.query.status as string | undefined;
+
+    const result = await this.promissoryNotesService.findAll({ page, limit, accountId, operationId, status });
+    this.ok(serializeBigInt(result));
+  }
+
+  async show(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    const note = await this.promissoryNotesService.findById(id);
+
+    if (!note) {
+      this.notFound('Promissory note not found');
+      return;
+    }
+
+    this.ok(serializeBigInt(note));
+  }
+
+  async notePdf(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    const pdf = await this.promissoryNotesService.getNotePdf(id);
+
+    if (!pdf) {
+      this.notFound('Promissory note not found');
+      return;
+    }
+
+    this.pdf(pdf, `nota-promissoria-${id}.pdf`);
+  }
+
+  async operationPdf(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const operationId = BigInt(String(req.params.operationId));
+    const pdf = await this.promissoryNotesService.getOperationNotesPdf(operationId);
+
+    if (!pdf) {
+      this.notFound('Operation has no promissory notes');
+      return;
+    }
+
+    this.pdf(pdf, `notas-promissorias-operacao-${operationId}.pdf`);
+  }
+
+  async protest(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    try {
+      const note = await this.promissoryNotesService.protest(id, req.body as any, getActorFromUser(req.user), req.ip);
+      this.ok(serializeBigInt(note));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to protest promissory note';
+      if (message === 'Promissory note not found') {
+        this.notFound(message);
+        return;
+      }
+      this.badRequest(message);
+    }
+  }
+
+  async endorse(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = BigInt(String(req.params.id));
+    try {
+      const note = await this.promissoryNotesService.endorse(id, req.body as any, getActorFromUser(req.user), req.ip);
+      this.created(serializeBigInt(note));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to endorse promissory note';
+      if (message === 'Promissory note not found') {
+        this.notFound(message);
+        return;
+      }
+      this.badRequest(message);
+    }
+  }
+}
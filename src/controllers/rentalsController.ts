@@ -0,0 +1,52 @@
+/**
+ * Rentals Controller
+ */
+
+import { IReq, IRes } from '../common/types';
+import { BaseController } from '../common/BaseController';
+import { RentalsService } from '../services/rentalsService';
+import { serializeBigInt } from '../utils/serializeBigInt';
+import { getActorFromUser } from '../utils/audit';
+
+export class RentalsController extends BaseController {
+  private rentalsService: RentalsService;
+
+  constructor({ rentalsService }: { rentalsService: RentalsService }) {
+    super();
+    this.rentalsService = rentalsService;
+  }
+
+  async show(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const operationId = BigInt(String(req.params.operationId));
+    const contract = await this.rentalsService.findByOperationId(operationId);
+
+    if (!contract) {
+      this.notFound('Rental contract not found');
+      return;
+    }
+
+    this.ok(serializeBigInt(contract));
+  }
+
+  async end(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const operationId = BigInt(String(req.params.operationId));
+    try {
+      const contract = await this.rentalsService.endContract(
+        operationId,
+        req.body as any,
+        getActorFromUser(req.user),
+        req.ip
+      );
+      this.ok(serializeBigInt(contract));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to end rental contract';
+      if (message === 'Rental contract not found') {
+        this.notFound(message);
+        return;
+      }
+      this.badRequest(message);
+    }
+  }
+}
@@ -7,6 +7,10 @@ import { BaseController } from '../common/BaseController';
 import { ResourcesService } from '../services/resourcesService';
 import { serializeBigInt } from '../utils/serializeBigInt';
 import { parsePaginationParams } from '../utils/pagination';
+import { addDays } from '../utils/dateHelpers';
+
+const DEFAULT_AVAILABILITY_DAYS = 30;
+
 export class ResourcesController extends BaseController {
   private resourcesService: ResourcesService;
   
@@ -38,6 +42,43 @@ export class ResourcesController extends BaseController {
     this.ok(serializeBigInt(resource));
   }
 
+  async availability(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = Number(req.params.id);
+    const window = this.parseWindow(req);
+
+    if (!window) {
+      this.badRequest('Invalid period: "to" must be a date after "from"', 'VALIDATION_ERROR');
+      return;
+    }
+
+    const availability = await this.resourcesService.getAvailability(id, window.from, window.to);
+
+    if (!availability) {
+      this.notFound('Resource not found');
+      return;
+    }
+
+    this.ok(serializeBigInt(availability));
+  }
+
+  async occupancy(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const window = this.parseWindow(req);
+
+    if (!window) {
+      this.badRequest('Invalid period: "to" must be a date after "from"', 'VALIDATION_ERROR');
+      return;
+    }
+
+    const report = await this.resourcesService.getOccupancyReport({
+      accountId: req.query.accountId ? Number(req.query.accountId) : undefined,
+      type: req.query.type as string | undefined,
+      ...window,
+    });
+    this.ok(serializeBigInt(report));
+  }
+
   async create(req: IReq, res: IRes): Promise<void> {
     this.setResponse(res);
     const resource = await this.resourcesService.create(req.body as any);
@@ -57,5 +98,20 @@ export class ResourcesController extends BaseController {
     await this.resourcesService.delete(id);
     this.noContent();
   }
-}
 
+  /**
+   * Period from the `from`/`to` query params (defaults to the next 30 days)
+   */
+  private parseWindow(req: IReq): { from: Date; to: Date } | null {
+    const today = new Date();
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+    const to = req.query.to ? new Date(req.query.to as string) : addDays(from, DEFAULT_AVAILABILITY_DAYS);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+      return null;
+    }
+    return { from, to };
+  }
+}
@@ -27,7 +27,7 @@ export class SettingsController extends BaseController {
 
   async show(req: IReq, res: IRes): Promise<void> {
     this.setResponse(res);
-    const accountId = req.query.accountId ? Number(req.query.accountId) : null;
+    const accountId = req.query.accountId ? Number(req.query.accountId) : req.user?.accountId ?? null;
     const key = req.params.key as string;
     const setting = await this.settingsService.findByKey(accountId, key);
 
@@ -47,7 +47,7 @@ export class SettingsController extends BaseController {
 
   async update(req: IReq, res: IRes): Promise<void> {
     this.setResponse(res);
-    const accountId = req.body.accountId ? Number(req.body.accountId) : null;
+    const accountId = req.body.accountId ? Number(req.body.accountId) : req.user?.accountId ?? null;
     const key = req.params.key as string;
     const setting = await this.settingsService.update(accountId, key, req.body);
     this.ok(serializeBigInt(setting));
@@ -55,7 +55,7 @@ export class SettingsController extends BaseController {
 
   async upsert(req: IReq, res: IRes): Promise<void> {
     this.setResponse(res);
-    const accountId = req.body.accountId ? Number(req.body.accountId) : null;
+    const accountId = req.body.accountId ? Number(req.body.accountId) : req.user?.accountId ?? null;
     const key = req.params.key as string;
     const setting = await this.settingsService.upsert(accountId, key, req.body.value);
     this.ok(serializeBigInt(setting));
@@ -63,7 +63,7 @@ export class SettingsController extends BaseController {
 
   async delete(req: IReq, res: IRes): Promise<void> {
     this.setResponse(res);
-    const accountId = req.query.accountId ? Number(req.query.accountId) : null;
+    const accountId = req.query.accountId ? Number(req.query.accountId) : req.user?.accountId ?? null;
     const key = req.params.key as string;
     await this.settingsService.delete(accountId, key);
     this.noContent();
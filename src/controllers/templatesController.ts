@@ -0,0 +1,113 @@
+/**
+ * Templates Controller
+ * Account message templates and their preview against an operation
+ */
+
+import { IReq, IRes } from '../common/types';
+import { BaseController } from '../common/BaseController';
+import { TemplatesService } from '../services/templatesService';
+import { serializeBigInt } from '../utils/serializeBigInt';
+import { parsePaginationParams } from '../utils/pagination';
+import { getActorFromUser } from '../utils/audit';
+
+export class TemplatesController extends BaseController {
+  private templatesService: TemplatesService;
+
+  constructor({ templatesService }: { templatesService: TemplatesService }) {
+    super();
+    this.templatesService = templatesService;
+  }
+
+  async index(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const { page, limit } = parsePaginationParams(req.query);
+    const accountId = req.query.accountId ? Number(req.query.accountId) : undefined;
+    const key = req.query.key as string | undefined;
+    const locale = req.query.locale as string | undefined;
+
+    const result = await this.templatesService.findAll({ page, limit, accountId, key, locale });
+    this.ok(serializeBigInt(result));
+  }
+
+  async variables(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    this.ok(this.templatesService.getVariables());
+  }
+
+  async show(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = Number(req.params.id);
+    const template = await this.templatesService.findById(id);
+
+    if (!template) {
+      this.notFound('Template not found');
+      return;
+    }
+
+    this.ok(serializeBigInt(template));
+  }
+
+  async create(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const template = await this.templatesService.create(req.body as any, getActorFromUser(req.user));
+      this.created(serializeBigInt(template));
+    } catch (error) {
+      this.handleError(error, 'Failed to create template');
+    }
+  }
+
+  async update(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = Number(req.params.id);
+    try {
+      const template = await this.templatesService.update(id, req.body as any, getActorFromUser(req.user));
+      this.ok(serializeBigInt(template));
+    } catch (error) {
+      this.handleError(error, 'Failed to update template');
+    }
+  }
+
+  async delete(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = Number(req.params.id);
+    const template = await this.templatesService.findById(id);
+
+    if (!template) {
+      this.notFound('Template not found');
+      return;
+    }
+
+    await this.templatesService.delete(id);
+    this.noContent();
+  }
+
+  async preview(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    const id = Number(req.params.id);
+    try {
+      const preview = await this.templatesService.preview(id, req.body as any);
+      this.ok({ templateId: id, ...preview });
+    } catch (error) {
+      this.handleError(error, 'Failed to render template');
+    }
+  }
+
+  // Maps the service errors shared by create, update and preview
+  private handleError(error: unknown, fallback: string) {
+    const message = error instanceof Error ? error.message : fallback;
+    if (message.endsWith('not found')) {
+      this.notFound(message);
+      return;
+    }
+    if (message.startsWith('Unknown template variables')) {
+      this.unprocessableEntity(message, 'UNKNOWN_TEMPLATE_VARIABLES');
+      return;
+    }
+    if (message === 'Template already exists for this key, locale and channel') {
+      this.conflict(message, 'TEMPLATE_EXISTS');
+      return;
+    }
+    this.badRequest(message);
+  }
+}
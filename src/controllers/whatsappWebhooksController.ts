@@ -0,0 +1,52 @@
+/**
+ * WhatsApp Webhooks Controller
+ * Subscription handshake and message status callbacks of the WhatsApp Cloud API
+ */
+
+import { IRawReq, IReq, IRes } from '../common/types';
+import { BaseController } from '../common/BaseController';
+import { WhatsappService } from '../services/whatsappService';
+
+export class WhatsappWebhooksController extends BaseController {
+  private whatsappService: WhatsappService;
+
+  constructor({ whatsappService }: { whatsappService: WhatsappService }) {
+    super();
+    this.whatsappService = whatsappService;
+  }
+
+  async subscribe(req: IReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      this.text(this.whatsappService.verifySubscription(req.query));
+    } catch (error) {
+      this.forbidden(error instanceof Error ? error.message : 'Invalid verify token', 'INVALID_VERIFY_TOKEN');
+    }
+  }
+
+  async receive(req: IRawReq, res: IRes): Promise<void> {
+    this.setResponse(res);
+    try {
+      const summary = await this.whatsappService.receiveStatuses({
+        rawBody: req.rawBody || Buffer.alloc(0),
+        headers: req.headers,
+        query: req.query,
+        body: req.body,
+      });
+      this.ok(summary);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to process webhook';
+      if (message === 'Invalid webhook signature') {
+        this.unauthorized(message, 'INVALID_SIGNATURE');
+        return;
+      }
+      if (message === 'Invalid webhook payload') {
+        this.badRequest(message, 'VALIDATION_ERROR');
+        return;
+      }
+      throw error;
+    }
+  }
+}
+
+export default WhatsappWebhooksController;
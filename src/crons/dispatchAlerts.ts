@@ -0,0 +1,18 @@
+import { prisma } from '../prisma/client';
+import { NotificationDispatcherService } from '../services/notificationDispatcherService';
+
+/**
+ * Sends the alerts whose sendAt has passed and retries notifications whose delivery failed
+ */
+export async function dispatchAlerts() {
+  const dispatcher = new NotificationDispatcherService({ prisma });
+  const alerts = await dispatcher.dispatchDueAlerts();
+  const notifications = await dispatcher.retryNotifications();
+  if (alerts.processed || notifications.processed) {
+    console.log(
+      `✅ Alertas: ${alerts.sent} enviados, ${alerts.retrying} para nova tentativa, ${alerts.failed} com falha; ` +
+        `notificações reenviadas: ${notifications.sent}/${notifications.processed}`
+    );
+  }
+  return { alerts, notifications };
+}
@@ -0,0 +1,16 @@
+import { prisma } from '../prisma/client';
+import { RentalsService } from '../services/rentalsService';
+
+/**
+ * Keeps rent charges of running rental contracts generated ahead of time,
+ * applying annual readjustments when an anniversary is reached
+ */
+export async function generateRentCharges() {
+  const rentalsService = new RentalsService({ prisma });
+  const { contracts, created, pendingAdjustment } = await rentalsService.generateUpcomingCharges();
+  console.log(`✅ ${created} cobranças de aluguel geradas para ${contracts} contratos`);
+  if (pendingAdjustment.length) {
+    console.warn(`⚠️ Reajuste pendente (índice sem dados) nas operações: ${pendingAdjustment.join(', ')}`);
+  }
+  return created;
+}
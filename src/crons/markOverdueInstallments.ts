@@ -0,0 +1,13 @@
+import { prisma } from '../prisma/client';
+import { LateFeesService } from '../services/lateFeesService';
+
+/**
+ * Flags open (PENDING or PARTIALLY_PAID) installments past their due date as LATE
+ * Fine and daily interest are computed on read from the account late fee policy
+ */
+export async function markOverdueInstallments() {
+  const lateFeesService = new LateFeesService({ prisma });
+  const { updated } = await lateFeesService.markOverdueInstallments();
+  console.log(`✅ ${updated} parcelas marcadas como atrasadas`);
+  return updated;
+}
@@ -0,0 +1,12 @@
+import { prisma } from '../prisma/client';
+import { DunningService } from '../services/dunningService';
+
+/**
+ * Brings the reminder alerts of open operations in line with the current dunning rules
+ */
+export async function syncDunningAlerts() {
+  const dunningService = new DunningService({ prisma });
+  const { operations, created, cancelled } = await dunningService.syncAll();
+  console.log(`✅ Régua de cobrança: ${operations} operações, ${created} alertas criados, ${cancelled} cancelados`);
+  return created;
+}
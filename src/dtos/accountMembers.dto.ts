@@ -0,0 +1,52 @@
+/**
+ * Account Member DTOs
+ */
+
+import { z } from 'zod';
+import { UserRole } from '../constants/enums';
+import { ROLE_KEY_REGEX } from '../utils/permissions';
+
+// Any role of the account but the owner; whether it exists is checked by the service
+const assignableRole = z
+  .string()
+  .regex(ROLE_KEY_REGEX, 'Invalid role key')
+  .refine((role) => role !== UserRole.OWNER, 'The owner role cannot be assigned');
+
+export const createInvitationSchema = z.object({
+  email: z.string().email(),
+  role: assignableRole.default(UserRole.AGENT),
+});
+
+export const updateMemberSchema = z.object({
+  role: assignableRole,
+});
+
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6), // current password, or the new user's password
+  name: z.string().min(1).optional(), // required when the email has no user yet
+});
+
+export const createRoleSchema = z.object({
+  key: z.string().regex(ROLE_KEY_REGEX, 'Use lowercase letters, digits, "_" or "-" (2-50 characters)'),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  permissions: z.array(z.string()).default([]),
+});
+
+export const updateRoleSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  permissions: z.array(z.string()).optional(),
+});
+
+export const switchAccountSchema = z.object({
+  accountId: z.number().int().positive(),
+});
+
+export type CreateInvitationDto = z.infer<typeof createInvitationSchema>;
+export type UpdateMemberDto = z.infer<typeof updateMemberSchema>;
+export type AcceptInvitationDto = z.infer<typeof acceptInvitationSchema>;
+export type CreateRoleDto = z.infer<typeof createRoleSchema>;
+export type UpdateRoleDto = z.infer<typeof updateRoleSchema>;
+export type SwitchAccountDto = z.infer<typeof switchAccountSchema>;
@@ -0,0 +1,33 @@
+/**
+ * Bank Statement DTOs
+ */
+
+import { z } from 'zod';
+import { BankStatementFormat } from '../constants/enums';
+
+const idSchema = z.string().regex(/^\d+$/).or(z.number().int().positive());
+
+export const importBankStatementSchema = z.object({
+  accountId: z.number().int().positive(),
+  fileName: z.string().max(255).optional(),
+  format: z.enum([
+    BankStatementFormat.OFX,
+    BankStatementFormat.CSV,
+    BankStatementFormat.CNAB240,
+    BankStatementFormat.CNAB400,
+  ]).optional(), // detected from the content when omitted
+  encoding: z.enum(['utf8', 'base64']).default('utf8'),
+  content: z.string().min(1),
+  dateWindowDays: z.number().int().min(0).max(60).optional(),
+});
+
+export const confirmBankStatementSchema = z.object({
+  // Omit to confirm every proposed match of the statement
+  matches: z.array(z.object({
+    transactionId: idSchema,
+    installmentId: idSchema.optional(), // overrides the proposed installment
+  })).min(1).optional(),
+});
+
+export type ImportBankStatementDto = z.infer<typeof importBankStatementSchema>;
+export type ConfirmBankStatementDto = z.infer<typeof confirmBankStatementSchema>;
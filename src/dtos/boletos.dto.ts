@@ -0,0 +1,23 @@
+/**
+ * Boleto DTOs
+ */
+
+import { z } from 'zod';
+
+const idSchema = z.string().regex(/^\d+$/).or(z.number().int().positive());
+
+export const createBoletoRemessaSchema = z.object({
+  accountId: z.number().int().positive(),
+  // Boletos are issued for these installments when needed; omit to send every issued boleto
+  installmentIds: z.array(idSchema).min(1).max(1000).optional(),
+});
+
+export const processBoletoRetornoSchema = z.object({
+  accountId: z.number().int().positive(),
+  fileName: z.string().max(255).optional(),
+  encoding: z.enum(['utf8', 'base64']).default('utf8'),
+  content: z.string().min(1),
+});
+
+export type CreateBoletoRemessaDto = z.infer<typeof createBoletoRemessaSchema>;
+export type ProcessBoletoRetornoDto = z.infer<typeof processBoletoRetornoSchema>;
@@ -0,0 +1,18 @@
+/**
+ * Economic Index DTOs
+ */
+
+import { z } from 'zod';
+
+export const upsertIndexRatesSchema = z.object({
+  rates: z
+    .array(
+      z.object({
+        month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format'),
+        rate: z.number(), // monthly variation in percent, may be negative
+      })
+    )
+    .min(1),
+});
+
+export type UpsertIndexRatesDto = z.infer<typeof upsertIndexRatesSchema>;
@@ -3,7 +3,9 @@
  */
 
 import { z } from 'zod';
-import { OperationType, Frequency, Currency } from '../constants/enums';
+import { OperationType, OperationStatus, Frequency, Currency, AmortizationSystem, PaymentMethod } from '../constants/enums';
+import { rentalTermsSchema } from './rentals.dto';
+import { promissoryNoteTermsSchema } from './promissoryNotes.dto';
 
 export const createOperationSchema = z.object({
   accountId: z.number().int().positive(),
@@ -16,17 +18,29 @@ export const createOperationSchema = z.object({
   startDate: z.string().datetime().or(z.date()),
   dueDate: z.string().datetime().optional().or(z.date().optional()),
   frequency: z.nativeEnum(Frequency).optional(),
+  amortizationSystem: z.nativeEnum(AmortizationSystem).optional(),
   interestRate: z.number().nonnegative().optional().or(z.string().transform((val) => parseFloat(val)).optional()),
   entryAmount: z.number().nonnegative().optional().or(z.string().transform((val) => parseFloat(val)).optional()),
   installments: z.number().int().positive().optional(),
   depositAmount: z.number().nonnegative().optional().or(z.string().transform((val) => parseFloat(val)).optional()),
   collateralMeta: z.record(z.unknown()).optional(),
   meta: z.record(z.unknown()).optional(),
-  status: z.string().optional(),
+  status: z.nativeEnum(OperationStatus).optional(),
   resourceId: z.number().int().positive().optional(),
+  rental: rentalTermsSchema.optional(), // RENTAL only: principalAmount is the monthly rent
+  promissoryNote: promissoryNoteTermsSchema.optional(), // PROMISSORY_NOTE only
 });
 
-export const updateOperationSchema = createOperationSchema.partial().omit({ accountId: true, clientId: true });
+export const updateOperationSchema = createOperationSchema.partial().omit({
+  accountId: true,
+  clientId: true,
+  rental: true,
+  promissoryNote: true,
+});
+
+export const simulateOperationSchema = createOperationSchema.extend({
+  feeAmount: z.number().nonnegative().optional().or(z.string().transform((val) => parseFloat(val)).optional()),
+});
 
 export const registerPaymentSchema = z.object({
   amount: z.number().positive().or(z.string().transform((val) => parseFloat(val))),
@@ -36,7 +50,30 @@ export const registerPaymentSchema = z.object({
   meta: z.record(z.unknown()).optional(),
 });
 
+export const settleOperationSchema = z.object({
+  paidAt: z.string().datetime().optional().or(z.date().optional()),
+  amount: z.number().positive().optional().or(z.string().transform((val) => parseFloat(val)).optional()),
+  method: z.nativeEnum(PaymentMethod).optional(),
+  reference: z.string().optional(),
+  meta: z.record(z.unknown()).optional(),
+});
+
+export const renegotiateOperationSchema = z.object({
+  interestRate: z.number().nonnegative().or(z.string().transform((val) => parseFloat(val))),
+  installments: z.number().int().positive(),
+  frequency: z.nativeEnum(Frequency).optional(),
+  amortizationSystem: z.nativeEnum(AmortizationSystem).optional(),
+  startDate: z.string().datetime().optional().or(z.date().optional()),
+  entryAmount: z.number().nonnegative().optional().or(z.string().transform((val) => parseFloat(val)).optional()),
+  title: z.string().optional(),
+  reason: z.string().optional(),
+  meta: z.record(z.unknown()).optional(),
+});
+
 export type CreateOperationDto = z.infer<typeof createOperationSchema>;
 export type UpdateOperationDto = z.infer<typeof updateOperationSchema>;
+export type SimulateOperationDto = z.infer<typeof simulateOperationSchema>;
 export type RegisterPaymentDto = z.infer<typeof registerPaymentSchema>;
+export type SettleOperationDto = z.infer<typeof settleOperationSchema>;
+export type RenegotiateOperationDto = z.infer<typeof renegotiateOperationSchema>;
 
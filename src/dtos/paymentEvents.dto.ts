@@ -0,0 +1,17 @@
+/**
+ * Payment Event (webhook) DTOs
+ */
+
+import { z } from 'zod';
+
+export const reconcilePaymentEventSchema = z.object({
+  installmentId: z.string().regex(/^\d+$/).or(z.number().int().positive()),
+  notes: z.string().max(500).optional(),
+});
+
+export const ignorePaymentEventSchema = z.object({
+  notes: z.string().max(500).optional(),
+});
+
+export type ReconcilePaymentEventDto = z.infer<typeof reconcilePaymentEventSchema>;
+export type IgnorePaymentEventDto = z.infer<typeof ignorePaymentEventSchema>;
@@ -6,7 +6,6 @@ import { z } from 'zod';
 import { PaymentMethod, Currency } from '../constants/enums';
 
 export const createPaymentSchema = z.object({
-  clientId: z.number().int().positive(),
   operationId: z.string().or(z.number().int().positive()),
   installmentId: z.string().optional().or(z.number().int().positive().optional()),
   amount: z.number().positive().or(z.string().transform((val) => parseFloat(val))),
@@ -19,3 +18,9 @@ export const createPaymentSchema = z.object({
 
 export type CreatePaymentDto = z.infer<typeof createPaymentSchema>;
 
+
+export const reversePaymentSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+export type ReversePaymentDto = z.infer<typeof reversePaymentSchema>;
@@ -0,0 +1,14 @@
+/**
+ * PIX Charge DTOs
+ */
+
+import { z } from 'zod';
+
+// Payment confirmation reported by the bank / PSP for a charge
+export const confirmPixChargeSchema = z.object({
+  amount: z.number().positive().optional(), // defaults to the charged amount
+  paidAt: z.string().datetime().optional().or(z.date().optional()),
+  endToEndId: z.string().min(1).max(64).optional(), // E2E id of the PIX transaction
+});
+
+export type ConfirmPixChargeDto = z.infer<typeof confirmPixChargeSchema>;
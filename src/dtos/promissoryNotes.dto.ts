@@ -0,0 +1,28 @@
+/**
+ * Promissory Note DTOs
+ */
+
+import { z } from 'zod';
+
+// Note terms sent in the `promissoryNote` field of a PROMISSORY_NOTE operation
+export const promissoryNoteTermsSchema = z.object({
+  guarantorClientId: z.number().int().positive().optional(), // avalista, a client of the same account
+  issuePlace: z.string().min(1).optional(), // defaults to the account city
+  paymentPlace: z.string().min(1).optional(), // defaults to the issue place
+});
+
+export const protestPromissoryNoteSchema = z.object({
+  protestedAt: z.string().datetime().optional().or(z.date().optional()),
+  notes: z.string().optional(),
+});
+
+export const endorsePromissoryNoteSchema = z.object({
+  endorseeName: z.string().min(1),
+  endorseeDocument: z.string().optional(),
+  endorsedAt: z.string().datetime().optional().or(z.date().optional()),
+  notes: z.string().optional(),
+});
+
+export type PromissoryNoteTermsDto = z.infer<typeof promissoryNoteTermsSchema>;
+export type ProtestPromissoryNoteDto = z.infer<typeof protestPromissoryNoteSchema>;
+export type EndorsePromissoryNoteDto = z.infer<typeof endorsePromissoryNoteSchema>;
@@ -0,0 +1,23 @@
+/**
+ * Rental DTOs
+ */
+
+import { z } from 'zod';
+import { AdjustmentIndex } from '../constants/enums';
+
+// Rental terms sent in the `rental` field of a RENTAL operation
+export const rentalTermsSchema = z.object({
+  endDate: z.string().datetime().optional().or(z.date().optional()), // omit for open-ended contracts
+  adjustmentIndex: z.nativeEnum(AdjustmentIndex).default(AdjustmentIndex.NONE),
+  monthsAhead: z.number().int().min(1).max(24).optional(),
+});
+
+export const endRentalSchema = z.object({
+  endDate: z.string().datetime().optional().or(z.date().optional()),
+  depositReturnedAmount: z.number().nonnegative().optional(),
+  depositRetainedAmount: z.number().nonnegative().optional(),
+  depositNotes: z.string().optional(),
+});
+
+export type RentalTermsDto = z.infer<typeof rentalTermsSchema>;
+export type EndRentalDto = z.infer<typeof endRentalSchema>;
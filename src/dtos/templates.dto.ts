@@ -0,0 +1,35 @@
+/**
+ * Message Template DTOs
+ */
+
+import { z } from 'zod';
+import { NotificationChannel } from '../constants/enums';
+import { TEMPLATE_LOCALES } from '../utils/messageTemplates';
+
+const idSchema = z.string().regex(/^\d+$/).or(z.number().int().positive());
+
+export const createTemplateSchema = z.object({
+  accountId: z.number().int().positive(),
+  key: z.string().regex(/^[A-Za-z0-9_.-]+$/).max(100), // referenced by Alert.template
+  locale: z.enum(TEMPLATE_LOCALES).default('pt-BR'),
+  channel: z.nativeEnum(NotificationChannel).nullable().optional(), // omit for every channel
+  subject: z.string().max(255).nullable().optional(),
+  body: z.string().min(1).max(4000),
+});
+
+export const updateTemplateSchema = z.object({
+  locale: z.enum(TEMPLATE_LOCALES).optional(),
+  channel: z.nativeEnum(NotificationChannel).nullable().optional(),
+  subject: z.string().max(255).nullable().optional(),
+  body: z.string().min(1).max(4000).optional(),
+});
+
+export const previewTemplateSchema = z.object({
+  operationId: idSchema,
+  installmentId: idSchema.optional(), // defaults to the next open installment
+  locale: z.enum(TEMPLATE_LOCALES).optional(), // formatting locale, defaults to the template's
+});
+
+export type CreateTemplateDto = z.infer<typeof createTemplateSchema>;
+export type UpdateTemplateDto = z.infer<typeof updateTemplateSchema>;
+export type PreviewTemplateDto = z.infer<typeof previewTemplateSchema>;
@@ -6,13 +6,16 @@
 import { Request, Response, NextFunction } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { AuthService } from '../services/authService';
+import { ALL_PERMISSIONS } from '../utils/permissions';
 
 export interface AuthenticatedUser {
   id: number;
   email: string;
-  role: string;
+  role: string; // role in the active account (platform admins keep 'admin')
   accountId?: number | null;
   isAdmin: boolean;
+  permissions: string[]; // effective permissions in the active account (see utils/permissions)
+  sessionId?: number; // sign-in session of the token (AuthSession)
 }
 
 declare global {
@@ -47,6 +50,7 @@ export async function authMiddleware(
         role: 'admin',
         accountId: null,
         isAdmin: true,
+        permissions: ALL_PERMISSIONS,
       };
       return next();
     }
@@ -82,13 +86,37 @@ export async function authMiddleware(
       return;
     }
 
+    // Tokens stop working as soon as their session is revoked (logout, "log out everywhere",
+    // refresh token reuse, password reset) or expires
+    const session = decoded.sessionId ? await authService.findActiveSession(decoded.sessionId) : null;
+    if (!session || session.userId !== user.id) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'Session expired or revoked', code: 'UNAUTHORIZED' },
+      });
+      return;
+    }
+
+    // Role and permissions in the token's account, read on every request so role changes,
+    // permission edits and removals apply at once
+    const access = await authService.resolveAccess(user, decoded.accountId);
+    if (!access) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'Access to this account was revoked', code: 'UNAUTHORIZED' },
+      });
+      return;
+    }
+
     // Set user in request
     req.user = {
       id: user.id,
       email: user.email,
-      role: user.role,
+      role: access.role,
       accountId: decoded.accountId,
       isAdmin: authService.isAdmin(user.role),
+      permissions: [...access.permissions],
+      sessionId: session.id,
     };
 
     next();
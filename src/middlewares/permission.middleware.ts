@@ -0,0 +1,39 @@
+/**
+ * Permission-based access control middleware
+ * Checks the effective permissions loaded by authMiddleware (role in the active account, or
+ * every permission for platform admins)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import HttpStatusCodes from '../common/HttpStatusCodes';
+import { hasPermission } from '../utils/permissions';
+
+/**
+ * Require all the given permissions
+ * @param permissions - Keys from the permission catalog (Permission in constants/enums)
+ */
+export function requirePermission(...permissions: string[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(HttpStatusCodes.UNAUTHORIZED).json({
+        success: false,
+        error: { message: 'Authentication required', code: 'UNAUTHORIZED' },
+      });
+      return;
+    }
+
+    const missing = permissions.filter((permission) => !hasPermission(req.user!.permissions, permission));
+    if (missing.length > 0) {
+      res.status(HttpStatusCodes.FORBIDDEN).json({
+        success: false,
+        error: {
+          message: `Access denied. Missing permission: ${missing.join(', ')}`,
+          code: 'FORBIDDEN',
+        },
+      });
+      return;
+    }
+
+    next();
+  };
+}
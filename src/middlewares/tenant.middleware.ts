@@ -0,0 +1,35 @@
+/**
+ * Tenant isolation middleware
+ * Runs the rest of the request of a non-admin user in the account of their token, so every
+ * query it makes is scoped to that account (see prisma/tenant). Platform admins see every
+ * account.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import HttpStatusCodes from '../common/HttpStatusCodes';
+import { runWithTenant } from '../prisma/tenant';
+
+export function tenantMiddleware(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user) {
+    res.status(HttpStatusCodes.UNAUTHORIZED).json({
+      success: false,
+      error: { message: 'Authentication required', code: 'UNAUTHORIZED' },
+    });
+    return;
+  }
+
+  if (req.user.isAdmin) {
+    next();
+    return;
+  }
+
+  if (!req.user.accountId) {
+    res.status(HttpStatusCodes.FORBIDDEN).json({
+      success: false,
+      error: { message: 'Account access required', code: 'FORBIDDEN' },
+    });
+    return;
+  }
+
+  runWithTenant({ accountId: req.user.accountId, userId: req.user.id }, next);
+}
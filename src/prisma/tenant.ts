@@ -0,0 +1,74 @@
+/**
+ * Tenant-scoped Prisma Client
+ *
+ * The tenant middleware runs each request of a non-admin user inside a tenant context (the
+ * account of the token); the query extension below narrows every query made in that context
+ * with the rules of utils/tenantScope. Admins, scheduled jobs, webhooks and the auth routes run
+ * without a context and are not scoped.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { RecordNotFoundError } from '../common/classes';
+import { isTenantScoped, scopeArgs, TenantContext } from '../utils/tenantScope';
+
+const tenantStorage = new AsyncLocalStorage<TenantContext>();
+
+export function getTenant(): TenantContext | undefined {
+  return tenantStorage.getStore();
+}
+
+export function runWithTenant<T>(tenant: TenantContext, fn: () => T): T {
+  return tenantStorage.run(tenant, fn);
+}
+
+/**
+ * Run `fn` outside the tenant context, for the few checks that must see every account (e.g.
+ * client emails, which are unique across the platform). Prisma queries are lazy and read the
+ * context when awaited, so the result is awaited before leaving it.
+ */
+export function withoutTenantScope<T>(fn: () => T | PromiseLike<T>): Promise<T> {
+  return tenantStorage.exit(async () => await fn());
+}
+
+interface TenantQuery {
+  model?: string;
+  operation: string;
+  args: any;
+  query: (args: any) => Promise<unknown>;
+}
+
+/**
+ * Run a query in the current tenant. Updates and deletes of records outside the account fail
+ * with RecordNotFoundError (404) instead of Prisma's P2025.
+ */
+export async function tenantQuery({ model, operation, args, query }: TenantQuery, tenant = getTenant()) {
+  if (!tenant || !isTenantScoped(model)) {
+    return query(args);
+  }
+  try {
+    return await query(scopeArgs(model!, operation, args, tenant));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      throw new RecordNotFoundError(model);
+    }
+    throw error;
+  }
+}
+
+export const tenantExtension = Prisma.defineExtension({
+  name: 'tenant-scope',
+  query: {
+    $allModels: {
+      $allOperations: (params) => tenantQuery(params),
+    },
+  },
+});
+
+/**
+ * Client whose queries are scoped to the tenant of the request. Typed as a plain PrismaClient
+ * so services keep their constructor signatures.
+ */
+export function createTenantClient(client: PrismaClient = new PrismaClient()): PrismaClient {
+  return client.$extends(tenantExtension) as unknown as PrismaClient;
+}
@@ -5,11 +5,18 @@
 import { Router } from 'express';
 import { makeInvoker } from 'awilix-express';
 import { AccountsController } from '../controllers/accountsController';
+import { AccountMembersController } from '../controllers/accountMembersController';
+import { AccountRolesController } from '../controllers/accountRolesController';
 import { validate } from '../middlewares/validation.middleware';
 import { createAccountSchema, updateAccountSchema } from '../dtos/accounts.dto';
+import { createInvitationSchema, createRoleSchema, updateMemberSchema, updateRoleSchema } from '../dtos/accountMembers.dto';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
 
 const router = Router();
 const api = makeInvoker(AccountsController);
+const membersApi = makeInvoker(AccountMembersController);
+const rolesApi = makeInvoker(AccountRolesController);
 
 // Auth middleware is applied globally to all /api/* routes in routes/index.ts
 
@@ -79,6 +86,29 @@ const api = makeInvoker(AccountsController);
  */
 router.get('/', api('index'));
 
+/**
+ * @swagger
+ * /api/accounts/permissions:
+ *   get:
+ *     summary: Catálogo de permissões
+ *     description: |
+ *       Permissões que os papéis das contas podem conceder (platform = false) e as exclusivas dos
+ *       administradores da plataforma (platform = true).
+ *     tags: [Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Lista de permissões (key, description, platform)
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/permissions', rolesApi('permissions'));
+
 /**
  * @swagger
  * /api/accounts/{id}:
@@ -221,6 +251,12 @@ router.get('/:id', api('show'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão platform:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -228,7 +264,7 @@ router.get('/:id', api('show'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', validate(createAccountSchema), api('create'));
+router.post('/', requirePermission(Permission.PLATFORM_MANAGE), validate(createAccountSchema), api('create'));
 
 /**
  * @swagger
@@ -291,6 +327,12 @@ router.post('/', validate(createAccountSchema), api('create'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão accounts:update
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -298,7 +340,7 @@ router.post('/', validate(createAccountSchema), api('create'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', validate(updateAccountSchema), api('update'));
+router.put('/:id', requirePermission(Permission.ACCOUNTS_UPDATE), validate(updateAccountSchema), api('update'));
 
 /**
  * @swagger
@@ -325,6 +367,526 @@ router.put('/:id', validate(updateAccountSchema), api('update'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão platform:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:id', requirePermission(Permission.PLATFORM_MANAGE), api('delete'));
+
+/**
+ * @swagger
+ * /api/accounts/{id}/members:
+ *   get:
+ *     summary: Listar membros da conta
+ *     description: Usuários da conta com o papel de cada um (owner, admin, agent, viewer). Qualquer membro pode listar.
+ *     tags: [Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID da conta
+ *     responses:
+ *       200:
+ *         description: Membros com os dados do usuário
+ *       403:
+ *         description: Sem acesso à conta ou papel insuficiente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/members', membersApi('index'));
+
+/**
+ * @swagger
+ * /api/accounts/{id}/members/{userId}:
+ *   put:
+ *     summary: Alterar o papel de um membro
+ *     description: |
+ *       Exige a permissão members:manage. Só é possível alterar membros e dar papéis com menos
+ *       permissões que as suas (o owner altera todos); o papel owner não pode ser dado nem
+ *       retirado. A alteração vale na próxima requisição do usuário.
+ *     tags: [Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID da conta
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID do usuário da plataforma
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 description: Chave de um papel da conta (admin, agent, viewer ou personalizado), exceto owner
+ *                 example: viewer
+ *     responses:
+ *       200:
+ *         description: Membro atualizado
+ *       404:
+ *         description: Membro não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem acesso à conta ou papel insuficiente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   delete:
+ *     summary: Remover membro da conta
+ *     description: Qualquer membro pode sair da conta (userId = o próprio usuário); o owner não pode ser removido.
+ *     tags: [Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID da conta
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID do usuário da plataforma
+ *     responses:
+ *       204:
+ *         description: Membro removido
+ *       400:
+ *         description: O owner não pode ser removido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Membro não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem acesso à conta ou papel insuficiente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/:id/members/:userId', validate(updateMemberSchema), membersApi('update'));
+router.delete('/:id/members/:userId', membersApi('delete'));
+
+/**
+ * @swagger
+ * /api/accounts/{id}/invitations:
+ *   get:
+ *     summary: Listar convites da conta
+ *     tags: [Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID da conta
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, ACCEPTED, REVOKED, EXPIRED]
+ *         description: Filtrar pelo status
+ *     responses:
+ *       200:
+ *         description: Convites (sem o token)
+ *       403:
+ *         description: Sem acesso à conta ou papel insuficiente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   post:
+ *     summary: Convidar usuário para a conta
+ *     description: |
+ *       Envia por e-mail um link com token válido por 7 dias ({APP_URL}/invitations/accept?token=...).
+ *       Um novo convite para o mesmo e-mail substitui o pendente. Convites pendentes ocupam uma vaga
+ *       do limite de usuários do plano (Plan.maxUsers). Exige members:manage; o papel convidado
+ *       precisa ter menos permissões que o seu (o owner convida qualquer papel).
+ *     tags: [Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID da conta
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: maria@example.com
+ *               role:
+ *                 type: string
+ *                 description: Chave de um papel da conta, exceto owner
+ *                 default: agent
+ *     responses:
+ *       201:
+ *         description: Convite criado; emailStatus indica se o e-mail foi enviado (SENT) ou falhou (FAILED)
+ *       403:
+ *         description: Papel insuficiente (FORBIDDEN) ou limite de usuários do plano atingido (USER_LIMIT_REACHED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: O usuário já é membro da conta (ALREADY_A_MEMBER)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/invitations', membersApi('invitations'));
+router.post('/:id/invitations', validate(createInvitationSchema), membersApi('invite'));
+
+/**
+ * @swagger
+ * /api/accounts/{id}/invitations/{invitationId}:
+ *   delete:
+ *     summary: Revogar convite pendente
+ *     tags: [Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID da conta
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID do convite
+ *     responses:
+ *       200:
+ *         description: Convite revogado
+ *       400:
+ *         description: O convite não está mais pendente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Convite não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem acesso à conta ou papel insuficiente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:id/invitations/:invitationId', membersApi('revokeInvitation'));
+
+/**
+ * @swagger
+ * /api/accounts/{id}/roles:
+ *   get:
+ *     summary: Listar papéis da conta
+ *     description: |
+ *       Papéis de sistema (owner, admin, agent, viewer) e os criados pela conta, com as permissões
+ *       e o número de membros de cada um. Qualquer membro pode listar.
+ *     tags: [Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID da conta
+ *     responses:
+ *       200:
+ *         description: Papéis (key, name, description, permissions, isSystem, editable, members)
+ *       403:
+ *         description: Sem acesso à conta
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   post:
+ *     summary: Criar papel personalizado
+ *     description: |
+ *       Exige a permissão roles:manage. O papel só pode conceder parte das suas permissões
+ *       (o owner concede qualquer permissão da conta).
+ *     tags: [Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID da conta
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - key
+ *               - name
+ *             properties:
+ *               key:
+ *                 type: string
+ *                 description: Letras minúsculas, dígitos, "_" ou "-"
+ *                 example: financeiro
+ *               name:
+ *                 type: string
+ *                 example: Financeiro
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [payments:create, payments:reverse, bank_statements:import]
+ *     responses:
+ *       201:
+ *         description: Papel criado
+ *       400:
+ *         description: Dados inválidos ou permissões desconhecidas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Já existe um papel com essa chave (ROLE_EXISTS)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão roles:manage ou concedendo permissões que você não tem
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/roles', rolesApi('index'));
+router.post('/:id/roles', validate(createRoleSchema), rolesApi('create'));
+
+/**
+ * @swagger
+ * /api/accounts/{id}/roles/{key}:
+ *   put:
+ *     summary: Editar papel
+ *     description: |
+ *       Altera nome, descrição ou permissões de um papel de sistema ou personalizado; o papel owner
+ *       não pode ser editado. Exige roles:manage e vale na próxima requisição dos membros.
+ *     tags: [Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID da conta
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Chave do papel
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Papel atualizado
+ *       400:
+ *         description: Permissões desconhecidas ou papel owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Papel não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão roles:manage ou concedendo permissões que você não tem
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   delete:
+ *     summary: Excluir papel personalizado
+ *     description: Papéis de sistema não podem ser excluídos; o papel não pode ter membros nem convites pendentes.
+ *     tags: [Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID da conta
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Chave do papel
+ *     responses:
+ *       204:
+ *         description: Papel excluído
+ *       400:
+ *         description: Papel de sistema
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Papel não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Papel em uso por membros ou convites (ROLE_IN_USE)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão roles:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -332,6 +894,7 @@ router.put('/:id', validate(updateAccountSchema), api('update'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', api('delete'));
+router.put('/:id/roles/:key', validate(updateRoleSchema), rolesApi('update'));
+router.delete('/:id/roles/:key', rolesApi('delete'));
 
 export default router;
@@ -4,7 +4,8 @@
  */
 
 import { Router } from 'express';
-import { requireAdmin } from '../../middlewares/role.middleware';
+import { requirePermission } from '../../middlewares/permission.middleware';
+import { Permission } from '../../constants/enums';
 import plansRouter from './plans.routes';
 import featuresRouter from './features.routes';
 import qualificationsRouter from './qualifications.routes';
@@ -13,7 +14,7 @@ import modulesRouter from './modules.routes';
 const router = Router();
 
 // All admin routes require admin role
-router.use(requireAdmin);
+router.use(requirePermission(Permission.PLATFORM_MANAGE));
 
 // Mount admin sub-routes
 router.use('/plans', plansRouter);
@@ -5,6 +5,8 @@
 import { Router } from 'express';
 import { makeInvoker } from 'awilix-express';
 import { AlertsController } from '../controllers/alertsController';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
 
 const router = Router();
 const api = makeInvoker(AlertsController);
@@ -120,6 +122,11 @@ router.get('/:id', api('show'));
  * /api/alerts:
  *   post:
  *     summary: Criar novo alerta
+ *     description: |
+ *       Alertas habilitados são enviados pelo agendador quando sendAt chega. meta.channel define o
+ *       canal (WHATSAPP por padrão; WHATSAPP e EMAIL vão para o cliente, PUSH e IN_APP para
+ *       meta.userId ou o dono da conta) e meta.installmentId a parcela usada no template.
+ *       Status, tentativas e erros da entrega ficam em meta.delivery.
  *     tags: [Alerts]
  *     security:
  *       - bearerAuth: []
@@ -174,6 +181,12 @@ router.get('/:id', api('show'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão alerts:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -181,7 +194,7 @@ router.get('/:id', api('show'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', api('create'));
+router.post('/', requirePermission(Permission.ALERTS_MANAGE), api('create'));
 
 /**
  * @swagger
@@ -234,6 +247,12 @@ router.post('/', api('create'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão alerts:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -241,7 +260,7 @@ router.post('/', api('create'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', api('update'));
+router.put('/:id', requirePermission(Permission.ALERTS_MANAGE), api('update'));
 
 /**
  * @swagger
@@ -268,6 +287,12 @@ router.put('/:id', api('update'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão alerts:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -275,7 +300,7 @@ router.put('/:id', api('update'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', api('delete'));
+router.delete('/:id', requirePermission(Permission.ALERTS_MANAGE), api('delete'));
 
 export default router;
 
@@ -5,6 +5,7 @@
 import { Router, Request, Response } from 'express';
 import { validate } from '../middlewares/validation.middleware';
 import { loginSchema, refreshTokenSchema, forgotPasswordSchema, resetPasswordSchema, registerSchema } from '../dtos/auth.dto';
+import { acceptInvitationSchema, switchAccountSchema } from '../dtos/accountMembers.dto';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { AuthService } from '../services/authService';
 import { AuthController } from '../controllers/authController';
@@ -113,6 +114,9 @@ router.post('/login', validate(loginSchema), wrapHandler((req, res) => authContr
  * /auth/refresh:
  *   post:
  *     summary: Renovar access token
+ *     description: |
+ *       Troca o refresh token por um novo (rotação): o enviado deixa de valer. Reutilizar um refresh
+ *       token já trocado revoga a sessão inteira.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -125,7 +129,7 @@ router.post('/login', validate(loginSchema), wrapHandler((req, res) => authContr
  *             properties:
  *               refreshToken:
  *                 type: string
- *                 example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                 example: 42.9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08
  *     responses:
  *       200:
  *         description: Token renovado com sucesso
@@ -147,7 +151,7 @@ router.post('/login', validate(loginSchema), wrapHandler((req, res) => authContr
  *                     expiresIn:
  *                       type: integer
  *       401:
- *         description: Refresh token inválido
+ *         description: Refresh token inválido, expirado ou já usado (REFRESH_TOKEN_REUSED, que encerra a sessão)
  *         content:
  *           application/json:
  *             schema:
@@ -322,7 +326,7 @@ router.post('/reset-password', validate(resetPasswordSchema), wrapHandler((req,
  *                           example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
  *                         refreshToken:
  *                           type: string
- *                           example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                           example: 42.9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08
  *                         expiresIn:
  *                           type: integer
  *                           example: 604800
@@ -441,6 +445,83 @@ router.post('/register', validate(registerSchema), wrapHandler((req, res) => aut
  */
 router.get('/check-email', wrapHandler((req, res) => authController.checkEmail(req, res)));
 
+/**
+ * @swagger
+ * /auth/invitations/{token}:
+ *   get:
+ *     summary: Consultar convite para uma conta
+ *     description: Dados exibidos na página de aceite; userExists indica se o e-mail já tem usuário (pedir a senha atual) ou não (pedir nome e nova senha).
+ *     tags: [Auth]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Token recebido por e-mail
+ *     responses:
+ *       200:
+ *         description: Conta, e-mail, papel, status (PENDING, ACCEPTED, REVOKED, EXPIRED) e validade do convite
+ *       404:
+ *         description: Convite não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/invitations/:token', wrapHandler((req, res) => authController.invitation(req, res)));
+
+/**
+ * @swagger
+ * /auth/invitations/accept:
+ *   post:
+ *     summary: Aceitar convite e entrar na conta
+ *     description: |
+ *       Quem já tem usuário confirma a senha atual; para e-mails sem usuário, o usuário é criado com
+ *       name e password (mesma regra de senha do cadastro). Retorna tokens com a conta do convite ativa.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               name:
+ *                 type: string
+ *                 description: Obrigatório quando o e-mail ainda não tem usuário
+ *     responses:
+ *       200:
+ *         description: Usuário e tokens (accessToken, refreshToken, expiresIn)
+ *       400:
+ *         description: Convite inválido ou expirado, nome ausente ou senha fraca (WEAK_PASSWORD)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Senha incorreta
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Limite de usuários do plano atingido (USER_LIMIT_REACHED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/invitations/accept', validate(acceptInvitationSchema), wrapHandler((req, res) => authController.acceptInvitation(req, res)));
+
 // ==========================================
 // PROTECTED ROUTES (Authentication required)
 // ==========================================
@@ -450,6 +531,9 @@ router.get('/check-email', wrapHandler((req, res) => authController.checkEmail(r
  * /auth/me:
  *   get:
  *     summary: Obter dados do usuário autenticado
+ *     description: |
+ *       Inclui a conta ativa, o papel nela (accountRole) e as permissões efetivas (permissions),
+ *       para o frontend esconder ações. Administradores da plataforma têm todas as permissões.
  *     tags: [Auth]
  *     security:
  *       - bearerAuth: []
@@ -482,6 +566,18 @@ router.get('/check-email', wrapHandler((req, res) => authController.checkEmail(r
  *                     isActive:
  *                       type: boolean
  *                       example: true
+ *                     accountId:
+ *                       type: integer
+ *                       nullable: true
+ *                       example: 1
+ *                     accountRole:
+ *                       type: string
+ *                       example: agent
+ *                     permissions:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: [clients:create, operations:create, payments:create]
  *       401:
  *         description: Não autenticado
  *         content:
@@ -491,11 +587,72 @@ router.get('/check-email', wrapHandler((req, res) => authController.checkEmail(r
  */
 router.get('/me', authMiddleware, wrapHandler((req, res) => authController.me(req, res)));
 
+/**
+ * @swagger
+ * /auth/accounts:
+ *   get:
+ *     summary: Contas do usuário autenticado
+ *     description: Contas das quais o usuário é membro, com o papel em cada uma; active marca a conta do token.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Lista de contas (accountId, name, status, role, lastAccessedAt, active)
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/accounts', authMiddleware, wrapHandler((req, res) => authController.accounts(req, res)));
+
+/**
+ * @swagger
+ * /auth/switch-account:
+ *   post:
+ *     summary: Trocar a conta ativa
+ *     description: Emite novos tokens com o accountId e o papel na conta escolhida; ela passa a ser a conta usada no próximo login.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accountId
+ *             properties:
+ *               accountId:
+ *                 type: integer
+ *                 example: 2
+ *     responses:
+ *       200:
+ *         description: Novos tokens (accessToken, refreshToken, expiresIn)
+ *       404:
+ *         description: Conta não encontrada ou o usuário não é membro
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/switch-account', authMiddleware, validate(switchAccountSchema), wrapHandler((req, res) => authController.switchAccount(req, res)));
+
 /**
  * @swagger
  * /auth/logout:
  *   post:
- *     summary: Logout (remove token client-side)
+ *     summary: Logout (encerra a sessão do token)
+ *     description: Revoga a sessão; o refresh token e todos os access tokens dela deixam de funcionar.
  *     tags: [Auth]
  *     security:
  *       - bearerAuth: []
@@ -525,4 +682,137 @@ router.get('/me', authMiddleware, wrapHandler((req, res) => authController.me(re
  */
 router.post('/logout', authMiddleware, wrapHandler((req, res) => authController.logout(req, res)));
 
+/**
+ * @swagger
+ * /auth/logout-all:
+ *   post:
+ *     summary: Sair de todos os dispositivos
+ *     description: Revoga todas as sessões do usuário, inclusive a atual.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessões encerradas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     message:
+ *                       type: string
+ *                       example: Logged out of every session
+ *                     sessions:
+ *                       type: integer
+ *                       description: Quantidade de sessões revogadas
+ *                       example: 3
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/logout-all', authMiddleware, wrapHandler((req, res) => authController.logoutAll(req, res)));
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   get:
+ *     summary: Listar sessões ativas
+ *     description: Uma sessão por login, com o dispositivo, o IP e o último uso; `current` marca a sessão do token.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessões ativas, a usada mais recentemente primeiro
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       accountId:
+ *                         type: integer
+ *                         nullable: true
+ *                       device:
+ *                         type: string
+ *                         nullable: true
+ *                         example: Chrome on Windows
+ *                       userAgent:
+ *                         type: string
+ *                         nullable: true
+ *                       ip:
+ *                         type: string
+ *                         nullable: true
+ *                       lastUsedAt:
+ *                         type: string
+ *                         format: date-time
+ *                       expiresAt:
+ *                         type: string
+ *                         format: date-time
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                       current:
+ *                         type: boolean
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/sessions', authMiddleware, wrapHandler((req, res) => authController.sessions(req, res)));
+
+/**
+ * @swagger
+ * /auth/sessions/{id}:
+ *   delete:
+ *     summary: Encerrar uma sessão
+ *     description: Revoga uma sessão do próprio usuário (por exemplo, de um dispositivo perdido).
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID da sessão
+ *     responses:
+ *       204:
+ *         description: Sessão encerrada
+ *       404:
+ *         description: Sessão não encontrada ou já encerrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/sessions/:id', authMiddleware, wrapHandler((req, res) => authController.revokeSession(req, res)));
+
 export default router;
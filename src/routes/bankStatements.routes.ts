@@ -0,0 +1,293 @@
+/**
+ * Bank Statements Routes
+ * Statement import and bulk confirmation of the proposed installment matches
+ */
+
+import { Router } from 'express';
+import { makeInvoker } from 'awilix-express';
+import { BankStatementsController } from '../controllers/bankStatementsController';
+import { validate } from '../middlewares/validation.middleware';
+import { confirmBankStatementSchema, importBankStatementSchema } from '../dtos/bankStatements.dto';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
+
+const router = Router();
+const api = makeInvoker(BankStatementsController);
+
+// Auth middleware is applied globally to all /api/* routes in routes/index.ts
+
+/**
+ * @swagger
+ * /api/bank-statements:
+ *   get:
+ *     summary: Listar extratos bancários importados
+ *     tags: [BankStatements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *           minimum: 1
+ *         description: Número da página
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Itens por página
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: integer
+ *         description: Filtrar por ID da conta
+ *     responses:
+ *       200:
+ *         description: Lista de extratos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', api('index'));
+
+/**
+ * @swagger
+ * /api/bank-statements:
+ *   post:
+ *     summary: Importar extrato bancário
+ *     description: |
+ *       Importa um arquivo OFX, CSV ou retorno CNAB 240/400 (formato detectado pelo conteúdo quando omitido).
+ *       Cada crédito recebe uma sugestão de parcela em aberto por referência (INST<id>, txid PIX),
+ *       valor, documento do pagador e proximidade do vencimento. Lançamentos já importados são ignorados.
+ *     tags: [BankStatements]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accountId
+ *               - content
+ *             properties:
+ *               accountId:
+ *                 type: integer
+ *                 example: 1
+ *               fileName:
+ *                 type: string
+ *                 example: extrato-marco.ofx
+ *               format:
+ *                 type: string
+ *                 enum: [OFX, CSV, CNAB240, CNAB400]
+ *               encoding:
+ *                 type: string
+ *                 enum: [utf8, base64]
+ *                 default: utf8
+ *               content:
+ *                 type: string
+ *                 description: Conteúdo do arquivo (texto ou base64)
+ *               dateWindowDays:
+ *                 type: integer
+ *                 default: 10
+ *                 description: Distância máxima (em dias) entre o crédito e o vencimento
+ *     responses:
+ *       201:
+ *         description: Extrato importado, com os lançamentos e as sugestões de conciliação
+ *       404:
+ *         description: Conta não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Arquivo inválido ou sem lançamentos (INVALID_STATEMENT_FILE)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão bank_statements:import
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', requirePermission(Permission.BANK_STATEMENTS_IMPORT), validate(importBankStatementSchema), api('upload'));
+
+/**
+ * @swagger
+ * /api/bank-statements/{id}:
+ *   get:
+ *     summary: Buscar extrato com lançamentos e sugestões
+ *     tags: [BankStatements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID do extrato (BigInt como string)
+ *     responses:
+ *       200:
+ *         description: Extrato com lançamentos
+ *       404:
+ *         description: Extrato não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', api('show'));
+
+/**
+ * @swagger
+ * /api/bank-statements/{id}/confirm:
+ *   post:
+ *     summary: Confirmar conciliações em lote
+ *     description: |
+ *       Registra pagamentos (método BANK_TRANSFER) para os lançamentos informados. Sem `matches`,
+ *       confirma todas as sugestões pendentes do extrato. Falhas são retornadas por lançamento.
+ *     tags: [BankStatements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID do extrato (BigInt como string)
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               matches:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - transactionId
+ *                   properties:
+ *                     transactionId:
+ *                       type: string
+ *                       example: "10"
+ *                     installmentId:
+ *                       type: string
+ *                       description: Substitui a parcela sugerida
+ *                       example: "42"
+ *     responses:
+ *       200:
+ *         description: Resultado por lançamento (confirmed, failed, results)
+ *       404:
+ *         description: Extrato não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão bank_statements:import
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/confirm', requirePermission(Permission.BANK_STATEMENTS_IMPORT), validate(confirmBankStatementSchema), api('confirm'));
+
+/**
+ * @swagger
+ * /api/bank-statements/{id}/transactions/{transactionId}/ignore:
+ *   post:
+ *     summary: Descartar lançamento do extrato
+ *     tags: [BankStatements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID do extrato (BigInt como string)
+ *       - in: path
+ *         name: transactionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID do lançamento (BigInt como string)
+ *     responses:
+ *       200:
+ *         description: Lançamento descartado (IGNORED)
+ *       404:
+ *         description: Lançamento não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Lançamento já confirmado ou descartado (TRANSACTION_RESOLVED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão bank_statements:import
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/transactions/:transactionId/ignore', requirePermission(Permission.BANK_STATEMENTS_IMPORT), api('ignoreTransaction'));
+
+export default router;
@@ -0,0 +1,324 @@
+/**
+ * Boletos Routes
+ * Issued boletos, CNAB 240 remessa files and retorno processing
+ */
+
+import { Router } from 'express';
+import { makeInvoker } from 'awilix-express';
+import { BoletosController } from '../controllers/boletosController';
+import { validate } from '../middlewares/validation.middleware';
+import { createBoletoRemessaSchema, processBoletoRetornoSchema } from '../dtos/boletos.dto';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
+
+const router = Router();
+const api = makeInvoker(BoletosController);
+
+// Auth middleware is applied globally to all /api/* routes in routes/index.ts
+
+/**
+ * @swagger
+ * /api/boletos:
+ *   get:
+ *     summary: Listar boletos
+ *     tags: [Boletos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *           minimum: 1
+ *         description: Número da página
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Itens por página
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: integer
+ *         description: Filtrar por ID da conta
+ *       - in: query
+ *         name: installmentId
+ *         schema:
+ *           type: string
+ *         description: Filtrar por ID da parcela
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ISSUED, SENT, REGISTERED, REJECTED, PAID, CANCELLED]
+ *         description: Filtrar por status
+ *     responses:
+ *       200:
+ *         description: Lista de boletos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', api('index'));
+
+/**
+ * @swagger
+ * /api/boletos/remessas:
+ *   get:
+ *     summary: Listar arquivos de remessa gerados
+ *     tags: [Boletos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Número da página
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *         description: Itens por página
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: integer
+ *         description: Filtrar por ID da conta
+ *     responses:
+ *       200:
+ *         description: Lista de remessas (sem o conteúdo do arquivo)
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/remessas', api('remessas'));
+
+/**
+ * @swagger
+ * /api/boletos/remessas:
+ *   post:
+ *     summary: Gerar remessa CNAB 240 para um lote de parcelas
+ *     description: |
+ *       Emite os boletos das parcelas informadas (quando necessário) e gera o arquivo de remessa
+ *       CNAB 240 (segmentos P, Q e R, com multa e juros da política da conta) no convênio da conta.
+ *       Sem installmentIds, inclui todos os boletos emitidos e ainda não enviados. Os boletos
+ *       incluídos passam para SENT.
+ *     tags: [Boletos]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accountId
+ *             properties:
+ *               accountId:
+ *                 type: integer
+ *                 example: 1
+ *               installmentIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["41", "42"]
+ *     responses:
+ *       201:
+ *         description: Remessa gerada, com os boletos incluídos
+ *       400:
+ *         description: Nenhum boleto a enviar ou parcela inválida
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Conta não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Convênio bancário não configurado (BOLETO_NOT_CONFIGURED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão billing:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/remessas', requirePermission(Permission.BILLING_MANAGE), validate(createBoletoRemessaSchema), api('createRemessa'));
+
+/**
+ * @swagger
+ * /api/boletos/remessas/{id}/file:
+ *   get:
+ *     summary: Baixar arquivo de remessa
+ *     tags: [Boletos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da remessa (BigInt como string)
+ *     responses:
+ *       200:
+ *         description: Arquivo CNAB 240
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Remessa não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/remessas/:id/file', api('remessaFile'));
+
+/**
+ * @swagger
+ * /api/boletos/retorno:
+ *   post:
+ *     summary: Processar arquivo de retorno do banco
+ *     description: |
+ *       Aplica o retorno CNAB 240 (ou liquidações de um retorno CNAB 400): entrada confirmada
+ *       (REGISTERED), rejeição (REJECTED), baixa (CANCELLED) e liquidação, que registra o pagamento
+ *       da parcela com método BOLETO. Movimentos já aplicados são contados como duplicados.
+ *     tags: [Boletos]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accountId
+ *               - content
+ *             properties:
+ *               accountId:
+ *                 type: integer
+ *                 example: 1
+ *               fileName:
+ *                 type: string
+ *                 example: retorno-000001.ret
+ *               encoding:
+ *                 type: string
+ *                 enum: [utf8, base64]
+ *                 default: utf8
+ *               content:
+ *                 type: string
+ *                 description: Conteúdo do arquivo (texto ou base64)
+ *     responses:
+ *       200:
+ *         description: Resumo e resultado por movimento
+ *       404:
+ *         description: Conta não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Arquivo não é um retorno CNAB (INVALID_RETORNO_FILE)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão billing:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/retorno', requirePermission(Permission.BILLING_MANAGE), validate(processBoletoRetornoSchema), api('retorno'));
+
+/**
+ * @swagger
+ * /api/boletos/{id}:
+ *   get:
+ *     summary: Buscar boleto
+ *     tags: [Boletos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID do boleto (BigInt como string)
+ *     responses:
+ *       200:
+ *         description: Boleto com parcela, pagamento e remessa
+ *       404:
+ *         description: Boleto não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', api('show'));
+
+export default router;
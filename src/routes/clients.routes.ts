@@ -6,6 +6,7 @@ import { Router } from 'express';
 import { makeInvoker } from 'awilix-express';
 import { ClientsController } from '../controllers/clientsController';
 import { VerificationController } from '../controllers/verificationController';
+import { DocumentsController } from '../controllers/documentsController';
 import { validate } from '../middlewares/validation.middleware';
 import { createClientSchema, updateClientSchema } from '../dtos/clients.dto';
 import {
@@ -14,9 +15,12 @@ import {
   sendEmailVerificationSchema,
   verifyEmailSchema,
 } from '../dtos/verification.dto';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
 
 const router = Router();
 const api = makeInvoker(ClientsController);
+const documentsApi = makeInvoker(DocumentsController);
 
 // Auth middleware is applied globally to all /api/* routes in routes/index.ts
 
@@ -204,6 +208,70 @@ router.get('/consult/:document', api('consultDocument'));
  */
 router.get('/:id', api('show'));
 
+/**
+ * @swagger
+ * /api/clients/{id}/statement.pdf:
+ *   get:
+ *     summary: Extrato do cliente em PDF
+ *     description: Resumo de saldos, parcelas e pagamentos de todas as operações do cliente, opcionalmente limitado a um período
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID do cliente
+ *         example: 1
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Início do período (vencimentos e pagamentos)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Fim do período
+ *     responses:
+ *       200:
+ *         description: Documento PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Período inválido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Cliente não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão clients:export
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/statement.pdf', requirePermission(Permission.CLIENTS_EXPORT), documentsApi('statement'));
+
 /**
  * @swagger
  * /api/clients:
@@ -265,6 +333,12 @@ router.get('/:id', api('show'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão clients:create
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -272,7 +346,7 @@ router.get('/:id', api('show'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', validate(createClientSchema), api('create'));
+router.post('/', requirePermission(Permission.CLIENTS_CREATE), validate(createClientSchema), api('create'));
 
 /**
  * @swagger
@@ -329,6 +403,12 @@ router.post('/', validate(createClientSchema), api('create'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão clients:update
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -336,7 +416,7 @@ router.post('/', validate(createClientSchema), api('create'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', validate(updateClientSchema), api('update'));
+router.put('/:id', requirePermission(Permission.CLIENTS_UPDATE), validate(updateClientSchema), api('update'));
 
 /**
  * @swagger
@@ -363,6 +443,12 @@ router.put('/:id', validate(updateClientSchema), api('update'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão clients:delete
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -370,7 +456,7 @@ router.put('/:id', validate(updateClientSchema), api('update'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', api('delete'));
+router.delete('/:id', requirePermission(Permission.CLIENTS_DELETE), api('delete'));
 
 // Verification routes
 const verificationApi = makeInvoker(VerificationController);
@@ -380,6 +466,9 @@ const verificationApi = makeInvoker(VerificationController);
  * /api/clients/{id}/verify/phone/send:
  *   post:
  *     summary: Send verification code to phone (WhatsApp)
+ *     description: |
+ *       Sends the code with the WhatsApp authentication template WHATSAPP_OTP_TEMPLATE
+ *       (the 'log' provider prints it in development). The code expires in 10 minutes.
  *     tags: [Clients, Verification]
  *     security:
  *       - bearerAuth: []
@@ -413,8 +502,14 @@ const verificationApi = makeInvoker(VerificationController);
  *         description: Verification code sent successfully
  *       400:
  *         description: Invalid request
+ *       403:
+ *         description: Sem a permissão clients:update
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-router.post('/:id/verify/phone/send', validate(sendPhoneVerificationSchema), verificationApi('sendPhoneVerification'));
+router.post('/:id/verify/phone/send', requirePermission(Permission.CLIENTS_UPDATE), validate(sendPhoneVerificationSchema), verificationApi('sendPhoneVerification'));
 
 /**
  * @swagger
@@ -449,14 +544,23 @@ router.post('/:id/verify/phone/send', validate(sendPhoneVerificationSchema), ver
  *         description: Phone verified successfully
  *       400:
  *         description: Invalid code or expired
+ *       403:
+ *         description: Sem a permissão clients:update
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-router.post('/:id/verify/phone', validate(verifyPhoneSchema), verificationApi('verifyPhone'));
+router.post('/:id/verify/phone', requirePermission(Permission.CLIENTS_UPDATE), validate(verifyPhoneSchema), verificationApi('verifyPhone'));
 
 /**
  * @swagger
  * /api/clients/{id}/verify/email/send:
  *   post:
  *     summary: Send verification code to email
+ *     description: |
+ *       Sends the "verification" email through NOTIFICATION_PROVIDER_EMAIL (the 'outbox'
+ *       provider keeps it locally in development). The code expires in 10 minutes.
  *     tags: [Clients, Verification]
  *     security:
  *       - bearerAuth: []
@@ -482,8 +586,14 @@ router.post('/:id/verify/phone', validate(verifyPhoneSchema), verificationApi('v
  *         description: Verification code sent successfully
  *       400:
  *         description: Invalid request
+ *       403:
+ *         description: Sem a permissão clients:update
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-router.post('/:id/verify/email/send', validate(sendEmailVerificationSchema), verificationApi('sendEmailVerification'));
+router.post('/:id/verify/email/send', requirePermission(Permission.CLIENTS_UPDATE), validate(sendEmailVerificationSchema), verificationApi('sendEmailVerification'));
 
 /**
  * @swagger
@@ -518,8 +628,14 @@ router.post('/:id/verify/email/send', validate(sendEmailVerificationSchema), ver
  *         description: Email verified successfully
  *       400:
  *         description: Invalid code or expired
+ *       403:
+ *         description: Sem a permissão clients:update
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-router.post('/:id/verify/email', validate(verifyEmailSchema), verificationApi('verifyEmail'));
+router.post('/:id/verify/email', requirePermission(Permission.CLIENTS_UPDATE), validate(verifyEmailSchema), verificationApi('verifyEmail'));
 
 /**
  * @swagger
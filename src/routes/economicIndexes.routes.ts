@@ -0,0 +1,136 @@
+/**
+ * Economic Indexes Routes
+ */
+
+import { Router } from 'express';
+import { makeInvoker } from 'awilix-express';
+import { EconomicIndexesController } from '../controllers/economicIndexesController';
+import { validate } from '../middlewares/validation.middleware';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
+import { upsertIndexRatesSchema } from '../dtos/economicIndexes.dto';
+
+const router = Router();
+const api = makeInvoker(EconomicIndexesController);
+
+// Auth middleware is applied globally to all /api/* routes in routes/index.ts
+
+/**
+ * @swagger
+ * /api/economic-indexes:
+ *   get:
+ *     summary: Listar variações mensais de índices (IGP-M, IPCA)
+ *     tags: [Rentals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: index
+ *         schema:
+ *           type: string
+ *           enum: [IGPM, IPCA]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           example: "2024-01"
+ *         description: Mês inicial (YYYY-MM)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           example: "2024-12"
+ *         description: Mês final (YYYY-MM)
+ *     responses:
+ *       200:
+ *         description: Variações mensais
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       index:
+ *                         type: string
+ *                         example: "IGPM"
+ *                       referenceMonth:
+ *                         type: string
+ *                         format: date
+ *                         example: "2024-01-01"
+ *                       rate:
+ *                         type: number
+ *                         example: 0.07
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', api('index'));
+
+/**
+ * @swagger
+ * /api/economic-indexes/{index}:
+ *   put:
+ *     summary: Cadastrar/atualizar variações mensais de um índice (Admin only)
+ *     tags: [Rentals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: index
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [IGPM, IPCA]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rates
+ *             properties:
+ *               rates:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - month
+ *                     - rate
+ *                   properties:
+ *                     month:
+ *                       type: string
+ *                       example: "2024-01"
+ *                     rate:
+ *                       type: number
+ *                       description: Variação mensal em percentual (pode ser negativa)
+ *                       example: 0.07
+ *     responses:
+ *       200:
+ *         description: Variações salvas
+ *       400:
+ *         description: Dados inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão platform:manage (administradores da plataforma)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/:index(IGPM|IPCA)', requirePermission(Permission.PLATFORM_MANAGE), validate(upsertIndexRatesSchema), api('upsert'));
+
+export default router;
@@ -0,0 +1,124 @@
+/**
+ * Emails Routes
+ * Log of the transactional emails sent by the platform
+ */
+
+import { Router } from 'express';
+import { makeInvoker } from 'awilix-express';
+import { EmailsController } from '../controllers/emailsController';
+
+const router = Router();
+const api = makeInvoker(EmailsController);
+
+// Auth middleware is applied globally to all /api/* routes in routes/index.ts
+
+/**
+ * @swagger
+ * /api/emails:
+ *   get:
+ *     summary: Listar e-mails enviados
+ *     description: |
+ *       Um registro por e-mail transacional (verificação, redefinição de senha, boas-vindas, convite e
+ *       recibo de pagamento), com o provedor, o ID da mensagem no provedor e o erro quando falhou.
+ *     tags: [Emails]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *           minimum: 1
+ *         description: Número da página
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Itens por página
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: integer
+ *         description: Filtrar por ID da conta
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: email
+ *         description: Filtrar pelo destinatário
+ *       - in: query
+ *         name: template
+ *         schema:
+ *           type: string
+ *           enum: [verification, password_reset, welcome, invitation, payment_receipt]
+ *         description: Filtrar pelo template
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [SENT, FAILED]
+ *         description: Filtrar pelo status do envio
+ *     responses:
+ *       200:
+ *         description: Lista de e-mails
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', api('index'));
+
+/**
+ * @swagger
+ * /api/emails/{id}:
+ *   get:
+ *     summary: Buscar e-mail enviado por ID
+ *     tags: [Emails]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID do registro de e-mail
+ *     responses:
+ *       200:
+ *         description: Registro do e-mail
+ *       404:
+ *         description: E-mail não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', api('show'));
+
+export default router;
@@ -6,12 +6,13 @@
 import { Router } from 'express';
 import { makeInvoker } from 'awilix-express';
 import { AdminFeaturesController } from '../controllers/admin/featuresController';
-import { requireAdmin } from '../middlewares/role.middleware';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
 
 const router = Router();
 
 // All features routes require admin role
-router.use(requireAdmin);
+router.use(requirePermission(Permission.PLATFORM_MANAGE));
 
 const api = makeInvoker(AdminFeaturesController);
 
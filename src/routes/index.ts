@@ -11,8 +11,18 @@ import settingsRouter from './settings.routes';
 import platformUsersRouter from './platformUsers.routes';
 import onboardingRouter from './onboarding.routes';
 import plansRouter from './plans.routes';
+import rentalsRouter from './rentals.routes';
+import economicIndexesRouter from './economicIndexes.routes';
+import promissoryNotesRouter from './promissoryNotes.routes';
+import pixChargesRouter from './pixCharges.routes';
+import paymentEventsRouter from './paymentEvents.routes';
+import bankStatementsRouter from './bankStatements.routes';
+import boletosRouter from './boletos.routes';
+import templatesRouter from './templates.routes';
+import emailsRouter from './emails.routes';
 import adminRouter from './admin';
 import { authMiddleware } from '../middlewares/auth.middleware';
+import { tenantMiddleware } from '../middlewares/tenant.middleware';
 
 const routes = Router();
 
@@ -24,14 +34,26 @@ routes.use(authMiddleware);
 
 // Protected routes (require authentication)
 routes.use('/onboarding', onboardingRouter); // Now protected - requires token
+
+// Everything below only sees the account of the token (platform admins see every account)
+routes.use(tenantMiddleware);
 routes.use('/accounts', accountsRouter);
 routes.use('/clients', clientsRouter);
 routes.use('/operations', operationsRouter);
 routes.use('/installments', installmentsRouter);
 routes.use('/payments', paymentsRouter);
 routes.use('/resources', resourcesRouter);
+routes.use('/rentals', rentalsRouter);
+routes.use('/economic-indexes', economicIndexesRouter);
+routes.use('/promissory-notes', promissoryNotesRouter);
+routes.use('/pix-charges', pixChargesRouter);
+routes.use('/payment-events', paymentEventsRouter);
+routes.use('/bank-statements', bankStatementsRouter);
+routes.use('/boletos', boletosRouter);
 routes.use('/alerts', alertsRouter);
 routes.use('/notifications', notificationsRouter);
+routes.use('/templates', templatesRouter);
+routes.use('/emails', emailsRouter);
 routes.use('/settings', settingsRouter);
 routes.use('/platform-users', platformUsersRouter);
 routes.use('/admin', adminRouter);
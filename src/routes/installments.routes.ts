@@ -5,8 +5,12 @@
 import { Router } from 'express';
 import { makeInvoker } from 'awilix-express';
 import { InstallmentsController } from '../controllers/installmentsController';
+import { PixChargesController } from '../controllers/pixChargesController';
+import { BoletosController } from '../controllers/boletosController';
 import { validate } from '../middlewares/validation.middleware';
 import { updateInstallmentSchema } from '../dtos/installments.dto';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
 
 const router = Router();
 const api = makeInvoker(InstallmentsController);
@@ -46,7 +50,7 @@ const api = makeInvoker(InstallmentsController);
  *         name: status
  *         schema:
  *           type: string
- *           enum: [PENDING, PAID, OVERDUE, CANCELLED]
+ *           enum: [PENDING, PARTIALLY_PAID, PAID, LATE, CANCELLED]
  *         description: Filtrar por status
  *     responses:
  *       200:
@@ -119,6 +123,26 @@ router.get('/', api('index'));
  *                     status:
  *                       type: string
  *                       example: "PENDING"
+ *                     accrual:
+ *                       type: object
+ *                       nullable: true
+ *                       description: Valor devido hoje (multa + juros de mora), null se paga ou cancelada
+ *                       properties:
+ *                         daysLate:
+ *                           type: integer
+ *                           example: 10
+ *                         openAmount:
+ *                           type: number
+ *                           example: 1000.00
+ *                         fine:
+ *                           type: number
+ *                           example: 20.00
+ *                         interest:
+ *                           type: number
+ *                           example: 3.33
+ *                         amountDue:
+ *                           type: number
+ *                           example: 1023.33
  *       404:
  *         description: Parcela não encontrada
  *         content:
@@ -169,7 +193,7 @@ router.get('/:id', api('show'));
  *                 nullable: true
  *               status:
  *                 type: string
- *                 enum: [PENDING, PAID, OVERDUE, CANCELLED]
+ *                 enum: [PENDING, PARTIALLY_PAID, PAID, LATE, CANCELLED]
  *                 nullable: true
  *     responses:
  *       200:
@@ -190,6 +214,12 @@ router.get('/:id', api('show'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão installments:update
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -197,7 +227,7 @@ router.get('/:id', api('show'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.patch('/:id', validate(updateInstallmentSchema), api('update'));
+router.patch('/:id', requirePermission(Permission.INSTALLMENTS_UPDATE), validate(updateInstallmentSchema), api('update'));
 
 /**
  * @swagger
@@ -207,6 +237,9 @@ router.patch('/:id', validate(updateInstallmentSchema), api('update'));
  *     tags: [Installments]
  *     security:
  *       - bearerAuth: []
+ *     description: |
+ *       Registra o pagamento da parcela. Sem `amount`, paga o valor devido hoje (com multa e juros);
+ *       valores menores são recusados (pagamentos parciais vão por /api/payments).
  *     parameters:
  *       - in: path
  *         name: id
@@ -215,6 +248,19 @@ router.patch('/:id', validate(updateInstallmentSchema), api('update'));
  *           type: string
  *         description: ID da parcela (BigInt como string)
  *         example: "1"
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 example: 1000.00
+ *               method:
+ *                 type: string
+ *                 example: "PIX"
  *     responses:
  *       200:
  *         description: Parcela marcada como paga
@@ -228,12 +274,235 @@ router.patch('/:id', validate(updateInstallmentSchema), api('update'));
  *                   example: true
  *                 data:
  *                   type: object
+ *       400:
+ *         description: Valor menor que o devido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Parcela já paga ou cancelada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Parcela não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão installments:update
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch('/:id/mark-paid', requirePermission(Permission.INSTALLMENTS_UPDATE), api('markPaid'));
+
+const pixApi = makeInvoker(PixChargesController);
+
+/**
+ * @swagger
+ * /api/installments/{id}/pix:
+ *   post:
+ *     summary: Gerar cobrança PIX (BR Code e QR code) para a parcela
+ *     description: |
+ *       Gera o código "copia e cola" (BR Code) com o valor devido hoje (saldo em aberto + multa e juros)
+ *       e a chave PIX da conta (configuração pix_settings). O txid identifica o pagamento na confirmação.
+ *       A cobrança ativa é reaproveitada enquanto o valor e a chave não mudarem.
+ *     tags: [Installments, PIX]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da parcela (BigInt como string)
+ *         example: "1"
+ *     responses:
+ *       201:
+ *         description: Cobrança PIX gerada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 txid:
+ *                   type: string
+ *                   example: "I1287A9C3D1E4F5B6A7C8D9E0F"
+ *                 amount:
+ *                   type: string
+ *                   example: "150.5"
+ *                 payload:
+ *                   type: string
+ *                   description: BR Code ("copia e cola")
+ *                 qrCode:
+ *                   type: string
+ *                   description: QR code em data URL (image/png)
+ *                 status:
+ *                   type: string
+ *                   enum: [ACTIVE, PAID, CANCELLED]
+ *       400:
+ *         description: Parcela não está em aberto ou operação não é em BRL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Parcela não encontrada
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Chave PIX não configurada para a conta (PIX_NOT_CONFIGURED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão billing:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/pix', requirePermission(Permission.BILLING_MANAGE), pixApi('create'));
+
+/**
+ * @swagger
+ * /api/installments/{id}/pix/qrcode.png:
+ *   get:
+ *     summary: QR code PIX da cobrança ativa da parcela
+ *     tags: [Installments, PIX]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da parcela (BigInt como string)
+ *         example: "1"
+ *     responses:
+ *       200:
+ *         description: Imagem PNG
+ *         content:
+ *           image/png:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Parcela sem cobrança PIX ativa
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/pix/qrcode.png', pixApi('qrCode'));
+
+const boletosApi = makeInvoker(BoletosController);
+
+/**
+ * @swagger
+ * /api/installments/{id}/boleto:
+ *   post:
+ *     summary: Emitir boleto para a parcela
+ *     description: |
+ *       Emite o boleto (código de barras e linha digitável) no convênio bancário da conta
+ *       (configuração boleto_settings). Parcelas vencidas recebem boleto com vencimento hoje e
+ *       valor devido (saldo + multa e juros). O boleto ativo é reaproveitado enquanto valor e
+ *       vencimento não mudarem; o registro no banco é feito pela remessa CNAB.
+ *     tags: [Installments, Boletos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da parcela (BigInt como string)
+ *         example: "1"
+ *     responses:
+ *       201:
+ *         description: Boleto emitido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 nossoNumero:
+ *                   type: string
+ *                   example: "00000000001"
+ *                 barcode:
+ *                   type: string
+ *                   example: "23791101600000150001234090000000000112345670"
+ *                 digitableLine:
+ *                   type: string
+ *                   example: "23791.23405 90000.000001 01123.456707 1 10160000015000"
+ *                 status:
+ *                   type: string
+ *                   enum: [ISSUED, SENT, REGISTERED, REJECTED, PAID, CANCELLED]
+ *       400:
+ *         description: Parcela não está em aberto ou operação não é em BRL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Parcela não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Boleto já registrado no banco com outro valor/vencimento (BOLETO_ALREADY_REGISTERED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Convênio bancário não configurado ou banco não suportado (BOLETO_NOT_CONFIGURED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão billing:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -241,6 +510,6 @@ router.patch('/:id', validate(updateInstallmentSchema), api('update'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.patch('/:id/mark-paid', api('markPaid'));
+router.post('/:id/boleto', requirePermission(Permission.BILLING_MANAGE), boletosApi('create'));
 
 export default router;
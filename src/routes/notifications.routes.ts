@@ -5,6 +5,8 @@
 import { Router } from 'express';
 import { makeInvoker } from 'awilix-express';
 import { NotificationsController } from '../controllers/notificationsController';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
 
 const router = Router();
 const api = makeInvoker(NotificationsController);
@@ -132,6 +134,10 @@ router.get('/:id', api('show'));
  * /api/notifications:
  *   post:
  *     summary: Criar nova notificação
+ *     description: |
+ *       A notificação é enviada pelo provedor do canal (IN_APP quando omitido) e sentAt vem da
+ *       resposta do provedor. Em caso de falha, sentAt fica nulo e o envio é retentado pelo
+ *       agendador; o estado da entrega fica em meta.delivery.
  *     tags: [Notifications]
  *     security:
  *       - bearerAuth: []
@@ -157,7 +163,7 @@ router.get('/:id', api('show'));
  *                 example: "A parcela #123 está vencida há 5 dias"
  *               channel:
  *                 type: string
- *                 enum: [EMAIL, SMS, PUSH, IN_APP]
+ *                 enum: [WHATSAPP, PUSH, IN_APP, EMAIL]
  *                 nullable: true
  *               meta:
  *                 type: object
@@ -181,6 +187,12 @@ router.get('/:id', api('show'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão alerts:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -188,7 +200,7 @@ router.get('/:id', api('show'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', api('create'));
+router.post('/', requirePermission(Permission.ALERTS_MANAGE), api('create'));
 
 /**
  * @swagger
@@ -240,6 +252,12 @@ router.post('/', api('create'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão alerts:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -247,7 +265,7 @@ router.post('/', api('create'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', api('update'));
+router.put('/:id', requirePermission(Permission.ALERTS_MANAGE), api('update'));
 
 /**
  * @swagger
@@ -318,6 +336,12 @@ router.patch('/:id/read', api('markAsRead'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão alerts:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -325,7 +349,7 @@ router.patch('/:id/read', api('markAsRead'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', api('delete'));
+router.delete('/:id', requirePermission(Permission.ALERTS_MANAGE), api('delete'));
 
 export default router;
 
@@ -5,11 +5,22 @@
 import { Router } from 'express';
 import { makeInvoker } from 'awilix-express';
 import { OperationsController } from '../controllers/operationsController';
+import { DocumentsController } from '../controllers/documentsController';
 import { validate } from '../middlewares/validation.middleware';
-import { createOperationSchema, updateOperationSchema, registerPaymentSchema } from '../dtos/operations.dto';
+import {
+  createOperationSchema,
+  updateOperationSchema,
+  registerPaymentSchema,
+  simulateOperationSchema,
+  settleOperationSchema,
+  renegotiateOperationSchema,
+} from '../dtos/operations.dto';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
 
 const router = Router();
 const api = makeInvoker(OperationsController);
+const documentsApi = makeInvoker(DocumentsController);
 
 // Auth middleware is applied globally to all /api/* routes in routes/index.ts
 
@@ -152,7 +163,7 @@ router.get('/:id', api('show'));
  *                 example: 1
  *               type:
  *                 type: string
- *                 enum: [LOAN, INVESTMENT, LEASE, SALE]
+ *                 enum: [LOAN, RENTAL, PROMISSORY_NOTE, OTHER]
  *                 example: "LOAN"
  *               title:
  *                 type: string
@@ -182,9 +193,16 @@ router.get('/:id', api('show'));
  *                 enum: [MONTHLY, WEEKLY, DAILY, YEARLY]
  *                 nullable: true
  *                 example: "MONTHLY"
+ *               amortizationSystem:
+ *                 type: string
+ *                 enum: [PRICE, SAC, SIMPLE, BULLET]
+ *                 default: PRICE
+ *                 description: Sistema de amortização usado para gerar as parcelas
+ *                 example: "PRICE"
  *               interestRate:
  *                 type: number
  *                 nullable: true
+ *                 description: Taxa de juros por período (%), conforme a frequência
  *                 example: 2.5
  *               entryAmount:
  *                 type: number
@@ -199,6 +217,22 @@ router.get('/:id', api('show'));
  *               resourceId:
  *                 type: integer
  *                 nullable: true
+ *                 description: Recurso ocupado pela operação; rejeitado se já reservado no período
+ *               promissoryNote:
+ *                 type: object
+ *                 nullable: true
+ *                 description: Somente PROMISSORY_NOTE - uma nota promissória é emitida por parcela
+ *                 properties:
+ *                   guarantorClientId:
+ *                     type: integer
+ *                     description: Avalista (cliente da mesma conta)
+ *                   issuePlace:
+ *                     type: string
+ *                     description: Local de emissão (padrão cidade da conta)
+ *                     example: "São Paulo/SP"
+ *                   paymentPlace:
+ *                     type: string
+ *                     description: Local de pagamento (padrão local de emissão)
  *     responses:
  *       201:
  *         description: Operação criada com sucesso (parcelas geradas automaticamente)
@@ -218,6 +252,152 @@ router.get('/:id', api('show'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Recurso já reservado por outra operação no período (RESOURCE_UNAVAILABLE)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão operations:create
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', requirePermission(Permission.OPERATIONS_CREATE), validate(createOperationSchema), api('create'));
+
+/**
+ * @swagger
+ * /api/operations/simulate:
+ *   post:
+ *     summary: Simular operação (prévia das parcelas, sem persistir)
+ *     tags: [Operations]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Aceita o mesmo payload de criação de operação e retorna o cronograma de parcelas,
+ *       totais e o custo efetivo total (CET). Nada é gravado e nenhum uso de feature é consumido.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accountId
+ *               - clientId
+ *               - type
+ *               - principalAmount
+ *               - startDate
+ *             properties:
+ *               accountId:
+ *                 type: integer
+ *                 example: 1
+ *               clientId:
+ *                 type: integer
+ *                 example: 1
+ *               type:
+ *                 type: string
+ *                 example: "LOAN"
+ *               principalAmount:
+ *                 type: number
+ *                 example: 10000
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 example: "2024-01-01T00:00:00Z"
+ *               frequency:
+ *                 type: string
+ *                 enum: [MONTHLY, WEEKLY, BIWEEKLY]
+ *                 example: "MONTHLY"
+ *               amortizationSystem:
+ *                 type: string
+ *                 enum: [PRICE, SAC, SIMPLE, BULLET]
+ *                 example: "PRICE"
+ *               interestRate:
+ *                 type: number
+ *                 example: 2.5
+ *               entryAmount:
+ *                 type: number
+ *                 nullable: true
+ *               installments:
+ *                 type: integer
+ *                 example: 12
+ *               feeAmount:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Tarifas cobradas na contratação (consideradas no CET)
+ *                 example: 150
+ *     responses:
+ *       200:
+ *         description: Simulação da operação
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 financedAmount:
+ *                   type: number
+ *                 installments:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       number:
+ *                         type: integer
+ *                       dueDate:
+ *                         type: string
+ *                         format: date-time
+ *                       amount:
+ *                         type: number
+ *                       principal:
+ *                         type: number
+ *                       interest:
+ *                         type: number
+ *                       balance:
+ *                         type: number
+ *                 totals:
+ *                   type: object
+ *                   properties:
+ *                     principal:
+ *                       type: number
+ *                     interest:
+ *                       type: number
+ *                     fees:
+ *                       type: number
+ *                     installments:
+ *                       type: number
+ *                     total:
+ *                       type: number
+ *                 effectiveRate:
+ *                   type: object
+ *                   description: CET em percentual
+ *                   properties:
+ *                     periodic:
+ *                       type: number
+ *                     monthly:
+ *                       type: number
+ *                     annual:
+ *                       type: number
+ *                 lastDueDate:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Dados inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -225,7 +405,7 @@ router.get('/:id', api('show'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', validate(createOperationSchema), api('create'));
+router.post('/simulate', validate(simulateOperationSchema), api('simulate'));
 
 /**
  * @swagger
@@ -258,6 +438,8 @@ router.post('/', validate(createOperationSchema), api('create'));
  *                 type: number
  *               status:
  *                 type: string
+ *                 enum: [DRAFT, ACTIVE, OVERDUE, SETTLED, DEFAULTED, CANCELLED, RENEGOTIATED]
+ *                 description: Somente transições válidas do ciclo de vida são aceitas (registradas no histórico)
  *               dueDate:
  *                 type: string
  *                 format: date-time
@@ -274,12 +456,30 @@ router.post('/', validate(createOperationSchema), api('create'));
  *                   example: true
  *                 data:
  *                   type: object
+ *       400:
+ *         description: Transição de status inválida (INVALID_STATUS_TRANSITION)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Operação não encontrada
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Recurso já reservado por outra operação no período (RESOURCE_UNAVAILABLE)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão operations:update
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -287,7 +487,7 @@ router.post('/', validate(createOperationSchema), api('create'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', validate(updateOperationSchema), api('update'));
+router.put('/:id', requirePermission(Permission.OPERATIONS_UPDATE), validate(updateOperationSchema), api('update'));
 
 /**
  * @swagger
@@ -314,6 +514,12 @@ router.put('/:id', validate(updateOperationSchema), api('update'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão operations:delete
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -321,7 +527,7 @@ router.put('/:id', validate(updateOperationSchema), api('update'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', api('delete'));
+router.delete('/:id', requirePermission(Permission.OPERATIONS_DELETE), api('delete'));
 
 /**
  * @swagger
@@ -392,6 +598,83 @@ router.delete('/:id', api('delete'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão payments:create
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/register-payment', requirePermission(Permission.PAYMENTS_CREATE), validate(registerPaymentSchema), api('registerPayment'));
+
+/**
+ * @swagger
+ * /api/operations/{id}/history:
+ *   get:
+ *     summary: Histórico de status da operação
+ *     description: Linha do tempo de todas as transições do ciclo de vida, com responsável e data
+ *     tags: [Operations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da operação (BigInt como string)
+ *         example: "1"
+ *     responses:
+ *       200:
+ *         description: Histórico de transições
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 operationId:
+ *                   type: string
+ *                   example: "1"
+ *                 status:
+ *                   type: string
+ *                   example: "OVERDUE"
+ *                 history:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       fromStatus:
+ *                         type: string
+ *                         nullable: true
+ *                         example: "ACTIVE"
+ *                       toStatus:
+ *                         type: string
+ *                         example: "OVERDUE"
+ *                       actor:
+ *                         type: string
+ *                         example: "system"
+ *                       reason:
+ *                         type: string
+ *                         nullable: true
+ *                         example: "Installment overdue"
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *       404:
+ *         description: Operação não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -399,7 +682,318 @@ router.delete('/:id', api('delete'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/:id/register-payment', validate(registerPaymentSchema), api('registerPayment'));
+router.get('/:id/history', api('history'));
+
+/**
+ * @swagger
+ * /api/operations/{id}/payoff-quote:
+ *   get:
+ *     summary: Simular quitação antecipada de uma operação
+ *     description: |
+ *       Retorna o saldo devedor de principal, o desconto de juros das parcelas antecipadas
+ *       (trazidas a valor presente pela taxa do contrato conforme o sistema de amortização),
+ *       os encargos de atraso acumulados e o total para quitação na data informada.
+ *     tags: [Operations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da operação (BigInt como string)
+ *         example: "1"
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Data da quitação (padrão hoje)
+ *         example: "2024-02-20"
+ *     responses:
+ *       200:
+ *         description: Cotação de quitação
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 outstandingPrincipal:
+ *                   type: number
+ *                   example: 1000.00
+ *                 outstandingInterest:
+ *                   type: number
+ *                   example: 40.27
+ *                 interestDiscount:
+ *                   type: number
+ *                   example: 17.81
+ *                 lateFees:
+ *                   type: number
+ *                   example: 7.52
+ *                 total:
+ *                   type: number
+ *                   example: 1029.98
+ *                 installments:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       400:
+ *         description: Data inválida
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Operação não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/payoff-quote', api('payoffQuote'));
+
+/**
+ * @swagger
+ * /api/operations/{id}/contract.pdf:
+ *   get:
+ *     summary: Contrato da operação em PDF
+ *     description: Partes, condições, encargos por atraso, cronograma de parcelas e cláusulas, conforme os modelos de documento da conta (configuração document_templates)
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da operação (BigInt como string)
+ *         example: "1"
+ *     responses:
+ *       200:
+ *         description: Documento PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Operação não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/contract.pdf', documentsApi('contract'));
+
+/**
+ * @swagger
+ * /api/operations/{id}/settle:
+ *   post:
+ *     summary: Quitar operação antecipadamente
+ *     description: |
+ *       Registra o pagamento do total de quitação, marca as parcelas em aberto como PAID
+ *       (ou CANCELLED quando nada resta a pagar após o desconto) e altera o status da operação para SETTLED.
+ *     tags: [Operations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da operação (BigInt como string)
+ *         example: "1"
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               paidAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: Data da quitação (padrão agora)
+ *               amount:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Valor pago (padrão o total da cotação; não pode ser menor)
+ *                 example: 1029.98
+ *               method:
+ *                 type: string
+ *                 enum: [PIX, BANK_TRANSFER, CASH, CREDIT_CARD, DEBIT_CARD, OTHER]
+ *                 nullable: true
+ *               reference:
+ *                 type: string
+ *                 nullable: true
+ *               meta:
+ *                 type: object
+ *                 nullable: true
+ *     responses:
+ *       201:
+ *         description: Operação quitada (retorna o pagamento com as alocações)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *       400:
+ *         description: Operação já quitada, sem parcelas em aberto ou valor menor que o total
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Operação não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão operations:settle
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/settle', requirePermission(Permission.OPERATIONS_SETTLE), validate(settleOperationSchema), api('settle'));
+
+/**
+ * @swagger
+ * /api/operations/{id}/renegotiate:
+ *   post:
+ *     summary: Renegociar operação
+ *     description: |
+ *       Usa o saldo devedor da operação (parcelas em aberto com encargos de atraso, com desconto
+ *       dos juros antecipados) como principal de uma nova operação vinculada (parentOperationId)
+ *       com nova taxa e prazo. As parcelas em aberto da operação original são canceladas e mantidas
+ *       como histórico; a operação original passa para RENEGOTIATED.
+ *     tags: [Operations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da operação (BigInt como string)
+ *         example: "1"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - interestRate
+ *               - installments
+ *             properties:
+ *               interestRate:
+ *                 type: number
+ *                 description: Nova taxa de juros (% por período)
+ *                 example: 1.5
+ *               installments:
+ *                 type: integer
+ *                 description: Novo número de parcelas
+ *                 example: 6
+ *               frequency:
+ *                 type: string
+ *                 enum: [WEEKLY, BIWEEKLY, MONTHLY]
+ *                 description: Padrão a frequência da operação original
+ *               amortizationSystem:
+ *                 type: string
+ *                 enum: [PRICE, SAC, SIMPLE, BULLET]
+ *                 description: Padrão o sistema da operação original
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Data base do novo cronograma (padrão agora)
+ *               entryAmount:
+ *                 type: number
+ *                 description: Entrada abatida do saldo renegociado
+ *                 example: 200.00
+ *               title:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *                 example: "Cliente inadimplente há 60 dias"
+ *               meta:
+ *                 type: object
+ *     responses:
+ *       201:
+ *         description: Nova operação criada com o cronograma renegociado e o vínculo com a original
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *       400:
+ *         description: Operação quitada/renegociada ou sem parcelas em aberto
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Operação não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Pagamento registrado durante a renegociação; tente novamente (OPERATION_CHANGED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão operations:settle
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/renegotiate', requirePermission(Permission.OPERATIONS_SETTLE), validate(renegotiateOperationSchema), api('renegotiate'));
 
 /**
  * @swagger
@@ -436,6 +1030,12 @@ router.post('/:id/register-payment', validate(registerPaymentSchema), api('regis
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão operations:update
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -443,7 +1043,7 @@ router.post('/:id/register-payment', validate(registerPaymentSchema), api('regis
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/:id/trigger-alert', api('triggerAlert'));
+router.post('/:id/trigger-alert', requirePermission(Permission.OPERATIONS_UPDATE), api('triggerAlert'));
 
 export default router;
 
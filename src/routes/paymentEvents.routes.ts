@@ -0,0 +1,258 @@
+/**
+ * Payment Events Routes
+ * Webhook events received from payment providers and the reconciliation queue. Provider
+ * credentials are platform-wide, so unmatched events belong to no account and the queue is
+ * handled by platform admins.
+ */
+
+import { Router } from 'express';
+import { makeInvoker } from 'awilix-express';
+import { PaymentWebhooksController } from '../controllers/paymentWebhooksController';
+import { validate } from '../middlewares/validation.middleware';
+import { ignorePaymentEventSchema, reconcilePaymentEventSchema } from '../dtos/paymentEvents.dto';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
+
+const router = Router();
+const api = makeInvoker(PaymentWebhooksController);
+
+// Auth middleware is applied globally to all /api/* routes in routes/index.ts
+
+/**
+ * @swagger
+ * /api/payment-events:
+ *   get:
+ *     summary: Listar eventos de pagamento recebidos por webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *           minimum: 1
+ *         description: Número da página
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Itens por página
+ *       - in: query
+ *         name: pending
+ *         schema:
+ *           type: boolean
+ *         description: Somente a fila de conciliação (RECEIVED, UNMATCHED, FAILED)
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [RECEIVED, PROCESSED, UNMATCHED, FAILED, RECONCILED, IGNORED]
+ *         description: Filtrar por status
+ *       - in: query
+ *         name: provider
+ *         schema:
+ *           type: string
+ *         description: Filtrar por provedor
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: integer
+ *         description: Filtrar por ID da conta
+ *     responses:
+ *       200:
+ *         description: Lista de eventos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *       403:
+ *         description: Sem a permissão platform:payments (administradores da plataforma)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', requirePermission(Permission.PLATFORM_PAYMENTS), api('index'));
+
+/**
+ * @swagger
+ * /api/payment-events/{id}:
+ *   get:
+ *     summary: Buscar evento de pagamento
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID do evento (BigInt como string)
+ *     responses:
+ *       200:
+ *         description: Evento com payload, parcela e pagamento
+ *       404:
+ *         description: Evento não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão platform:payments (administradores da plataforma)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', requirePermission(Permission.PLATFORM_PAYMENTS), api('show'));
+
+/**
+ * @swagger
+ * /api/payment-events/{id}/reconcile:
+ *   post:
+ *     summary: Conciliar evento pendente com uma parcela
+ *     description: Registra o pagamento do evento na parcela informada (status RECONCILED)
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID do evento (BigInt como string)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - installmentId
+ *             properties:
+ *               installmentId:
+ *                 type: string
+ *                 example: "42"
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Evento conciliado, com o pagamento criado
+ *       400:
+ *         description: Pagamento não pôde ser registrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Evento ou parcela não encontrados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Evento já resolvido (PAYMENT_EVENT_RESOLVED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão platform:payments (administradores da plataforma)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/reconcile', requirePermission(Permission.PLATFORM_PAYMENTS), validate(reconcilePaymentEventSchema), api('reconcile'));
+
+/**
+ * @swagger
+ * /api/payment-events/{id}/ignore:
+ *   post:
+ *     summary: Descartar evento pendente da fila de conciliação
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID do evento (BigInt como string)
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *                 example: Pagamento de outro sistema
+ *     responses:
+ *       200:
+ *         description: Evento descartado (IGNORED)
+ *       404:
+ *         description: Evento não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Evento já resolvido (PAYMENT_EVENT_RESOLVED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão platform:payments (administradores da plataforma)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/ignore', requirePermission(Permission.PLATFORM_PAYMENTS), validate(ignorePaymentEventSchema), api('ignore'));
+
+export default router;
@@ -5,11 +5,17 @@
 import { Router } from 'express';
 import { makeInvoker } from 'awilix-express';
 import { PaymentsController } from '../controllers/paymentsController';
+import { DocumentsController } from '../controllers/documentsController';
+import { EmailsController } from '../controllers/emailsController';
 import { validate } from '../middlewares/validation.middleware';
-import { createPaymentSchema } from '../dtos/payments.dto';
+import { createPaymentSchema, reversePaymentSchema } from '../dtos/payments.dto';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
 
 const router = Router();
 const api = makeInvoker(PaymentsController);
+const documentsApi = makeInvoker(DocumentsController);
+const emailsApi = makeInvoker(EmailsController);
 
 // Auth middleware is applied globally to all /api/* routes in routes/index.ts
 
@@ -138,6 +144,89 @@ router.get('/', api('index'));
  */
 router.get('/:id', api('show'));
 
+/**
+ * @swagger
+ * /api/payments/{id}/receipt.pdf:
+ *   get:
+ *     summary: Recibo do pagamento em PDF
+ *     description: Valor por extenso e parcelas quitadas; estornos geram o comprovante de estorno
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID do pagamento (BigInt como string)
+ *         example: "1"
+ *     responses:
+ *       200:
+ *         description: Documento PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Pagamento não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/receipt.pdf', documentsApi('receipt'));
+
+/**
+ * @swagger
+ * /api/payments/{id}/receipt/email:
+ *   post:
+ *     summary: Enviar o recibo do pagamento por e-mail
+ *     description: |
+ *       O recibo já é enviado ao cliente quando o pagamento é registrado; use para reenviar.
+ *       O PDF vai em anexo e o envio fica registrado em /api/emails.
+ *     tags: [Emails]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID do pagamento (BigInt como string)
+ *         example: "1"
+ *     responses:
+ *       201:
+ *         description: Registro do e-mail (status SENT ou FAILED)
+ *       404:
+ *         description: Pagamento não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Cliente sem e-mail (CLIENT_WITHOUT_EMAIL)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/receipt/email', emailsApi('sendReceipt'));
+
 /**
  * @swagger
  * /api/payments:
@@ -153,13 +242,9 @@ router.get('/:id', api('show'));
  *           schema:
  *             type: object
  *             required:
- *               - clientId
  *               - operationId
  *               - amount
  *             properties:
- *               clientId:
- *                 type: integer
- *                 example: 1
  *               operationId:
  *                 type: string
  *                 description: ID da operação (BigInt como string)
@@ -219,6 +304,95 @@ router.get('/:id', api('show'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão payments:create
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', requirePermission(Permission.PAYMENTS_CREATE), validate(createPaymentSchema), api('create'));
+
+/**
+ * @swagger
+ * /api/payments/{id}/reverse:
+ *   post:
+ *     summary: Estornar pagamento
+ *     description: |
+ *       Registra um estorno vinculado ao pagamento original (lançamento com valor negativo).
+ *       O pagamento original não é alterado; as parcelas afetadas são reabertas
+ *       (status e paidAt) e o estorno é registrado no log de auditoria.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID do pagamento (BigInt como string)
+ *         example: "1"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "Pagamento em duplicidade"
+ *     responses:
+ *       201:
+ *         description: Estorno registrado com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       example: "2"
+ *                     amount:
+ *                       type: number
+ *                       example: -1000.00
+ *                     reversalOfId:
+ *                       type: string
+ *                       example: "1"
+ *       400:
+ *         description: Pagamento já estornado ou é um estorno
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Pagamento não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão payments:reverse
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -226,7 +400,7 @@ router.get('/:id', api('show'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', validate(createPaymentSchema), api('create'));
+router.post('/:id/reverse', requirePermission(Permission.PAYMENTS_REVERSE), validate(reversePaymentSchema), api('reverse'));
 
 export default router;
 
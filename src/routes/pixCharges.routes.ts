@@ -0,0 +1,189 @@
+/**
+ * PIX Charges Routes
+ */
+
+import { Router } from 'express';
+import { makeInvoker } from 'awilix-express';
+import { PixChargesController } from '../controllers/pixChargesController';
+import { validate } from '../middlewares/validation.middleware';
+import { confirmPixChargeSchema } from '../dtos/pixCharges.dto';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
+
+const router = Router();
+const api = makeInvoker(PixChargesController);
+
+// Auth middleware is applied globally to all /api/* routes in routes/index.ts
+
+/**
+ * @swagger
+ * /api/pix-charges:
+ *   get:
+ *     summary: Listar cobranças PIX
+ *     tags: [PIX]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *           minimum: 1
+ *         description: Número da página
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Itens por página
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: integer
+ *         description: Filtrar por ID da conta
+ *       - in: query
+ *         name: installmentId
+ *         schema:
+ *           type: string
+ *         description: Filtrar por ID da parcela (BigInt como string)
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ACTIVE, PAID, CANCELLED]
+ *         description: Filtrar por status
+ *     responses:
+ *       200:
+ *         description: Lista de cobranças PIX
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', api('index'));
+
+/**
+ * @swagger
+ * /api/pix-charges/{txid}:
+ *   get:
+ *     summary: Buscar cobrança PIX pelo txid
+ *     tags: [PIX]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: txid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Identificador da transação (txid)
+ *     responses:
+ *       200:
+ *         description: Cobrança com parcela e pagamento
+ *       404:
+ *         description: Cobrança não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:txid', api('show'));
+
+/**
+ * @swagger
+ * /api/pix-charges/{txid}/confirm:
+ *   post:
+ *     summary: Confirmar pagamento de cobrança PIX
+ *     description: |
+ *       Registra o pagamento (método PIX, referência = txid) e o aloca na parcela da cobrança.
+ *       Se a parcela já tiver sido quitada por outro meio, o valor segue para as próximas parcelas em aberto.
+ *     tags: [PIX]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: txid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Identificador da transação (txid)
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Valor recebido (padrão = valor da cobrança)
+ *                 example: 150.5
+ *               paidAt:
+ *                 type: string
+ *                 format: date-time
+ *               endToEndId:
+ *                 type: string
+ *                 description: Identificador fim a fim (E2E) da transação PIX
+ *                 example: "E12345678202403101200abcdef123456"
+ *     responses:
+ *       200:
+ *         description: Cobrança paga, com o pagamento criado
+ *       400:
+ *         description: Operação não aceita pagamentos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Cobrança não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Cobrança já paga (PIX_CHARGE_ALREADY_PAID)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão payments:create
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:txid/confirm', requirePermission(Permission.PAYMENTS_CREATE), validate(confirmPixChargeSchema), api('confirm'));
+
+export default router;
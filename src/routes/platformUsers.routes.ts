@@ -5,7 +5,8 @@
 import { Router } from 'express';
 import { makeInvoker } from 'awilix-express';
 import { PlatformUsersController } from '../controllers/platformUsersController';
-import { requireRole } from '../middlewares/role.middleware';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
 
 const router = Router();
 const api = makeInvoker(PlatformUsersController);
@@ -16,7 +17,7 @@ const api = makeInvoker(PlatformUsersController);
  * @swagger
  * /api/platform-users:
  *   get:
- *     summary: Listar usuários da plataforma (apenas owner/admin)
+ *     summary: Listar usuários da plataforma (permissão platform:users)
  *     tags: [Platform Users]
  *     security:
  *       - bearerAuth: []
@@ -71,19 +72,19 @@ const api = makeInvoker(PlatformUsersController);
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       403:
- *         description: Acesso negado (apenas owner/admin)
+ *         description: Sem a permissão platform:users
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/', requireRole('owner', 'admin'), api('index'));
+router.get('/', requirePermission(Permission.PLATFORM_USERS), api('index'));
 
 /**
  * @swagger
  * /api/platform-users/{id}:
  *   get:
- *     summary: Obter usuário por ID (apenas owner/admin)
+ *     summary: Obter usuário por ID (permissão platform:users)
  *     tags: [Platform Users]
  *     security:
  *       - bearerAuth: []
@@ -135,19 +136,19 @@ router.get('/', requireRole('owner', 'admin'), api('index'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       403:
- *         description: Acesso negado (apenas owner/admin)
+ *         description: Sem a permissão platform:users
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id', requireRole('owner', 'admin'), api('show'));
+router.get('/:id', requirePermission(Permission.PLATFORM_USERS), api('show'));
 
 /**
  * @swagger
  * /api/platform-users:
  *   post:
- *     summary: Criar novo usuário da plataforma (apenas owner/admin)
+ *     summary: Criar novo usuário da plataforma (permissão platform:users)
  *     tags: [Platform Users]
  *     security:
  *       - bearerAuth: []
@@ -208,19 +209,19 @@ router.get('/:id', requireRole('owner', 'admin'), api('show'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       403:
- *         description: Acesso negado (apenas owner/admin)
+ *         description: Sem a permissão platform:users
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', requireRole('owner', 'admin'), api('create'));
+router.post('/', requirePermission(Permission.PLATFORM_USERS), api('create'));
 
 /**
  * @swagger
  * /api/platform-users/{id}:
  *   put:
- *     summary: Atualizar usuário da plataforma (apenas owner/admin)
+ *     summary: Atualizar usuário da plataforma (permissão platform:users)
  *     tags: [Platform Users]
  *     security:
  *       - bearerAuth: []
@@ -279,19 +280,19 @@ router.post('/', requireRole('owner', 'admin'), api('create'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       403:
- *         description: Acesso negado (apenas owner/admin)
+ *         description: Sem a permissão platform:users
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', requireRole('owner', 'admin'), api('update'));
+router.put('/:id', requirePermission(Permission.PLATFORM_USERS), api('update'));
 
 /**
  * @swagger
  * /api/platform-users/{id}:
  *   delete:
- *     summary: Deletar usuário da plataforma (soft delete, apenas owner/admin)
+ *     summary: Deletar usuário da plataforma (soft delete, permissão platform:users)
  *     tags: [Platform Users]
  *     security:
  *       - bearerAuth: []
@@ -319,13 +320,13 @@ router.put('/:id', requireRole('owner', 'admin'), api('update'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       403:
- *         description: Acesso negado (apenas owner/admin)
+ *         description: Sem a permissão platform:users
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', requireRole('owner', 'admin'), api('delete'));
+router.delete('/:id', requirePermission(Permission.PLATFORM_USERS), api('delete'));
 
 export default router;
 
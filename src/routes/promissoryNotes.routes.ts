@@ -0,0 +1,370 @@
+/**
+ * Promissory Notes Routes
+ */
+
+import { Router } from 'express';
+import { makeInvoker } from 'awilix-express';
+import { PromissoryNotesController } from '../controllers/promissoryNotesController';
+import { validate } from '../middlewares/validation.middleware';
+import { endorsePromissoryNoteSchema, protestPromissoryNoteSchema } from '../dtos/promissoryNotes.dto';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
+
+const router = Router();
+const api = makeInvoker(PromissoryNotesController);
+
+// Auth middleware is applied globally to all /api/* routes in routes/index.ts
+
+/**
+ * @swagger
+ * /api/promissory-notes:
+ *   get:
+ *     summary: Listar notas promissórias
+ *     tags: [PromissoryNotes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *           minimum: 1
+ *         description: Número da página
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *           minimum: 1
+ *         description: Itens por página
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: integer
+ *         description: Filtrar por ID da conta
+ *       - in: query
+ *         name: operationId
+ *         schema:
+ *           type: string
+ *         description: Filtrar por ID da operação (BigInt como string)
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ISSUED, PAID, PROTESTED, CANCELLED]
+ *         description: Filtrar por status
+ *     responses:
+ *       200:
+ *         description: Lista de notas promissórias
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', api('index'));
+
+/**
+ * @swagger
+ * /api/promissory-notes/operations/{operationId}/pdf:
+ *   get:
+ *     summary: PDF com todas as notas promissórias de uma operação
+ *     description: Três notas por página A4, prontas para impressão e assinatura
+ *     tags: [PromissoryNotes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: operationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da operação (BigInt como string)
+ *         example: "1"
+ *     responses:
+ *       200:
+ *         description: Documento PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Operação sem notas promissórias
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/operations/:operationId/pdf', api('operationPdf'));
+
+/**
+ * @swagger
+ * /api/promissory-notes/{id}:
+ *   get:
+ *     summary: Obter nota promissória por ID
+ *     description: Inclui emitente, beneficiário e avalista (dados da emissão), endossos, parcela e operação
+ *     tags: [PromissoryNotes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da nota (BigInt como string)
+ *         example: "1"
+ *     responses:
+ *       200:
+ *         description: Dados da nota promissória
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 number:
+ *                   type: integer
+ *                   description: Numeração sequencial da conta
+ *                 sequence:
+ *                   type: integer
+ *                 totalNotes:
+ *                   type: integer
+ *                 status:
+ *                   type: string
+ *                   enum: [ISSUED, PAID, PROTESTED, CANCELLED]
+ *                 endorsements:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       404:
+ *         description: Nota não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', api('show'));
+
+/**
+ * @swagger
+ * /api/promissory-notes/{id}/pdf:
+ *   get:
+ *     summary: PDF da nota promissória
+ *     tags: [PromissoryNotes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da nota (BigInt como string)
+ *         example: "1"
+ *     responses:
+ *       200:
+ *         description: Documento PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Nota não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/pdf', api('notePdf'));
+
+/**
+ * @swagger
+ * /api/promissory-notes/{id}/protest:
+ *   post:
+ *     summary: Registrar protesto da nota promissória
+ *     description: Somente notas emitidas (ISSUED) e vencidas podem ser protestadas. Registrado no log de auditoria.
+ *     tags: [PromissoryNotes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da nota (BigInt como string)
+ *         example: "1"
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               protestedAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Data do protesto (padrão agora)
+ *               notes:
+ *                 type: string
+ *                 example: "Protocolo 12345 - 1º Tabelionato de Protesto"
+ *     responses:
+ *       200:
+ *         description: Nota protestada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 status:
+ *                   type: string
+ *                   example: PROTESTED
+ *       400:
+ *         description: Nota não vencida ou em status que não permite protesto
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Nota não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão promissory_notes:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/protest', requirePermission(Permission.PROMISSORY_NOTES_MANAGE), validate(protestPromissoryNoteSchema), api('protest'));
+
+/**
+ * @swagger
+ * /api/promissory-notes/{id}/endorsements:
+ *   post:
+ *     summary: Registrar endosso da nota promissória
+ *     description: Transfere a nota a um novo portador. Permitido para notas emitidas ou protestadas. Registrado no log de auditoria.
+ *     tags: [PromissoryNotes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da nota (BigInt como string)
+ *         example: "1"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - endorseeName
+ *             properties:
+ *               endorseeName:
+ *                 type: string
+ *                 example: "Fomento Capital Ltda"
+ *               endorseeDocument:
+ *                 type: string
+ *                 example: "12.345.678/0001-90"
+ *               endorsedAt:
+ *                 type: string
+ *                 format: date-time
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Endosso registrado; retorna a nota com todos os endossos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 endorsements:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       400:
+ *         description: Nota paga ou cancelada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Nota não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão promissory_notes:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/endorsements', requirePermission(Permission.PROMISSORY_NOTES_MANAGE), validate(endorsePromissoryNoteSchema), api('endorse'));
+
+export default router;
@@ -0,0 +1,162 @@
+/**
+ * Rentals Routes
+ */
+
+import { Router } from 'express';
+import { makeInvoker } from 'awilix-express';
+import { RentalsController } from '../controllers/rentalsController';
+import { validate } from '../middlewares/validation.middleware';
+import { endRentalSchema } from '../dtos/rentals.dto';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
+
+const router = Router();
+const api = makeInvoker(RentalsController);
+
+// Auth middleware is applied globally to all /api/* routes in routes/index.ts
+
+/**
+ * @swagger
+ * /api/rentals/{operationId}:
+ *   get:
+ *     summary: Obter contrato de locação de uma operação
+ *     description: Retorna o contrato (aluguel vigente, índice de reajuste, caução), os reajustes aplicados e as cobranças geradas
+ *     tags: [Rentals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: operationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da operação de locação (BigInt como string)
+ *         example: "1"
+ *     responses:
+ *       200:
+ *         description: Contrato de locação
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 rentAmount:
+ *                   type: number
+ *                   example: 1500.00
+ *                 adjustmentIndex:
+ *                   type: string
+ *                   enum: [IGPM, IPCA, NONE]
+ *                 nextAdjustmentAt:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *                 depositStatus:
+ *                   type: string
+ *                   enum: [NONE, HELD, RETURNED, PARTIALLY_RETAINED, RETAINED]
+ *                 adjustments:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       404:
+ *         description: Contrato não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:operationId', api('show'));
+
+/**
+ * @swagger
+ * /api/rentals/{operationId}/end:
+ *   post:
+ *     summary: Encerrar contrato de locação
+ *     description: |
+ *       Encerra o contrato na data informada, cancela as cobranças com vencimento posterior ainda não pagas,
+ *       registra a devolução/retenção da caução e libera o recurso para novas locações.
+ *     tags: [Rentals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: operationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID da operação de locação (BigInt como string)
+ *         example: "1"
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Data de término (padrão agora)
+ *               depositReturnedAmount:
+ *                 type: number
+ *                 description: Valor da caução devolvido (padrão o restante não retido)
+ *                 example: 2500.00
+ *               depositRetainedAmount:
+ *                 type: number
+ *                 description: Valor da caução retido
+ *                 example: 500.00
+ *               depositNotes:
+ *                 type: string
+ *                 example: "Retenção para pintura do imóvel"
+ *     responses:
+ *       200:
+ *         description: Contrato encerrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 depositStatus:
+ *                   type: string
+ *                   example: "PARTIALLY_RETAINED"
+ *                 cancelledCharges:
+ *                   type: integer
+ *                   example: 2
+ *       400:
+ *         description: Contrato já encerrado ou valores da caução inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Contrato não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão resources:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:operationId/end', requirePermission(Permission.RESOURCES_MANAGE), validate(endRentalSchema), api('end'));
+
+export default router;
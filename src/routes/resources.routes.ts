@@ -5,6 +5,8 @@
 import { Router } from 'express';
 import { makeInvoker } from 'awilix-express';
 import { ResourcesController } from '../controllers/resourcesController';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
 
 const router = Router();
 const api = makeInvoker(ResourcesController);
@@ -72,6 +74,100 @@ const api = makeInvoker(ResourcesController);
  */
 router.get('/', api('index'));
 
+/**
+ * @swagger
+ * /api/resources/occupancy:
+ *   get:
+ *     summary: Relatório de ocupação e vacância por conta e tipo de recurso
+ *     description: |
+ *       Soma os dias ocupados de cada recurso no período (operações DRAFT, ACTIVE, OVERDUE ou DEFAULTED).
+ *       Locações ocupam o recurso pelo período do contrato; demais operações, da data de início ao vencimento.
+ *     tags: [Resources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: integer
+ *         description: Filtrar por ID da conta
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [PROPERTY, VEHICLE, ROOM, OTHER]
+ *         description: Filtrar por tipo de recurso
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Início do período (padrão hoje)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Fim do período, exclusivo (padrão 30 dias após o início)
+ *     responses:
+ *       200:
+ *         description: Taxas de ocupação e vacância por conta e tipo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 from:
+ *                   type: string
+ *                   format: date-time
+ *                 to:
+ *                   type: string
+ *                   format: date-time
+ *                 groups:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       accountId:
+ *                         type: integer
+ *                       type:
+ *                         type: string
+ *                       totalResources:
+ *                         type: integer
+ *                       occupiedResources:
+ *                         type: integer
+ *                       totalDays:
+ *                         type: integer
+ *                       occupiedDays:
+ *                         type: integer
+ *                       occupancyRate:
+ *                         type: number
+ *                         example: 75.5
+ *                       vacancyRate:
+ *                         type: number
+ *                         example: 24.5
+ *                       resources:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *       400:
+ *         description: Período inválido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/occupancy', api('occupancy'));
+
 /**
  * @swagger
  * /api/resources/{id}:
@@ -116,6 +212,95 @@ router.get('/', api('index'));
  */
 router.get('/:id', api('show'));
 
+/**
+ * @swagger
+ * /api/resources/{id}/availability:
+ *   get:
+ *     summary: Disponibilidade do recurso em um período
+ *     description: |
+ *       Calculada a partir das operações que ocupam o recurso (DRAFT, ACTIVE, OVERDUE ou DEFAULTED).
+ *       Retorna as reservas, os períodos ocupados e livres e a taxa de ocupação.
+ *     tags: [Resources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID do recurso
+ *         example: "1"
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Início do período (padrão hoje)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Fim do período, exclusivo (padrão 30 dias após o início)
+ *     responses:
+ *       200:
+ *         description: Disponibilidade do recurso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 available:
+ *                   type: boolean
+ *                   description: Verdadeiro quando nenhuma operação ocupa o recurso no período
+ *                 occupied:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       start:
+ *                         type: string
+ *                         format: date-time
+ *                       end:
+ *                         type: string
+ *                         format: date-time
+ *                 free:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 occupancyRate:
+ *                   type: number
+ *                 vacancyRate:
+ *                   type: number
+ *                 bookings:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       400:
+ *         description: Período inválido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Recurso não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/availability', api('availability'));
+
 /**
  * @swagger
  * /api/resources:
@@ -170,6 +355,12 @@ router.get('/:id', api('show'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão resources:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -177,7 +368,7 @@ router.get('/:id', api('show'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', api('create'));
+router.post('/', requirePermission(Permission.RESOURCES_MANAGE), api('create'));
 
 /**
  * @swagger
@@ -227,6 +418,12 @@ router.post('/', api('create'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão resources:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -234,7 +431,7 @@ router.post('/', api('create'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', api('update'));
+router.put('/:id', requirePermission(Permission.RESOURCES_MANAGE), api('update'));
 
 /**
  * @swagger
@@ -261,6 +458,12 @@ router.put('/:id', api('update'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão resources:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -268,7 +471,7 @@ router.put('/:id', api('update'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', api('delete'));
+router.delete('/:id', requirePermission(Permission.RESOURCES_MANAGE), api('delete'));
 
 export default router;
 
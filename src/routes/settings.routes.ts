@@ -5,6 +5,8 @@
 import { Router } from 'express';
 import { makeInvoker } from 'awilix-express';
 import { SettingsController } from '../controllers/settingsController';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
 
 const router = Router();
 const api = makeInvoker(SettingsController);
@@ -173,6 +175,12 @@ router.get('/:key', api('show'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão settings:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -180,7 +188,7 @@ router.get('/:key', api('show'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', api('create'));
+router.post('/', requirePermission(Permission.SETTINGS_MANAGE), api('create'));
 
 /**
  * @swagger
@@ -235,6 +243,12 @@ router.post('/', api('create'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão settings:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -242,7 +256,7 @@ router.post('/', api('create'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:key', api('update'));
+router.put('/:key', requirePermission(Permission.SETTINGS_MANAGE), api('update'));
 
 /**
  * @swagger
@@ -293,6 +307,12 @@ router.put('/:key', api('update'));
  *                   example: true
  *                 data:
  *                   type: object
+ *       403:
+ *         description: Sem a permissão settings:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -300,7 +320,7 @@ router.put('/:key', api('update'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.patch('/:key', api('upsert'));
+router.patch('/:key', requirePermission(Permission.SETTINGS_MANAGE), api('upsert'));
 
 /**
  * @swagger
@@ -332,6 +352,12 @@ router.patch('/:key', api('upsert'));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão settings:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Não autenticado
  *         content:
@@ -339,7 +365,7 @@ router.patch('/:key', api('upsert'));
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:key', api('delete'));
+router.delete('/:key', requirePermission(Permission.SETTINGS_MANAGE), api('delete'));
 
 export default router;
 
@@ -0,0 +1,393 @@
+/**
+ * Templates Routes
+ * Account message templates (alerts and reminders), variable catalog and preview
+ */
+
+import { Router } from 'express';
+import { makeInvoker } from 'awilix-express';
+import { TemplatesController } from '../controllers/templatesController';
+import { validate } from '../middlewares/validation.middleware';
+import { createTemplateSchema, previewTemplateSchema, updateTemplateSchema } from '../dtos/templates.dto';
+import { requirePermission } from '../middlewares/permission.middleware';
+import { Permission } from '../constants/enums';
+
+const router = Router();
+const api = makeInvoker(TemplatesController);
+
+// Auth middleware is applied globally to all /api/* routes in routes/index.ts
+
+/**
+ * @swagger
+ * /api/templates:
+ *   get:
+ *     summary: Listar templates de mensagem
+ *     tags: [Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *           minimum: 1
+ *         description: Número da página
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Itens por página
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: integer
+ *         description: Filtrar por ID da conta
+ *       - in: query
+ *         name: key
+ *         schema:
+ *           type: string
+ *         description: Filtrar pela chave do template
+ *       - in: query
+ *         name: locale
+ *         schema:
+ *           type: string
+ *           enum: [pt-BR, en, es]
+ *         description: Filtrar pelo idioma
+ *     responses:
+ *       200:
+ *         description: Lista de templates
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', api('index'));
+
+/**
+ * @swagger
+ * /api/templates/variables:
+ *   get:
+ *     summary: Listar as variáveis disponíveis nos templates
+ *     description: |
+ *       Variáveis usadas como `{{nome}}` no assunto e no corpo, por exemplo `{{client.firstName}}`,
+ *       `{{installment.amountDue}}`, `{{pix.code}}` e `{{payoff.link}}`.
+ *     tags: [Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Variáveis com descrição
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/variables', api('variables'));
+
+/**
+ * @swagger
+ * /api/templates:
+ *   post:
+ *     summary: Criar template de mensagem
+ *     description: |
+ *       A chave é referenciada por Alert.template; os lembretes de cobrança usam as chaves
+ *       payment_reminder, payment_due e payment_overdue. Um template por chave, idioma e canal
+ *       (sem canal vale para todos). Variáveis desconhecidas são rejeitadas.
+ *     tags: [Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accountId
+ *               - key
+ *               - body
+ *             properties:
+ *               accountId:
+ *                 type: integer
+ *                 example: 1
+ *               key:
+ *                 type: string
+ *                 example: "payment_overdue"
+ *               locale:
+ *                 type: string
+ *                 enum: [pt-BR, en, es]
+ *                 default: pt-BR
+ *               channel:
+ *                 type: string
+ *                 enum: [WHATSAPP, PUSH, IN_APP, EMAIL]
+ *                 nullable: true
+ *               subject:
+ *                 type: string
+ *                 nullable: true
+ *                 example: "Parcela em atraso"
+ *               body:
+ *                 type: string
+ *                 example: "Olá {{client.firstName}}, pague {{installment.amountDue}} com o PIX: {{pix.code}}"
+ *     responses:
+ *       201:
+ *         description: Template criado com sucesso
+ *       404:
+ *         description: Conta não encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Já existe template para a chave, idioma e canal (TEMPLATE_EXISTS)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Variáveis desconhecidas (UNKNOWN_TEMPLATE_VARIABLES)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão templates:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', requirePermission(Permission.TEMPLATES_MANAGE), validate(createTemplateSchema), api('create'));
+
+/**
+ * @swagger
+ * /api/templates/{id}:
+ *   get:
+ *     summary: Buscar template por ID
+ *     tags: [Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID do template
+ *     responses:
+ *       200:
+ *         description: Template encontrado
+ *       404:
+ *         description: Template não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', api('show'));
+
+/**
+ * @swagger
+ * /api/templates/{id}:
+ *   put:
+ *     summary: Atualizar template
+ *     tags: [Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID do template
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               locale:
+ *                 type: string
+ *                 enum: [pt-BR, en, es]
+ *               channel:
+ *                 type: string
+ *                 enum: [WHATSAPP, PUSH, IN_APP, EMAIL]
+ *                 nullable: true
+ *               subject:
+ *                 type: string
+ *                 nullable: true
+ *               body:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Template atualizado com sucesso
+ *       404:
+ *         description: Template não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Já existe template para a chave, idioma e canal (TEMPLATE_EXISTS)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Variáveis desconhecidas (UNKNOWN_TEMPLATE_VARIABLES)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão templates:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/:id', requirePermission(Permission.TEMPLATES_MANAGE), validate(updateTemplateSchema), api('update'));
+
+/**
+ * @swagger
+ * /api/templates/{id}:
+ *   delete:
+ *     summary: Deletar template (soft delete)
+ *     description: Os alertas da chave voltam a usar o template padrão.
+ *     tags: [Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID do template
+ *     responses:
+ *       204:
+ *         description: Template deletado com sucesso
+ *       404:
+ *         description: Template não encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sem a permissão templates:manage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:id', requirePermission(Permission.TEMPLATES_MANAGE), api('delete'));
+
+/**
+ * @swagger
+ * /api/templates/{id}/preview:
+ *   post:
+ *     summary: Pré-visualizar template com os dados de uma operação
+ *     description: |
+ *       Renderiza o assunto e o corpo com os dados reais da operação (da mesma conta do template),
+ *       formatando valores na moeda da conta e datas no idioma. Sem installmentId, usa a próxima
+ *       parcela em aberto. Nenhuma cobrança PIX é emitida: `{{pix.code}}` usa a cobrança ativa.
+ *       `missing` lista as variáveis que ficaram vazias.
+ *     tags: [Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID do template
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - operationId
+ *             properties:
+ *               operationId:
+ *                 type: string
+ *                 example: "12"
+ *               installmentId:
+ *                 type: string
+ *                 example: "41"
+ *               locale:
+ *                 type: string
+ *                 enum: [pt-BR, en, es]
+ *     responses:
+ *       200:
+ *         description: Mensagem renderizada (locale, subject, body, missing)
+ *       400:
+ *         description: Operação de outra conta
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Template ou operação não encontrados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Não autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/preview', validate(previewTemplateSchema), api('preview'));
+
+export default router;
@@ -0,0 +1,204 @@
+/**
+ * Webhook Routes
+ * Public callbacks from payment providers and WhatsApp; each one verifies its own signature
+ */
+
+import { Router } from 'express';
+import { makeInvoker } from 'awilix-express';
+import { PaymentWebhooksController } from '../controllers/paymentWebhooksController';
+import { WhatsappWebhooksController } from '../controllers/whatsappWebhooksController';
+
+const router = Router();
+const api = makeInvoker(PaymentWebhooksController);
+const whatsapp = makeInvoker(WhatsappWebhooksController);
+
+/**
+ * @swagger
+ * /webhooks/payments/{provider}:
+ *   post:
+ *     summary: Receber notificação de pagamento de um provedor
+ *     description: |
+ *       Endpoint público chamado pelos provedores (PSPs PIX, emissores de boleto, adquirentes).
+ *       O adaptador do provedor valida a assinatura e converte o payload em eventos de pagamento.
+ *       Eventos repetidos (mesmo id do provedor) são ignorados. Pagamentos cuja referência
+ *       (txid PIX ou INST<id da parcela>) corresponde a uma parcela geram o Payment automaticamente;
+ *       os demais ficam na fila de conciliação (/api/payment-events).
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [generic, pix, stripe]
+ *         description: Provedor de pagamento
+ *       - in: header
+ *         name: X-Signature
+ *         schema:
+ *           type: string
+ *         description: "generic: sha256=<HMAC-SHA256 do corpo>"
+ *       - in: header
+ *         name: X-Webhook-Token
+ *         schema:
+ *           type: string
+ *         description: "pix: segredo compartilhado (ou query ?hmac=)"
+ *       - in: header
+ *         name: Stripe-Signature
+ *         schema:
+ *           type: string
+ *         description: "stripe: t=<timestamp>,v1=<assinatura>"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Eventos recebidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 received:
+ *                   type: integer
+ *                   example: 1
+ *                 processed:
+ *                   type: integer
+ *                   example: 1
+ *                 unmatched:
+ *                   type: integer
+ *                   example: 0
+ *                 failed:
+ *                   type: integer
+ *                   example: 0
+ *                 ignored:
+ *                   type: integer
+ *                   example: 0
+ *                 duplicates:
+ *                   type: integer
+ *                   example: 0
+ *       400:
+ *         description: Payload inválido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Assinatura inválida (INVALID_SIGNATURE)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Provedor desconhecido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/payments/:provider', api('receive'));
+
+/**
+ * @swagger
+ * /webhooks/whatsapp:
+ *   get:
+ *     summary: Verificação da assinatura do webhook do WhatsApp
+ *     description: |
+ *       Chamado pela Meta ao configurar o webhook no app. Responde hub.challenge em texto quando
+ *       hub.verify_token corresponde a WHATSAPP_VERIFY_TOKEN.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: query
+ *         name: hub.mode
+ *         schema:
+ *           type: string
+ *           example: subscribe
+ *       - in: query
+ *         name: hub.verify_token
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: hub.challenge
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: hub.challenge
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       403:
+ *         description: Token inválido (INVALID_VERIFY_TOKEN)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/whatsapp', whatsapp('subscribe'));
+
+/**
+ * @swagger
+ * /webhooks/whatsapp:
+ *   post:
+ *     summary: Receber status de mensagens do WhatsApp
+ *     description: |
+ *       Callbacks da WhatsApp Cloud API assinados com X-Hub-Signature-256 (HMAC-SHA256 do corpo com
+ *       WHATSAPP_APP_SECRET). Os status sent, delivered, read e failed são gravados em meta.delivery
+ *       do alerta ou notificação que enviou a mensagem (pelo wamid); notificações lidas no WhatsApp
+ *       ficam com read=true. Outras mudanças (mensagens recebidas, templates) são ignoradas.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: header
+ *         name: X-Hub-Signature-256
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: "sha256=<HMAC-SHA256 do corpo>"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Status recebidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 received:
+ *                   type: integer
+ *                   example: 2
+ *                 updated:
+ *                   type: integer
+ *                   example: 2
+ *                 unknown:
+ *                   type: integer
+ *                   example: 0
+ *       400:
+ *         description: Payload inválido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Assinatura inválida (INVALID_SIGNATURE)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/whatsapp', whatsapp('receive'));
+
+export default router;
@@ -5,6 +5,10 @@ import { fetchEvents } from '../crons/fetchEvents';
 import { fetchStandings } from '../crons/fetchStandings';
 import { fetchStats } from '../crons/fetchStats';
 import { classifyMatches } from '../crons/classifyMatches';
+import { markOverdueInstallments } from '../crons/markOverdueInstallments';
+import { generateRentCharges } from '../crons/generateRentCharges';
+import { dispatchAlerts } from '../crons/dispatchAlerts';
+import { syncDunningAlerts } from '../crons/syncDunningAlerts';
 import { log } from '../utils/logger';
 
 // ⏰ Fixtures (jogos do dia) — 3x por dia
@@ -77,3 +81,48 @@ cron.schedule('0 6,8,17,20 * * *', async () => {
   }
   console.log('✅ destaque partidas atualizados');
 });
+
+// ⏰ Parcelas em atraso — diariamente à 00:05
+cron.schedule('5 0 * * *', async () => {
+  console.log('⏳ Marcando parcelas em atraso...');
+  try {
+    await markOverdueInstallments();
+  } catch (err) {
+    console.error('❌ Erro ao marcar parcelas em atraso:', err);
+  }
+});
+
+// ⏰ Cobranças de aluguel — diariamente à 00:15
+cron.schedule('15 0 * * *', async () => {
+  console.log('⏳ Gerando cobranças de aluguel...');
+  try {
+    await generateRentCharges();
+  } catch (err) {
+    console.error('❌ Erro ao gerar cobranças de aluguel:', err);
+  }
+});
+
+// ⏰ Régua de cobrança — diariamente à 00:30
+cron.schedule('30 0 * * *', async () => {
+  console.log('⏳ Sincronizando alertas da régua de cobrança...');
+  try {
+    await syncDunningAlerts();
+  } catch (err) {
+    console.error('❌ Erro ao sincronizar a régua de cobrança:', err);
+  }
+});
+
+// ⏰ Alertas e notificações — a cada minuto
+let dispatchingAlerts = false;
+cron.schedule('* * * * *', async () => {
+  // Skip the tick while the previous run is still sending
+  if (dispatchingAlerts) return;
+  dispatchingAlerts = true;
+  try {
+    await dispatchAlerts();
+  } catch (err) {
+    console.error('❌ Erro ao enviar alertas:', err);
+  } finally {
+    dispatchingAlerts = false;
+  }
+});
@@ -16,9 +16,11 @@ import routes from './routes';
 import { NodeEnvs } from './common/misc';
 import { errorMiddleware } from './middlewares/error.middleware';
 import authRouter from './routes/auth.routes';
+import webhooksRouter from './routes/webhooks.routes';
 import swaggerUi from 'swagger-ui-express';
 import { swaggerSpec } from './config/swagger';
 import EnvVars from './common/EnvVars';
+import { IRawReq } from './common/types';
 
 // **** Variables **** //
 
@@ -53,7 +55,17 @@ app.use(
     exposedHeaders: ['Authorization'],
   })
 );
-app.use(express.json());
+// Bank statement and boleto retorno files are uploaded as JSON (text or base64 content):
+// only those imports get a larger body, parsed here before the default parser below
+app.post(['/api/bank-statements', '/api/boletos/retorno'], express.json({ limit: '10mb' }));
+app.use(express.json({
+  // Webhook signatures are computed over the raw body
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith('/webhooks/')) {
+      (req as IRawReq).rawBody = buf;
+    }
+  },
+}));
 app.use(express.urlencoded({ extended: true }));
 // app.use(cookieParser(EnvVars.CookieProps.Secret));
 
@@ -79,6 +91,9 @@ loadContainer(app);
 // Public routes (no authentication required)
 app.use('/auth', authRouter);
 
+// Provider callbacks, authenticated by signature instead of JWT
+app.use('/webhooks', webhooksRouter);
+
 // Protected routes (all /api/* require authentication)
 app.use('/api', routes);
 
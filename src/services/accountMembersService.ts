@@ -0,0 +1,409 @@
+/**
+ * Account Members Service
+ * Platform users that belong to an account with a per-account role, email invitations and
+ * the plan's user limit (Plan.maxUsers)
+ */
+
+import { AccountInvitation, PrismaClient } from '@prisma/client';
+import bcrypt from 'bcrypt';
+import { WeakPasswordError } from '../common/classes';
+import { AccountInvitationStatus, AuditAction, Permission, UserRole } from '../constants/enums';
+import { AcceptInvitationDto, CreateInvitationDto, UpdateMemberDto } from '../dtos/accountMembers.dto';
+import type { AuthenticatedUser } from '../middlewares/auth.middleware';
+import {
+  createInvitationToken,
+  hashInvitationToken,
+  INVITATION_TTL_DAYS,
+  invitationStatus,
+  seatsLeft,
+} from '../utils/accountMembers';
+import { canManageRole, hasPermission, RoleGrant } from '../utils/permissions';
+import { getActorFromUser, recordAuditLog } from '../utils/audit';
+import AccountRolesService from './accountRolesService';
+import EmailService from './emailService';
+
+const MEMBER_USER_SELECT = { id: true, name: true, email: true, phone: true, isActive: true, lastLoginAt: true };
+
+// Same rule as registration
+const PASSWORD_REGEX = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/;
+
+// Invitation as returned by the API: no token hash, expired ones reported as EXPIRED
+function toInvitationView(invitation: AccountInvitation, now = new Date()) {
+  const { tokenHash, ...view } = invitation;
+  return { ...view, status: invitationStatus(invitation, now) };
+}
+
+export class AccountMembersService {
+  private prisma: PrismaClient;
+  private emailService: EmailService;
+  private accountRolesService: AccountRolesService;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+    this.emailService = new EmailService({ prisma });
+    this.accountRolesService = new AccountRolesService({ prisma });
+  }
+
+  async findMembership(userId: number, accountId: number) {
+    return this.prisma.accountMember.findFirst({
+      where: { userId, accountId, deletedAt: null, account: { deletedAt: null } },
+    });
+  }
+
+  /**
+   * Accounts of a user, the most recently used first
+   */
+  async findMemberships(userId: number) {
+    return this.prisma.accountMember.findMany({
+      where: { userId, deletedAt: null, account: { deletedAt: null } },
+      include: { account: { select: { id: true, name: true, status: true } } },
+      orderBy: [{ lastAccessedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+    });
+  }
+
+  /**
+   * Account put in the token at login and refresh: the one used most recently
+   */
+  async findDefaultMembership(userId: number) {
+    return this.prisma.accountMember.findFirst({
+      where: { userId, deletedAt: null, account: { deletedAt: null } },
+      orderBy: [{ lastAccessedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+    });
+  }
+
+  async touch(membershipId: number) {
+    return this.prisma.accountMember.update({
+      where: { id: membershipId },
+      data: { lastAccessedAt: new Date() },
+    });
+  }
+
+  async findMembers(accountId: number, actor: AuthenticatedUser) {
+    if (!(await this.accountRolesService.getAccess(actor, accountId))) {
+      throw new Error('Access denied to this account');
+    }
+
+    return this.prisma.accountMember.findMany({
+      where: { accountId, deletedAt: null },
+      include: { user: { select: MEMBER_USER_SELECT } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async updateMemberRole(accountId: number, userId: number, dto: UpdateMemberDto, actor: AuthenticatedUser) {
+    const access = await this.requireManager(actor, accountId);
+    const member = await this.findMembership(userId, accountId);
+    if (!member) {
+      throw new Error('Member not found');
+    }
+    const role = await this.findAssignableRole(accountId, dto.role);
+    const allowed =
+      (await this.canManage(access, accountId, member.role)) &&
+      canManageRole(access, { role: role.key, permissions: role.permissions });
+    if (!allowed) {
+      throw new Error(`Access denied. A ${access.role} cannot change a ${member.role} to ${dto.role}`);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updated = await tx.accountMember.update({
+        where: { id: member.id },
+        data: { role: dto.role, updatedBy: getActorFromUser(actor) },
+        include: { user: { select: MEMBER_USER_SELECT } },
+      });
+      await recordAuditLog(tx, {
+        actor: getActorFromUser(actor),
+        action: AuditAction.MEMBER_ROLE_CHANGED,
+        entity: 'AccountMember',
+        entityId: member.id,
+        before: { accountId, userId, role: member.role },
+        after: { accountId, userId, role: dto.role },
+      });
+      return updated;
+    });
+  }
+
+  /**
+   * Remove a member; any member can leave an account, except its owner
+   */
+  async removeMember(accountId: number, userId: number, actor: AuthenticatedUser) {
+    const member = await this.findMembership(userId, accountId);
+    if (!member) {
+      throw new Error('Member not found');
+    }
+    if (member.role === UserRole.OWNER) {
+      throw new Error('The account owner cannot be removed');
+    }
+    if (actor.id !== userId) {
+      const access = await this.requireManager(actor, accountId);
+      if (!(await this.canManage(access, accountId, member.role))) {
+        throw new Error(`Access denied. A ${access.role} cannot remove a ${member.role}`);
+      }
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.accountMember.update({
+        where: { id: member.id },
+        data: { deletedAt: new Date(), updatedBy: getActorFromUser(actor) },
+      });
+      await recordAuditLog(tx, {
+        actor: getActorFromUser(actor),
+        action: AuditAction.MEMBER_REMOVED,
+        entity: 'AccountMember',
+        entityId: member.id,
+        before: { accountId, userId, role: member.role },
+      });
+    });
+  }
+
+  async findInvitations(accountId: number, actor: AuthenticatedUser, status?: string) {
+    await this.requireManager(actor, accountId);
+    const now = new Date();
+
+    const invitations = await this.prisma.accountInvitation.findMany({
+      where: { accountId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return invitations
+      .map((invitation) => toInvitationView(invitation, now))
+      .filter((invitation) => !status || invitation.status === status);
+  }
+
+  /**
+   * Invite an email to the account. A new invitation for the same email replaces the pending one.
+   */
+  async invite(accountId: number, dto: CreateInvitationDto, actor: AuthenticatedUser) {
+    const access = await this.requireManager(actor, accountId);
+    const role = await this.findAssignableRole(accountId, dto.role);
+    if (!canManageRole(access, { role: role.key, permissions: role.permissions })) {
+      throw new Error(`Access denied. A ${access.role} cannot invite a ${dto.role}`);
+    }
+
+    const account = await this.prisma.account.findFirst({
+      where: { id: accountId, deletedAt: null },
+      include: { plan: true },
+    });
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    const email = dto.email.trim().toLowerCase();
+    const member = await this.prisma.accountMember.findFirst({
+      where: { accountId, deletedAt: null, user: { email: { equals: email, mode: 'insensitive' } } },
+    });
+    if (member) {
+      throw new Error('User is already a member of this account');
+    }
+
+    const now = new Date();
+    const pending = { accountId, status: AccountInvitationStatus.PENDING, expiresAt: { gt: now } };
+    const [members, otherInvitations] = await Promise.all([
+      this.prisma.accountMember.count({ where: { accountId, deletedAt: null } }),
+      this.prisma.accountInvitation.count({ where: { ...pending, email: { not: email } } }),
+    ]);
+    if (seatsLeft(account.plan?.maxUsers, members, otherInvitations) === 0) {
+      throw new Error(`User limit reached: the plan allows ${account.plan?.maxUsers} users`);
+    }
+
+    const inviter = await this.prisma.platformUser.findUnique({ where: { id: actor.id }, select: { name: true } });
+    const { token, tokenHash } = createInvitationToken();
+    const invitation = await this.prisma.$transaction(async (tx) => {
+      await tx.accountInvitation.updateMany({
+        where: { accountId, email, status: AccountInvitationStatus.PENDING },
+        data: { status: AccountInvitationStatus.REVOKED, updatedBy: getActorFromUser(actor) },
+      });
+      return tx.accountInvitation.create({
+        data: {
+          accountId,
+          email,
+          role: dto.role,
+          tokenHash,
+          expiresAt: new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+          invitedById: actor.id,
+          createdBy: getActorFromUser(actor),
+        },
+      });
+    });
+
+    const log = await this.emailService.sendInvitation(
+      { ...invitation, roleName: role.name },
+      token,
+      { name: inviter?.name || actor.email },
+      account
+    );
+    return { ...toInvitationView(invitation, now), emailStatus: log.status };
+  }
+
+  async revokeInvitation(accountId: number, invitationId: number, actor: AuthenticatedUser) {
+    await this.requireManager(actor, accountId);
+    const invitation = await this.prisma.accountInvitation.findFirst({ where: { id: invitationId, accountId } });
+    if (!invitation) {
+      throw new Error('Invitation not found');
+    }
+    if (invitationStatus(invitation) !== AccountInvitationStatus.PENDING) {
+      throw new Error('Invitation is no longer pending');
+    }
+
+    const revoked = await this.prisma.accountInvitation.update({
+      where: { id: invitationId },
+      data: { status: AccountInvitationStatus.REVOKED, updatedBy: getActorFromUser(actor) },
+    });
+    return toInvitationView(revoked);
+  }
+
+  /**
+   * What the acceptance page shows before the user signs in or creates a password
+   */
+  async findInvitationByToken(token: string) {
+    const invitation = await this.prisma.accountInvitation.findUnique({
+      where: { tokenHash: hashInvitationToken(token) },
+      include: {
+        account: { select: { id: true, name: true, deletedAt: true } },
+        invitedBy: { select: { name: true } },
+      },
+    });
+    if (!invitation || invitation.account.deletedAt) {
+      throw new Error('Invitation not found');
+    }
+
+    const user = await this.prisma.platformUser.findFirst({
+      where: { email: { equals: invitation.email, mode: 'insensitive' }, deletedAt: null },
+      select: { id: true },
+    });
+    return {
+      email: invitation.email,
+      role: invitation.role,
+      status: invitationStatus(invitation),
+      expiresAt: invitation.expiresAt,
+      account: { id: invitation.account.id, name: invitation.account.name },
+      invitedBy: invitation.invitedBy?.name ?? null,
+      userExists: !!user,
+    };
+  }
+
+  /**
+   * Accept an invitation: existing users confirm their password, new users are created with
+   * the given name and password (the token proves the email). The account becomes the active one.
+   */
+  async acceptInvitation(dto: AcceptInvitationDto) {
+    const invitation = await this.prisma.accountInvitation.findUnique({
+      where: { tokenHash: hashInvitationToken(dto.token) },
+      include: { account: { include: { plan: true } } },
+    });
+    if (!invitation || invitation.account.deletedAt) {
+      throw new Error('Invalid or expired invitation');
+    }
+
+    const status = invitationStatus(invitation);
+    if (status === AccountInvitationStatus.EXPIRED && invitation.status === AccountInvitationStatus.PENDING) {
+      await this.prisma.accountInvitation.update({
+        where: { id: invitation.id },
+        data: { status: AccountInvitationStatus.EXPIRED },
+      });
+    }
+    if (status !== AccountInvitationStatus.PENDING) {
+      throw new Error('Invalid or expired invitation');
+    }
+
+    let user = await this.prisma.platformUser.findFirst({
+      where: { email: { equals: invitation.email, mode: 'insensitive' } },
+    });
+    if (user) {
+      if (user.deletedAt || !user.isActive) {
+        throw new Error('User not found or inactive');
+      }
+      if (!user.passwordHash || !(await bcrypt.compare(dto.password, user.passwordHash))) {
+        throw new Error('Invalid email or password');
+      }
+    } else {
+      if (!dto.name) {
+        throw new Error('Name is required to create the user');
+      }
+      if (dto.password.length < 8 || !PASSWORD_REGEX.test(dto.password)) {
+        throw new WeakPasswordError();
+      }
+    }
+
+    const passwordHash = user ? null : await bcrypt.hash(dto.password, 10);
+    return this.prisma.$transaction(async (tx) => {
+      // Seats are counted with the account locked, so concurrent accepts cannot exceed the plan
+      await tx.$queryRaw`SELECT "id" FROM "accounts" WHERE "id" = ${invitation.accountId} FOR UPDATE`;
+
+      const existing = user
+        ? await tx.accountMember.findUnique({
+            where: { accountId_userId: { accountId: invitation.accountId, userId: user.id } },
+          })
+        : null;
+      if (!existing || existing.deletedAt) {
+        const members = await tx.accountMember.count({
+          where: { accountId: invitation.accountId, deletedAt: null },
+        });
+        if (seatsLeft(invitation.account.plan?.maxUsers, members) === 0) {
+          throw new Error(`User limit reached: the plan allows ${invitation.account.plan?.maxUsers} users`);
+        }
+      }
+
+      if (!user) {
+        user = await tx.platformUser.create({
+          data: {
+            name: dto.name!,
+            email: invitation.email,
+            passwordHash,
+            role: UserRole.AGENT, // platform role; the account role is in the membership
+            isActive: true,
+            emailVerifiedAt: new Date(), // the token came by email
+          },
+        });
+      }
+      const actor = `${user.id}-${user.email}`;
+      const now = new Date();
+
+      // Claimed while still pending: an invitation accepted twice at once is only used once
+      const { count } = await tx.accountInvitation.updateMany({
+        where: { id: invitation.id, status: AccountInvitationStatus.PENDING },
+        data: { status: AccountInvitationStatus.ACCEPTED, acceptedAt: now, acceptedById: user.id, updatedBy: actor },
+      });
+      if (count !== 1) {
+        throw new Error('Invalid or expired invitation');
+      }
+
+      const membership = await tx.accountMember.upsert({
+        where: { accountId_userId: { accountId: invitation.accountId, userId: user.id } },
+        create: {
+          accountId: invitation.accountId,
+          userId: user.id,
+          role: invitation.role,
+          lastAccessedAt: now,
+          createdBy: actor,
+        },
+        update: { role: invitation.role, deletedAt: null, lastAccessedAt: now, updatedBy: actor },
+      });
+
+      return { user, membership };
+    });
+  }
+
+  private async requireManager(actor: AuthenticatedUser, accountId: number): Promise<RoleGrant> {
+    const access = await this.accountRolesService.getAccess(actor, accountId);
+    if (!access) {
+      throw new Error('Access denied to this account');
+    }
+    if (!hasPermission(access.permissions, Permission.MEMBERS_MANAGE)) {
+      throw new Error(`Access denied. Missing permission: ${Permission.MEMBERS_MANAGE}`);
+    }
+    return access;
+  }
+
+  private async canManage(access: RoleGrant, accountId: number, role: string): Promise<boolean> {
+    return canManageRole(access, { role, permissions: await this.accountRolesService.getPermissions(accountId, role) });
+  }
+
+  private async findAssignableRole(accountId: number, key: string) {
+    const role = await this.accountRolesService.findByKey(accountId, key);
+    if (!role) {
+      throw new Error(`Unknown role: ${key}`);
+    }
+    return role;
+  }
+}
+
+export default AccountMembersService;
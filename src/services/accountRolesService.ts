@@ -0,0 +1,239 @@
+/**
+ * Account Roles Service
+ * Permission sets of the roles of an account (system roles plus the account's own) and the
+ * access a user has in an account
+ */
+
+import { AccountRole, PrismaClient } from '@prisma/client';
+import { AccountInvitationStatus, AuditAction, UserRole } from '../constants/enums';
+import { CreateRoleDto, UpdateRoleDto } from '../dtos/accountMembers.dto';
+import type { AuthenticatedUser } from '../middlewares/auth.middleware';
+import {
+  ACCOUNT_PERMISSIONS,
+  canEditRole,
+  invalidPermissions,
+  isSystemRole,
+  RoleGrant,
+  rolePermissions,
+  SYSTEM_ROLES,
+} from '../utils/permissions';
+import { getActorFromUser, recordAuditLog } from '../utils/audit';
+
+export interface AccountRoleView {
+  key: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  isSystem: boolean;
+  editable: boolean; // the owner role can't be edited
+}
+
+function toRoleView(key: string, stored?: AccountRole | null): AccountRoleView {
+  return {
+    key,
+    name: stored?.name ?? SYSTEM_ROLES[key]?.name ?? key,
+    description: stored?.description ?? null,
+    permissions: rolePermissions(key, stored?.permissions),
+    isSystem: isSystemRole(key),
+    editable: key !== UserRole.OWNER,
+  };
+}
+
+export class AccountRolesService {
+  private prisma: PrismaClient;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Permissions of a role in an account (empty for a role the account doesn't have)
+   */
+  async getPermissions(accountId: number, key: string): Promise<string[]> {
+    if (key === UserRole.OWNER) return rolePermissions(key);
+    const stored = await this.prisma.accountRole.findUnique({ where: { accountId_key: { accountId, key } } });
+    if (!stored && !isSystemRole(key)) return [];
+    return rolePermissions(key, stored?.permissions);
+  }
+
+  /**
+   * Role and permissions of a user in an account (platform admins act as the owner); null when
+   * the user is not a member
+   */
+  async getAccess(user: Pick<AuthenticatedUser, 'id' | 'isAdmin'>, accountId: number): Promise<RoleGrant | null> {
+    if (user.isAdmin) {
+      return { role: UserRole.OWNER, permissions: rolePermissions(UserRole.OWNER) };
+    }
+    const membership = await this.prisma.accountMember.findFirst({
+      where: { userId: user.id, accountId, deletedAt: null, account: { deletedAt: null } },
+      select: { role: true },
+    });
+    if (!membership) return null;
+    return { role: membership.role, permissions: await this.getPermissions(accountId, membership.role) };
+  }
+
+  async findByKey(accountId: number, key: string): Promise<AccountRoleView | null> {
+    const stored = await this.prisma.accountRole.findUnique({ where: { accountId_key: { accountId, key } } });
+    if (!stored && !isSystemRole(key)) return null;
+    return toRoleView(key, stored);
+  }
+
+  /**
+   * System roles first, then the account's own, with how many members have each
+   */
+  async findAll(accountId: number, actor: AuthenticatedUser) {
+    if (!(await this.getAccess(actor, accountId))) {
+      throw new Error('Access denied to this account');
+    }
+
+    const [stored, members] = await Promise.all([
+      this.prisma.accountRole.findMany({ where: { accountId }, orderBy: { name: 'asc' } }),
+      this.prisma.accountMember.groupBy({
+        by: ['role'],
+        where: { accountId, deletedAt: null },
+        _count: { _all: true },
+      }),
+    ]);
+    const memberCount = (key: string) => members.find((group) => group.role === key)?._count._all ?? 0;
+
+    const system = Object.keys(SYSTEM_ROLES).map((key) => toRoleView(key, stored.find((role) => role.key === key)));
+    const custom = stored.filter((role) => !isSystemRole(role.key)).map((role) => toRoleView(role.key, role));
+    return [...system, ...custom].map((role) => ({ ...role, members: memberCount(role.key) }));
+  }
+
+  async create(accountId: number, dto: CreateRoleDto, actor: AuthenticatedUser) {
+    const access = await this.requireAccess(actor, accountId);
+    if (isSystemRole(dto.key)) {
+      throw new Error(`Role already exists: ${dto.key}`);
+    }
+    const permissions = this.validPermissions(dto.permissions);
+    if (!canEditRole(access, { role: dto.key, permissions })) {
+      throw new Error('Access denied. A role can only grant part of your own permissions');
+    }
+
+    const existing = await this.prisma.accountRole.findUnique({ where: { accountId_key: { accountId, key: dto.key } } });
+    if (existing) {
+      throw new Error(`Role already exists: ${dto.key}`);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const role = await tx.accountRole.create({
+        data: {
+          accountId,
+          key: dto.key,
+          name: dto.name,
+          description: dto.description,
+          permissions,
+          createdBy: getActorFromUser(actor),
+        },
+      });
+      await recordAuditLog(tx, {
+        actor: getActorFromUser(actor),
+        action: AuditAction.ROLE_CREATED,
+        entity: 'AccountRole',
+        entityId: role.id,
+        after: { accountId, key: role.key, permissions },
+      });
+      return toRoleView(role.key, role);
+    });
+  }
+
+  /**
+   * Edit a role. System roles get their row the first time they are edited.
+   */
+  async update(accountId: number, key: string, dto: UpdateRoleDto, actor: AuthenticatedUser) {
+    const access = await this.requireAccess(actor, accountId);
+    const current = await this.findByKey(accountId, key);
+    if (!current) {
+      throw new Error('Role not found');
+    }
+    if (!current.editable) {
+      throw new Error('The owner role cannot be changed');
+    }
+
+    const permissions = dto.permissions ? this.validPermissions(dto.permissions) : current.permissions;
+    const allowed =
+      canEditRole(access, { role: key, permissions: current.permissions }) && canEditRole(access, { role: key, permissions });
+    if (!allowed) {
+      throw new Error('Access denied. A role can only grant part of your own permissions');
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const data = {
+        name: dto.name ?? current.name,
+        description: dto.description === undefined ? current.description : dto.description,
+        permissions,
+      };
+      const role = await tx.accountRole.upsert({
+        where: { accountId_key: { accountId, key } },
+        create: { accountId, key, isSystem: current.isSystem, ...data, createdBy: getActorFromUser(actor) },
+        update: { ...data, updatedBy: getActorFromUser(actor) },
+      });
+      await recordAuditLog(tx, {
+        actor: getActorFromUser(actor),
+        action: AuditAction.ROLE_UPDATED,
+        entity: 'AccountRole',
+        entityId: role.id,
+        before: { accountId, key, permissions: current.permissions },
+        after: { accountId, key, permissions },
+      });
+      return toRoleView(key, role);
+    });
+  }
+
+  /**
+   * Delete a custom role nobody has (members or pending invitations)
+   */
+  async delete(accountId: number, key: string, actor: AuthenticatedUser) {
+    const access = await this.requireAccess(actor, accountId);
+    if (isSystemRole(key)) {
+      throw new Error('System roles cannot be deleted');
+    }
+    const role = await this.prisma.accountRole.findUnique({ where: { accountId_key: { accountId, key } } });
+    if (!role) {
+      throw new Error('Role not found');
+    }
+    if (!canEditRole(access, { role: key, permissions: rolePermissions(key, role.permissions) })) {
+      throw new Error('Access denied. A role can only grant part of your own permissions');
+    }
+
+    const [members, invitations] = await Promise.all([
+      this.prisma.accountMember.count({ where: { accountId, role: key, deletedAt: null } }),
+      this.prisma.accountInvitation.count({
+        where: { accountId, role: key, status: AccountInvitationStatus.PENDING, expiresAt: { gt: new Date() } },
+      }),
+    ]);
+    if (members + invitations > 0) {
+      throw new Error(`Role is in use by ${members} members and ${invitations} pending invitations`);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.accountRole.delete({ where: { id: role.id } });
+      await recordAuditLog(tx, {
+        actor: getActorFromUser(actor),
+        action: AuditAction.ROLE_DELETED,
+        entity: 'AccountRole',
+        entityId: role.id,
+        before: { accountId, key, permissions: role.permissions },
+      });
+    });
+  }
+
+  private async requireAccess(actor: AuthenticatedUser, accountId: number): Promise<RoleGrant> {
+    const access = await this.getAccess(actor, accountId);
+    if (!access) {
+      throw new Error('Access denied to this account');
+    }
+    return access;
+  }
+
+  private validPermissions(permissions: string[]): string[] {
+    const invalid = invalidPermissions(permissions);
+    if (invalid.length > 0) {
+      throw new Error(`Unknown permissions: ${invalid.join(', ')}`);
+    }
+    return ACCOUNT_PERMISSIONS.filter((permission) => permissions.includes(permission));
+  }
+}
+
+export default AccountRolesService;
@@ -149,6 +149,7 @@ export class AccountsService {
         planId: (dto as any).planId || undefined, // Use planId instead of plan string
         meta: dto.meta as unknown as InputJsonValue,
         ownerId,
+        members: { create: { userId: ownerId, role: UserRole.OWNER, createdBy } },
         ...(createdBy !== undefined && { createdBy }),
       } as any,
       include: {
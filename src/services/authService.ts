@@ -6,7 +6,14 @@ import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import { LoginDto, ResetPasswordDto } from '../dtos/auth.dto';
-import { UserRole } from '../constants/enums';
+import { AcceptInvitationDto } from '../dtos/accountMembers.dto';
+import { SessionRevokeReason, UserRole } from '../constants/enums';
+import { ALL_PERMISSIONS, RoleGrant } from '../utils/permissions';
+import { SessionClient } from '../utils/authSessions';
+import AccountMembersService from './accountMembersService';
+import AccountRolesService from './accountRolesService';
+import AuthSessionsService from './authSessionsService';
+import EmailService from './emailService';
 
 const JWT_SECRET: string = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 const JWT_EXPIRES_IN: string = process.env.JWT_EXPIRES_IN || '7d';
@@ -17,6 +24,7 @@ export interface TokenPayload {
   email: string;
   role: string;
   accountId?: number | null;
+  sessionId?: number; // sign-in session (AuthSession) the token belongs to
 }
 
 export interface AuthTokens {
@@ -27,9 +35,17 @@ export interface AuthTokens {
 
 export class AuthService {
   private prisma: PrismaClient;
+  private emailService: EmailService;
+  private accountMembersService: AccountMembersService;
+  private accountRolesService: AccountRolesService;
+  private authSessionsService: AuthSessionsService;
 
   constructor({ prisma }: { prisma: PrismaClient }) {
     this.prisma = prisma;
+    this.emailService = new EmailService({ prisma });
+    this.accountMembersService = new AccountMembersService({ prisma });
+    this.accountRolesService = new AccountRolesService({ prisma });
+    this.authSessionsService = new AuthSessionsService({ prisma });
   }
 
   // Type assertion helper for Prisma models
@@ -40,7 +56,7 @@ export class AuthService {
   /**
    * Authenticate user with email and password
    */
-  async login(dto: LoginDto): Promise<{ user: unknown; tokens: AuthTokens }> {
+  async login(dto: LoginDto, sessionClient: SessionClient = {}): Promise<{ user: unknown; tokens: AuthTokens }> {
     let user;
     
     if (dto.email) {
@@ -93,14 +109,12 @@ export class AuthService {
       data: { lastLoginAt: new Date() },
     });
 
-    // Generate tokens
-    const accountId = user.accounts.length > 0 ? user.accounts[0].id : null;
-    const tokens = this.generateTokens({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-      accountId: accountId,
-    });
+    // Generate tokens for the account used most recently
+    const membership = await this.accountMembersService.findDefaultMembership(user.id);
+    if (membership) {
+      await this.accountMembersService.touch(membership.id);
+    }
+    const tokens = await this.generateTokens(this.tokenPayload(user, membership), sessionClient);
 
     // Remove sensitive data
     const { passwordHash, passwordResetToken, passwordResetExpires, ...userWithoutSensitive } = user;
@@ -239,7 +253,12 @@ export class AuthService {
   /**
    * Register new user with email and password
    */
-  async register(email: string, password: string, name?: string): Promise<{ user: unknown; tokens: AuthTokens }> {
+  async register(
+    email: string,
+    password: string,
+    name?: string,
+    sessionClient: SessionClient = {}
+  ): Promise<{ user: unknown; tokens: AuthTokens }> {
     // Check if user already exists
     const existingUser = await this.platformUser.findUnique({
       where: { email },
@@ -285,7 +304,16 @@ export class AuthService {
         accountId = client.accountId;
         await (this.prisma as any).account.update({
           where: { id: accountId },
-          data: { ownerId: user.id },
+          data: {
+            ownerId: user.id,
+            members: {
+              upsert: {
+                where: { accountId_userId: { accountId, userId: user.id } },
+                create: { userId: user.id, role: UserRole.OWNER, lastAccessedAt: new Date() },
+                update: { role: UserRole.OWNER, deletedAt: null, lastAccessedAt: new Date() },
+              },
+            },
+          },
         });
       } else {
         // Create Account for the client
@@ -297,6 +325,7 @@ export class AuthService {
             document: (client as any).document,
             ownerId: user.id,
             status: 'ACTIVE',
+            members: { create: { userId: user.id, role: UserRole.OWNER, lastAccessedAt: new Date() } },
           },
         });
 
@@ -320,18 +349,18 @@ export class AuthService {
           },
         });
       }
-    } else {
-      // No client exists, check if user already has an account
-      accountId = user.accounts.length > 0 ? user.accounts[0].id : null;
     }
 
     // Generate tokens
-    const tokens = this.generateTokens({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-      accountId: accountId,
-    });
+    const tokens = await this.generateTokens(
+      {
+        userId: user.id,
+        email: user.email,
+        role: accountId ? UserRole.OWNER : user.role,
+        accountId: accountId,
+      },
+      sessionClient
+    );
 
     // Remove sensitive data
     const { passwordHash: _, passwordResetToken, passwordResetExpires, ...userWithoutSensitive } = user;
@@ -343,17 +372,26 @@ export class AuthService {
   }
 
   /**
-   * Generate JWT tokens
+   * Open a sign-in session and generate its tokens
    */
-  generateTokens(payload: TokenPayload): AuthTokens {
+  async generateTokens(payload: TokenPayload, sessionClient: SessionClient = {}): Promise<AuthTokens> {
+    const { session, refreshToken } = await this.authSessionsService.create(
+      payload.userId,
+      payload.accountId ?? null,
+      sessionClient,
+      this.refreshExpiry()
+    );
+    return this.signTokens({ ...payload, sessionId: session.id }, refreshToken);
+  }
+
+  /**
+   * Access token (JWT) for a session, returned with the session's refresh token
+   */
+  private signTokens(payload: TokenPayload, refreshToken: string): AuthTokens {
     const accessToken = jwt.sign(payload, JWT_SECRET, {
       expiresIn: JWT_EXPIRES_IN,
     } as jwt.SignOptions);
 
-    const refreshToken = jwt.sign({ userId: payload.userId }, JWT_SECRET, {
-      expiresIn: JWT_REFRESH_EXPIRES_IN,
-    } as jwt.SignOptions);
-
     // Calculate expires in seconds
     const expiresIn = this.parseExpiresIn(JWT_EXPIRES_IN);
 
@@ -364,6 +402,13 @@ export class AuthService {
     };
   }
 
+  /**
+   * Sessions expire after JWT_REFRESH_EXPIRES_IN without a refresh
+   */
+  private refreshExpiry(): Date {
+    return new Date(Date.now() + this.parseExpiresIn(JWT_REFRESH_EXPIRES_IN) * 1000);
+  }
+
   /**
    * Parse expires in string to seconds
    */
@@ -400,36 +445,170 @@ export class AuthService {
   }
 
   /**
-   * Refresh access token
+   * Refresh access token. The refresh token is rotated: the one sent stops working and using
+   * it again revokes the session.
    */
-  async refreshToken(refreshToken: string): Promise<AuthTokens> {
-    try {
-      const decoded = jwt.verify(refreshToken, JWT_SECRET as string) as { userId: number };
+  async refreshToken(refreshToken: string, sessionClient: SessionClient = {}): Promise<AuthTokens> {
+    const issued = await this.authSessionsService.rotate(refreshToken, sessionClient, this.refreshExpiry());
+    const { session } = issued;
 
-      const user = await this.platformUser.findUnique({
-        where: { id: decoded.userId },
-        include: {
-          accounts: {
-            take: 1,
-            orderBy: { createdAt: 'desc' },
-          },
-        },
-      });
+    const user = await this.platformUser.findUnique({
+      where: { id: session.userId },
+    });
+
+    if (!user || user.deletedAt || !user.isActive) {
+      throw new Error('User not found or inactive');
+    }
+
+    if (this.isAdmin(user.role)) {
+      const payload = { userId: user.id, email: user.email, role: user.role, accountId: session.accountId };
+      return this.signTokens({ ...payload, sessionId: session.id }, issued.refreshToken);
+    }
+
+    // Stay in the account of the session while the user belongs to it
+    const membership =
+      (session.accountId && (await this.accountMembersService.findMembership(user.id, session.accountId))) ||
+      (await this.accountMembersService.findDefaultMembership(user.id));
+    if ((membership?.accountId ?? null) !== session.accountId) {
+      await this.authSessionsService.setAccount(session.id, membership?.accountId ?? null);
+    }
+    return this.signTokens({ ...this.tokenPayload(user, membership), sessionId: session.id }, issued.refreshToken);
+  }
+
+  /**
+   * Active sessions of a user, flagging the one making the request
+   */
+  async getSessions(userId: number, currentSessionId?: number) {
+    const sessions = await this.authSessionsService.findAll(userId);
+    return sessions.map((session) => ({ ...session, current: session.id === currentSessionId }));
+  }
+
+  async revokeSession(userId: number, sessionId: number): Promise<void> {
+    if (!Number.isInteger(sessionId)) {
+      throw new Error('Session not found');
+    }
+    await this.authSessionsService.revoke(userId, sessionId, SessionRevokeReason.REVOKED);
+  }
+
+  /**
+   * Session of an access token while it is active (for middleware)
+   */
+  async findActiveSession(sessionId: number) {
+    return this.authSessionsService.findActive(sessionId);
+  }
+
+  /**
+   * End the session of the token
+   */
+  async logout(userId: number, sessionId?: number): Promise<void> {
+    if (sessionId) {
+      await this.authSessionsService.revoke(userId, sessionId, SessionRevokeReason.LOGOUT);
+    }
+  }
 
-      if (!user || user.deletedAt || !user.isActive) {
-        throw new Error('User not found or inactive');
+  /**
+   * End every session of the user ("log out everywhere")
+   */
+  async logoutAll(userId: number): Promise<number> {
+    return this.authSessionsService.revokeAll(userId, SessionRevokeReason.LOGOUT_ALL);
+  }
+
+  /**
+   * Payload for a user in an account: the role is the one in the account, except for
+   * platform admins, who keep 'admin' everywhere
+   */
+  private tokenPayload(
+    user: { id: number; email: string; role: string },
+    membership: { accountId: number; role: string } | null
+  ): TokenPayload {
+    return {
+      userId: user.id,
+      email: user.email,
+      role: this.isAdmin(user.role) || !membership ? user.role : membership.role,
+      accountId: membership?.accountId ?? null,
+    };
+  }
+
+  /**
+   * Accounts the user belongs to, with the role in each
+   */
+  async getAccounts(userId: number) {
+    const memberships = await this.accountMembersService.findMemberships(userId);
+    return memberships.map((membership) => ({
+      accountId: membership.accountId,
+      name: membership.account.name,
+      status: membership.account.status,
+      role: membership.role,
+      lastAccessedAt: membership.lastAccessedAt,
+    }));
+  }
+
+  /**
+   * Make another account the active one of the session and issue tokens for it. Platform admins
+   * can open any account.
+   */
+  async switchAccount(userId: number, accountId: number, sessionId?: number): Promise<AuthTokens> {
+    const user = await this.platformUser.findUnique({ where: { id: userId } });
+    if (!user || user.deletedAt || !user.isActive) {
+      throw new Error('User not found or inactive');
+    }
+
+    const membership = await this.accountMembersService.findMembership(user.id, accountId);
+    if (membership) {
+      await this.accountMembersService.touch(membership.id);
+      return this.switchSession(this.tokenPayload(user, membership), sessionId);
+    }
+
+    if (this.isAdmin(user.role)) {
+      const account = await this.prisma.account.findFirst({ where: { id: accountId, deletedAt: null }, select: { id: true } });
+      if (account) {
+        return this.switchSession({ userId: user.id, email: user.email, role: user.role, accountId }, sessionId);
       }
+    }
+    throw new Error('Account not found');
+  }
 
-      const accountId = user.accounts.length > 0 ? user.accounts[0].id : null;
-      return this.generateTokens({
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-        accountId: accountId,
-      });
-    } catch (error) {
-      throw new Error('Invalid refresh token');
+  private async switchSession(payload: TokenPayload, sessionId?: number): Promise<AuthTokens> {
+    if (!sessionId) {
+      return this.generateTokens(payload);
     }
+    const { refreshToken } = await this.authSessionsService.switchAccount(sessionId, payload.accountId!);
+    return this.signTokens({ ...payload, sessionId }, refreshToken);
+  }
+
+  /**
+   * Invitation shown on the acceptance page
+   */
+  async getInvitation(token: string) {
+    return this.accountMembersService.findInvitationByToken(token);
+  }
+
+  /**
+   * Accept an account invitation and sign in to that account
+   */
+  async acceptInvitation(
+    dto: AcceptInvitationDto,
+    sessionClient: SessionClient = {}
+  ): Promise<{ user: unknown; tokens: AuthTokens }> {
+    const { user, membership } = await this.accountMembersService.acceptInvitation(dto);
+    const tokens = await this.generateTokens(this.tokenPayload(user, membership), sessionClient);
+
+    const { passwordHash, passwordResetToken, passwordResetExpires, ...userWithoutSensitive } = user;
+    return { user: userWithoutSensitive, tokens };
+  }
+
+  /**
+   * Role and effective permissions of the user in the account of the token (null when the user
+   * no longer belongs to it). Platform admins have every permission; without an account, none.
+   */
+  async resolveAccess(user: { id: number; role: string }, accountId: number | null | undefined): Promise<RoleGrant | null> {
+    if (this.isAdmin(user.role)) {
+      return { role: user.role, permissions: ALL_PERMISSIONS };
+    }
+    if (!accountId) {
+      return { role: user.role, permissions: [] };
+    }
+    return this.accountRolesService.getAccess({ id: user.id, isAdmin: false }, accountId);
   }
 
   /**
@@ -476,8 +655,8 @@ export class AuthService {
       },
     });
 
-    // TODO: Send email with reset link
-    // await emailService.sendPasswordReset(user.email, resetToken);
+    // Failures are only logged (EmailLog) so the response never reveals anything about the user
+    await this.emailService.sendPasswordReset(user, resetToken, resetExpires);
   }
 
   /**
@@ -519,6 +698,9 @@ export class AuthService {
           passwordResetExpires: null,
         },
       });
+
+      // Whoever had the old password is signed out
+      await this.authSessionsService.revokeAll(user.id, SessionRevokeReason.PASSWORD_RESET);
     } catch (error) {
       throw new Error('Invalid or expired reset token');
     }
@@ -530,31 +712,6 @@ export class AuthService {
   isAdmin(role: string): boolean {
     return role === UserRole.ADMIN;
   }
-
-  /**
-   * Check if user is owner or admin
-   */
-  isOwnerOrAdmin(role: string): boolean {
-    return role === UserRole.OWNER || role === UserRole.ADMIN;
-  }
-
-  /**
-   * Check if user has access to account
-   */
-  hasAccountAccess(userRole: string, userAccountId: number | null | undefined, requestedAccountId?: number): boolean {
-    // Admin has access to everything
-    if (this.isAdmin(userRole)) {
-      return true;
-    }
-
-    // If no specific account requested, allow (admin-only endpoints)
-    if (!requestedAccountId) {
-      return false;
-    }
-
-    // Owner/Agent/Viewer need to have access to the requested account
-    return userAccountId === requestedAccountId;
-  }
 }
 
 export default AuthService;
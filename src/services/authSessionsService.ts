@@ -0,0 +1,179 @@
+/**
+ * Auth Sessions Service
+ * Sign-in sessions of platform users: refresh token rotation with reuse detection, the session
+ * list and revocation (see utils/authSessions)
+ */
+
+import { AuthSession, PrismaClient } from '@prisma/client';
+import { AuditAction, SessionRevokeReason } from '../constants/enums';
+import {
+  createRefreshToken,
+  describeDevice,
+  hashRefreshToken,
+  isSessionActive,
+  parseRefreshToken,
+  SessionClient,
+  shouldTouchSession,
+} from '../utils/authSessions';
+import { recordAuditLog, SYSTEM_ACTOR } from '../utils/audit';
+
+export interface IssuedSession {
+  session: AuthSession;
+  refreshToken: string;
+}
+
+function clientData(client: SessionClient) {
+  return {
+    ip: client.ip ?? null,
+    userAgent: client.userAgent ?? null,
+    device: describeDevice(client.userAgent),
+  };
+}
+
+export class AuthSessionsService {
+  private prisma: PrismaClient;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Open a session (login, registration, accepted invitation) and issue its first refresh token
+   */
+  async create(
+    userId: number,
+    accountId: number | null,
+    client: SessionClient,
+    expiresAt: Date
+  ): Promise<IssuedSession> {
+    return this.prisma.$transaction(async (tx) => {
+      // The token includes the session id, so the row gets a throwaway hash first
+      const placeholder = createRefreshToken(0).tokenHash;
+      const pending = await tx.authSession.create({
+        data: { userId, accountId, refreshTokenHash: placeholder, expiresAt, ...clientData(client) },
+      });
+      const { token, tokenHash } = createRefreshToken(pending.id);
+      const session = await tx.authSession.update({ where: { id: pending.id }, data: { refreshTokenHash: tokenHash } });
+      return { session, refreshToken: token };
+    });
+  }
+
+  /**
+   * Trade a refresh token for a new one. A token that was already traded means somebody else
+   * has a copy: the session is revoked and every token of it stops working.
+   */
+  async rotate(refreshToken: string, client: SessionClient, expiresAt: Date): Promise<IssuedSession> {
+    const sessionId = parseRefreshToken(refreshToken);
+    const session = sessionId ? await this.prisma.authSession.findUnique({ where: { id: sessionId } }) : null;
+    if (!session || !isSessionActive(session)) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const presentedHash = hashRefreshToken(refreshToken);
+    if (presentedHash === session.refreshTokenHash) {
+      const { token, tokenHash } = createRefreshToken(session.id);
+      const data = { refreshTokenHash: tokenHash, lastUsedAt: new Date(), expiresAt, ...clientData(client) };
+      // Only one of two refreshes racing with the same token wins; the other is a reuse
+      const { count } = await this.prisma.authSession.updateMany({
+        where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null },
+        data,
+      });
+      if (count === 1) {
+        return { session: { ...session, ...data }, refreshToken: token };
+      }
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.authSession.update({
+        where: { id: session.id },
+        data: { revokedAt: new Date(), revokedReason: SessionRevokeReason.REUSE_DETECTED },
+      });
+      await recordAuditLog(tx, {
+        actor: SYSTEM_ACTOR,
+        action: AuditAction.SESSION_REUSE_DETECTED,
+        entity: 'AuthSession',
+        entityId: session.id,
+        after: { userId: session.userId, ip: client.ip ?? null, device: describeDevice(client.userAgent) },
+        ip: client.ip ?? undefined,
+      });
+    });
+    throw new Error('Refresh token reuse detected');
+  }
+
+  /**
+   * Move a session to another account and issue a new refresh token for it
+   */
+  async switchAccount(sessionId: number, accountId: number): Promise<IssuedSession> {
+    const { token, tokenHash } = createRefreshToken(sessionId);
+    const { count } = await this.prisma.authSession.updateMany({
+      where: { id: sessionId, revokedAt: null, expiresAt: { gt: new Date() } },
+      data: { accountId, refreshTokenHash: tokenHash, lastUsedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new Error('Session not found');
+    }
+    const session = await this.prisma.authSession.findUniqueOrThrow({ where: { id: sessionId } });
+    return { session, refreshToken: token };
+  }
+
+  async setAccount(sessionId: number, accountId: number | null) {
+    return this.prisma.authSession.update({ where: { id: sessionId }, data: { accountId } });
+  }
+
+  /**
+   * Session of an access token, while it is neither revoked nor expired (lastUsedAt is moved
+   * forward every few minutes)
+   */
+  async findActive(sessionId: number): Promise<AuthSession | null> {
+    const session = await this.prisma.authSession.findUnique({ where: { id: sessionId } });
+    if (!session || !isSessionActive(session)) return null;
+
+    if (shouldTouchSession(session.lastUsedAt)) {
+      await this.prisma.authSession.update({ where: { id: session.id }, data: { lastUsedAt: new Date() } });
+    }
+    return session;
+  }
+
+  /**
+   * Active sessions of a user, the most recently used first
+   */
+  async findAll(userId: number) {
+    return this.prisma.authSession.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        accountId: true,
+        device: true,
+        userAgent: true,
+        ip: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        createdAt: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  async revoke(userId: number, sessionId: number, reason: SessionRevokeReason) {
+    const { count } = await this.prisma.authSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    if (count === 0) {
+      throw new Error('Session not found');
+    }
+  }
+
+  /**
+   * Revoke every active session of a user; returns how many were revoked
+   */
+  async revokeAll(userId: number, reason: SessionRevokeReason): Promise<number> {
+    const { count } = await this.prisma.authSession.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    return count;
+  }
+}
+
+export default AuthSessionsService;
@@ -0,0 +1,403 @@
+/**
+ * Bank Statements Service
+ * Imports statement files, proposes which open installment each credit pays and records
+ * the confirmed matches as bank transfer payments
+ */
+
+import { createHash } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  BankStatementFormat,
+  BankStatementTransactionStatus,
+  BoletoStatus,
+  PaymentMethod,
+  PixChargeStatus,
+} from '../constants/enums';
+import { ConfirmBankStatementDto, ImportBankStatementDto } from '../dtos/bankStatements.dto';
+import { PaginationResult } from '~@/utils/pagination';
+import {
+  DEFAULT_MATCH_OPTIONS,
+  MatchCandidate,
+  mentionsReference,
+  parseBankStatement,
+  proposeMatches,
+  StatementTransaction,
+} from '../utils/bankStatement';
+import { getRemainingAmount } from '../utils/paymentAllocation';
+import { installmentReference } from '../utils/paymentReference';
+import { ACTIVE_BOLETO_STATUSES } from './boletosService';
+import LateFeesService from './lateFeesService';
+import PaymentAllocationService, { OPEN_INSTALLMENT_STATUSES } from './paymentAllocationService';
+
+export interface BankStatementConfirmResult {
+  transactionId: bigint;
+  status: string;
+  paymentId?: bigint;
+  error?: string;
+}
+
+// Transactions that can still be confirmed or ignored
+const OPEN_TRANSACTION_STATUSES: string[] = [
+  BankStatementTransactionStatus.UNMATCHED,
+  BankStatementTransactionStatus.PROPOSED,
+];
+
+export class BankStatementsService {
+  private prisma: PrismaClient;
+  private lateFeesService: LateFeesService;
+  private paymentAllocationService: PaymentAllocationService;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+    this.lateFeesService = new LateFeesService({ prisma });
+    this.paymentAllocationService = new PaymentAllocationService({ prisma });
+  }
+
+  /**
+   * Parse a statement file and store its credits with the proposed matches.
+   * Transactions already imported for the account are skipped.
+   */
+  async importFile(dto: ImportBankStatementDto, actor?: string) {
+    const account = await this.prisma.account.findFirst({ where: { id: dto.accountId, deletedAt: null } });
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    const content = dto.encoding === 'base64'
+      ? Buffer.from(dto.content, 'base64').toString('utf8')
+      : dto.content;
+    const parsed = parseBankStatement(content, dto.format as BankStatementFormat | undefined);
+    if (!parsed.transactions.length) {
+      throw new Error('No transactions found in the bank statement file');
+    }
+
+    const credits = parsed.transactions.filter((t) => t.amount > 0);
+    const fingerprints = this.fingerprints(dto.accountId, parsed.format, credits);
+    const existing = await this.prisma.bankStatementTransaction.findMany({
+      where: { fingerprint: { in: fingerprints } },
+      select: { fingerprint: true },
+    });
+    const imported = new Set(existing.map((t) => t.fingerprint));
+    const fresh = credits
+      .map((transaction, index) => ({ transaction, fingerprint: fingerprints[index] }))
+      .filter(({ fingerprint }) => !imported.has(fingerprint));
+
+    const candidates = await this.loadCandidates(dto.accountId);
+    const proposals = proposeMatches(
+      fresh.map(({ transaction }) => transaction),
+      candidates,
+      { dateWindowDays: dto.dateWindowDays ?? DEFAULT_MATCH_OPTIONS.dateWindowDays }
+    );
+
+    const statement = await this.prisma.bankStatement.create({
+      data: {
+        accountId: dto.accountId,
+        format: parsed.format,
+        fileName: dto.fileName,
+        transactionCount: fresh.length,
+        duplicateCount: credits.length - fresh.length,
+        skippedCount: parsed.transactions.length - credits.length,
+        createdBy: actor,
+        transactions: {
+          create: fresh.map(({ transaction, fingerprint }, index) => ({
+            ...transaction,
+            fingerprint,
+            status: proposals[index] ? BankStatementTransactionStatus.PROPOSED : BankStatementTransactionStatus.UNMATCHED,
+            installmentId: proposals[index]?.installmentId,
+            matchScore: proposals[index]?.score,
+            matchReasons: proposals[index]?.reasons,
+          })),
+        },
+      },
+    });
+
+    return this.findById(statement.id);
+  }
+
+  async findAll(filters: { page?: number; limit?: number; accountId?: number }) {
+    const { page = 1, limit = 20, accountId } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.BankStatementWhereInput = {};
+    if (accountId) where.accountId = accountId;
+
+    const [data, total] = await Promise.all([
+      this.prisma.bankStatement.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.bankStatement.count({ where }),
+    ]);
+
+    return {
+      results: data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    } as PaginationResult<any>;
+  }
+
+  async findById(id: bigint) {
+    return this.prisma.bankStatement.findUnique({
+      where: { id },
+      include: {
+        transactions: {
+          orderBy: [{ postedAt: 'asc' }, { id: 'asc' }],
+          include: {
+            installment: {
+              include: { operation: { select: { id: true, clientId: true, client: { select: { id: true, name: true } } } } },
+            },
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Record the payments of the selected transactions (or of every proposed match).
+   * Each transaction is confirmed on its own; failures are reported without stopping the batch.
+   */
+  async confirm(id: bigint, dto: ConfirmBankStatementDto, actor?: string) {
+    const statement = await this.prisma.bankStatement.findUnique({ where: { id } });
+    if (!statement) {
+      throw new Error('Bank statement not found');
+    }
+
+    const selection = dto.matches
+      ? dto.matches.map((m) => ({
+        transactionId: BigInt(m.transactionId),
+        installmentId: m.installmentId !== undefined ? BigInt(m.installmentId) : undefined,
+      }))
+      : (await this.prisma.bankStatementTransaction.findMany({
+        where: { statementId: id, status: BankStatementTransactionStatus.PROPOSED },
+        orderBy: { postedAt: 'asc' },
+        select: { id: true },
+      })).map((t) => ({ transactionId: t.id, installmentId: undefined }));
+
+    const results: BankStatementConfirmResult[] = [];
+    for (const item of selection) {
+      results.push(await this.confirmTransaction(statement.id, statement.accountId, item, actor));
+    }
+
+    return {
+      confirmed: results.filter((r) => r.status === BankStatementTransactionStatus.CONFIRMED).length,
+      failed: results.filter((r) => r.error).length,
+      results,
+    };
+  }
+
+  /**
+   * Mark a transaction as not related to any installment
+   */
+  async ignoreTransaction(id: bigint, transactionId: bigint, actor?: string) {
+    const transaction = await this.prisma.bankStatementTransaction.findFirst({
+      where: { id: transactionId, statementId: id },
+    });
+    if (!transaction) {
+      throw new Error('Bank statement transaction not found');
+    }
+    if (!OPEN_TRANSACTION_STATUSES.includes(transaction.status)) {
+      throw new Error(`Bank statement transaction is already ${transaction.status.toLowerCase()}`);
+    }
+
+    return this.prisma.bankStatementTransaction.update({
+      where: { id: transactionId },
+      data: {
+        status: BankStatementTransactionStatus.IGNORED,
+        installmentId: null,
+        error: null,
+        confirmedAt: new Date(),
+        confirmedBy: actor,
+      },
+    });
+  }
+
+  private async confirmTransaction(
+    statementId: bigint,
+    accountId: number,
+    item: { transactionId: bigint; installmentId?: bigint },
+    actor?: string
+  ): Promise<BankStatementConfirmResult> {
+    const transaction = await this.prisma.bankStatementTransaction.findFirst({
+      where: { id: item.transactionId, statementId },
+    });
+    if (!transaction) {
+      return { transactionId: item.transactionId, status: 'NOT_FOUND', error: 'Bank statement transaction not found' };
+    }
+    if (!OPEN_TRANSACTION_STATUSES.includes(transaction.status)) {
+      return {
+        transactionId: transaction.id,
+        status: transaction.status,
+        error: `Bank statement transaction is already ${transaction.status.toLowerCase()}`,
+      };
+    }
+
+    const installmentId = item.installmentId ?? transaction.installmentId;
+    const fail = async (error: string) => {
+      await this.prisma.bankStatementTransaction.update({ where: { id: transaction.id }, data: { error } });
+      return { transactionId: transaction.id, status: transaction.status, error };
+    };
+
+    if (!installmentId) {
+      return fail('No installment selected for the transaction');
+    }
+
+    const installment = await this.prisma.installment.findFirst({
+      where: { id: installmentId, deletedAt: null, operation: { accountId, deletedAt: null } },
+      include: {
+        operation: true,
+        boletos: { select: { id: true, nossoNumero: true } },
+        pixCharges: { select: { id: true, txid: true } },
+      },
+    });
+    if (!installment) {
+      return fail('Installment not found');
+    }
+
+    // A credit that names a boleto or PIX charge of the installment settles it as well, so the
+    // boleto retorno or the PIX confirmation of the same money doesn't pay it again
+    const boleto = installment.boletos.find((b) => mentionsReference(transaction, b.nossoNumero));
+    const pixCharge = installment.pixCharges.find((c) => mentionsReference(transaction, c.txid));
+    const amount = Number(transaction.amount);
+    const paidAt = transaction.postedAt;
+
+    try {
+      const payment = await this.prisma.$transaction(async (tx) => {
+        const claimed = await tx.bankStatementTransaction.updateMany({
+          where: { id: transaction.id, status: { in: OPEN_TRANSACTION_STATUSES } },
+          data: {
+            status: BankStatementTransactionStatus.CONFIRMED,
+            installmentId: installment.id,
+            error: null,
+            confirmedAt: new Date(),
+            confirmedBy: actor,
+          },
+        });
+        if (claimed.count !== 1) {
+          throw new Error('Bank statement transaction is already confirmed');
+        }
+
+        if (boleto) {
+          const { count } = await tx.boleto.updateMany({
+            where: { id: boleto.id, status: { notIn: [BoletoStatus.PAID, BoletoStatus.CANCELLED] } },
+            data: { status: BoletoStatus.PAID, paidAt, paidAmount: amount, error: null, updatedBy: actor },
+          });
+          if (count !== 1) {
+            throw new Error(`Boleto ${boleto.nossoNumero} is already paid or cancelled`);
+          }
+        }
+        if (pixCharge) {
+          const { count } = await tx.pixCharge.updateMany({
+            where: { id: pixCharge.id, status: PixChargeStatus.ACTIVE },
+            data: { status: PixChargeStatus.PAID, paidAt, updatedBy: actor },
+          });
+          if (count !== 1) {
+            throw new Error(`PIX charge ${pixCharge.txid} is already paid or cancelled`);
+          }
+          await tx.pixCharge.updateMany({
+            where: { installmentId: installment.id, status: PixChargeStatus.ACTIVE },
+            data: { status: PixChargeStatus.CANCELLED, updatedBy: actor },
+          });
+        }
+
+        const recorded = await this.paymentAllocationService.recordPayment(tx, {
+          operationId: installment.operationId,
+          installmentId: OPEN_INSTALLMENT_STATUSES.includes(installment.status) ? installment.id : null,
+          amount,
+          currency: installment.operation.currency,
+          paidAt,
+          method: boleto ? PaymentMethod.BOLETO : pixCharge ? PaymentMethod.PIX : PaymentMethod.BANK_TRANSFER,
+          reference: transaction.reference || transaction.externalId || undefined,
+          meta: {
+            bankStatementId: statementId.toString(),
+            bankStatementTransactionId: transaction.id.toString(),
+            ...(boleto && { boletoId: boleto.id.toString() }),
+            ...(pixCharge && { pixChargeId: pixCharge.id.toString() }),
+          },
+          actor,
+        });
+
+        await tx.bankStatementTransaction.update({ where: { id: transaction.id }, data: { paymentId: recorded.id } });
+        if (boleto) {
+          await tx.boleto.update({ where: { id: boleto.id }, data: { paymentId: recorded.id } });
+        }
+        if (pixCharge) {
+          await tx.pixCharge.update({ where: { id: pixCharge.id }, data: { paymentId: recorded.id } });
+        }
+        return recorded;
+      });
+
+      this.paymentAllocationService.sendReceipt(payment);
+      return { transactionId: transaction.id, status: BankStatementTransactionStatus.CONFIRMED, paymentId: payment.id };
+    } catch (error) {
+      return fail(error instanceof Error ? error.message : 'Failed to record payment');
+    }
+  }
+
+  /**
+   * Open installments of the account with what identifies them in a bank credit
+   */
+  private async loadCandidates(accountId: number): Promise<MatchCandidate[]> {
+    const installments = await this.prisma.installment.findMany({
+      where: {
+        status: { in: OPEN_INSTALLMENT_STATUSES },
+        deletedAt: null,
+        operation: { accountId, deletedAt: null },
+      },
+      include: {
+        operation: { include: { client: { select: { document: true } } } },
+        pixCharges: { where: { status: PixChargeStatus.ACTIVE }, select: { txid: true } },
+        boletos: {
+          where: { status: { in: ACTIVE_BOLETO_STATUSES } },
+          select: { nossoNumero: true },
+        },
+      },
+    });
+
+    const withAccrual = await this.lateFeesService.withAccrual(installments);
+
+    return withAccrual.map((installment) => ({
+      installmentId: installment.id,
+      dueDate: installment.dueDate,
+      clientDocument: installment.operation.client.document,
+      amounts: [getRemainingAmount(installment), installment.accrual?.amountDue ?? 0].filter((a) => a > 0),
+      references: [
+        installmentReference(installment.id),
+        ...installment.pixCharges.map((c) => c.txid),
+        ...installment.boletos.map((b) => b.nossoNumero),
+      ],
+    }));
+  }
+
+  /**
+   * Stable ids for the credits of a file. Identical lines in the same file (e.g. two equal
+   * transfers without a bank id) are told apart by their occurrence.
+   */
+  private fingerprints(accountId: number, format: string, transactions: StatementTransaction[]): string[] {
+    const occurrences = new Map<string, number>();
+
+    return transactions.map((t) => {
+      const base = [
+        accountId,
+        format,
+        t.externalId ?? '',
+        t.postedAt.toISOString().slice(0, 10),
+        t.amount.toFixed(2),
+        t.description ?? '',
+        t.payerDocument ?? '',
+        t.reference ?? '',
+      ].join('|');
+      const occurrence = (occurrences.get(base) ?? 0) + 1;
+      occurrences.set(base, occurrence);
+
+      return createHash('sha256').update(`${base}#${occurrence}`).digest('hex');
+    });
+  }
+}
+
+export default BankStatementsService;
@@ -0,0 +1,533 @@
+/**
+ * Boletos Service
+ * Issues boletos for installments under the account's bank agreement, builds the CNAB 240
+ * remessa that registers them and settles installments from the bank's retorno file
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { BoletoStatus, PaymentMethod, SettingKey } from '../constants/enums';
+import { CreateBoletoRemessaDto, ProcessBoletoRetornoDto } from '../dtos/boletos.dto';
+import { PaginationResult } from '~@/utils/pagination';
+import { buildBoletoCodes, normalizeBoletoSettings, resolveBoletoBank, BoletoSettings } from '../utils/boleto';
+import {
+  buildCnab240Remessa,
+  Cnab240Movement,
+  CNAB240_SETTLEMENT_CODES,
+  CnabMovement,
+  CnabTitle,
+  detectCnabLayout,
+  parseCnab240Movements,
+  parseCnab400Retorno,
+} from '../utils/cnab';
+import { getRemainingAmount } from '../utils/paymentAllocation';
+import { installmentReference, parseInstallmentReference } from '../utils/paymentReference';
+import LateFeesService from './lateFeesService';
+import PaymentAllocationService, { OPEN_INSTALLMENT_STATUSES } from './paymentAllocationService';
+
+export interface BoletoRetornoResult {
+  line: number;
+  nossoNumero: string;
+  movementCode: string;
+  boletoId?: bigint;
+  outcome: 'REGISTERED' | 'REJECTED' | 'PAID' | 'CANCELLED' | 'DUPLICATE' | 'IGNORED' | 'UNMATCHED' | 'FAILED';
+  paymentId?: bigint;
+  error?: string;
+}
+
+// Boletos that can still be paid at the bank
+export const ACTIVE_BOLETO_STATUSES: string[] = [
+  BoletoStatus.ISSUED,
+  BoletoStatus.SENT,
+  BoletoStatus.REGISTERED,
+];
+
+// Remessa columns without the file content
+const remessaSelect = {
+  id: true,
+  accountId: true,
+  sequence: true,
+  bankCode: true,
+  fileName: true,
+  boletoCount: true,
+  totalAmount: true,
+  createdBy: true,
+  createdAt: true,
+} satisfies Prisma.BoletoRemessaSelect;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const stripZeros = (value: string) => value.replace(/\D/g, '').replace(/^0+/, '');
+
+export class BoletosService {
+  private prisma: PrismaClient;
+  private lateFeesService: LateFeesService;
+  private paymentAllocationService: PaymentAllocationService;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+    this.lateFeesService = new LateFeesService({ prisma });
+    this.paymentAllocationService = new PaymentAllocationService({ prisma });
+  }
+
+  /**
+   * Get the bank agreement of an account (Setting "boleto_settings")
+   */
+  async getSettings(accountId: number): Promise<BoletoSettings> {
+    const setting = await this.prisma.setting.findUnique({
+      where: { accountId_key: { accountId, key: SettingKey.BOLETO_SETTINGS } },
+    });
+    return normalizeBoletoSettings(setting?.value);
+  }
+
+  async findAll(filters: {
+    page?: number;
+    limit?: number;
+    accountId?: number;
+    installmentId?: bigint;
+    status?: string;
+  }) {
+    const { page = 1, limit = 20, accountId, installmentId, status } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.BoletoWhereInput = {};
+    if (accountId) where.accountId = accountId;
+    if (installmentId) where.installmentId = installmentId;
+    if (status) where.status = status;
+
+    const [data, total] = await Promise.all([
+      this.prisma.boleto.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.boleto.count({ where }),
+    ]);
+
+    return {
+      results: data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    } as PaginationResult<any>;
+  }
+
+  async findById(id: bigint) {
+    return this.prisma.boleto.findUnique({
+      where: { id },
+      include: {
+        installment: true,
+        payment: true,
+        remessa: { select: { id: true, sequence: true, fileName: true, createdAt: true } },
+      },
+    });
+  }
+
+  async findRemessas(filters: { page?: number; limit?: number; accountId?: number }) {
+    const { page = 1, limit = 20, accountId } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.BoletoRemessaWhereInput = {};
+    if (accountId) where.accountId = accountId;
+
+    const [data, total] = await Promise.all([
+      this.prisma.boletoRemessa.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        select: remessaSelect,
+      }),
+      this.prisma.boletoRemessa.count({ where }),
+    ]);
+
+    return {
+      results: data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    } as PaginationResult<any>;
+  }
+
+  async getRemessaFile(id: bigint) {
+    return this.prisma.boletoRemessa.findUnique({
+      where: { id },
+      select: { fileName: true, content: true },
+    });
+  }
+
+  /**
+   * Boleto for the open amount of an installment. Overdue installments get a boleto due
+   * today for the amount due with late fees. The active boleto is reused while amount and
+   * due date are unchanged; one not yet sent to the bank is replaced otherwise.
+   */
+  async createForInstallment(installmentId: bigint, actor?: string) {
+    const installment = await this.prisma.installment.findFirst({
+      where: { id: installmentId, deletedAt: null, operation: { deletedAt: null } },
+      include: { operation: true },
+    });
+
+    if (!installment) {
+      throw new Error('Installment not found');
+    }
+    if (!OPEN_INSTALLMENT_STATUSES.includes(installment.status)) {
+      throw new Error('Installment is not open');
+    }
+
+    const { operation } = installment;
+    if (operation.currency !== 'BRL') {
+      throw new Error('Boletos are only available for BRL operations');
+    }
+
+    const settings = await this.getSettings(operation.accountId);
+    const bank = resolveBoletoBank(settings);
+
+    const today = startOfDay(new Date());
+    const overdue = startOfDay(installment.dueDate) < today;
+    const [{ accrual }] = await this.lateFeesService.withAccrual([installment]);
+    const amount = overdue && accrual ? accrual.amountDue : getRemainingAmount(installment);
+    const dueDate = overdue ? today : startOfDay(installment.dueDate);
+    if (amount <= 0) {
+      throw new Error('Installment is not open');
+    }
+
+    const active = await this.prisma.boleto.findFirst({
+      where: { installmentId, status: { in: ACTIVE_BOLETO_STATUSES } },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (active) {
+      if (Number(active.amount) === amount && active.dueDate.getTime() === dueDate.getTime()) {
+        return active;
+      }
+      if (active.status !== BoletoStatus.ISSUED) {
+        throw new Error('Installment already has a boleto registered with the bank');
+      }
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      if (active) {
+        await tx.boleto.update({
+          where: { id: active.id },
+          data: { status: BoletoStatus.CANCELLED, updatedBy: actor },
+        });
+      }
+
+      const last = await tx.boleto.aggregate({
+        where: { accountId: operation.accountId },
+        _max: { sequence: true },
+      });
+      const sequence = (last._max.sequence ?? 0) + 1;
+      const nossoNumero = bank.nossoNumero(settings, sequence);
+      const codes = buildBoletoCodes({
+        bankCode: bank.code,
+        dueDate,
+        amount,
+        freeField: bank.freeField(settings, nossoNumero),
+      });
+
+      return tx.boleto.create({
+        data: {
+          accountId: operation.accountId,
+          installmentId,
+          sequence,
+          bankCode: bank.code,
+          nossoNumero,
+          amount,
+          dueDate,
+          barcode: codes.barcode,
+          digitableLine: codes.digitableLine,
+          createdBy: actor,
+        },
+      });
+    });
+  }
+
+  /**
+   * CNAB 240 remessa registering a batch of boletos with the bank.
+   * With installmentIds, boletos are issued for them first; otherwise every boleto of the
+   * account not yet sent is included.
+   */
+  async createRemessa(dto: CreateBoletoRemessaDto, actor?: string) {
+    const account = await this.prisma.account.findFirst({ where: { id: dto.accountId, deletedAt: null } });
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    const settings = await this.getSettings(account.id);
+    const bank = resolveBoletoBank(settings);
+
+    let boletoIds: bigint[] | undefined;
+    if (dto.installmentIds) {
+      boletoIds = [];
+      for (const id of dto.installmentIds) {
+        const installmentId = BigInt(id);
+        const owned = await this.prisma.installment.count({
+          where: { id: installmentId, operation: { accountId: account.id } },
+        });
+        if (!owned) {
+          throw new Error(`Installment ${installmentId}: Installment not found`);
+        }
+        try {
+          const boleto = await this.createForInstallment(installmentId, actor);
+          if (boleto.status === BoletoStatus.ISSUED) boletoIds.push(boleto.id);
+        } catch (error) {
+          throw new Error(`Installment ${installmentId}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+
+    const boletos = await this.prisma.boleto.findMany({
+      where: {
+        accountId: account.id,
+        status: BoletoStatus.ISSUED,
+        ...(boletoIds ? { id: { in: boletoIds } } : {}),
+      },
+      include: { installment: { include: { operation: { include: { client: { include: { address: true } } } } } } },
+      orderBy: { sequence: 'asc' },
+    });
+    if (!boletos.length) {
+      throw new Error('No boletos to send');
+    }
+
+    const policy = await this.lateFeesService.getPolicy(account.id);
+    const now = new Date();
+    const titles: CnabTitle[] = boletos.map((boleto) => {
+      const { client } = boleto.installment.operation;
+      const address = client.address;
+      return {
+        nossoNumero: boleto.nossoNumero,
+        documentNumber: installmentReference(boleto.installmentId),
+        issuedAt: boleto.createdAt,
+        dueDate: boleto.dueDate,
+        amount: Number(boleto.amount),
+        monthlyInterestPercent: Math.round(policy.dailyInterestPercent * 30 * 100) / 100,
+        finePercent: policy.finePercent,
+        chargesFrom: new Date(boleto.dueDate.getTime() + (policy.graceDays + 1) * MS_PER_DAY),
+        payer: {
+          document: client.document,
+          name: client.name || client.email,
+          address: [address?.street, address?.number, address?.complement].filter(Boolean).join(' '),
+          district: address?.neighborhood || '',
+          zipCode: address?.zip || '',
+          city: address?.city || '',
+          state: address?.state || '',
+        },
+      };
+    });
+
+    return this.prisma.$transaction(async (tx) => {
+      const last = await tx.boletoRemessa.aggregate({
+        where: { accountId: account.id },
+        _max: { sequence: true },
+      });
+      const sequence = (last._max.sequence ?? 0) + 1;
+
+      const content = buildCnab240Remessa({
+        beneficiary: {
+          bankCode: bank.code,
+          bankName: bank.name,
+          document: settings.beneficiaryDocument || account.document || '',
+          name: settings.beneficiaryName || account.name,
+          agreement: settings.agreement || '',
+          agency: settings.agency as string,
+          agencyDigit: settings.agencyDigit || '',
+          account: settings.account as string,
+          accountDigit: settings.accountDigit || '',
+          wallet: settings.wallet || bank.defaultWallet,
+        },
+        sequence,
+        generatedAt: now,
+        titles,
+      });
+
+      const remessa = await tx.boletoRemessa.create({
+        data: {
+          accountId: account.id,
+          sequence,
+          bankCode: bank.code,
+          fileName: `remessa-${String(sequence).padStart(6, '0')}.rem`,
+          content,
+          boletoCount: titles.length,
+          totalAmount: titles.reduce((sum, title) => sum + Math.round(title.amount * 100), 0) / 100,
+          createdBy: actor,
+        },
+        select: remessaSelect,
+      });
+
+      await tx.boleto.updateMany({
+        where: { id: { in: boletos.map((b) => b.id) } },
+        data: { status: BoletoStatus.SENT, remessaId: remessa.id, updatedBy: actor },
+      });
+
+      const sent = await tx.boleto.findMany({ where: { remessaId: remessa.id }, orderBy: { sequence: 'asc' } });
+      return { ...remessa, boletos: sent };
+    });
+  }
+
+  /**
+   * Apply a CNAB retorno: registrations, rejections, write-offs and settlements.
+   * Settled boletos create the installment payment (method BOLETO); movements already
+   * applied are reported as duplicates, so the same file can be processed again.
+   */
+  async processRetorno(dto: ProcessBoletoRetornoDto, actor?: string) {
+    const account = await this.prisma.account.findFirst({ where: { id: dto.accountId, deletedAt: null } });
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    const content = dto.encoding === 'base64'
+      ? Buffer.from(dto.content, 'base64').toString('utf8')
+      : dto.content;
+    const layout = detectCnabLayout(content);
+    if (!layout) {
+      throw new Error('Invalid retorno file');
+    }
+
+    const movements = layout === 'CNAB240' ? parseCnab240Movements(content) : parseCnab400Retorno(content);
+    const results: BoletoRetornoResult[] = [];
+    for (const movement of movements) {
+      const settlement = layout === 'CNAB400' || CNAB240_SETTLEMENT_CODES.includes(movement.movementCode);
+      results.push(await this.applyMovement(account.id, movement, settlement, actor));
+    }
+
+    const count = (outcome: BoletoRetornoResult['outcome']) => results.filter((r) => r.outcome === outcome).length;
+    return {
+      fileName: dto.fileName ?? null,
+      layout,
+      movements: results.length,
+      registered: count('REGISTERED'),
+      rejected: count('REJECTED'),
+      paid: count('PAID'),
+      cancelled: count('CANCELLED'),
+      duplicates: count('DUPLICATE'),
+      unmatched: count('UNMATCHED'),
+      failed: count('FAILED'),
+      results,
+    };
+  }
+
+  private async applyMovement(
+    accountId: number,
+    movement: CnabMovement,
+    settlement: boolean,
+    actor?: string
+  ): Promise<BoletoRetornoResult> {
+    const base = { line: movement.line, nossoNumero: movement.nossoNumero, movementCode: movement.movementCode };
+    const boleto = await this.findMovementBoleto(accountId, movement);
+    if (!boleto) {
+      return { ...base, outcome: 'UNMATCHED', error: 'No boleto matches the nosso número' };
+    }
+
+    const result = { ...base, boletoId: boleto.id };
+    if (boleto.status === BoletoStatus.PAID || boleto.status === BoletoStatus.CANCELLED) {
+      return { ...result, outcome: 'DUPLICATE' };
+    }
+
+    if (settlement) {
+      try {
+        const { installment } = boleto;
+        const paidAt = movement.occurredAt || movement.creditedAt || new Date();
+        const amount = movement.paidAmount || movement.titleAmount;
+        // The boleto is claimed in the payment's transaction: the same retorno processed twice
+        // (or concurrently) records one payment
+        const payment = await this.prisma.$transaction(async (tx) => {
+          const { count } = await tx.boleto.updateMany({
+            where: { id: boleto.id, status: { notIn: [BoletoStatus.PAID, BoletoStatus.CANCELLED] } },
+            data: { status: BoletoStatus.PAID, paidAt, paidAmount: amount, error: null, updatedBy: actor },
+          });
+          if (count !== 1) return null;
+
+          const recorded = await this.paymentAllocationService.recordPayment(tx, {
+            operationId: installment.operationId,
+            installmentId: OPEN_INSTALLMENT_STATUSES.includes(installment.status) ? installment.id : null,
+            amount,
+            currency: 'BRL',
+            paidAt,
+            method: PaymentMethod.BOLETO,
+            reference: boleto.nossoNumero,
+            meta: { boletoId: boleto.id.toString(), movementCode: movement.movementCode },
+            actor,
+          });
+          await tx.boleto.update({ where: { id: boleto.id }, data: { paymentId: recorded.id } });
+          return recorded;
+        });
+
+        if (!payment) {
+          return { ...result, outcome: 'DUPLICATE' };
+        }
+        this.paymentAllocationService.sendReceipt(payment);
+        return { ...result, outcome: 'PAID', paymentId: payment.id };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to record payment';
+        await this.prisma.boleto.update({ where: { id: boleto.id }, data: { error: message } });
+        return { ...result, outcome: 'FAILED', error: message };
+      }
+    }
+
+    switch (movement.movementCode) {
+      case Cnab240Movement.REGISTERED:
+        if (boleto.status === BoletoStatus.REGISTERED) return { ...result, outcome: 'DUPLICATE' };
+        await this.prisma.boleto.update({
+          where: { id: boleto.id },
+          data: { status: BoletoStatus.REGISTERED, error: null, updatedBy: actor },
+        });
+        return { ...result, outcome: 'REGISTERED' };
+      case Cnab240Movement.REJECTED: {
+        const error = `Rejected by the bank${movement.rejectionReasons ? ` (${movement.rejectionReasons})` : ''}`;
+        await this.prisma.boleto.update({
+          where: { id: boleto.id },
+          data: { status: BoletoStatus.REJECTED, error, updatedBy: actor },
+        });
+        return { ...result, outcome: 'REJECTED', error };
+      }
+      case Cnab240Movement.WRITTEN_OFF:
+        await this.prisma.boleto.update({
+          where: { id: boleto.id },
+          data: { status: BoletoStatus.CANCELLED, updatedBy: actor },
+        });
+        return { ...result, outcome: 'CANCELLED' };
+      default:
+        return { ...result, outcome: 'IGNORED' };
+    }
+  }
+
+  /**
+   * Boleto of a retorno movement, by nosso número (banks pad it differently) or by the
+   * "INST<id>" document number sent in the remessa
+   */
+  private async findMovementBoleto(accountId: number, movement: CnabMovement) {
+    const include = { installment: { include: { operation: true } } } satisfies Prisma.BoletoInclude;
+    const number = stripZeros(movement.nossoNumero);
+
+    if (number) {
+      const boletos = await this.prisma.boleto.findMany({
+        where: { accountId, nossoNumero: { endsWith: number } },
+        include,
+        orderBy: { createdAt: 'desc' },
+      });
+      const boleto = boletos.find((b) => stripZeros(b.nossoNumero) === number);
+      if (boleto) return boleto;
+    }
+
+    const installmentId = movement.documentNumber ? parseInstallmentReference(movement.documentNumber) : null;
+    if (installmentId) {
+      return this.prisma.boleto.findFirst({
+        where: { accountId, installmentId, status: { not: BoletoStatus.CANCELLED } },
+        include,
+        orderBy: { createdAt: 'desc' },
+      });
+    }
+
+    return null;
+  }
+}
+
+export default BoletosService;
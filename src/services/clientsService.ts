@@ -6,6 +6,7 @@ import { PrismaClient } from '@prisma/client';
 import { CreateClientDto, UpdateClientDto } from '../dtos/clients.dto';
 import { InputJsonValue } from '@prisma/client/runtime/library';
 import { PaginationResult } from '~@/utils/pagination';
+import { withoutTenantScope } from '../prisma/tenant';
 
 export class ClientsService {
   private prisma: PrismaClient;
@@ -111,14 +112,17 @@ export class ClientsService {
       throw new Error('Email is required');
     }
 
-    // Check if email already exists (in Client or PlatformUser)
-    const existingClientByEmail = await this.prisma.client.findFirst({
-      where: { 
-        email: dto.email,
-        deletedAt: null,
-      } as any,
-      select: { id: true },
-    });
+    // Check if email already exists (in Client or PlatformUser). Emails and documents are
+    // unique across the platform, so these checks look at every account.
+    const existingClientByEmail = await withoutTenantScope(() =>
+      this.prisma.client.findFirst({
+        where: {
+          email: dto.email,
+          deletedAt: null,
+        } as any,
+        select: { id: true },
+      })
+    );
 
     if (existingClientByEmail) {
       throw new Error('Client with this email already exists');
@@ -138,13 +142,15 @@ export class ClientsService {
     if (dto.document) {
       // For now, we'll validate document uniqueness globally
       // The unique index by country will be enforced at database level
-      const existingClientByDocument = await this.prisma.client.findFirst({
-        where: { 
-          document: dto.document as any,
-          deletedAt: null,
-        } as any,
-        select: { id: true },
-      });
+      const existingClientByDocument = await withoutTenantScope(() =>
+        this.prisma.client.findFirst({
+          where: {
+            document: dto.document as any,
+            deletedAt: null,
+          } as any,
+          select: { id: true },
+        })
+      );
 
       if (existingClientByDocument) {
         throw new Error('Client with this document already exists');
@@ -218,13 +224,15 @@ export class ClientsService {
   async update(id: number, dto: UpdateClientDto, updatedBy?: string) {
     // Check if email is being updated and if it already exists
     if (dto.email) {
-      const existingClientByEmail = await this.prisma.client.findFirst({
-        where: { 
-          email: dto.email,
-          deletedAt: null,
-        } as any,
-        select: { id: true },
-      });
+      const existingClientByEmail = await withoutTenantScope(() =>
+        this.prisma.client.findFirst({
+          where: {
+            email: dto.email,
+            deletedAt: null,
+          } as any,
+          select: { id: true },
+        })
+      );
 
       if (existingClientByEmail && existingClientByEmail.id !== id) {
         throw new Error('Client with this email already exists');
@@ -243,13 +251,15 @@ export class ClientsService {
 
     // Check if document is being updated and if it already exists
     if (dto.document) {
-      const existingClient = await this.prisma.client.findFirst({
-        where: { 
-          document: dto.document as any, // Type assertion until migration is applied
-          deletedAt: null,
-        } as any,
-        select: { id: true },
-      });
+      const existingClient = await withoutTenantScope(() =>
+        this.prisma.client.findFirst({
+          where: {
+            document: dto.document as any, // Type assertion until migration is applied
+            deletedAt: null,
+          } as any,
+          select: { id: true },
+        })
+      );
 
       if (existingClient && existingClient.id !== id) {
         throw new Error('Client with this document already exists');
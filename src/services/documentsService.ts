@@ -0,0 +1,242 @@
+/**
+ * Documents Service
+ * Loads the data behind the printable documents (operation contract, payment receipt
+ * and client statement) and renders them with the account templates
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { InstallmentStatus, SettingKey } from '../constants/enums';
+import {
+  DocumentParty,
+  renderContractPdf,
+  renderReceiptPdf,
+  renderStatementPdf,
+} from '../utils/documentRenderers';
+import { DocumentTemplates, normalizeDocumentTemplates } from '../utils/documentTemplates';
+import { getRemainingAmount } from '../utils/paymentAllocation';
+import { formatPartyAddress, PartyAddress } from '../utils/promissoryNote';
+import LateFeesService from './lateFeesService';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class DocumentsService {
+  private prisma: PrismaClient;
+  private lateFeesService: LateFeesService;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+    this.lateFeesService = new LateFeesService({ prisma });
+  }
+
+  /**
+   * Get the document templates configured for an account (Setting "document_templates")
+   */
+  async getTemplates(accountId: number): Promise<DocumentTemplates> {
+    const setting = await this.prisma.setting.findUnique({
+      where: { accountId_key: { accountId, key: SettingKey.DOCUMENT_TEMPLATES } },
+    });
+    return normalizeDocumentTemplates(setting?.value);
+  }
+
+  /**
+   * Contract PDF of an operation (null when not found)
+   */
+  async getContractPdf(operationId: bigint) {
+    const operation = await this.prisma.operation.findFirst({
+      where: { id: operationId, deletedAt: null },
+      include: {
+        account: { include: { address: true } },
+        client: { include: { address: true } },
+        resource: true,
+        installmentsList: {
+          where: { deletedAt: null, status: { not: InstallmentStatus.CANCELLED } },
+          orderBy: { dueDate: 'asc' },
+        },
+      },
+    });
+    if (!operation) return null;
+
+    const [templates, lateFeePolicy] = await Promise.all([
+      this.getTemplates(operation.accountId),
+      this.lateFeesService.getPolicy(operation.accountId),
+    ]);
+    const optional = (value: Prisma.Decimal | null) => (value === null ? null : Number(value));
+
+    return renderContractPdf(
+      {
+        account: this.toParty(operation.account),
+        accountCity: [operation.account.address?.city, operation.account.address?.state]
+          .filter(Boolean)
+          .join('/') || null,
+        client: this.toParty(operation.client),
+        operation: {
+          id: operation.id,
+          type: operation.type,
+          title: operation.title,
+          currency: operation.currency,
+          principalAmount: Number(operation.principalAmount),
+          entryAmount: optional(operation.entryAmount),
+          interestRate: optional(operation.interestRate),
+          amortizationSystem: operation.amortizationSystem,
+          frequency: operation.frequency,
+          startDate: operation.startDate,
+          depositAmount: optional(operation.depositAmount),
+          resourceTitle: operation.resource?.title || null,
+        },
+        installments: operation.installmentsList.map((installment) => ({
+          dueDate: installment.dueDate,
+          amount: Number(installment.amount),
+          principal: optional(installment.principal),
+          interest: optional(installment.interest),
+        })),
+        lateFeePolicy,
+        issuedAt: new Date(),
+      },
+      templates
+    );
+  }
+
+  /**
+   * Receipt PDF of a payment (null when not found)
+   */
+  async getReceiptPdf(paymentId: bigint) {
+    const payment = await this.prisma.payment.findFirst({
+      where: { id: paymentId, deletedAt: null },
+      include: {
+        client: { include: { address: true } },
+        operation: { include: { account: { include: { address: true } } } },
+        allocations: { include: { installment: true }, orderBy: { installment: { dueDate: 'asc' } } },
+        reversal: true,
+      },
+    });
+    if (!payment) return null;
+
+    const templates = await this.getTemplates(payment.operation.accountId);
+
+    return renderReceiptPdf(
+      {
+        account: this.toParty(payment.operation.account),
+        client: this.toParty(payment.client),
+        payment: {
+          id: payment.id,
+          amount: Number(payment.amount),
+          currency: payment.currency,
+          paidAt: payment.paidAt,
+          method: payment.method,
+          reference: payment.reference,
+          reversalOfId: payment.reversalOfId,
+          reversedAt: payment.reversal?.paidAt || null,
+        },
+        operation: payment.operation,
+        allocations: payment.allocations.map((allocation) => ({
+          dueDate: allocation.installment.dueDate,
+          amount: Number(allocation.amount),
+          principalAmount: Number(allocation.principalAmount),
+          interestAmount: Number(allocation.interestAmount),
+          feeAmount: Number(allocation.feeAmount),
+        })),
+        issuedAt: new Date(),
+      },
+      templates
+    );
+  }
+
+  /**
+   * Statement PDF of a client, optionally limited to a due/paid date window (null when not found)
+   */
+  async getStatementPdf(clientId: number, period: { from?: Date; to?: Date } = {}) {
+    const client = await this.prisma.client.findFirst({
+      where: { id: clientId, deletedAt: null },
+      include: { address: true, account: { include: { address: true } } },
+    });
+    if (!client) return null;
+
+    const dateRange = period.from || period.to ? { gte: period.from, lte: period.to } : undefined;
+    const operationFilter = { clientId, deletedAt: null };
+
+    const [operations, installments, payments] = await Promise.all([
+      this.prisma.operation.findMany({
+        where: operationFilter,
+        select: { id: true, currency: true, principalAmount: true, entryAmount: true },
+      }),
+      this.prisma.installment.findMany({
+        where: {
+          deletedAt: null,
+          status: { not: InstallmentStatus.CANCELLED },
+          operation: operationFilter,
+          ...(dateRange && { dueDate: dateRange }),
+        },
+        orderBy: [{ dueDate: 'asc' }, { operationId: 'asc' }],
+      }),
+      this.prisma.payment.findMany({
+        where: {
+          deletedAt: null,
+          operation: operationFilter,
+          ...(dateRange && { paidAt: dateRange }),
+        },
+        orderBy: [{ paidAt: 'asc' }, { id: 'asc' }],
+      }),
+    ]);
+
+    const account = client.account;
+    const templates = account ? await this.getTemplates(account.id) : normalizeDocumentTemplates(null);
+    const now = new Date();
+
+    const rows = installments.map((installment) => {
+      const openAmount = installment.status === InstallmentStatus.PAID ? 0 : getRemainingAmount(installment);
+      return {
+        operationId: installment.operationId,
+        dueDate: installment.dueDate,
+        amount: Number(installment.amount),
+        paidAmount: Number(installment.paidAmount),
+        openAmount,
+        status: installment.status,
+      };
+    });
+
+    return renderStatementPdf(
+      {
+        account: account ? this.toParty(account) : { name: null, document: null, address: null },
+        client: this.toParty(client),
+        currency: account?.currency || operations[0]?.currency || 'BRL',
+        from: period.from || null,
+        to: period.to || null,
+        summary: {
+          operations: operations.length,
+          contracted: round(rows.reduce((sum, row) => sum + row.amount, 0)),
+          paid: round(payments.reduce((sum, payment) => sum + Number(payment.amount), 0)),
+          open: round(rows.reduce((sum, row) => sum + row.openAmount, 0)),
+          overdue: round(rows.filter((row) => row.dueDate < now).reduce((sum, row) => sum + row.openAmount, 0)),
+        },
+        installments: rows,
+        payments: payments.map((payment) => ({
+          id: payment.id,
+          operationId: payment.operationId,
+          paidAt: payment.paidAt,
+          method: payment.method,
+          amount: Number(payment.amount),
+        })),
+        issuedAt: now,
+      },
+      templates
+    );
+  }
+
+  private toParty(entity: {
+    name: string | null;
+    document: string | null;
+    email?: string | null;
+    phone?: string | null;
+    address?: PartyAddress | null;
+  }): DocumentParty {
+    return {
+      name: entity.name,
+      document: entity.document,
+      address: formatPartyAddress(entity.address),
+      email: entity.email || null,
+      phone: entity.phone || null,
+    };
+  }
+}
+
+export default DocumentsService;
@@ -0,0 +1,51 @@
+/**
+ * Dunning Service
+ * Collection reminder rules of the accounts; the alerts of each operation are kept in line
+ * by syncDunningAlerts whenever its installments change
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { SettingKey } from '../constants/enums';
+import { DUNNING_INSTALLMENT_STATUSES, syncDunningAlerts } from '../utils/dunning';
+
+export class DunningService {
+  private prisma: PrismaClient;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Sync the open operations of every account with dunning rules, so rule changes reach
+   * existing operations and steps skipped while the account had dunning disabled are
+   * created (scheduled job)
+   */
+  async syncAll(now: Date = new Date()) {
+    const settings = await this.prisma.setting.findMany({
+      where: { key: SettingKey.DUNNING_RULES, deletedAt: null },
+      select: { accountId: true },
+    });
+    const accountIds = settings.filter((s) => s.accountId).map((s) => s.accountId as number);
+
+    const operations = accountIds.length
+      ? await this.prisma.operation.findMany({
+          where: {
+            accountId: { in: accountIds },
+            deletedAt: null,
+            installmentsList: { some: { deletedAt: null, status: { in: DUNNING_INSTALLMENT_STATUSES } } },
+          },
+          select: { id: true },
+        })
+      : [];
+
+    const totals = { operations: operations.length, created: 0, cancelled: 0 };
+    for (const { id } of operations) {
+      const result = await syncDunningAlerts(this.prisma, id, now);
+      totals.created += result.created;
+      totals.cancelled += result.cancelled;
+    }
+    return totals;
+  }
+}
+
+export default DunningService;
@@ -0,0 +1,71 @@
+/**
+ * Economic Indexes Service
+ * Local table of monthly price index variations (IGP-M, IPCA) used for rent readjustments
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { UpsertIndexRatesDto } from '../dtos/economicIndexes.dto';
+import { accumulateIndexVariation, adjustmentReferenceMonths } from '../utils/rental';
+
+export class EconomicIndexesService {
+  private prisma: PrismaClient;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+  }
+
+  async findAll(filters: { index?: string; from?: Date; to?: Date }) {
+    const where: Prisma.EconomicIndexRateWhereInput = {};
+    if (filters.index) where.index = filters.index;
+    if (filters.from || filters.to) {
+      where.referenceMonth = {};
+      if (filters.from) where.referenceMonth.gte = filters.from;
+      if (filters.to) where.referenceMonth.lte = filters.to;
+    }
+
+    return this.prisma.economicIndexRate.findMany({
+      where,
+      orderBy: [{ index: 'asc' }, { referenceMonth: 'asc' }],
+    });
+  }
+
+  /**
+   * Create or replace the monthly rates of an index
+   */
+  async upsertRates(index: string, dto: UpsertIndexRatesDto, actor?: string) {
+    return this.prisma.$transaction(
+      dto.rates.map((rate) => {
+        const referenceMonth = new Date(`${rate.month}-01T00:00:00Z`);
+        return this.prisma.economicIndexRate.upsert({
+          where: { index_referenceMonth: { index, referenceMonth } },
+          create: { index, referenceMonth, rate: rate.rate, createdBy: actor },
+          update: { rate: rate.rate, updatedBy: actor },
+        });
+      })
+    );
+  }
+
+  /**
+   * Accumulated variation (percent) of an index over the 12 months before the anniversary month
+   * Returns null while any of those months is missing from the table
+   */
+  async getAccumulatedVariation(
+    index: string,
+    anniversary: Date,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<number | null> {
+    const months = adjustmentReferenceMonths(anniversary);
+    const rates = await client.economicIndexRate.findMany({
+      where: { index, referenceMonth: { in: months } },
+      orderBy: { referenceMonth: 'asc' },
+    });
+
+    if (rates.length < months.length) {
+      return null;
+    }
+
+    return accumulateIndexVariation(rates.map((r) => Number(r.rate)));
+  }
+}
+
+export default EconomicIndexesService;
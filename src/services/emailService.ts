@@ -0,0 +1,260 @@
+/**
+ * Email Service
+ * Renders the transactional emails (verification, password reset, welcome, invitation, payment
+ * receipt), sends them through the email provider and keeps one EmailLog row per email
+ */
+
+import { EmailLog, Prisma, PrismaClient } from '@prisma/client';
+import { InputJsonValue } from '@prisma/client/runtime/library';
+import EnvVars from '../common/EnvVars';
+import { NotificationChannel, NotificationDeliveryStatus } from '../constants/enums';
+import {
+  createNotificationProviders,
+  NotificationAttachment,
+  NotificationDeliveryError,
+  NotificationProvider,
+} from '../adapters/notificationProviders';
+import { EmailTemplateKey, paymentMethodLabel, renderEmail, roleLabel } from '../utils/emailTemplates';
+import { formatTemplateDate, formatTemplateMoney, resolveLocale, TemplateLocale } from '../utils/messageTemplates';
+import { isSystemRole } from '../utils/permissions';
+import { PaginationResult } from '~@/utils/pagination';
+import DocumentsService from './documentsService';
+
+// Retryable provider errors are tried again right away; codes and links can't wait for a job
+const EMAIL_ATTEMPTS = 2;
+
+export interface SendEmailInput {
+  to: string;
+  name?: string | null;
+  template: EmailTemplateKey;
+  locale?: TemplateLocale;
+  variables: Record<string, unknown>;
+  accountId?: number | null;
+  reference: string; // e.g. "payment:42", sent to the provider as idempotency key
+  attachments?: NotificationAttachment[];
+}
+
+interface EmailUser {
+  id: number;
+  name: string;
+  email: string;
+  meta?: Prisma.JsonValue | null;
+}
+
+const metaLocale = (meta: Prisma.JsonValue | null | undefined) => (meta as Record<string, unknown> | null)?.locale;
+
+export class EmailService {
+  private prisma: PrismaClient;
+  private documentsService: DocumentsService;
+  private provider: NotificationProvider;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+    this.documentsService = new DocumentsService({ prisma });
+    this.provider = createNotificationProviders()[NotificationChannel.EMAIL];
+  }
+
+  async findAll(filters: { page?: number; limit?: number; accountId?: number; to?: string; template?: string; status?: string }) {
+    const { page = 1, limit = 20, accountId, to, template, status } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.EmailLogWhereInput = {};
+    if (accountId) where.accountId = accountId;
+    if (to) where.to = { equals: to, mode: 'insensitive' };
+    if (template) where.template = template;
+    if (status) where.status = status;
+
+    const [data, total] = await Promise.all([
+      this.prisma.emailLog.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.emailLog.count({ where }),
+    ]);
+
+    return {
+      results: data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    } as PaginationResult<any>;
+  }
+
+  async findById(id: number) {
+    return this.prisma.emailLog.findUnique({ where: { id } });
+  }
+
+  /**
+   * Render and send an email. Provider failures don't throw: the log comes back FAILED
+   */
+  async send(input: SendEmailInput): Promise<EmailLog> {
+    const locale = input.locale ?? resolveLocale();
+    const email = renderEmail(input.template, locale, input.variables);
+
+    let lastError: Error | null = null;
+    for (let attempt = 1; attempt <= EMAIL_ATTEMPTS; attempt++) {
+      try {
+        const result = await this.provider.send({
+          channel: NotificationChannel.EMAIL,
+          recipient: { name: input.name, email: input.to },
+          title: email.subject,
+          body: email.text,
+          html: email.html,
+          attachments: input.attachments,
+          reference: input.reference,
+        });
+
+        return this.prisma.emailLog.create({
+          data: {
+            accountId: input.accountId ?? null,
+            to: input.to,
+            template: input.template,
+            locale,
+            subject: email.subject,
+            status: NotificationDeliveryStatus.SENT,
+            provider: result.provider,
+            providerMessageId: result.providerMessageId,
+            reference: input.reference,
+            meta: { attempts: attempt, attachments: (input.attachments ?? []).map((a) => a.filename) } as InputJsonValue,
+            sentAt: result.sentAt,
+          },
+        });
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        if (error instanceof NotificationDeliveryError && !error.retryable) break;
+      }
+    }
+
+    console.error(`Failed to send ${input.template} email to ${input.to}:`, lastError?.message);
+    return this.prisma.emailLog.create({
+      data: {
+        accountId: input.accountId ?? null,
+        to: input.to,
+        template: input.template,
+        locale,
+        subject: email.subject,
+        status: NotificationDeliveryStatus.FAILED,
+        provider: this.provider.name,
+        error: lastError?.message ?? 'unknown error',
+        reference: input.reference,
+      },
+    });
+  }
+
+  async sendVerificationCode(input: {
+    to: string;
+    name?: string | null;
+    code: string;
+    expiresAt: Date;
+    locale?: unknown;
+    accountId?: number | null;
+    reference: string;
+  }): Promise<EmailLog> {
+    return this.send({
+      to: input.to,
+      name: input.name,
+      template: 'verification',
+      locale: resolveLocale(input.locale),
+      variables: {
+        name: input.name || input.to,
+        code: input.code,
+        minutes: Math.max(1, Math.round((input.expiresAt.getTime() - Date.now()) / 60000)),
+      },
+      accountId: input.accountId,
+      reference: input.reference,
+    });
+  }
+
+  async sendPasswordReset(user: EmailUser, token: string, expiresAt: Date): Promise<EmailLog> {
+    return this.send({
+      to: user.email,
+      name: user.name,
+      template: 'password_reset',
+      locale: resolveLocale(metaLocale(user.meta)),
+      variables: {
+        name: user.name,
+        link: `${EnvVars.Email.AppUrl}/reset-password?token=${encodeURIComponent(token)}`,
+        hours: Math.max(1, Math.round((expiresAt.getTime() - Date.now()) / 3600000)),
+      },
+      reference: `password_reset:${user.id}:${expiresAt.getTime()}`,
+    });
+  }
+
+  async sendWelcome(user: EmailUser, account: { id: number; name: string; meta?: Prisma.JsonValue | null }): Promise<EmailLog> {
+    return this.send({
+      to: user.email,
+      name: user.name,
+      template: 'welcome',
+      locale: resolveLocale(metaLocale(user.meta), metaLocale(account.meta)),
+      variables: { name: user.name, accountName: account.name, link: `${EnvVars.Email.AppUrl}/login` },
+      accountId: account.id,
+      reference: `welcome:${user.id}:${account.id}`,
+    });
+  }
+
+  async sendInvitation(
+    invitation: { id: number; email: string; role: string; roleName?: string; expiresAt: Date },
+    token: string,
+    inviter: { name: string },
+    account: { id: number; name: string; meta?: Prisma.JsonValue | null }
+  ): Promise<EmailLog> {
+    const locale = resolveLocale(metaLocale(account.meta));
+    return this.send({
+      to: invitation.email,
+      template: 'invitation',
+      locale,
+      variables: {
+        inviterName: inviter.name,
+        accountName: account.name,
+        role: isSystemRole(invitation.role) ? roleLabel(invitation.role, locale) : invitation.roleName ?? invitation.role,
+        link: `${EnvVars.Email.AppUrl}/invitations/accept?token=${token}`,
+        days: Math.max(1, Math.round((invitation.expiresAt.getTime() - Date.now()) / 86400000)),
+      },
+      accountId: account.id,
+      reference: `invitation:${invitation.id}`,
+    });
+  }
+
+  /**
+   * Email the receipt PDF of a payment to the client (null when the client has no email)
+   */
+  async sendPaymentReceipt(paymentId: bigint): Promise<EmailLog | null> {
+    const payment = await this.prisma.payment.findFirst({
+      where: { id: paymentId, deletedAt: null },
+      include: { client: true, operation: { include: { account: true } } },
+    });
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+    if (!payment.client.email) return null;
+
+    const { client, operation } = payment;
+    const locale = resolveLocale(metaLocale(client.meta), metaLocale(operation.account.meta));
+    const pdf = await this.documentsService.getReceiptPdf(paymentId);
+
+    return this.send({
+      to: client.email,
+      name: client.name,
+      template: 'payment_receipt',
+      locale,
+      variables: {
+        name: client.name || client.email,
+        accountName: operation.account.name,
+        amount: formatTemplateMoney(Number(payment.amount), payment.currency, locale),
+        paidAt: formatTemplateDate(payment.paidAt, locale),
+        method: paymentMethodLabel(payment.method, locale),
+        operationTitle: operation.title || `#${operation.id}`,
+      },
+      accountId: operation.accountId,
+      reference: `payment:${payment.id}`,
+      attachments: pdf ? [{ filename: `recibo-${payment.id}.pdf`, content: pdf, contentType: 'application/pdf' }] : [],
+    });
+  }
+}
+
+export default EmailService;
@@ -22,6 +22,7 @@ export interface OperationTypeMapping {
 const DEFAULT_OPERATION_TYPE_MAPPING: OperationTypeMapping = {
   LOAN: 'LOAN',
   RENTAL: 'RENT_ROOM', // Default rental, can be overridden by meta
+  PROMISSORY_NOTE: 'PROMISSORY_NOTE',
   OTHER: 'OTHER',
 };
 
@@ -6,12 +6,24 @@ import { PrismaClient } from '@prisma/client';
 import { UpdateInstallmentDto } from '../dtos/installments.dto';
 import { InstallmentStatus } from '../constants/enums';
 import { PaginationResult } from '~@/utils/pagination';
+import LateFeesService from './lateFeesService';
+import PaymentAllocationService, { OPEN_INSTALLMENT_STATUSES } from './paymentAllocationService';
+import OperationLifecycleService from './operationLifecycleService';
+import { roundToTwoDecimals } from '../utils/dateHelpers';
+import { syncDunningAlerts } from '../utils/dunning';
+import { getRemainingAmount } from '../utils/paymentAllocation';
 
 export class InstallmentsService {
   private prisma: PrismaClient;
+  private lateFeesService: LateFeesService;
+  private paymentAllocationService: PaymentAllocationService;
+  private lifecycleService: OperationLifecycleService;
 
   constructor({ prisma }: { prisma: PrismaClient }) {
     this.prisma = prisma;
+    this.lateFeesService = new LateFeesService({ prisma });
+    this.paymentAllocationService = new PaymentAllocationService({ prisma });
+    this.lifecycleService = new OperationLifecycleService({ prisma });
   }
 
   async findAll(filters: {
@@ -54,7 +66,7 @@ export class InstallmentsService {
     ]);
 
     return {
-      results: data,
+      results: await this.lateFeesService.withAccrual(data),
       pagination: {
         page,
         limit,
@@ -65,7 +77,7 @@ export class InstallmentsService {
   }
 
   async findById(id: bigint) {
-    return this.prisma.installment.findUnique({
+    const installment = await this.prisma.installment.findUnique({
       where: { id },
       include: {
         operation: {
@@ -77,6 +89,14 @@ export class InstallmentsService {
         payments: true,
       },
     });
+
+    if (!installment) {
+      return null;
+    }
+
+    // Expose the accrued "amount due today" (fine + daily interest when late)
+    const [withAccrual] = await this.lateFeesService.withAccrual([installment]);
+    return withAccrual;
   }
 
   async update(id: bigint, dto: UpdateInstallmentDto) {
@@ -88,14 +108,21 @@ export class InstallmentsService {
         : dto.dueDate;
     }
     if (dto.amount !== undefined) {
-      updateData.amount = typeof dto.amount === 'string' 
+      const amount = typeof dto.amount === 'string' 
         ? parseFloat(dto.amount) 
         : dto.amount;
+      const current = await this.prisma.installment.findUnique({
+        where: { id },
+        select: { paidAmount: true },
+      });
+      updateData.amount = amount;
+      // Keep the open balance consistent with what has already been paid
+      updateData.remainingAmount = roundToTwoDecimals(amount - Number(current?.paidAmount ?? 0));
     }
     if (dto.notes !== undefined) updateData.notes = dto.notes;
     if (dto.status !== undefined) updateData.status = dto.status;
 
-    return this.prisma.installment.update({
+    const installment = await this.prisma.installment.update({
       where: { id },
       data: updateData,
       include: {
@@ -103,40 +130,48 @@ export class InstallmentsService {
         payments: true,
       },
     });
+
+    if (dto.status !== undefined) {
+      await this.lifecycleService.syncWithInstallments(this.prisma, installment.operationId);
+    } else if (dto.dueDate !== undefined) {
+      // Rescheduled: reminders move to the new due date
+      await syncDunningAlerts(this.prisma, installment.operationId);
+    }
+
+    return installment;
   }
 
-  async markPaid(id: bigint, paymentData?: {
-    amount?: number;
-    method?: string;
-    clientId?: number;
-    operationId?: bigint;
-  }) {
+  /**
+   * Record the payment that settles an installment: the amount due today (late fees
+   * included) unless a larger amount is given, in which case the excess rolls forward.
+   * Amounts that don't cover it are refused; partial payments go through /payments.
+   */
+  async markPaid(id: bigint, paymentData: { amount?: number; method?: string } = {}, actor?: string) {
     const installment = await this.findById(id);
     if (!installment) {
       throw new Error('Installment not found');
     }
+    if (!OPEN_INSTALLMENT_STATUSES.includes(installment.status)) {
+      throw new Error(`Installment is already ${installment.status.toLowerCase()}`);
+    }
 
-    // Create payment if provided
-    if (paymentData && paymentData.amount && paymentData.clientId && paymentData.operationId) {
-      await this.prisma.payment.create({
-        data: {
-          clientId: paymentData.clientId,
-          operationId: paymentData.operationId,
-          installmentId: id,
-          amount: paymentData.amount,
-          currency: installment.operation.currency,
-          method: paymentData.method,
-        },
-      });
+    const amountDue = installment.accrual?.amountDue ?? getRemainingAmount(installment);
+    const amount = paymentData.amount ?? amountDue;
+    if (Math.round(amount * 100) < Math.round(amountDue * 100)) {
+      throw new Error(`Payment amount is lower than the amount due (${amountDue})`);
     }
 
-    // Update installment status
-    return this.prisma.installment.update({
+    await this.paymentAllocationService.applyPayment({
+      operationId: installment.operationId,
+      installmentId: id,
+      amount,
+      currency: installment.operation.currency,
+      method: paymentData.method,
+      actor,
+    });
+
+    return this.prisma.installment.findUniqueOrThrow({
       where: { id },
-      data: {
-        status: InstallmentStatus.PAID,
-        paidAt: new Date(),
-      },
       include: {
         operation: true,
         payments: true,
@@ -0,0 +1,171 @@
+/**
+ * Late Fees Service
+ * Flags overdue installments and computes fine + daily interest accrued on them
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { InstallmentStatus, SettingKey } from '../constants/enums';
+import {
+  LateFeeAccrual,
+  LateFeePolicy,
+  calculateDaysLate,
+  calculateLateFees,
+  normalizeLateFeePolicy,
+} from '../utils/lateFees';
+import { getRemainingAmount } from '../utils/paymentAllocation';
+import OperationLifecycleService from './operationLifecycleService';
+
+export interface AccruableInstallment {
+  amount: unknown;
+  dueDate: Date;
+  status: string;
+  paidAmount?: unknown;
+  remainingAmount?: unknown;
+  lateFeesPaid?: unknown;
+  lateFeePercent?: unknown;
+}
+
+export class LateFeesService {
+  private prisma: PrismaClient;
+  private lifecycleService: OperationLifecycleService;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+    this.lifecycleService = new OperationLifecycleService({ prisma });
+  }
+
+  /**
+   * Get the late fee policy configured for an account (Setting "late_fee_policy")
+   */
+  async getPolicy(accountId: number): Promise<LateFeePolicy> {
+    const policies = await this.getPolicies([accountId]);
+    return policies.get(accountId) as LateFeePolicy;
+  }
+
+  /**
+   * Get late fee policies for several accounts at once, falling back to defaults
+   */
+  async getPolicies(accountIds: number[]): Promise<Map<number, LateFeePolicy>> {
+    const uniqueIds = Array.from(new Set(accountIds));
+    const settings = uniqueIds.length
+      ? await this.prisma.setting.findMany({
+          where: {
+            accountId: { in: uniqueIds },
+            key: SettingKey.LATE_FEE_POLICY,
+            deletedAt: null,
+          },
+        })
+      : [];
+
+    const policies = new Map<number, LateFeePolicy>();
+    for (const accountId of uniqueIds) {
+      const setting = settings.find((s) => s.accountId === accountId);
+      policies.set(accountId, normalizeLateFeePolicy(setting?.value));
+    }
+    return policies;
+  }
+
+  /**
+   * Compute the accrued amount due for an installment
+   * Returns null for installments that are no longer open (paid or cancelled)
+   */
+  calculateAccrual(installment: AccruableInstallment, policy: LateFeePolicy, asOf: Date = new Date()): LateFeeAccrual | null {
+    if (installment.status === InstallmentStatus.PAID || installment.status === InstallmentStatus.CANCELLED) {
+      return null;
+    }
+
+    const openAmount = getRemainingAmount(installment);
+
+    // Fine percent frozen on the installment takes precedence over the account policy
+    const finePercent = installment.lateFeePercent !== null && installment.lateFeePercent !== undefined
+      ? Number(installment.lateFeePercent)
+      : policy.finePercent;
+
+    return calculateLateFees(
+      openAmount,
+      installment.dueDate,
+      { ...policy, finePercent },
+      asOf,
+      Number(installment.lateFeesPaid ?? 0)
+    );
+  }
+
+  /**
+   * Attach the accrual ("amount due today") to installments that include their operation
+   */
+  async withAccrual<T extends AccruableInstallment & { operation: { accountId: number } }>(
+    installments: T[],
+    asOf: Date = new Date()
+  ): Promise<Array<T & { accrual: LateFeeAccrual | null }>> {
+    const policies = await this.getPolicies(installments.map((i) => i.operation.accountId));
+
+    return installments.map((installment) => ({
+      ...installment,
+      accrual: this.calculateAccrual(
+        installment,
+        policies.get(installment.operation.accountId) as LateFeePolicy,
+        asOf
+      ),
+    }));
+  }
+
+  /**
+   * Flip open installments (PENDING or PARTIALLY_PAID) past their due date (and grace period)
+   * to LATE, freeze the fine percent in effect at that moment and move their operations to OVERDUE
+   */
+  async markOverdueInstallments(asOf: Date = new Date()): Promise<{ updated: number }> {
+    const overdue = await this.prisma.installment.findMany({
+      where: {
+        status: { in: [InstallmentStatus.PENDING, InstallmentStatus.PARTIALLY_PAID] },
+        dueDate: { lt: asOf },
+        deletedAt: null,
+        operation: { deletedAt: null },
+      },
+      select: {
+        id: true,
+        operationId: true,
+        dueDate: true,
+        lateFeePercent: true,
+        operation: { select: { accountId: true } },
+      },
+    });
+
+    if (!overdue.length) {
+      return { updated: 0 };
+    }
+
+    const policies = await this.getPolicies(overdue.map((i) => i.operation.accountId));
+    const operationIds = new Set<bigint>();
+    let updated = 0;
+
+    for (const [accountId, policy] of policies) {
+      const late = overdue.filter(
+        (i) => i.operation.accountId === accountId && calculateDaysLate(i.dueDate, asOf) > policy.graceDays
+      );
+      if (!late.length) continue;
+
+      await this.prisma.installment.updateMany({
+        where: { id: { in: late.filter((i) => i.lateFeePercent === null).map((i) => i.id) } },
+        data: { lateFeePercent: policy.finePercent },
+      });
+
+      const result = await this.prisma.installment.updateMany({
+        where: {
+          id: { in: late.map((i) => i.id) },
+          status: { in: [InstallmentStatus.PENDING, InstallmentStatus.PARTIALLY_PAID] },
+        },
+        data: { status: InstallmentStatus.LATE },
+      });
+      updated += result.count;
+      late.forEach((i) => operationIds.add(i.operationId));
+    }
+
+    for (const operationId of operationIds) {
+      await this.lifecycleService.syncWithInstallments(this.prisma, operationId);
+    }
+
+    return { updated };
+  }
+}
+
+export default LateFeesService;
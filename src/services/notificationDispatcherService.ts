@@ -0,0 +1,320 @@
+/**
+ * Notification Dispatcher Service
+ * Sends due alerts and pending notifications through the channel providers, keeping the
+ * delivery status and retries in their `meta.delivery`
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { InputJsonValue } from '@prisma/client/runtime/library';
+import EnvVars from '../common/EnvVars';
+import { NotificationChannel, NotificationDeliveryStatus } from '../constants/enums';
+import {
+  createNotificationProviders,
+  NotificationDeliveryError,
+  NotificationDeliveryResult,
+  NotificationMessage,
+  NotificationProviders,
+} from '../adapters/notificationProviders';
+import {
+  DeliveryState,
+  readDeliveryState,
+  recordDeliveryFailure,
+  recordDeliverySuccess,
+  withDeliveryState,
+} from '../utils/notificationDelivery';
+import { OPEN_INSTALLMENT_STATUSES, PAYABLE_OPERATION_STATUSES } from './paymentAllocationService';
+import TemplatesService from './templatesService';
+
+export interface DispatchSummary {
+  processed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+const alertInclude = {
+  operation: { include: { client: true, account: true } },
+} satisfies Prisma.AlertInclude;
+
+type AlertWithOperation = Prisma.AlertGetPayload<{ include: typeof alertInclude }>;
+type NotificationWithUser = Prisma.NotificationGetPayload<{ include: { user: true } }>;
+
+// Alerts to the operation client; the other channels notify a platform user
+const CLIENT_CHANNELS: string[] = [NotificationChannel.WHATSAPP, NotificationChannel.EMAIL];
+
+// How long a claimed alert stays hidden from other dispatcher runs
+const CLAIM_MINUTES = 5;
+
+const DEFAULT_BATCH_SIZE = 100;
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as Record<string, unknown>;
+
+export class NotificationDispatcherService {
+  private prisma: PrismaClient;
+  private providers: NotificationProviders;
+  private templatesService: TemplatesService;
+  private maxAttempts: number;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+    this.providers = createNotificationProviders();
+    this.templatesService = new TemplatesService({ prisma });
+    this.maxAttempts = Math.max(1, EnvVars.Notifications.MaxAttempts || 1);
+  }
+
+  /**
+   * Send the enabled alerts whose sendAt has passed (including retries, which move sendAt forward)
+   */
+  async dispatchDueAlerts(options: { now?: Date; limit?: number } = {}): Promise<DispatchSummary> {
+    const { now = new Date(), limit = DEFAULT_BATCH_SIZE } = options;
+    const due = await this.prisma.alert.findMany({
+      where: { enabled: true, deletedAt: null, sendAt: { lte: now } },
+      orderBy: { sendAt: 'asc' },
+      take: limit,
+      select: { id: true },
+    });
+
+    const summary: DispatchSummary = { processed: 0, sent: 0, retrying: 0, failed: 0 };
+    for (const { id } of due) {
+      const status = await this.dispatchAlert(id, now);
+      if (status) this.count(summary, status);
+    }
+    return summary;
+  }
+
+  /**
+   * Send one due alert. Returns the delivery status, or null when the alert is not due
+   * or another run already claimed it.
+   */
+  async dispatchAlert(id: number, now: Date = new Date()): Promise<NotificationDeliveryStatus | null> {
+    const alert = await this.prisma.alert.findFirst({
+      where: { id, enabled: true, deletedAt: null },
+      include: alertInclude,
+    });
+    if (!alert || !alert.sendAt || alert.sendAt > now) {
+      return null;
+    }
+
+    // Reminders of an installment settled in the meantime are dropped instead of sent
+    if (await this.isStaleReminder(alert)) {
+      await this.prisma.alert.update({
+        where: { id },
+        data: {
+          enabled: false,
+          meta: { ...asRecord(alert.meta), cancelledAt: now.toISOString() } as unknown as InputJsonValue,
+        },
+      });
+      return null;
+    }
+
+    const claimed = await this.prisma.alert.updateMany({
+      where: { id, enabled: true, sendAt: alert.sendAt },
+      data: { sendAt: new Date(now.getTime() + CLAIM_MINUTES * 60000) },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const meta = asRecord(alert.meta);
+    const channel = this.alertChannel(alert);
+    const previous = readDeliveryState(meta);
+    let state: DeliveryState;
+    let notificationId: number | null = null;
+
+    try {
+      const message = await this.buildAlertMessage(alert, channel, now);
+      const result = await this.send(message);
+      state = recordDeliverySuccess(previous, channel, result, now);
+
+      // Platform users also get the alert in their notification list
+      if (message.recipient.userId) {
+        const notification = await this.prisma.notification.create({
+          data: {
+            userId: message.recipient.userId,
+            title: message.title,
+            body: message.body,
+            channel,
+            sentAt: result.sentAt,
+            meta: { alertId: alert.id, delivery: state } as unknown as InputJsonValue,
+          },
+        });
+        notificationId = notification.id;
+      }
+    } catch (error) {
+      state = this.failure(previous, channel, error, now);
+    }
+
+    const finished = state.status !== NotificationDeliveryStatus.RETRYING;
+    await this.prisma.alert.update({
+      where: { id },
+      data: {
+        enabled: !finished,
+        sendAt: finished ? alert.sendAt : new Date(state.nextAttemptAt as string),
+        meta: {
+          ...withDeliveryState(meta, state),
+          ...(notificationId ? { notificationId } : {}),
+        } as unknown as InputJsonValue,
+      },
+    });
+
+    return state.status;
+  }
+
+  /**
+   * Send a stored notification and set sentAt from the provider response.
+   * Failures stay with sentAt null and are retried by retryNotifications.
+   */
+  async deliverNotification(notification: NotificationWithUser, now: Date = new Date()) {
+    const channel = notification.channel || NotificationChannel.IN_APP;
+    const previous = readDeliveryState(notification.meta);
+    let state: DeliveryState;
+
+    try {
+      const result = await this.send({
+        channel,
+        recipient: {
+          userId: notification.userId,
+          name: notification.user.name,
+          phone: notification.user.phone,
+          email: notification.user.email,
+        },
+        title: notification.title,
+        body: notification.body,
+        reference: `notification:${notification.id}`,
+        meta: asRecord(notification.meta),
+      });
+      state = recordDeliverySuccess(previous, channel, result, now);
+    } catch (error) {
+      state = this.failure(previous, channel, error, now);
+    }
+
+    return this.prisma.notification.update({
+      where: { id: notification.id },
+      data: {
+        sentAt: state.sentAt ? new Date(state.sentAt) : null,
+        meta: withDeliveryState(notification.meta, state) as unknown as InputJsonValue,
+      },
+      include: { user: true },
+    });
+  }
+
+  /**
+   * Retry notifications whose last delivery failed and whose next attempt is due
+   */
+  async retryNotifications(options: { now?: Date; limit?: number } = {}): Promise<DispatchSummary> {
+    const { now = new Date(), limit = DEFAULT_BATCH_SIZE } = options;
+    const pending = await this.prisma.notification.findMany({
+      where: {
+        sentAt: null,
+        deletedAt: null,
+        meta: { path: ['delivery', 'status'], equals: NotificationDeliveryStatus.RETRYING },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+      include: { user: true },
+    });
+
+    const summary: DispatchSummary = { processed: 0, sent: 0, retrying: 0, failed: 0 };
+    for (const notification of pending) {
+      const nextAttemptAt = readDeliveryState(notification.meta)?.nextAttemptAt;
+      if (nextAttemptAt && new Date(nextAttemptAt) > now) continue;
+
+      const updated = await this.deliverNotification(notification, now);
+      this.count(summary, readDeliveryState(updated.meta)?.status ?? NotificationDeliveryStatus.FAILED);
+    }
+    return summary;
+  }
+
+  private async send(message: NotificationMessage): Promise<NotificationDeliveryResult> {
+    const provider = this.providers[message.channel as NotificationChannel];
+    if (!provider) {
+      throw new NotificationDeliveryError(`Invalid notification channel: ${message.channel}`, false);
+    }
+    return provider.send(message);
+  }
+
+  private failure(previous: DeliveryState | null, channel: string, error: unknown, now: Date): DeliveryState {
+    const provider = this.providers[channel as NotificationChannel]?.name ?? null;
+    return recordDeliveryFailure(
+      previous,
+      channel,
+      provider,
+      {
+        message: error instanceof Error ? error.message : 'Delivery failed',
+        retryable: error instanceof NotificationDeliveryError ? error.retryable : true,
+      },
+      this.maxAttempts,
+      now
+    );
+  }
+
+  private count(summary: DispatchSummary, status: string) {
+    summary.processed++;
+    if (status === NotificationDeliveryStatus.SENT) summary.sent++;
+    else if (status === NotificationDeliveryStatus.RETRYING) summary.retrying++;
+    else summary.failed++;
+  }
+
+  private async isStaleReminder(alert: AlertWithOperation): Promise<boolean> {
+    const meta = asRecord(alert.meta);
+    if (!meta.dunning || meta.installmentId === undefined) return false;
+    if (!PAYABLE_OPERATION_STATUSES.includes(alert.operation.status)) return true;
+
+    const installment = await this.prisma.installment.findFirst({
+      where: { id: BigInt(String(meta.installmentId)), deletedAt: null, status: { in: OPEN_INSTALLMENT_STATUSES } },
+      select: { id: true },
+    });
+    return !installment;
+  }
+
+  // meta.channel of the alert, WhatsApp by default
+  private alertChannel(alert: AlertWithOperation): string {
+    const channel = asRecord(alert.meta).channel;
+    return typeof channel === 'string' && channel ? channel.toUpperCase() : NotificationChannel.WHATSAPP;
+  }
+
+  private async buildAlertMessage(alert: AlertWithOperation, channel: string, now: Date): Promise<NotificationMessage> {
+    const { operation } = alert;
+    const { client, account } = operation;
+    const meta = asRecord(alert.meta);
+
+    let recipient: NotificationMessage['recipient'];
+    if (CLIENT_CHANNELS.includes(channel)) {
+      recipient = { name: client.name, phone: client.phone, email: client.email };
+    } else {
+      // meta.userId, or the account owner
+      const userId = Number(meta.userId) || account.ownerId;
+      if (!userId) {
+        throw new NotificationDeliveryError('Alert has no platform user to notify', false);
+      }
+      const user = await this.prisma.platformUser.findUnique({ where: { id: userId } });
+      if (!user) {
+        throw new NotificationDeliveryError('Alert has no platform user to notify', false);
+      }
+      recipient = { userId: user.id, name: user.name, phone: user.phone, email: user.email };
+    }
+
+    const rendered = await this.templatesService.renderAlert(alert, channel, now);
+
+    return {
+      channel,
+      recipient,
+      title: rendered.subject || alert.type,
+      body: rendered.body,
+      reference: `alert:${alert.id}`,
+      // WhatsApp sends the approved template of the same key
+      template: rendered.key
+        ? { name: rendered.key, locale: rendered.locale, parameters: rendered.parameters }
+        : undefined,
+      meta: {
+        alertId: alert.id,
+        alertType: alert.type,
+        operationId: String(operation.id),
+        locale: rendered.locale,
+      },
+    };
+  }
+}
+
+export default NotificationDispatcherService;
@@ -6,6 +6,7 @@ import { PrismaClient } from '@prisma/client';
 import { NotificationChannel } from '../constants/enums';
 import { InputJsonValue } from '@prisma/client/runtime/library';
 import { PaginationResult } from '~@/utils/pagination';
+import NotificationDispatcherService from './notificationDispatcherService';
 
 export interface CreateNotificationDto {
   userId: number;
@@ -25,9 +26,11 @@ export interface UpdateNotificationDto {
 
 export class NotificationsService {
   private prisma: PrismaClient;
+  private notificationDispatcherService: NotificationDispatcherService;
 
   constructor({ prisma }: { prisma: PrismaClient }) {
     this.prisma = prisma;
+    this.notificationDispatcherService = new NotificationDispatcherService({ prisma });
   }
 
   async findAll(filters: {
@@ -91,7 +94,6 @@ export class NotificationsService {
       throw new Error(`Invalid notification channel: ${dto.channel}`);
     }
 
-    // TODO: Send notification via provider (WhatsApp, Push, etc.)
     const notification = await this.prisma.notification.create({
       data: {
         userId: dto.userId,
@@ -99,17 +101,14 @@ export class NotificationsService {
         body: dto.body,
         channel: dto.channel,
         meta: dto.meta as unknown as InputJsonValue,
-        sentAt: new Date(), // TODO: Set based on provider response
       },
       include: {
         user: true,
       },
     });
 
-    // TODO: Integrate with notification provider
-    // await notificationProvider.send(notification);
-
-    return notification;
+    // sentAt comes from the provider; failed deliveries are retried by the dispatcher cron
+    return this.notificationDispatcherService.deliverNotification(notification);
   }
 
   async update(id: number, dto: UpdateNotificationDto) {
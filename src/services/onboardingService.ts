@@ -13,7 +13,9 @@ import { OnboardingStatus } from '../constants/enums';
 import { validateDocument, normalizeDocument } from '../utils/documentValidator';
 import { EmailAlreadyExistsError, DocumentAlreadyExistsError, InvalidDocumentError, MissingRequiredFieldsError, WeakPasswordError, EmailNotVerifiedError, PhoneNotVerifiedError } from '../common/classes';
 import { AuthService } from './authService';
+import { SessionClient } from '../utils/authSessions';
 import { PlansService } from './plansService';
+import { EmailService } from './emailService';
 import bcrypt from 'bcrypt';
 import { UserRole } from '../constants/enums';
 
@@ -25,8 +27,9 @@ export class OnboardingService {
   private qualificationsService: QualificationsService;
   private authService: AuthService;
   private plansService: PlansService;
+  private emailService: EmailService;
 
-  constructor({ prisma, clientsService, accountsService, verificationService, qualificationsService, authService, plansService }: {
+  constructor({ prisma, clientsService, accountsService, verificationService, qualificationsService, authService, plansService, emailService }: {
     prisma: PrismaClient;
     clientsService: ClientsService;
     accountsService: AccountsService;
@@ -34,6 +37,7 @@ export class OnboardingService {
     qualificationsService: QualificationsService;
     authService: AuthService;
     plansService: PlansService;
+    emailService: EmailService;
   }) {
     this.prisma = prisma;
     this.clientsService = clientsService;
@@ -42,6 +46,7 @@ export class OnboardingService {
     this.qualificationsService = qualificationsService;
     this.authService = authService;
     this.plansService = plansService;
+    this.emailService = emailService;
   }
 
   /**
@@ -341,7 +346,7 @@ export class OnboardingService {
   /**
    * Submit onboarding - finalize registration (called at 99% - Options screen)
    */
-  async submitOnboarding(dto: OnboardingSubmitDto): Promise<{
+  async submitOnboarding(dto: OnboardingSubmitDto, sessionClient: SessionClient = {}): Promise<{
     success: boolean;
     userId: number;
     accountId: number;
@@ -555,14 +560,22 @@ export class OnboardingService {
       }, `${platformUser.id}-${platformUser.email}`);
     }
 
-    // Generate JWT tokens
-    const tokens = this.authService.generateTokens({
-      userId: platformUser.id,
-      email: platformUser.email,
-      role: platformUser.role,
-      accountId: account.id,
+    // Welcome email; a failed send is in the email log and doesn't undo the registration
+    await this.emailService.sendWelcome(platformUser, account).catch((error) => {
+      console.error('Failed to send welcome email:', error);
     });
 
+    // Generate JWT tokens
+    const tokens = await this.authService.generateTokens(
+      {
+        userId: platformUser.id,
+        email: platformUser.email,
+        role: platformUser.role,
+        accountId: account.id,
+      },
+      sessionClient
+    );
+
     return {
       success: true,
       userId: platformUser.id,
@@ -0,0 +1,136 @@
+/**
+ * Operation Lifecycle Service
+ * Guarded status transitions of operations and their timeline
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { OperationStatus } from '../constants/enums';
+import { SYSTEM_ACTOR } from '../utils/audit';
+import { canTransition, deriveOperationStatus } from '../utils/operationLifecycle';
+import { syncPromissoryNotes } from '../utils/promissoryNote';
+import { syncDunningAlerts } from '../utils/dunning';
+
+export interface TransitionOptions {
+  actor?: string;
+  reason?: string;
+}
+
+export class OperationLifecycleService {
+  private prisma: PrismaClient;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Move an operation to a new status, rejecting transitions the lifecycle does not allow
+   */
+  async transition(
+    client: Prisma.TransactionClient,
+    operationId: bigint,
+    to: string,
+    options: TransitionOptions = {}
+  ) {
+    const operation = await client.operation.findUnique({
+      where: { id: operationId },
+      select: { id: true, status: true },
+    });
+
+    if (!operation) {
+      throw new Error('Operation not found');
+    }
+    if (operation.status === to) {
+      return operation;
+    }
+    if (!canTransition(operation.status, to)) {
+      throw new Error(`Invalid operation status transition from ${operation.status} to ${to}`);
+    }
+
+    const actor = options.actor || SYSTEM_ACTOR;
+    const updated = await client.operation.update({
+      where: { id: operationId },
+      data: { status: to, updatedBy: actor },
+      select: { id: true, status: true },
+    });
+
+    await client.operationStatusChange.create({
+      data: {
+        operationId,
+        fromStatus: operation.status,
+        toStatus: to,
+        actor,
+        reason: options.reason,
+      },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Apply the automatic transition driven by the operation's installments
+   * (OVERDUE when any is late, ACTIVE when caught up, SETTLED when all are paid and no
+   * rental contract is still running)
+   * and keep its promissory notes and reminder alerts in line with them
+   */
+  async syncWithInstallments(
+    client: Prisma.TransactionClient,
+    operationId: bigint,
+    options: TransitionOptions = {}
+  ) {
+    await syncPromissoryNotes(client, operationId);
+    await syncDunningAlerts(client, operationId);
+
+    const operation = await client.operation.findUnique({
+      where: { id: operationId },
+      select: {
+        status: true,
+        installmentsList: {
+          where: { deletedAt: null },
+          select: { status: true },
+        },
+        rentalContract: { select: { endedAt: true } },
+      },
+    });
+
+    if (!operation) {
+      return null;
+    }
+
+    const next = deriveOperationStatus(
+      operation.status,
+      operation.installmentsList.map((i) => i.status),
+      !!operation.rentalContract && !operation.rentalContract.endedAt
+    );
+    if (!next || next === operation.status || !canTransition(operation.status, next)) {
+      return null;
+    }
+
+    return this.transition(client, operationId, next, {
+      actor: options.actor,
+      reason: options.reason || this.describeAutomaticTransition(next),
+    });
+  }
+
+  /**
+   * Timeline of every status change of an operation (oldest first)
+   */
+  async getHistory(operationId: bigint) {
+    return this.prisma.operationStatusChange.findMany({
+      where: { operationId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  private describeAutomaticTransition(status: OperationStatus): string {
+    switch (status) {
+      case OperationStatus.OVERDUE:
+        return 'Installment overdue';
+      case OperationStatus.SETTLED:
+        return 'All installments paid';
+      default:
+        return 'Installments up to date';
+    }
+  }
+}
+
+export default OperationLifecycleService;
@@ -4,20 +4,54 @@
  */
 
 import { PrismaClient } from '@prisma/client';
-import { CreateOperationDto, UpdateOperationDto } from '../dtos/operations.dto';
-import { calculateNextDueDate, roundToTwoDecimals } from '../utils/dateHelpers';
-import { InstallmentStatus } from '../constants/enums';
+import {
+  CreateOperationDto,
+  UpdateOperationDto,
+  SimulateOperationDto,
+  SettleOperationDto,
+  RenegotiateOperationDto,
+} from '../dtos/operations.dto';
+import { roundToTwoDecimals } from '../utils/dateHelpers';
+import { generateAmortizationSchedule, calculateEffectiveRate } from '../utils/amortization';
+import { AmortizationSystem, AuditAction, InstallmentStatus, OperationStatus, OperationType } from '../constants/enums';
 import { InputJsonValue } from '@prisma/client/runtime/library';
 import { PaginationResult } from '~@/utils/pagination';
+import { RecordNotFoundError } from '../common/classes';
+import { recordAuditLog, SYSTEM_ACTOR } from '../utils/audit';
+import { canTransition, INITIAL_OPERATION_STATUSES } from '../utils/operationLifecycle';
+import { bookingPeriod, OCCUPYING_OPERATION_STATUSES } from '../utils/occupancy';
+import { syncPromissoryNotes } from '../utils/promissoryNote';
+import { syncDunningAlerts } from '../utils/dunning';
 import FeatureAuthorizationService from './featureAuthorizationService';
+import PaymentAllocationService, { OPEN_INSTALLMENT_STATUSES } from './paymentAllocationService';
+import PayoffService from './payoffService';
+import OperationLifecycleService from './operationLifecycleService';
+import RentalsService from './rentalsService';
+import ResourcesService from './resourcesService';
+import PromissoryNotesService from './promissoryNotesService';
+import NotificationDispatcherService from './notificationDispatcherService';
 
 export class OperationsService {
   private prisma: PrismaClient;
   private featureAuthService: FeatureAuthorizationService;
+  private paymentAllocationService: PaymentAllocationService;
+  private payoffService: PayoffService;
+  private lifecycleService: OperationLifecycleService;
+  private rentalsService: RentalsService;
+  private resourcesService: ResourcesService;
+  private promissoryNotesService: PromissoryNotesService;
+  private notificationDispatcherService: NotificationDispatcherService;
 
   constructor({ prisma }: { prisma: PrismaClient }) {
     this.prisma = prisma;
     this.featureAuthService = new FeatureAuthorizationService({ prisma });
+    this.paymentAllocationService = new PaymentAllocationService({ prisma });
+    this.payoffService = new PayoffService({ prisma });
+    this.lifecycleService = new OperationLifecycleService({ prisma });
+    this.rentalsService = new RentalsService({ prisma });
+    this.resourcesService = new ResourcesService({ prisma });
+    this.promissoryNotesService = new PromissoryNotesService({ prisma });
+    this.notificationDispatcherService = new NotificationDispatcherService({ prisma });
   }
 
   /**
@@ -126,11 +160,37 @@ export class OperationsService {
         resource: true,
         photos: true,
         alerts: true,
+        rentalContract: true,
+        promissoryNotes: { orderBy: { sequence: 'asc' } },
+        parentOperation: {
+          include: {
+            installmentsList: { orderBy: { dueDate: 'asc' } },
+          },
+        },
+        renegotiations: {
+          include: {
+            installmentsList: { orderBy: { dueDate: 'asc' } },
+          },
+        },
       },
     });
   }
 
-  async create(dto: CreateOperationDto) {
+  async create(dto: CreateOperationDto, actor?: string) {
+    const status = dto.status || OperationStatus.ACTIVE;
+    if (!INITIAL_OPERATION_STATUSES.includes(status)) {
+      throw new Error(`Operations can only be created as ${INITIAL_OPERATION_STATUSES.join(' or ')}`);
+    }
+
+    // The client must belong to the account of the operation
+    const client = await this.prisma.client.findFirst({
+      where: { id: dto.clientId, accountId: dto.accountId, deletedAt: null },
+      select: { id: true },
+    });
+    if (!client) {
+      throw new RecordNotFoundError('Client');
+    }
+
     // Check feature-based operation limit (primary check)
     const featureLimitCheck = await this.featureAuthService.checkFeatureOperationLimit(
       dto.accountId,
@@ -148,68 +208,120 @@ export class OperationsService {
       throw new Error(limitCheck.message || 'Operation limit reached');
     }
 
-    const principalAmount = typeof dto.principalAmount === 'string' 
-      ? parseFloat(dto.principalAmount) 
-      : dto.principalAmount;
-    const entryAmount = dto.entryAmount 
-      ? (typeof dto.entryAmount === 'string' ? parseFloat(dto.entryAmount) : dto.entryAmount)
-      : 0;
-    const interestRate = dto.interestRate 
-      ? (typeof dto.interestRate === 'string' ? parseFloat(dto.interestRate) : dto.interestRate)
-      : 0;
-    const installmentsCount = dto.installments || 1;
-    const frequency = dto.frequency || 'MONTHLY';
-    
-    const startDate = typeof dto.startDate === 'string' 
-      ? new Date(dto.startDate) 
-      : dto.startDate;
+    const {
+      principalAmount,
+      entryAmount,
+      interestRate,
+      installmentsCount,
+      frequency,
+      amortizationSystem,
+      startDate,
+      financedAmount,
+    } = this.parseFinancialTerms(dto);
     const dueDate = dto.dueDate 
       ? (typeof dto.dueDate === 'string' ? new Date(dto.dueDate) : dto.dueDate)
       : null;
+    const depositAmount = dto.depositAmount 
+      ? (typeof dto.depositAmount === 'string' ? parseFloat(dto.depositAmount) : dto.depositAmount)
+      : null;
 
-    // Calculate amount per installment
-    const totalAmount = principalAmount - entryAmount;
-    const installmentAmount = roundToTwoDecimals(totalAmount / installmentsCount);
+    // Rentals bill a monthly rent (principalAmount) instead of a financed schedule
+    const isRental = dto.type === OperationType.RENTAL;
+    const rentalEndDate = dto.rental?.endDate ? new Date(dto.rental.endDate) : null;
+    if (isRental && frequency !== 'MONTHLY') {
+      throw new Error('Rental operations are billed monthly');
+    }
 
-    // Create operation with installments
-    const operation = await this.prisma.operation.create({
-      data: {
-        accountId: dto.accountId,
-        clientId: dto.clientId,
-        type: dto.type,
-        title: dto.title,
-        description: dto.description,
-        principalAmount: principalAmount,
-        currency: dto.currency || 'BRL',
-        startDate: startDate,
-        dueDate: dueDate,
-        frequency: frequency,
-        interestRate: interestRate > 0 ? interestRate : null,
-        entryAmount: entryAmount > 0 ? entryAmount : null,
-        installments: installmentsCount,
-        depositAmount: dto.depositAmount 
-          ? (typeof dto.depositAmount === 'string' ? parseFloat(dto.depositAmount) : dto.depositAmount)
-          : null,
-        collateralMeta: dto.collateralMeta as unknown as InputJsonValue,
-        meta: dto.meta as unknown as InputJsonValue,
-        status: dto.status,
-        resourceId: dto.resourceId,
-        installmentsList: {
-          create: this.generateInstallments(
-            startDate,
-            frequency,
-            installmentsCount,
-            installmentAmount,
-            principalAmount,
-            interestRate
-          ),
+    const operation = await this.prisma.$transaction(async (tx) => {
+      // A resource can only be held by one operation at a time
+      if (dto.resourceId && OCCUPYING_OPERATION_STATUSES.includes(status)) {
+        await this.resourcesService.assertAvailable(tx, dto.resourceId, {
+          start: startDate,
+          end: isRental ? rentalEndDate : dueDate,
+        });
+      }
+
+      // Create operation with installments
+      const created = await tx.operation.create({
+        data: {
+          accountId: dto.accountId,
+          clientId: dto.clientId,
+          type: dto.type,
+          title: dto.title,
+          description: dto.description,
+          principalAmount: principalAmount,
+          currency: dto.currency || 'BRL',
+          startDate: startDate,
+          dueDate: isRental ? rentalEndDate : dueDate,
+          frequency: frequency,
+          amortizationSystem: isRental ? null : amortizationSystem,
+          interestRate: !isRental && interestRate > 0 ? interestRate : null,
+          entryAmount: !isRental && entryAmount > 0 ? entryAmount : null,
+          installments: isRental ? null : installmentsCount,
+          depositAmount,
+          collateralMeta: dto.collateralMeta as unknown as InputJsonValue,
+          meta: dto.meta as unknown as InputJsonValue,
+          status,
+          resourceId: dto.resourceId,
+          createdBy: actor,
+          statusChanges: {
+            create: { fromStatus: null, toStatus: status, actor: actor || SYSTEM_ACTOR },
+          },
+          installmentsList: isRental
+            ? undefined
+            : {
+                create: this.generateInstallments(
+                  startDate,
+                  frequency,
+                  installmentsCount,
+                  financedAmount,
+                  interestRate,
+                  amortizationSystem
+                ),
+              },
+          rentalContract: isRental
+            ? {
+                create: this.rentalsService.buildContract({
+                  rentAmount: principalAmount,
+                  startDate,
+                  endDate: rentalEndDate,
+                  adjustmentIndex: dto.rental?.adjustmentIndex,
+                  monthsAhead: dto.rental?.monthsAhead,
+                  depositAmount: depositAmount ?? 0,
+                  actor,
+                }),
+              }
+            : undefined,
         },
-      },
-      include: {
-        installmentsList: true,
-        account: true,
-        client: true,
-      },
+        include: {
+          installmentsList: true,
+          account: true,
+          client: true,
+        },
+      });
+
+      // One promissory note per installment, signed by the client in favour of the account
+      if (dto.type === OperationType.PROMISSORY_NOTE) {
+        await this.promissoryNotesService.issueForOperation(tx, created.id, { ...dto.promissoryNote, actor });
+      }
+
+      if (!isRental) {
+        await syncDunningAlerts(tx, created.id);
+        return created;
+      }
+
+      // Rent charges are generated ahead and then kept up to date by the scheduled job
+      // (reminder alerts are scheduled as the charges are generated)
+      await this.rentalsService.generateCharges(tx, created.id);
+      return tx.operation.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          installmentsList: { orderBy: { dueDate: 'asc' } },
+          account: true,
+          client: true,
+          rentalContract: true,
+        },
+      });
     });
 
     // Record feature usage after successful operation creation
@@ -228,42 +340,139 @@ export class OperationsService {
     return operation;
   }
 
+  /**
+   * Preview the installment schedule, totals and effective cost (CET) of an operation
+   * Nothing is persisted and no feature usage is consumed
+   */
+  simulate(dto: SimulateOperationDto) {
+    const {
+      principalAmount,
+      entryAmount,
+      interestRate,
+      installmentsCount,
+      frequency,
+      amortizationSystem,
+      startDate,
+      financedAmount,
+    } = this.parseFinancialTerms(dto);
+    const feeAmount = dto.feeAmount
+      ? (typeof dto.feeAmount === 'string' ? parseFloat(dto.feeAmount) : dto.feeAmount)
+      : 0;
+
+    if (feeAmount >= financedAmount) {
+      throw new Error('Fee amount must be lower than financed amount');
+    }
+
+    const schedule = generateAmortizationSchedule({
+      financedAmount,
+      interestRate,
+      count: installmentsCount,
+      startDate,
+      frequency,
+      system: amortizationSystem,
+    });
+
+    const totalPrincipal = roundToTwoDecimals(schedule.reduce((sum, i) => sum + i.principal, 0));
+    const totalInterest = roundToTwoDecimals(schedule.reduce((sum, i) => sum + i.interest, 0));
+
+    return {
+      currency: dto.currency || 'BRL',
+      amortizationSystem,
+      frequency,
+      interestRate,
+      principalAmount,
+      entryAmount,
+      financedAmount: roundToTwoDecimals(financedAmount),
+      installments: schedule,
+      totals: {
+        principal: totalPrincipal,
+        interest: totalInterest,
+        fees: roundToTwoDecimals(feeAmount),
+        installments: roundToTwoDecimals(totalPrincipal + totalInterest),
+        total: roundToTwoDecimals(entryAmount + totalPrincipal + totalInterest + feeAmount),
+      },
+      // Fees are charged upfront, so the client effectively receives financed - fees
+      effectiveRate: calculateEffectiveRate(
+        financedAmount - feeAmount,
+        schedule.map((i) => i.amount),
+        frequency
+      ),
+      firstDueDate: schedule[0].dueDate,
+      lastDueDate: schedule[schedule.length - 1].dueDate,
+    };
+  }
+
+  /**
+   * Normalize the financial fields of an operation payload
+   */
+  private parseFinancialTerms(dto: CreateOperationDto) {
+    const principalAmount = typeof dto.principalAmount === 'string' 
+      ? parseFloat(dto.principalAmount) 
+      : dto.principalAmount;
+    const entryAmount = dto.entryAmount 
+      ? (typeof dto.entryAmount === 'string' ? parseFloat(dto.entryAmount) : dto.entryAmount)
+      : 0;
+    const interestRate = dto.interestRate 
+      ? (typeof dto.interestRate === 'string' ? parseFloat(dto.interestRate) : dto.interestRate)
+      : 0;
+    const installmentsCount = dto.installments || 1;
+    const frequency = dto.frequency || 'MONTHLY';
+    const amortizationSystem = dto.amortizationSystem || AmortizationSystem.PRICE;
+    const startDate = typeof dto.startDate === 'string' 
+      ? new Date(dto.startDate) 
+      : dto.startDate;
+
+    // Entry is paid upfront, only the remaining balance is financed
+    if (entryAmount >= principalAmount) {
+      throw new Error('Entry amount must be lower than principal amount');
+    }
+
+    return {
+      principalAmount,
+      entryAmount,
+      interestRate,
+      installmentsCount,
+      frequency,
+      amortizationSystem,
+      startDate,
+      financedAmount: principalAmount - entryAmount,
+    };
+  }
+
   private generateInstallments(
     startDate: Date,
     frequency: string,
     count: number,
-    baseAmount: number,
-    principalAmount: number,
-    interestRate: number
+    financedAmount: number,
+    interestRate: number,
+    amortizationSystem: string
   ) {
-    const installments = [];
-    const principalPerInstallment = roundToTwoDecimals(principalAmount / count);
-    const interestPerInstallment = interestRate > 0 
-      ? roundToTwoDecimals((principalAmount * interestRate / 100) / count)
-      : 0;
-
-    for (let i = 1; i <= count; i++) {
-      const dueDate = calculateNextDueDate(startDate, frequency, i);
-      installments.push({
-        dueDate,
-        amount: roundToTwoDecimals(baseAmount + interestPerInstallment),
-        principal: principalPerInstallment,
-        interest: interestPerInstallment > 0 ? interestPerInstallment : null,
-        status: InstallmentStatus.PENDING,
-      });
-    }
+    const schedule = generateAmortizationSchedule({
+      financedAmount,
+      interestRate,
+      count,
+      startDate,
+      frequency,
+      system: amortizationSystem,
+    });
 
-    return installments;
+    return schedule.map((installment) => ({
+      dueDate: installment.dueDate,
+      amount: installment.amount,
+      remainingAmount: installment.amount,
+      principal: installment.principal,
+      interest: installment.interest > 0 ? installment.interest : null,
+      status: InstallmentStatus.PENDING,
+    }));
   }
 
-  async update(id: bigint, dto: UpdateOperationDto) {
+  async update(id: bigint, dto: UpdateOperationDto, actor?: string) {
     // Prevent updating installments-related fields after creation
     // If needed, regenerate installments separately
     const updateData: Record<string, unknown> = {};
     
     if (dto.title !== undefined) updateData.title = dto.title;
     if (dto.description !== undefined) updateData.description = dto.description;
-    if (dto.status !== undefined) updateData.status = dto.status;
     if (dto.meta !== undefined) updateData.meta = dto.meta as unknown as InputJsonValue;
     if (dto.resourceId !== undefined) updateData.resourceId = dto.resourceId;
     if (dto.dueDate !== undefined) {
@@ -272,14 +481,40 @@ export class OperationsService {
         : dto.dueDate;
     }
 
-    return this.prisma.operation.update({
-      where: { id },
-      data: updateData,
-      include: {
-        installmentsList: true,
-        account: true,
-        client: true,
-      },
+    if (actor) updateData.updatedBy = actor;
+
+    return this.prisma.$transaction(async (tx) => {
+      // Status only changes through the lifecycle so the transition is validated and recorded
+      if (dto.status !== undefined) {
+        await this.lifecycleService.transition(tx, id, dto.status, { actor });
+      }
+
+      // Moving to another resource or changing the term must not double-book the resource
+      if (dto.resourceId !== undefined || dto.dueDate !== undefined) {
+        const current = await tx.operation.findFirst({
+          where: { id, deletedAt: null },
+          include: { rentalContract: true },
+        });
+        const resourceId = dto.resourceId ?? current?.resourceId;
+
+        if (current && resourceId && OCCUPYING_OPERATION_STATUSES.includes(current.status)) {
+          const period = bookingPeriod({
+            ...current,
+            dueDate: dto.dueDate !== undefined ? new Date(dto.dueDate) : current.dueDate,
+          });
+          await this.resourcesService.assertAvailable(tx, resourceId, period, id);
+        }
+      }
+
+      return tx.operation.update({
+        where: { id },
+        data: updateData,
+        include: {
+          installmentsList: true,
+          account: true,
+          client: true,
+        },
+      });
     });
   }
 
@@ -295,57 +530,217 @@ export class OperationsService {
     amount: number;
     method?: string;
     installmentId?: bigint;
-    clientId: number;
     reference?: string;
     meta?: Record<string, unknown>;
-  }) {
-    const operation = await this.findById(operationId);
-    if (!operation) {
+  }, actor?: string) {
+    // Without installmentId the payment is applied oldest-first; excess rolls forward
+    return this.paymentAllocationService.applyPayment({
+      operationId,
+      installmentId: paymentData.installmentId,
+      amount: paymentData.amount,
+      method: paymentData.method,
+      reference: paymentData.reference,
+      meta: paymentData.meta,
+      actor,
+    });
+  }
+
+  /**
+   * Quote the early payoff of an operation (null when not found)
+   */
+  async getPayoffQuote(operationId: bigint, asOf?: Date) {
+    return this.payoffService.getQuote(operationId, asOf);
+  }
+
+  /**
+   * Settle an operation early for its payoff total
+   */
+  async settle(operationId: bigint, dto: SettleOperationDto, actor?: string) {
+    return this.payoffService.settle(operationId, {
+      paidAt: dto.paidAt ? new Date(dto.paidAt) : undefined,
+      amount: dto.amount !== undefined
+        ? (typeof dto.amount === 'string' ? parseFloat(dto.amount) : dto.amount)
+        : undefined,
+      method: dto.method,
+      reference: dto.reference,
+      meta: dto.meta,
+      actor,
+    });
+  }
+
+  /**
+   * Renegotiate an operation: its payoff balance (open installments plus accrued fees,
+   * less the discount on anticipated interest) becomes the principal of a new child
+   * operation with the new rate/term. The parent's open installments are cancelled and
+   * kept as history. Renegotiations do not count against plan/feature limits.
+   */
+  async renegotiate(operationId: bigint, dto: RenegotiateOperationDto, actor?: string, ip?: string) {
+    const parent = await this.prisma.operation.findFirst({
+      where: { id: operationId, deletedAt: null },
+    });
+
+    if (!parent) {
       throw new Error('Operation not found');
     }
+    if (!canTransition(parent.status, OperationStatus.RENEGOTIATED)) {
+      throw new Error(`Operation cannot be renegotiated in status ${parent.status}`);
+    }
 
-    // Create payment
-    const payment = await this.prisma.payment.create({
-      data: {
-        clientId: paymentData.clientId,
-        operationId: operationId,
-        installmentId: paymentData.installmentId,
-        amount: paymentData.amount,
-        currency: operation.currency,
-        method: paymentData.method,
-        reference: paymentData.reference,
-        meta: paymentData.meta as unknown as InputJsonValue,
-      },
-    });
+    const renegotiatedAt = new Date();
+    const quote = await this.payoffService.getQuote(operationId, renegotiatedAt);
+    if (!quote || !quote.installments.length) {
+      throw new Error('Operation has no open installments');
+    }
+
+    const {
+      principalAmount,
+      entryAmount,
+      interestRate,
+      installmentsCount,
+      frequency,
+      amortizationSystem,
+      startDate,
+      financedAmount,
+    } = this.parseFinancialTerms({
+      accountId: parent.accountId,
+      clientId: parent.clientId,
+      type: parent.type,
+      currency: parent.currency,
+      principalAmount: quote.total,
+      entryAmount: dto.entryAmount,
+      interestRate: dto.interestRate,
+      installments: dto.installments,
+      frequency: dto.frequency || (parent.frequency as CreateOperationDto['frequency']) || undefined,
+      amortizationSystem: dto.amortizationSystem
+        || (parent.amortizationSystem as CreateOperationDto['amortizationSystem'])
+        || undefined,
+      startDate: dto.startDate || renegotiatedAt,
+    } as CreateOperationDto);
+
+    return this.prisma.$transaction(async (tx) => {
+      const cancelled = await tx.installment.updateMany({
+        where: {
+          id: { in: quote.installments.map((i) => i.installmentId) },
+          status: { in: OPEN_INSTALLMENT_STATUSES },
+        },
+        data: { status: InstallmentStatus.CANCELLED, updatedBy: actor },
+      });
 
-    // If installmentId provided, update installment status
-    if (paymentData.installmentId) {
-      const installment = await this.prisma.installment.findUnique({
-        where: { id: paymentData.installmentId },
-        include: { payments: true },
+      // A payment landed between the quote and now: the balance is stale
+      if (cancelled.count !== quote.installments.length) {
+        throw new Error('Operation installments changed during renegotiation, please retry');
+      }
+
+      await this.lifecycleService.transition(tx, operationId, OperationStatus.RENEGOTIATED, {
+        actor,
+        reason: dto.reason,
       });
 
-      if (installment) {
-        const totalPaid = installment.payments.reduce(
-          (sum: number, p: { amount: unknown }) => sum + Number(p.amount),
-          Number(payment.amount)
-        );
-
-        if (totalPaid >= Number(installment.amount)) {
-          // Fully paid
-          await this.prisma.installment.update({
-            where: { id: paymentData.installmentId },
-            data: {
-              status: InstallmentStatus.PAID,
-              paidAt: new Date(),
+      const child = await tx.operation.create({
+        data: {
+          accountId: parent.accountId,
+          clientId: parent.clientId,
+          type: parent.type,
+          title: dto.title || parent.title,
+          description: parent.description,
+          principalAmount,
+          currency: parent.currency,
+          startDate,
+          frequency,
+          amortizationSystem,
+          interestRate: interestRate > 0 ? interestRate : null,
+          entryAmount: entryAmount > 0 ? entryAmount : null,
+          installments: installmentsCount,
+          resourceId: parent.resourceId,
+          status: OperationStatus.ACTIVE,
+          parentOperationId: parent.id,
+          statusChanges: {
+            create: {
+              fromStatus: null,
+              toStatus: OperationStatus.ACTIVE,
+              actor: actor || SYSTEM_ACTOR,
+              reason: `Renegotiation of operation #${parent.id}`,
             },
-          });
-        }
-        // Partial payments are tracked via payments relationship
+          },
+          meta: {
+            ...(dto.meta || {}),
+            renegotiation: {
+              reason: dto.reason,
+              renegotiatedAt: renegotiatedAt.toISOString(),
+              outstandingPrincipal: quote.outstandingPrincipal,
+              interestDiscount: quote.interestDiscount,
+              lateFees: quote.lateFees,
+              balance: quote.total,
+            },
+          } as unknown as InputJsonValue,
+          createdBy: actor,
+          installmentsList: {
+            create: this.generateInstallments(
+              startDate,
+              frequency,
+              installmentsCount,
+              financedAmount,
+              interestRate,
+              amortizationSystem
+            ),
+          },
+        },
+        include: {
+          installmentsList: { orderBy: { dueDate: 'asc' } },
+          parentOperation: {
+            include: {
+              installmentsList: { orderBy: { dueDate: 'asc' } },
+            },
+          },
+        },
+      });
+
+      // The parent's notes and reminders are cancelled with its installments; the child gets new ones
+      await syncPromissoryNotes(tx, operationId);
+      await syncDunningAlerts(tx, operationId);
+      await syncDunningAlerts(tx, child.id);
+      if (parent.type === OperationType.PROMISSORY_NOTE) {
+        const parentNote = await tx.promissoryNote.findFirst({ where: { operationId } });
+        await this.promissoryNotesService.issueForOperation(tx, child.id, {
+          guarantorClientId: parentNote?.guarantorClientId ?? undefined,
+          issuePlace: parentNote?.issuePlace ?? undefined,
+          paymentPlace: parentNote?.paymentPlace ?? undefined,
+          actor,
+        });
       }
+
+      await recordAuditLog(tx, {
+        actor,
+        action: AuditAction.OPERATION_RENEGOTIATED,
+        entity: 'Operation',
+        entityId: parent.id,
+        before: { status: parent.status, openInstallments: quote.installments },
+        after: { status: OperationStatus.RENEGOTIATED, childOperationId: child.id, balance: quote.total },
+        ip,
+      });
+
+      return child;
+    });
+  }
+
+  /**
+   * Lifecycle timeline of an operation (null when not found)
+   */
+  async getHistory(operationId: bigint) {
+    const operation = await this.prisma.operation.findFirst({
+      where: { id: operationId, deletedAt: null },
+      select: { id: true, status: true },
+    });
+
+    if (!operation) {
+      return null;
     }
 
-    return payment;
+    return {
+      operationId: operation.id,
+      status: operation.status,
+      history: await this.lifecycleService.getHistory(operationId),
+    };
   }
 
   async triggerAlert(operationId: bigint, alertData: {
@@ -353,7 +748,6 @@ export class OperationsService {
     template?: string;
     sendAt?: Date;
   }) {
-    // TODO: Integrate with notification provider (WhatsApp, etc.)
     const alert = await this.prisma.alert.create({
       data: {
         operationId: operationId,
@@ -364,8 +758,11 @@ export class OperationsService {
       },
     });
 
-    // TODO: Send notification via provider
-    // await notificationService.send(alert);
+    // Alerts due now go out right away; scheduled ones are picked up by the dispatcher cron
+    if (alert.sendAt && alert.sendAt <= new Date()) {
+      await this.notificationDispatcherService.dispatchAlert(alert.id);
+      return this.prisma.alert.findUniqueOrThrow({ where: { id: alert.id } });
+    }
 
     return alert;
   }
@@ -0,0 +1,353 @@
+/**
+ * Payment Allocation Service
+ * Records payments and applies them to an operation's open installments
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { InputJsonValue } from '@prisma/client/runtime/library';
+import { AuditAction, InstallmentStatus, OperationStatus } from '../constants/enums';
+import { recordAuditLog } from '../utils/audit';
+import { calculateDaysLate } from '../utils/lateFees';
+import { allocatePayment, getRemainingAmount } from '../utils/paymentAllocation';
+import EmailService from './emailService';
+import LateFeesService from './lateFeesService';
+import OperationLifecycleService from './operationLifecycleService';
+
+export interface ApplyPaymentInput {
+  operationId: bigint;
+  installmentId?: bigint | null;
+  amount: number;
+  currency?: string;
+  paidAt?: Date;
+  method?: string;
+  reference?: string;
+  meta?: Record<string, unknown>;
+  actor?: string;
+}
+
+export interface ReversePaymentInput {
+  reason: string;
+  actor?: string;
+  ip?: string;
+}
+
+export const OPEN_INSTALLMENT_STATUSES: string[] = [
+  InstallmentStatus.PENDING,
+  InstallmentStatus.PARTIALLY_PAID,
+  InstallmentStatus.LATE,
+];
+
+// Operations that can still receive payments
+export const PAYABLE_OPERATION_STATUSES: string[] = [
+  OperationStatus.ACTIVE,
+  OperationStatus.OVERDUE,
+  OperationStatus.DEFAULTED,
+];
+
+export class PaymentAllocationService {
+  private prisma: PrismaClient;
+  private lateFeesService: LateFeesService;
+  private lifecycleService: OperationLifecycleService;
+  private emailService: EmailService;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+    this.lateFeesService = new LateFeesService({ prisma });
+    this.lifecycleService = new OperationLifecycleService({ prisma });
+    this.emailService = new EmailService({ prisma });
+  }
+
+  /**
+   * Create a payment and allocate it oldest-first (fees, interest, principal).
+   * When installmentId is given that installment is settled first; any excess
+   * rolls forward to the next open installments. The payment belongs to the operation's
+   * client, who gets the receipt by email.
+   */
+  async applyPayment(input: ApplyPaymentInput) {
+    const result = await this.prisma.$transaction((tx) => this.recordPayment(tx, input));
+    this.sendReceipt(result);
+    return result;
+  }
+
+  /**
+   * Record and allocate a payment inside the caller's transaction (see applyPayment), so
+   * whatever it pays (PIX charge, boleto, statement line) is claimed in the same commit.
+   * The receipt is up to the caller once the transaction commits (sendReceipt).
+   */
+  async recordPayment(tx: Prisma.TransactionClient, input: ApplyPaymentInput) {
+    const paidAt = input.paidAt || new Date();
+
+    // Allocations write absolute balances: payments of the same operation go one at a time
+    await this.lockOperation(tx, input.operationId);
+
+    const operation = await tx.operation.findFirst({
+      where: { id: input.operationId, deletedAt: null },
+      include: {
+        installmentsList: {
+          where: {
+            deletedAt: null,
+            status: { in: OPEN_INSTALLMENT_STATUSES },
+          },
+          orderBy: { dueDate: 'asc' },
+        },
+      },
+    });
+
+    if (!operation) {
+      throw new Error('Operation not found');
+    }
+    if (!PAYABLE_OPERATION_STATUSES.includes(operation.status)) {
+      throw new Error(`Operation does not accept payments in status ${operation.status}`);
+    }
+
+    let targets = operation.installmentsList;
+    if (input.installmentId) {
+      const target = targets.find((i) => i.id === input.installmentId);
+      if (!target) {
+        throw new Error('Installment not found or already settled');
+      }
+      targets = [target, ...targets.filter((i) => i.id !== target.id)];
+    }
+
+    const policy = await this.lateFeesService.getPolicy(operation.accountId);
+    const plan = allocatePayment(
+      input.amount,
+      targets.map((installment) => {
+        const accrual = this.lateFeesService.calculateAccrual(installment, policy, paidAt);
+        return {
+          id: installment.id,
+          amount: Number(installment.amount),
+          interest: Number(installment.interest ?? 0),
+          paidAmount: Number(installment.amount) - getRemainingAmount(installment),
+          outstandingFees: accrual ? accrual.amountDue - accrual.openAmount : 0,
+        };
+      })
+    );
+
+    const payment = await tx.payment.create({
+      data: {
+        clientId: operation.clientId,
+        operationId: input.operationId,
+        installmentId: input.installmentId ?? plan.allocations[0]?.installmentId ?? null,
+        amount: input.amount,
+        currency: input.currency || operation.currency,
+        paidAt,
+        method: input.method,
+        reference: input.reference,
+        meta: (plan.unallocatedAmount > 0
+          ? { ...(input.meta || {}), unallocatedAmount: plan.unallocatedAmount }
+          : input.meta) as unknown as InputJsonValue,
+        createdBy: input.actor,
+      },
+    });
+
+    for (const allocation of plan.allocations) {
+      const installment = targets.find((i) => i.id === allocation.installmentId)!;
+
+      await tx.paymentAllocation.create({
+        data: {
+          paymentId: payment.id,
+          installmentId: allocation.installmentId,
+          amount: allocation.amount,
+          feeAmount: allocation.feeAmount,
+          interestAmount: allocation.interestAmount,
+          principalAmount: allocation.principalAmount,
+        },
+      });
+
+      await tx.installment.update({
+        where: { id: allocation.installmentId },
+        data: {
+          paidAmount: allocation.paidAmount,
+          remainingAmount: allocation.remainingAmount,
+          lateFeesPaid: { increment: allocation.feeAmount },
+          status: allocation.settled
+            ? InstallmentStatus.PAID
+            : installment.status === InstallmentStatus.LATE
+              ? InstallmentStatus.LATE
+              : InstallmentStatus.PARTIALLY_PAID,
+          paidAt: allocation.settled ? paidAt : null,
+        },
+      });
+    }
+
+    await this.lifecycleService.syncWithInstallments(tx, input.operationId, { actor: input.actor });
+
+    return tx.payment.findUniqueOrThrow({
+      where: { id: payment.id },
+      include: {
+        client: true,
+        operation: true,
+        installment: true,
+        allocations: {
+          include: { installment: true },
+        },
+      },
+    });
+  }
+
+  // Lock the operation row until the transaction ends
+  private async lockOperation(tx: Prisma.TransactionClient, operationId: bigint) {
+    await tx.$queryRaw`SELECT "id" FROM "operations" WHERE "id" = ${operationId} FOR UPDATE`;
+  }
+
+  /**
+   * Email the receipt of a committed payment to its client (when they have an email).
+   * Sent after the commit so a slow mail server doesn't hold the transaction.
+   */
+  sendReceipt(payment: { id: bigint; client: { email: string | null } }) {
+    if (!payment.client.email) return;
+    this.emailService.sendPaymentReceipt(payment.id).catch((error) => {
+      console.error(`Failed to send receipt of payment ${payment.id}:`, error);
+    });
+  }
+
+  /**
+   * Reverse a payment by recording a compensating (negative) payment linked to it.
+   * The original row is never modified: its allocations are mirrored with negative
+   * amounts and every affected installment is reopened.
+   */
+  async reversePayment(paymentId: bigint, input: ReversePaymentInput) {
+    const reversedAt = new Date();
+
+    return this.prisma.$transaction(async (tx) => {
+      const original = await tx.payment.findFirst({
+        where: { id: paymentId, deletedAt: null },
+        include: {
+          allocations: true,
+          reversal: true,
+          operation: true,
+        },
+      });
+
+      if (!original) {
+        throw new Error('Payment not found');
+      }
+      if (original.reversalOfId !== null) {
+        throw new Error('A reversal entry cannot be reversed');
+      }
+      if (original.reversal) {
+        throw new Error('Payment has already been reversed');
+      }
+
+      await this.lockOperation(tx, original.operationId);
+
+      // Payments recorded before allocations existed settled a single installment as principal
+      const allocations = original.allocations.length
+        ? original.allocations.map((a) => ({
+            installmentId: a.installmentId,
+            amount: Number(a.amount),
+            feeAmount: Number(a.feeAmount),
+            interestAmount: Number(a.interestAmount),
+            principalAmount: Number(a.principalAmount),
+          }))
+        : original.installmentId
+          ? [{
+              installmentId: original.installmentId,
+              amount: Number(original.amount),
+              feeAmount: 0,
+              interestAmount: 0,
+              principalAmount: Number(original.amount),
+            }]
+          : [];
+
+      const reversal = await tx.payment.create({
+        data: {
+          clientId: original.clientId,
+          operationId: original.operationId,
+          installmentId: original.installmentId,
+          amount: -Number(original.amount),
+          currency: original.currency,
+          paidAt: reversedAt,
+          method: original.method,
+          reference: original.reference,
+          meta: { reason: input.reason },
+          reversalOfId: original.id,
+          createdBy: input.actor,
+        },
+      });
+
+      const installmentIds = allocations.map((a) => a.installmentId);
+      const installments = await tx.installment.findMany({
+        where: { id: { in: installmentIds } },
+      });
+      const policy = await this.lateFeesService.getPolicy(original.operation.accountId);
+
+      for (const allocation of allocations) {
+        const installment = installments.find((i) => i.id === allocation.installmentId);
+        if (!installment) continue;
+
+        await tx.paymentAllocation.create({
+          data: {
+            paymentId: reversal.id,
+            installmentId: allocation.installmentId,
+            amount: -allocation.amount,
+            feeAmount: -allocation.feeAmount,
+            interestAmount: -allocation.interestAmount,
+            principalAmount: -allocation.principalAmount,
+          },
+        });
+
+        const amountCents = Math.round(Number(installment.amount) * 100);
+        const paidCents = Math.max(
+          0,
+          Math.round(Number(installment.paidAmount) * 100) -
+            Math.round((allocation.interestAmount + allocation.principalAmount) * 100)
+        );
+        const lateFeesPaid = Math.max(0, Number(installment.lateFeesPaid) - allocation.feeAmount);
+
+        let status: string = paidCents > 0 ? InstallmentStatus.PARTIALLY_PAID : InstallmentStatus.PENDING;
+        if (installment.status === InstallmentStatus.CANCELLED) {
+          status = InstallmentStatus.CANCELLED;
+        } else if (calculateDaysLate(installment.dueDate, reversedAt) > policy.graceDays) {
+          status = InstallmentStatus.LATE;
+        }
+
+        await tx.installment.update({
+          where: { id: installment.id },
+          data: {
+            paidAmount: paidCents / 100,
+            remainingAmount: Math.max(0, amountCents - paidCents) / 100,
+            lateFeesPaid: Math.round(lateFeesPaid * 100) / 100,
+            status,
+            paidAt: null,
+          },
+        });
+      }
+
+      await this.lifecycleService.syncWithInstallments(tx, original.operationId, {
+        actor: input.actor,
+        reason: `Payment #${original.id} reversed`,
+      });
+
+      await recordAuditLog(tx, {
+        actor: input.actor,
+        action: AuditAction.PAYMENT_REVERSED,
+        entity: 'Payment',
+        entityId: original.id,
+        before: {
+          payment: { ...original, allocations: undefined, reversal: undefined, operation: undefined },
+          installments,
+        },
+        after: {
+          reversalId: reversal.id,
+          reason: input.reason,
+        },
+        ip: input.ip,
+      });
+
+      return tx.payment.findUnique({
+        where: { id: reversal.id },
+        include: {
+          reversalOf: true,
+          installment: true,
+          allocations: {
+            include: { installment: true },
+          },
+        },
+      });
+    });
+  }
+}
+
+export default PaymentAllocationService;
@@ -0,0 +1,362 @@
+/**
+ * Payment Webhooks Service
+ * Ingests provider webhooks idempotently, turns confirmed payments into Payment rows linked
+ * to the referenced installment and keeps the events that could not be matched for manual
+ * reconciliation
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { InputJsonValue } from '@prisma/client/runtime/library';
+import { PaymentWebhookEventStatus } from '../constants/enums';
+import { IgnorePaymentEventDto, ReconcilePaymentEventDto } from '../dtos/paymentEvents.dto';
+import { PaginationResult } from '~@/utils/pagination';
+import {
+  createPaymentProviderAdapters,
+  PaymentProviderAdapter,
+  WebhookRequest,
+} from '../adapters/paymentProviders';
+import { parseInstallmentReference } from '../utils/paymentReference';
+import PaymentAllocationService, { OPEN_INSTALLMENT_STATUSES } from './paymentAllocationService';
+import PixChargesService from './pixChargesService';
+
+export interface WebhookIngestSummary {
+  received: number;
+  processed: number;
+  unmatched: number;
+  failed: number;
+  ignored: number;
+  duplicates: number;
+}
+
+// Events waiting for someone to reconcile or ignore them
+export const PENDING_EVENT_STATUSES: string[] = [
+  PaymentWebhookEventStatus.RECEIVED,
+  PaymentWebhookEventStatus.UNMATCHED,
+  PaymentWebhookEventStatus.FAILED,
+];
+
+const installmentInclude = { operation: true } satisfies Prisma.InstallmentInclude;
+
+type InstallmentWithOperation = Prisma.InstallmentGetPayload<{ include: typeof installmentInclude }>;
+type WebhookEvent = Prisma.PaymentWebhookEventGetPayload<object>;
+
+interface ReferenceMatch {
+  installment: InstallmentWithOperation;
+  pixCharge?: Prisma.PixChargeGetPayload<{ include: { installment: true } }>;
+}
+
+export class PaymentWebhooksService {
+  private prisma: PrismaClient;
+  private adapters: PaymentProviderAdapter[];
+  private paymentAllocationService: PaymentAllocationService;
+  private pixChargesService: PixChargesService;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+    this.adapters = createPaymentProviderAdapters();
+    this.paymentAllocationService = new PaymentAllocationService({ prisma });
+    this.pixChargesService = new PixChargesService({ prisma });
+  }
+
+  /**
+   * Verify, store and process the events of a webhook call.
+   * Events already received (same provider event id) are skipped.
+   */
+  async ingest(provider: string, request: WebhookRequest): Promise<WebhookIngestSummary> {
+    const adapter = this.adapters.find((a) => a.provider === provider.toLowerCase());
+    if (!adapter) {
+      throw new Error('Unknown payment provider');
+    }
+    if (!adapter.verifySignature(request)) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const events = adapter.parseEvents(request);
+    const summary: WebhookIngestSummary = {
+      received: events.length,
+      processed: 0,
+      unmatched: 0,
+      failed: 0,
+      ignored: 0,
+      duplicates: 0,
+    };
+
+    for (const event of events) {
+      let record: WebhookEvent;
+      try {
+        record = await this.prisma.paymentWebhookEvent.create({
+          data: {
+            provider: adapter.provider,
+            eventId: event.eventId,
+            eventType: event.eventType,
+            status: event.isPayment ? PaymentWebhookEventStatus.RECEIVED : PaymentWebhookEventStatus.IGNORED,
+            reference: event.reference,
+            amount: event.amount,
+            currency: event.currency,
+            paidAt: event.paidAt,
+            method: event.method,
+            payload: event.payload as InputJsonValue,
+            processedAt: event.isPayment ? null : new Date(),
+          },
+        });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          summary.duplicates++;
+          continue;
+        }
+        throw error;
+      }
+
+      if (!event.isPayment) {
+        summary.ignored++;
+        continue;
+      }
+
+      const status = await this.process(record, event.endToEndId);
+      if (status === PaymentWebhookEventStatus.PROCESSED) summary.processed++;
+      else if (status === PaymentWebhookEventStatus.UNMATCHED) summary.unmatched++;
+      else summary.failed++;
+    }
+
+    return summary;
+  }
+
+  async findAll(filters: {
+    page?: number;
+    limit?: number;
+    provider?: string;
+    status?: string;
+    accountId?: number;
+    pending?: boolean;
+  }) {
+    const { page = 1, limit = 20, provider, status, accountId, pending } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.PaymentWebhookEventWhereInput = {};
+    if (provider) where.provider = provider;
+    if (status) where.status = status;
+    else if (pending) where.status = { in: PENDING_EVENT_STATUSES };
+    if (accountId) where.accountId = accountId;
+
+    const [data, total] = await Promise.all([
+      this.prisma.paymentWebhookEvent.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.paymentWebhookEvent.count({ where }),
+    ]);
+
+    return {
+      results: data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    } as PaginationResult<any>;
+  }
+
+  async findById(id: bigint) {
+    return this.prisma.paymentWebhookEvent.findUnique({
+      where: { id },
+      include: { installment: true, payment: true },
+    });
+  }
+
+  /**
+   * Manually apply a pending event to an installment
+   */
+  async reconcile(id: bigint, dto: ReconcilePaymentEventDto, actor?: string) {
+    const event = await this.prisma.paymentWebhookEvent.findUnique({ where: { id } });
+    if (!event) {
+      throw new Error('Payment event not found');
+    }
+    if (!PENDING_EVENT_STATUSES.includes(event.status)) {
+      throw new Error(`Payment event is already ${event.status.toLowerCase()}`);
+    }
+
+    const installment = await this.prisma.installment.findFirst({
+      where: { id: BigInt(dto.installmentId), deletedAt: null, operation: { deletedAt: null } },
+      include: installmentInclude,
+    });
+    if (!installment) {
+      throw new Error('Installment not found');
+    }
+
+    // The event is claimed in the same transaction as its payment: concurrent calls record one
+    const reconciled = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.paymentWebhookEvent.updateMany({
+        where: { id, status: { in: PENDING_EVENT_STATUSES } },
+        data: {
+          status: PaymentWebhookEventStatus.RECONCILED,
+          accountId: installment.operation.accountId,
+          installmentId: installment.id,
+          error: null,
+          notes: dto.notes,
+          processedAt: new Date(),
+          resolvedBy: actor,
+        },
+      });
+      if (count !== 1) {
+        await this.throwAlreadyResolved(tx, id);
+      }
+
+      const payment = await this.recordPayment(tx, event, { installment }, actor);
+      const updated = await tx.paymentWebhookEvent.update({
+        where: { id },
+        data: { paymentId: payment.id },
+        include: { payment: true },
+      });
+      return { event: updated, payment };
+    });
+
+    this.paymentAllocationService.sendReceipt(reconciled.payment);
+    return reconciled.event;
+  }
+
+  /**
+   * Drop a pending event from the queue (e.g. payment not related to any operation)
+   */
+  async ignore(id: bigint, dto: IgnorePaymentEventDto, actor?: string) {
+    const event = await this.prisma.paymentWebhookEvent.findUnique({ where: { id } });
+    if (!event) {
+      throw new Error('Payment event not found');
+    }
+    if (!PENDING_EVENT_STATUSES.includes(event.status)) {
+      throw new Error(`Payment event is already ${event.status.toLowerCase()}`);
+    }
+
+    const { count } = await this.prisma.paymentWebhookEvent.updateMany({
+      where: { id, status: { in: PENDING_EVENT_STATUSES } },
+      data: {
+        status: PaymentWebhookEventStatus.IGNORED,
+        notes: dto.notes,
+        processedAt: new Date(),
+        resolvedBy: actor,
+      },
+    });
+    if (count !== 1) {
+      await this.throwAlreadyResolved(this.prisma, id);
+    }
+
+    return this.prisma.paymentWebhookEvent.findUniqueOrThrow({ where: { id } });
+  }
+
+  // Another call resolved the event between the check and the claim
+  private async throwAlreadyResolved(client: Prisma.TransactionClient, id: bigint): Promise<never> {
+    const current = await client.paymentWebhookEvent.findUniqueOrThrow({ where: { id } });
+    throw new Error(`Payment event is already ${current.status.toLowerCase()}`);
+  }
+
+  /**
+   * Match the event reference and record the payment; returns the resulting status
+   */
+  private async process(event: WebhookEvent, endToEndId?: string): Promise<string> {
+    const match = event.reference ? await this.resolveReference(event.reference) : null;
+
+    if (!match) {
+      await this.prisma.paymentWebhookEvent.update({
+        where: { id: event.id },
+        data: {
+          status: PaymentWebhookEventStatus.UNMATCHED,
+          error: event.reference ? 'No installment matches the reference' : 'Event has no reference',
+          processedAt: new Date(),
+        },
+      });
+      return PaymentWebhookEventStatus.UNMATCHED;
+    }
+
+    const link = { accountId: match.installment.operation.accountId, installmentId: match.installment.id };
+    try {
+      const payment = await this.prisma.$transaction(async (tx) => {
+        const recorded = await this.recordPayment(tx, event, match, `webhook:${event.provider}`, endToEndId);
+        await tx.paymentWebhookEvent.update({
+          where: { id: event.id },
+          data: { ...link, status: PaymentWebhookEventStatus.PROCESSED, paymentId: recorded.id, processedAt: new Date() },
+        });
+        return recorded;
+      });
+      this.paymentAllocationService.sendReceipt(payment);
+      return PaymentWebhookEventStatus.PROCESSED;
+    } catch (error) {
+      await this.prisma.paymentWebhookEvent.update({
+        where: { id: event.id },
+        data: {
+          ...link,
+          status: PaymentWebhookEventStatus.FAILED,
+          error: error instanceof Error ? error.message : 'Failed to record payment',
+          processedAt: new Date(),
+        },
+      });
+      return PaymentWebhookEventStatus.FAILED;
+    }
+  }
+
+  /**
+   * Installment referenced by a PIX txid or an "INST<id>" reference
+   */
+  private async resolveReference(reference: string): Promise<ReferenceMatch | null> {
+    const charge = await this.prisma.pixCharge.findUnique({
+      where: { txid: reference },
+      include: { installment: { include: installmentInclude } },
+    });
+    if (charge) {
+      return { installment: charge.installment, pixCharge: charge };
+    }
+
+    const installmentId = parseInstallmentReference(reference);
+    if (installmentId) {
+      const installment = await this.prisma.installment.findFirst({
+        where: { id: installmentId, deletedAt: null, operation: { deletedAt: null } },
+        include: installmentInclude,
+      });
+      if (installment) return { installment };
+    }
+
+    return null;
+  }
+
+  /**
+   * Record the event's payment inside the caller's transaction; PIX events settle their charge
+   */
+  private async recordPayment(
+    tx: Prisma.TransactionClient,
+    event: WebhookEvent,
+    match: ReferenceMatch,
+    actor?: string,
+    endToEndId?: string
+  ) {
+    const { installment } = match;
+    if (event.amount === null) {
+      throw new Error('Event has no amount');
+    }
+    if (event.currency && event.currency !== installment.operation.currency) {
+      throw new Error(`Currency ${event.currency} does not match the operation currency ${installment.operation.currency}`);
+    }
+
+    const amount = Number(event.amount);
+    const paidAt = event.paidAt || new Date();
+
+    if (match.pixCharge) {
+      const { payment } = await this.pixChargesService.settle(tx, match.pixCharge, { amount, paidAt, endToEndId }, actor);
+      return payment;
+    }
+
+    return this.paymentAllocationService.recordPayment(tx, {
+      operationId: installment.operationId,
+      installmentId: OPEN_INSTALLMENT_STATUSES.includes(installment.status) ? installment.id : null,
+      amount,
+      currency: installment.operation.currency,
+      paidAt,
+      method: event.method || undefined,
+      reference: event.reference || undefined,
+      meta: { provider: event.provider, eventId: event.eventId },
+      actor,
+    });
+  }
+}
+
+export default PaymentWebhooksService;
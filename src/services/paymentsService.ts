@@ -3,15 +3,17 @@
  */
 
 import { PrismaClient } from '@prisma/client';
-import { CreatePaymentDto } from '../dtos/payments.dto';
-import { InstallmentStatus } from '../constants/enums';
+import { CreatePaymentDto, ReversePaymentDto } from '../dtos/payments.dto';
 import { PaginationResult } from '~@/utils/pagination';
+import PaymentAllocationService from './paymentAllocationService';
 
 export class PaymentsService {
   private prisma: PrismaClient;
+  private paymentAllocationService: PaymentAllocationService;
 
   constructor({ prisma }: { prisma: PrismaClient }) {
     this.prisma = prisma;
+    this.paymentAllocationService = new PaymentAllocationService({ prisma });
   }
 
   // Type assertion helpers for Prisma models
@@ -19,10 +21,6 @@ export class PaymentsService {
     return (this.prisma as any).payment;
   }
 
-  private get installment() {
-    return (this.prisma as any).installment;
-  }
-
   async findAll(filters: {
     page?: number;
     limit?: number;
@@ -85,11 +83,14 @@ export class PaymentsService {
           },
         },
         installment: true,
+        allocations: true,
+        reversal: true,
+        reversalOf: true,
       },
     });
   }
 
-  async create(dto: CreatePaymentDto) {
+  async create(dto: CreatePaymentDto, actor?: string) {
     const operationId = typeof dto.operationId === 'string' 
       ? BigInt(dto.operationId) 
       : BigInt(dto.operationId);
@@ -105,51 +106,29 @@ export class PaymentsService {
       ? (typeof dto.paidAt === 'string' ? new Date(dto.paidAt) : dto.paidAt)
       : new Date();
 
-    const payment = await this.payment.create({
-      data: {
-        clientId: dto.clientId,
-        operationId: operationId,
-        installmentId: installmentId,
-        amount: amount,
-        currency: dto.currency || 'BRL',
-        paidAt: paidAt,
-        method: dto.method,
-        reference: dto.reference,
-        meta: dto.meta,
-      },
-      include: {
-        client: true,
-        operation: true,
-        installment: true,
-      },
+    // Allocate across installments (fees, interest, principal; overpayment rolls forward)
+    return this.paymentAllocationService.applyPayment({
+      operationId,
+      installmentId,
+      amount,
+      currency: dto.currency,
+      paidAt,
+      method: dto.method,
+      reference: dto.reference,
+      meta: dto.meta,
+      actor,
     });
+  }
 
-    // Update installment status if linked
-    if (installmentId) {
-      const installment = await this.installment.findUnique({
-        where: { id: installmentId },
-        include: { payments: true },
-      });
-
-      if (installment) {
-        const totalPaid = installment.payments.reduce(
-          (sum: number, p: any) => sum + Number(p.amount),
-          0
-        );
-
-        if (totalPaid >= Number(installment.amount)) {
-          await this.installment.update({
-            where: { id: installmentId },
-            data: {
-              status: InstallmentStatus.PAID,
-              paidAt: paidAt,
-            },
-          });
-        }
-      }
-    }
-
-    return payment;
+  /**
+   * Reverse a payment (compensating entry + reopened installments + audit log)
+   */
+  async reverse(id: bigint, dto: ReversePaymentDto, actor?: string, ip?: string) {
+    return this.paymentAllocationService.reversePayment(id, {
+      reason: dto.reason,
+      actor,
+      ip,
+    });
   }
 }
 
@@ -0,0 +1,209 @@
+/**
+ * Payoff Service
+ * Early payoff quotes and settlement of an operation's remaining balance
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { InputJsonValue } from '@prisma/client/runtime/library';
+import { AmortizationSystem, InstallmentStatus, OperationStatus } from '../constants/enums';
+import { canTransition } from '../utils/operationLifecycle';
+import { getRemainingAmount } from '../utils/paymentAllocation';
+import { calculatePayoffQuote } from '../utils/payoff';
+import { syncPromissoryNotes } from '../utils/promissoryNote';
+import { syncDunningAlerts } from '../utils/dunning';
+import LateFeesService from './lateFeesService';
+import OperationLifecycleService from './operationLifecycleService';
+import { OPEN_INSTALLMENT_STATUSES } from './paymentAllocationService';
+
+export interface SettleOperationInput {
+  paidAt?: Date;
+  amount?: number;
+  method?: string;
+  reference?: string;
+  meta?: Record<string, unknown>;
+  actor?: string;
+}
+
+export class PayoffService {
+  private prisma: PrismaClient;
+  private lateFeesService: LateFeesService;
+  private lifecycleService: OperationLifecycleService;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+    this.lateFeesService = new LateFeesService({ prisma });
+    this.lifecycleService = new OperationLifecycleService({ prisma });
+  }
+
+  /**
+   * Quote the amount needed to settle an operation on the given date
+   * Returns null when the operation does not exist
+   */
+  async getQuote(operationId: bigint, asOf: Date = new Date()) {
+    return this.buildQuote(this.prisma, operationId, asOf);
+  }
+
+  /**
+   * Settle an operation early: records a payment for the payoff total, closes every
+   * open installment and moves the operation to SETTLED
+   */
+  async settle(operationId: bigint, input: SettleOperationInput) {
+    const paidAt = input.paidAt || new Date();
+
+    return this.prisma.$transaction(async (tx) => {
+      const quote = await this.buildQuote(tx, operationId, paidAt);
+
+      if (!quote) {
+        throw new Error('Operation not found');
+      }
+      if (quote.status === OperationStatus.SETTLED) {
+        throw new Error('Operation is already settled');
+      }
+      if (!canTransition(quote.status, OperationStatus.SETTLED)) {
+        throw new Error(`Operation cannot be settled in status ${quote.status}`);
+      }
+      if (!quote.installments.length) {
+        throw new Error('Operation has no open installments');
+      }
+
+      const amount = input.amount ?? quote.total;
+      if (Math.round(amount * 100) < Math.round(quote.total * 100)) {
+        throw new Error(`Settlement amount is lower than the payoff total (${quote.total})`);
+      }
+      const unallocatedAmount = Math.round((amount - quote.total) * 100) / 100;
+
+      const payment = await tx.payment.create({
+        data: {
+          clientId: quote.clientId,
+          operationId,
+          installmentId: quote.installments[0].installmentId,
+          amount,
+          currency: quote.currency,
+          paidAt,
+          method: input.method,
+          reference: input.reference,
+          meta: {
+            ...(input.meta || {}),
+            settlement: {
+              outstandingPrincipal: quote.outstandingPrincipal,
+              interestDiscount: quote.interestDiscount,
+              lateFees: quote.lateFees,
+              total: quote.total,
+            },
+            ...(unallocatedAmount > 0 ? { unallocatedAmount } : {}),
+          } as unknown as InputJsonValue,
+          createdBy: input.actor,
+        },
+      });
+
+      for (const line of quote.installments) {
+        // Nothing left to pay after the discount: the installment is simply dropped
+        if (line.amountDue <= 0) {
+          await tx.installment.update({
+            where: { id: line.installmentId },
+            data: { status: InstallmentStatus.CANCELLED, remainingAmount: 0, updatedBy: input.actor },
+          });
+          continue;
+        }
+
+        const appliedCents = Math.round((line.amountDue - line.lateFees) * 100);
+        const principalCents = Math.min(appliedCents, Math.round(line.principal * 100));
+        const interestCents = appliedCents - principalCents;
+
+        await tx.paymentAllocation.create({
+          data: {
+            paymentId: payment.id,
+            installmentId: line.installmentId,
+            amount: line.amountDue,
+            feeAmount: line.lateFees,
+            interestAmount: interestCents / 100,
+            principalAmount: principalCents / 100,
+          },
+        });
+
+        await tx.installment.update({
+          where: { id: line.installmentId },
+          data: {
+            paidAmount: { increment: appliedCents / 100 },
+            remainingAmount: 0,
+            lateFeesPaid: { increment: line.lateFees },
+            status: InstallmentStatus.PAID,
+            paidAt,
+            updatedBy: input.actor,
+          },
+        });
+      }
+
+      await this.lifecycleService.transition(tx, operationId, OperationStatus.SETTLED, {
+        actor: input.actor,
+        reason: 'Early settlement',
+      });
+      await syncPromissoryNotes(tx, operationId);
+      await syncDunningAlerts(tx, operationId);
+
+      return tx.payment.findUnique({
+        where: { id: payment.id },
+        include: {
+          operation: true,
+          allocations: {
+            include: { installment: true },
+          },
+        },
+      });
+    });
+  }
+
+  private async buildQuote(client: Prisma.TransactionClient, operationId: bigint, asOf: Date) {
+    const operation = await client.operation.findFirst({
+      where: { id: operationId, deletedAt: null },
+      include: {
+        installmentsList: {
+          where: {
+            deletedAt: null,
+            status: { in: OPEN_INSTALLMENT_STATUSES },
+          },
+          orderBy: { dueDate: 'asc' },
+        },
+      },
+    });
+
+    if (!operation) {
+      return null;
+    }
+
+    const policy = await this.lateFeesService.getPolicy(operation.accountId);
+    const quote = calculatePayoffQuote(
+      operation.installmentsList.map((installment) => {
+        const accrual = this.lateFeesService.calculateAccrual(installment, policy, asOf);
+        const openAmount = getRemainingAmount(installment);
+        return {
+          id: installment.id,
+          dueDate: installment.dueDate,
+          status: installment.status,
+          amount: Number(installment.amount),
+          interest: Number(installment.interest ?? 0),
+          paidAmount: Number(installment.amount) - openAmount,
+          openAmount,
+          lateFees: accrual ? accrual.amountDue - accrual.openAmount : 0,
+        };
+      }),
+      {
+        interestRate: Number(operation.interestRate ?? 0),
+        amortizationSystem: operation.amortizationSystem || AmortizationSystem.PRICE,
+        frequency: operation.frequency || 'MONTHLY',
+      },
+      asOf
+    );
+
+    return {
+      operationId: operation.id,
+      clientId: operation.clientId,
+      status: operation.status,
+      currency: operation.currency,
+      amortizationSystem: operation.amortizationSystem || AmortizationSystem.PRICE,
+      ...quote,
+    };
+  }
+}
+
+export default PayoffService;
@@ -0,0 +1,242 @@
+/**
+ * PIX Charges Service
+ * BR Code ("copia e cola") and QR code per installment, matched back by txid when the
+ * payment is confirmed
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import QRCode from 'qrcode';
+import { PaymentMethod, PixChargeStatus, SettingKey } from '../constants/enums';
+import { ConfirmPixChargeDto } from '../dtos/pixCharges.dto';
+import { PaginationResult } from '~@/utils/pagination';
+import { buildPixPayload, generateTxid, normalizePixSettings, PixSettings } from '../utils/pix';
+import LateFeesService from './lateFeesService';
+import PaymentAllocationService, { OPEN_INSTALLMENT_STATUSES } from './paymentAllocationService';
+
+export class PixChargesService {
+  private prisma: PrismaClient;
+  private lateFeesService: LateFeesService;
+  private paymentAllocationService: PaymentAllocationService;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+    this.lateFeesService = new LateFeesService({ prisma });
+    this.paymentAllocationService = new PaymentAllocationService({ prisma });
+  }
+
+  /**
+   * Get the PIX settings of an account (Setting "pix_settings")
+   */
+  async getSettings(accountId: number): Promise<PixSettings> {
+    const setting = await this.prisma.setting.findUnique({
+      where: { accountId_key: { accountId, key: SettingKey.PIX_SETTINGS } },
+    });
+    return normalizePixSettings(setting?.value);
+  }
+
+  async findAll(filters: {
+    page?: number;
+    limit?: number;
+    accountId?: number;
+    installmentId?: bigint;
+    status?: string;
+  }) {
+    const { page = 1, limit = 20, accountId, installmentId, status } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.PixChargeWhereInput = {};
+    if (accountId) where.accountId = accountId;
+    if (installmentId) where.installmentId = installmentId;
+    if (status) where.status = status;
+
+    const [data, total] = await Promise.all([
+      this.prisma.pixCharge.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.pixCharge.count({ where }),
+    ]);
+
+    return {
+      results: data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    } as PaginationResult<any>;
+  }
+
+  async findByTxid(txid: string) {
+    return this.prisma.pixCharge.findUnique({
+      where: { txid },
+      include: { installment: true, payment: true },
+    });
+  }
+
+  /**
+   * Charge for the amount due today on an installment (open amount plus late fees).
+   * The active charge is reused while the amount and key are unchanged; otherwise it is
+   * cancelled and a new BR Code with a new txid is issued.
+   */
+  async createForInstallment(installmentId: bigint, actor?: string) {
+    const installment = await this.prisma.installment.findFirst({
+      where: { id: installmentId, deletedAt: null, operation: { deletedAt: null } },
+      include: { operation: { include: { account: { include: { address: true } } } } },
+    });
+
+    if (!installment) {
+      throw new Error('Installment not found');
+    }
+    if (!OPEN_INSTALLMENT_STATUSES.includes(installment.status)) {
+      throw new Error('Installment is not open');
+    }
+
+    const { operation } = installment;
+    if (operation.currency !== 'BRL') {
+      throw new Error('PIX charges are only available for BRL operations');
+    }
+
+    const settings = await this.getSettings(operation.accountId);
+    if (!settings.key) {
+      throw new Error('PIX key is not configured for this account');
+    }
+
+    const [{ accrual }] = await this.lateFeesService.withAccrual([installment]);
+    const amount = accrual ? accrual.amountDue : 0;
+    if (amount <= 0) {
+      throw new Error('Installment is not open');
+    }
+
+    const active = await this.prisma.pixCharge.findFirst({
+      where: { installmentId, status: PixChargeStatus.ACTIVE },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (active && Number(active.amount) === amount && active.pixKey === settings.key) {
+      return this.withQrCode(active);
+    }
+
+    const txid = generateTxid(`I${installmentId}`);
+    const payload = buildPixPayload({
+      key: settings.key,
+      merchantName: settings.merchantName || operation.account.name,
+      merchantCity: settings.merchantCity || operation.account.address?.city || 'BRASIL',
+      amount,
+      txid,
+    });
+
+    const charge = await this.prisma.$transaction(async (tx) => {
+      await tx.pixCharge.updateMany({
+        where: { installmentId, status: PixChargeStatus.ACTIVE },
+        data: { status: PixChargeStatus.CANCELLED, updatedBy: actor },
+      });
+
+      return tx.pixCharge.create({
+        data: {
+          accountId: operation.accountId,
+          installmentId,
+          txid,
+          amount,
+          pixKey: settings.key as string,
+          payload,
+          createdBy: actor,
+        },
+      });
+    });
+
+    return this.withQrCode(charge);
+  }
+
+  /**
+   * QR code (PNG) of the active charge of an installment (null when there is none)
+   */
+  async getQrCodePng(installmentId: bigint) {
+    const charge = await this.prisma.pixCharge.findFirst({
+      where: { installmentId, status: PixChargeStatus.ACTIVE },
+      orderBy: { createdAt: 'desc' },
+    });
+    return charge ? QRCode.toBuffer(charge.payload, { errorCorrectionLevel: 'M', margin: 2, width: 320 }) : null;
+  }
+
+  /**
+   * Record the payment of a charge identified by its txid.
+   * The payment is allocated to the charged installment first; when it was settled in
+   * the meantime the amount rolls to the next open installments of the operation.
+   * The charge is claimed (ACTIVE -> PAID) in the same transaction as the payment, so
+   * retried or concurrent confirmations of one txid record a single payment.
+   */
+  async confirm(txid: string, dto: ConfirmPixChargeDto, actor?: string) {
+    const charge = await this.prisma.pixCharge.findUnique({
+      where: { txid },
+      include: { installment: true },
+    });
+
+    if (!charge) {
+      throw new Error('PIX charge not found');
+    }
+
+    const paid = await this.prisma.$transaction((tx) => this.settle(tx, charge, dto, actor));
+
+    this.paymentAllocationService.sendReceipt(paid.payment);
+    return paid.charge;
+  }
+
+  /**
+   * Claim the charge and record its payment inside the caller's transaction (see confirm).
+   * The receipt is up to the caller once the transaction commits.
+   */
+  async settle(
+    tx: Prisma.TransactionClient,
+    charge: Prisma.PixChargeGetPayload<{ include: { installment: true } }>,
+    dto: ConfirmPixChargeDto,
+    actor?: string
+  ) {
+    const { installment } = charge;
+    const paidAt = dto.paidAt ? new Date(dto.paidAt) : new Date();
+    const { count } = await tx.pixCharge.updateMany({
+      where: { id: charge.id, status: PixChargeStatus.ACTIVE },
+      data: { status: PixChargeStatus.PAID, paidAt, endToEndId: dto.endToEndId, updatedBy: actor },
+    });
+    if (count !== 1) {
+      const current = await tx.pixCharge.findUniqueOrThrow({ where: { id: charge.id } });
+      throw new Error(
+        current.status === PixChargeStatus.PAID ? 'PIX charge is already paid' : 'PIX charge is cancelled'
+      );
+    }
+
+    const payment = await this.paymentAllocationService.recordPayment(tx, {
+      operationId: installment.operationId,
+      installmentId: OPEN_INSTALLMENT_STATUSES.includes(installment.status) ? installment.id : null,
+      amount: dto.amount ?? Number(charge.amount),
+      currency: 'BRL',
+      paidAt,
+      method: PaymentMethod.PIX,
+      reference: charge.txid,
+      meta: { pixChargeId: charge.id.toString(), endToEndId: dto.endToEndId },
+      actor,
+    });
+
+    // Other codes issued for the installment must not be paid again
+    await tx.pixCharge.updateMany({
+      where: { installmentId: installment.id, status: PixChargeStatus.ACTIVE },
+      data: { status: PixChargeStatus.CANCELLED, updatedBy: actor },
+    });
+
+    const updated = await tx.pixCharge.update({
+      where: { id: charge.id },
+      data: { paymentId: payment.id },
+      include: { payment: true },
+    });
+    return { charge: updated, payment };
+  }
+
+  private async withQrCode<T extends { payload: string }>(charge: T) {
+    const qrCode = await QRCode.toDataURL(charge.payload, { errorCorrectionLevel: 'M', margin: 2, width: 320 });
+    return { ...charge, qrCode };
+  }
+}
+
+export default PixChargesService;
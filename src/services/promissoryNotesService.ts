@@ -0,0 +1,362 @@
+/**
+ * Promissory Notes Service
+ * Notes issued per installment of PROMISSORY_NOTE operations: numbering, protest,
+ * endorsements and printable PDF
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { InputJsonValue } from '@prisma/client/runtime/library';
+import { AuditAction, InstallmentStatus, PromissoryNoteStatus } from '../constants/enums';
+import { EndorsePromissoryNoteDto, ProtestPromissoryNoteDto } from '../dtos/promissoryNotes.dto';
+import { PaginationResult } from '~@/utils/pagination';
+import { recordAuditLog } from '../utils/audit';
+import { PdfDocument } from '../utils/pdf';
+import { amountInWords, buildNoteParty, NoteParty } from '../utils/promissoryNote';
+
+export interface PromissoryNoteTerms {
+  guarantorClientId?: number;
+  issuePlace?: string;
+  paymentPlace?: string;
+  actor?: string;
+}
+
+// Notes that can still be protested or endorsed
+const OPEN_NOTE_STATUSES: string[] = [PromissoryNoteStatus.ISSUED, PromissoryNoteStatus.PROTESTED];
+
+const NOTES_PER_PAGE = 3;
+
+const noteInclude = {
+  endorsements: { orderBy: { endorsedAt: 'asc' } },
+} satisfies Prisma.PromissoryNoteInclude;
+
+type NoteWithEndorsements = Prisma.PromissoryNoteGetPayload<{ include: typeof noteInclude }>;
+
+export class PromissoryNotesService {
+  private prisma: PrismaClient;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+  }
+
+  async findAll(filters: {
+    page?: number;
+    limit?: number;
+    accountId?: number;
+    operationId?: bigint;
+    status?: string;
+  }) {
+    const { page = 1, limit = 20, accountId, operationId, status } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.PromissoryNoteWhereInput = { operation: { deletedAt: null } };
+    if (accountId) where.accountId = accountId;
+    if (operationId) where.operationId = operationId;
+    if (status) where.status = status;
+
+    const [data, total] = await Promise.all([
+      this.prisma.promissoryNote.findMany({
+        where,
+        skip,
+        take: limit,
+        include: noteInclude,
+        orderBy: [{ accountId: 'asc' }, { number: 'asc' }],
+      }),
+      this.prisma.promissoryNote.count({ where }),
+    ]);
+
+    return {
+      results: data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    } as PaginationResult<any>;
+  }
+
+  async findById(id: bigint) {
+    return this.prisma.promissoryNote.findFirst({
+      where: { id, operation: { deletedAt: null } },
+      include: {
+        ...noteInclude,
+        installment: true,
+        operation: { include: { client: true } },
+        guarantorClient: true,
+      },
+    });
+  }
+
+  /**
+   * Issue one note per open installment of an operation, numbered after the
+   * account's last note. Issuer is the client, beneficiary the account.
+   */
+  async issueForOperation(client: Prisma.TransactionClient, operationId: bigint, terms: PromissoryNoteTerms = {}) {
+    const operation = await client.operation.findUniqueOrThrow({
+      where: { id: operationId },
+      include: {
+        client: { include: { address: true } },
+        account: { include: { address: true } },
+        installmentsList: {
+          where: { deletedAt: null, status: { not: InstallmentStatus.CANCELLED } },
+          orderBy: { dueDate: 'asc' },
+        },
+      },
+    });
+
+    let guarantor: NoteParty | null = null;
+    if (terms.guarantorClientId) {
+      const guarantorClient = await client.client.findFirst({
+        where: { id: terms.guarantorClientId, accountId: operation.accountId, deletedAt: null },
+        include: { address: true },
+      });
+      if (!guarantorClient) {
+        throw new Error('Guarantor client not found');
+      }
+      if (guarantorClient.id === operation.clientId) {
+        throw new Error('Guarantor must be someone other than the issuer');
+      }
+      guarantor = buildNoteParty(guarantorClient);
+    }
+
+    const last = await client.promissoryNote.aggregate({
+      where: { accountId: operation.accountId },
+      _max: { number: true },
+    });
+    const firstNumber = (last._max.number || 0) + 1;
+
+    const beneficiary = buildNoteParty(operation.account);
+    const issuer = buildNoteParty(operation.client);
+    const accountCity = [operation.account.address?.city, operation.account.address?.state]
+      .filter(Boolean)
+      .join('/');
+    const issuePlace = terms.issuePlace || accountCity || null;
+    const installments = operation.installmentsList;
+
+    await client.promissoryNote.createMany({
+      data: installments.map((installment, i) => ({
+        accountId: operation.accountId,
+        operationId,
+        installmentId: installment.id,
+        number: firstNumber + i,
+        sequence: i + 1,
+        totalNotes: installments.length,
+        amount: installment.amount,
+        currency: operation.currency,
+        issueDate: operation.startDate,
+        dueDate: installment.dueDate,
+        issuePlace,
+        paymentPlace: terms.paymentPlace || issuePlace,
+        issuer: issuer as unknown as InputJsonValue,
+        beneficiary: beneficiary as unknown as InputJsonValue,
+        guarantor: (guarantor ?? Prisma.JsonNull) as unknown as InputJsonValue,
+        guarantorClientId: terms.guarantorClientId,
+        createdBy: terms.actor,
+      })),
+    });
+
+    return installments.length;
+  }
+
+  /**
+   * Register the protest of an overdue note at the notary's office (cartório)
+   */
+  async protest(id: bigint, dto: ProtestPromissoryNoteDto, actor?: string, ip?: string) {
+    const protestedAt = dto.protestedAt ? new Date(dto.protestedAt) : new Date();
+
+    return this.prisma.$transaction(async (tx) => {
+      const note = await tx.promissoryNote.findFirst({
+        where: { id, operation: { deletedAt: null } },
+      });
+
+      if (!note) {
+        throw new Error('Promissory note not found');
+      }
+      if (note.status !== PromissoryNoteStatus.ISSUED) {
+        throw new Error(`Promissory note cannot be protested in status ${note.status}`);
+      }
+      if (protestedAt <= note.dueDate) {
+        throw new Error('Only overdue promissory notes can be protested');
+      }
+
+      const updated = await tx.promissoryNote.update({
+        where: { id },
+        data: {
+          status: PromissoryNoteStatus.PROTESTED,
+          protestedAt,
+          protestNotes: dto.notes,
+          updatedBy: actor,
+        },
+        include: noteInclude,
+      });
+
+      await recordAuditLog(tx, {
+        actor,
+        action: AuditAction.PROMISSORY_NOTE_PROTESTED,
+        entity: 'PromissoryNote',
+        entityId: id,
+        before: { status: note.status },
+        after: { status: updated.status, protestedAt, notes: dto.notes },
+        ip,
+      });
+
+      return updated;
+    });
+  }
+
+  /**
+   * Record the transfer (endosso) of a note to a new holder
+   */
+  async endorse(id: bigint, dto: EndorsePromissoryNoteDto, actor?: string, ip?: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const note = await tx.promissoryNote.findFirst({
+        where: { id, operation: { deletedAt: null } },
+      });
+
+      if (!note) {
+        throw new Error('Promissory note not found');
+      }
+      if (!OPEN_NOTE_STATUSES.includes(note.status)) {
+        throw new Error(`Promissory note cannot be endorsed in status ${note.status}`);
+      }
+
+      const endorsement = await tx.promissoryNoteEndorsement.create({
+        data: {
+          noteId: id,
+          endorseeName: dto.endorseeName,
+          endorseeDocument: dto.endorseeDocument,
+          endorsedAt: dto.endorsedAt ? new Date(dto.endorsedAt) : new Date(),
+          notes: dto.notes,
+          createdBy: actor,
+        },
+      });
+
+      await recordAuditLog(tx, {
+        actor,
+        action: AuditAction.PROMISSORY_NOTE_ENDORSED,
+        entity: 'PromissoryNote',
+        entityId: id,
+        after: endorsement,
+        ip,
+      });
+
+      return tx.promissoryNote.findUniqueOrThrow({ where: { id }, include: noteInclude });
+    });
+  }
+
+  /**
+   * Printable PDF of a single note (null when not found)
+   */
+  async getNotePdf(id: bigint) {
+    const note = await this.prisma.promissoryNote.findFirst({
+      where: { id, operation: { deletedAt: null } },
+      include: noteInclude,
+    });
+    return note ? this.renderPdf([note]) : null;
+  }
+
+  /**
+   * Printable PDF of every note of an operation (null when it has none)
+   */
+  async getOperationNotesPdf(operationId: bigint) {
+    const notes = await this.prisma.promissoryNote.findMany({
+      where: { operationId, operation: { deletedAt: null } },
+      include: noteInclude,
+      orderBy: { sequence: 'asc' },
+    });
+    return notes.length ? this.renderPdf(notes) : null;
+  }
+
+  /**
+   * Lay out the notes three per A4 page, in the traditional pt-BR wording
+   */
+  private renderPdf(notes: NoteWithEndorsements[]): Buffer {
+    const doc = new PdfDocument();
+    const margin = 40;
+    const width = doc.width - margin * 2;
+    const height = (doc.height - margin * 2) / NOTES_PER_PAGE - 12;
+    const date = (value: Date) => value.toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+
+    notes.forEach((note, i) => {
+      if (i > 0 && i % NOTES_PER_PAGE === 0) doc.addPage();
+
+      const top = margin + (i % NOTES_PER_PAGE) * (height + 12);
+      const left = margin + 12;
+      const right = margin + width - 12;
+      const amount = Number(note.amount);
+      const issuer = note.issuer as unknown as NoteParty;
+      const beneficiary = note.beneficiary as unknown as NoteParty;
+      const guarantor = note.guarantor as unknown as NoteParty | null;
+      const formattedAmount = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: note.currency })
+        .format(amount);
+      const day = note.dueDate.getUTCDate();
+      const month = note.dueDate.toLocaleDateString('pt-BR', { month: 'long', timeZone: 'UTC' });
+
+      doc.rect(margin, top, width, height);
+      doc.text(`NOTA PROMISSÓRIA Nº ${String(note.number).padStart(6, '0')}`, left, top + 22, { size: 13, bold: true });
+      doc.text(`${note.sequence}/${note.totalNotes}`, left, top + 36, { size: 9 });
+      doc.text(`Vencimento: ${date(note.dueDate)}`, right, top + 20, { align: 'right' });
+      doc.text(formattedAmount, right, top + 36, { size: 13, bold: true, align: 'right' });
+
+      let y = doc.paragraph(
+        `Ao(s) ${day} dia(s) do mês de ${month} de ${note.dueDate.getUTCFullYear()}, pagarei por esta única via de ` +
+          `NOTA PROMISSÓRIA a ${beneficiary.name || ''}` +
+          `${beneficiary.document ? `, CPF/CNPJ ${beneficiary.document}` : ''}, ou à sua ordem, ` +
+          `a quantia de ${amountInWords(amount, note.currency)} (${formattedAmount}), ` +
+          `pagável em ${note.paymentPlace || 'domicílio do credor'}.`,
+        left,
+        top + 58,
+        width - 24,
+        { size: 9.5 }
+      );
+
+      y += 4;
+      doc.text(`Emitente: ${issuer.name || ''}${issuer.document ? ` - CPF/CNPJ ${issuer.document}` : ''}`, left, y, { size: 9 });
+      if (issuer.address) {
+        y += 12;
+        doc.text(`Endereço: ${issuer.address}`, left, y, { size: 9 });
+      }
+      y += 12;
+      doc.text(`Local e data de emissão: ${note.issuePlace ? `${note.issuePlace}, ` : ''}${date(note.issueDate)}`, left, y, { size: 9 });
+      if (guarantor) {
+        y += 12;
+        doc.text(`Avalista: ${guarantor.name || ''}${guarantor.document ? ` - CPF/CNPJ ${guarantor.document}` : ''}`, left, y, { size: 9 });
+      }
+      note.endorsements.forEach((endorsement) => {
+        y += 12;
+        doc.text(
+          `Endossada a ${endorsement.endorseeName}` +
+            `${endorsement.endorseeDocument ? ` (${endorsement.endorseeDocument})` : ''} em ${date(endorsement.endorsedAt)}`,
+          left,
+          y,
+          { size: 9 }
+        );
+      });
+
+      // Signature lines at the bottom of the box
+      const signatureY = top + height - 22;
+      const signatureWidth = guarantor ? (width - 60) / 2 : width / 2;
+      doc.line(left, signatureY, left + signatureWidth, signatureY);
+      doc.text('Assinatura do emitente', left + signatureWidth / 2, signatureY + 11, { size: 8, align: 'center' });
+      if (guarantor) {
+        doc.line(right - signatureWidth, signatureY, right, signatureY);
+        doc.text('Assinatura do avalista', right - signatureWidth / 2, signatureY + 11, { size: 8, align: 'center' });
+      }
+
+      const stamp = note.status === PromissoryNoteStatus.PAID
+        ? `PAGA${note.paidAt ? ` EM ${date(note.paidAt)}` : ''}`
+        : note.status === PromissoryNoteStatus.PROTESTED
+          ? 'PROTESTADA'
+          : note.status === PromissoryNoteStatus.CANCELLED
+            ? 'CANCELADA'
+            : null;
+      if (stamp) {
+        doc.text(stamp, margin + width / 2, top + 36, { size: 11, bold: true, align: 'center' });
+      }
+    });
+
+    return doc.toBuffer();
+  }
+}
+
+export default PromissoryNotesService;
@@ -0,0 +1,294 @@
+/**
+ * Rentals Service
+ * Rental contracts: rent charges generated ahead, annual readjustments, deposits and contract end
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  AdjustmentIndex,
+  AuditAction,
+  DepositStatus,
+  InstallmentStatus,
+  OperationStatus,
+} from '../constants/enums';
+import { EndRentalDto } from '../dtos/rentals.dto';
+import { recordAuditLog } from '../utils/audit';
+import { addMonths, roundToTwoDecimals } from '../utils/dateHelpers';
+import { readjustRent, rentChargeDueDate, rentPeriodStart } from '../utils/rental';
+import { syncDunningAlerts } from '../utils/dunning';
+import EconomicIndexesService from './economicIndexesService';
+import OperationLifecycleService from './operationLifecycleService';
+
+export const DEFAULT_RENT_MONTHS_AHEAD = 3;
+
+export interface RentalTerms {
+  rentAmount: number;
+  startDate: Date;
+  endDate?: Date | null;
+  adjustmentIndex?: string;
+  monthsAhead?: number;
+  depositAmount?: number;
+  actor?: string;
+}
+
+export class RentalsService {
+  private prisma: PrismaClient;
+  private economicIndexesService: EconomicIndexesService;
+  private lifecycleService: OperationLifecycleService;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+    this.economicIndexesService = new EconomicIndexesService({ prisma });
+    this.lifecycleService = new OperationLifecycleService({ prisma });
+  }
+
+  async findByOperationId(operationId: bigint) {
+    return this.prisma.rentalContract.findFirst({
+      where: { operationId, operation: { deletedAt: null } },
+      include: {
+        adjustments: { orderBy: { effectiveAt: 'asc' } },
+        operation: {
+          include: {
+            installmentsList: { orderBy: { dueDate: 'asc' } },
+            resource: true,
+            client: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Contract data for the nested create of a RENTAL operation (no charges yet)
+   */
+  buildContract(terms: RentalTerms): Prisma.RentalContractCreateWithoutOperationInput {
+    if (terms.endDate && terms.endDate <= terms.startDate) {
+      throw new Error('Rental end date must be after the start date');
+    }
+
+    const adjustmentIndex = terms.adjustmentIndex || AdjustmentIndex.NONE;
+    const depositAmount = terms.depositAmount || 0;
+
+    return {
+      rentAmount: terms.rentAmount,
+      startDate: terms.startDate,
+      endDate: terms.endDate || null,
+      adjustmentIndex,
+      nextAdjustmentAt: adjustmentIndex !== AdjustmentIndex.NONE ? addMonths(terms.startDate, 12) : null,
+      monthsAhead: terms.monthsAhead || DEFAULT_RENT_MONTHS_AHEAD,
+      depositAmount,
+      depositStatus: depositAmount > 0 ? DepositStatus.HELD : DepositStatus.NONE,
+      createdBy: terms.actor,
+    };
+  }
+
+  /**
+   * Generate the rent charges due up to `monthsAhead` months from `asOf`, applying the
+   * anniversary readjustment first. Generation stops at an anniversary while the index
+   * rates for its reference months are not in the table yet.
+   */
+  async generateCharges(client: Prisma.TransactionClient, operationId: bigint, asOf: Date = new Date()) {
+    const contract = await client.rentalContract.findUnique({ where: { operationId } });
+
+    if (!contract || contract.endedAt) {
+      return { created: 0, pendingAdjustment: false };
+    }
+
+    const horizon = addMonths(asOf, contract.monthsAhead);
+    let chargeNumber = contract.chargesGenerated;
+    let rentAmount = Number(contract.rentAmount);
+    let nextAdjustmentAt = contract.nextAdjustmentAt;
+    let pendingAdjustment = false;
+    const charges: Prisma.InstallmentCreateManyInput[] = [];
+
+    for (;;) {
+      const dueDate = rentChargeDueDate(contract.startDate, chargeNumber + 1);
+      if (dueDate > horizon || (contract.endDate && dueDate > contract.endDate)) {
+        break;
+      }
+
+      if (nextAdjustmentAt && rentPeriodStart(contract.startDate, chargeNumber + 1) >= nextAdjustmentAt) {
+        const variation = await this.economicIndexesService.getAccumulatedVariation(
+          contract.adjustmentIndex,
+          nextAdjustmentAt,
+          client
+        );
+        if (variation === null) {
+          pendingAdjustment = true;
+          break;
+        }
+
+        const newAmount = readjustRent(rentAmount, variation);
+        await client.rentAdjustment.create({
+          data: {
+            contractId: contract.id,
+            index: contract.adjustmentIndex,
+            percent: variation,
+            previousAmount: rentAmount,
+            newAmount,
+            effectiveAt: nextAdjustmentAt,
+          },
+        });
+        rentAmount = newAmount;
+        nextAdjustmentAt = addMonths(nextAdjustmentAt, 12);
+      }
+
+      charges.push({
+        operationId,
+        dueDate,
+        amount: rentAmount,
+        remainingAmount: rentAmount,
+        principal: rentAmount,
+        status: InstallmentStatus.PENDING,
+      });
+      chargeNumber++;
+    }
+
+    if (charges.length) {
+      await client.installment.createMany({ data: charges });
+      await syncDunningAlerts(client, operationId);
+    }
+
+    await client.rentalContract.update({
+      where: { id: contract.id },
+      data: {
+        chargesGenerated: chargeNumber,
+        rentAmount,
+        nextAdjustmentAt,
+      },
+    });
+
+    return { created: charges.length, pendingAdjustment };
+  }
+
+  /**
+   * Generate upcoming rent charges for every running contract (scheduled job)
+   */
+  async generateUpcomingCharges(asOf: Date = new Date()) {
+    const contracts = await this.prisma.rentalContract.findMany({
+      where: {
+        endedAt: null,
+        operation: {
+          deletedAt: null,
+          status: { in: [OperationStatus.ACTIVE, OperationStatus.OVERDUE, OperationStatus.DEFAULTED] },
+        },
+      },
+      select: { operationId: true },
+    });
+
+    let created = 0;
+    const pendingAdjustment: bigint[] = [];
+
+    for (const contract of contracts) {
+      const result = await this.prisma.$transaction((tx) =>
+        this.generateCharges(tx, contract.operationId, asOf)
+      );
+      created += result.created;
+      if (result.pendingAdjustment) pendingAdjustment.push(contract.operationId);
+    }
+
+    return { contracts: contracts.length, created, pendingAdjustment };
+  }
+
+  /**
+   * End a rental: cancel rent charges due after the end date, settle the deposit
+   * (returned and/or retained) and release the resource
+   */
+  async endContract(operationId: bigint, dto: EndRentalDto, actor?: string, ip?: string) {
+    const endDate = dto.endDate ? new Date(dto.endDate) : new Date();
+
+    return this.prisma.$transaction(async (tx) => {
+      const contract = await tx.rentalContract.findFirst({
+        where: { operationId, operation: { deletedAt: null } },
+      });
+
+      if (!contract) {
+        throw new Error('Rental contract not found');
+      }
+      if (contract.endedAt) {
+        throw new Error('Rental contract has already ended');
+      }
+      if (endDate < contract.startDate) {
+        throw new Error('Rental end date must be after the start date');
+      }
+
+      const deposit = this.settleDeposit(
+        Number(contract.depositAmount),
+        dto.depositReturnedAmount,
+        dto.depositRetainedAmount
+      );
+
+      const cancelled = await tx.installment.updateMany({
+        where: {
+          operationId,
+          deletedAt: null,
+          dueDate: { gt: endDate },
+          status: { in: [InstallmentStatus.PENDING, InstallmentStatus.LATE] },
+          paidAmount: 0,
+        },
+        data: { status: InstallmentStatus.CANCELLED, updatedBy: actor },
+      });
+
+      const updated = await tx.rentalContract.update({
+        where: { id: contract.id },
+        data: {
+          endDate,
+          endedAt: new Date(),
+          ...deposit,
+          depositNotes: dto.depositNotes ?? contract.depositNotes,
+          depositSettledAt: Number(contract.depositAmount) > 0 ? new Date() : null,
+          updatedBy: actor,
+        },
+      });
+
+      // Settled once every remaining charge is paid
+      await this.lifecycleService.syncWithInstallments(tx, operationId, {
+        actor,
+        reason: 'Rental contract ended',
+      });
+
+      await recordAuditLog(tx, {
+        actor,
+        action: AuditAction.RENTAL_ENDED,
+        entity: 'RentalContract',
+        entityId: contract.id,
+        before: contract,
+        after: { ...updated, cancelledCharges: cancelled.count },
+        ip,
+      });
+
+      return { ...updated, cancelledCharges: cancelled.count };
+    });
+  }
+
+  /**
+   * Split the deposit between returned and retained amounts
+   */
+  private settleDeposit(depositAmount: number, returned?: number, retained?: number) {
+    if (depositAmount <= 0) {
+      return { depositStatus: DepositStatus.NONE };
+    }
+
+    const retainedAmount = roundToTwoDecimals(
+      retained ?? (returned !== undefined ? depositAmount - returned : 0)
+    );
+    const returnedAmount = roundToTwoDecimals(returned ?? depositAmount - retainedAmount);
+
+    if (retainedAmount < 0 || returnedAmount < 0
+      || Math.round((retainedAmount + returnedAmount) * 100) !== Math.round(depositAmount * 100)) {
+      throw new Error(`Returned and retained amounts must add up to the deposit (${depositAmount})`);
+    }
+
+    return {
+      depositReturnedAmount: returnedAmount,
+      depositRetainedAmount: retainedAmount,
+      depositStatus: retainedAmount === 0
+        ? DepositStatus.RETURNED
+        : returnedAmount === 0
+          ? DepositStatus.RETAINED
+          : DepositStatus.PARTIALLY_RETAINED,
+    };
+  }
+}
+
+export default RentalsService;
@@ -2,10 +2,18 @@
  * Resources Service
  */
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { ResourceType } from '../constants/enums';
 import { InputJsonValue } from '@prisma/client/runtime/library';
 import { PaginationResult } from '~@/utils/pagination';
+import {
+  BookingPeriod,
+  OCCUPYING_OPERATION_STATUSES,
+  bookingPeriod,
+  occupancyRates,
+  periodsOverlap,
+  summarizeAvailability,
+} from '../utils/occupancy';
 
 export interface CreateResourceDto {
   accountId: number;
@@ -26,6 +34,13 @@ export interface UpdateResourceDto {
   meta?: Record<string, unknown>;
 }
 
+export interface OccupancyReportFilters {
+  accountId?: number;
+  type?: string;
+  from: Date;
+  to: Date;
+}
+
 export class ResourcesService {
   private prisma: PrismaClient;
 
@@ -135,6 +150,163 @@ export class ResourcesService {
       data: { deletedAt: new Date() },
     });
   }
+
+  /**
+   * Reject an operation whose booking period overlaps another operation holding the same resource.
+   * The resource row stays locked until the caller's transaction ends, so concurrent bookings
+   * of the same resource are checked one after the other.
+   */
+  async assertAvailable(
+    client: Prisma.TransactionClient,
+    resourceId: number,
+    period: BookingPeriod,
+    excludeOperationId?: bigint
+  ) {
+    await client.$queryRaw`SELECT "id" FROM "resources" WHERE "id" = ${resourceId} FOR UPDATE`;
+
+    const bookings = await this.findBookings(client, {
+      resourceId,
+      ...(excludeOperationId ? { id: { not: excludeOperationId } } : {}),
+    });
+    const conflict = bookings.find((booking) => periodsOverlap(booking, period));
+
+    if (conflict) {
+      throw new Error(`Resource is already booked by operation #${conflict.operationId} in this period`);
+    }
+  }
+
+  /**
+   * Bookings, occupied and free periods of a resource between two dates
+   * Returns null when the resource does not exist
+   */
+  async getAvailability(id: number, from: Date, to: Date) {
+    const resource = await this.prisma.resource.findFirst({
+      where: { id, deletedAt: null },
+      select: { id: true, accountId: true, type: true, title: true },
+    });
+
+    if (!resource) {
+      return null;
+    }
+
+    const window = { start: from, end: to };
+    const bookings = (await this.findBookings(this.prisma, { resourceId: id }))
+      .filter((booking) => periodsOverlap(booking, window));
+    const summary = summarizeAvailability(bookings, from, to);
+
+    return {
+      resource,
+      from,
+      to,
+      available: bookings.length === 0,
+      ...summary,
+      bookings: bookings.map(({ resourceId: _resourceId, ...booking }) => booking),
+    };
+  }
+
+  /**
+   * Occupancy and vacancy rates between two dates, grouped by account and resource type
+   */
+  async getOccupancyReport(filters: OccupancyReportFilters) {
+    const { accountId, type, from, to } = filters;
+
+    const resources = await this.prisma.resource.findMany({
+      where: {
+        deletedAt: null,
+        ...(accountId ? { accountId } : {}),
+        ...(type ? { type } : {}),
+      },
+      select: { id: true, accountId: true, type: true, title: true },
+      orderBy: [{ accountId: 'asc' }, { type: 'asc' }, { id: 'asc' }],
+    });
+
+    const bookings = resources.length
+      ? await this.findBookings(this.prisma, { resourceId: { in: resources.map((r) => r.id) } })
+      : [];
+
+    const groups = new Map<string, {
+      accountId: number;
+      type: string;
+      totalResources: number;
+      occupiedResources: number;
+      totalDays: number;
+      occupiedDays: number;
+      items: Array<{ resourceId: number; title: string; occupiedDays: number; occupancyRate: number }>;
+    }>();
+
+    for (const resource of resources) {
+      const summary = summarizeAvailability(
+        bookings.filter((booking) => booking.resourceId === resource.id),
+        from,
+        to
+      );
+
+      const key = `${resource.accountId}:${resource.type}`;
+      const group = groups.get(key) || {
+        accountId: resource.accountId,
+        type: resource.type,
+        totalResources: 0,
+        occupiedResources: 0,
+        totalDays: 0,
+        occupiedDays: 0,
+        items: [],
+      };
+      group.totalResources++;
+      if (summary.occupiedDays > 0) group.occupiedResources++;
+      group.totalDays += summary.totalDays;
+      group.occupiedDays += summary.occupiedDays;
+      group.items.push({
+        resourceId: resource.id,
+        title: resource.title,
+        occupiedDays: summary.occupiedDays,
+        occupancyRate: summary.occupancyRate,
+      });
+      groups.set(key, group);
+    }
+
+    return {
+      from,
+      to,
+      groups: Array.from(groups.values()).map(({ items, ...group }) => ({
+        ...group,
+        ...occupancyRates(group.occupiedDays, group.totalDays),
+        resources: items,
+      })),
+    };
+  }
+
+  /**
+   * Booking periods of the operations that currently hold resources
+   */
+  private async findBookings(client: Prisma.TransactionClient, where: Prisma.OperationWhereInput) {
+    const operations = await client.operation.findMany({
+      where: {
+        ...where,
+        deletedAt: null,
+        status: { in: OCCUPYING_OPERATION_STATUSES },
+      },
+      select: {
+        id: true,
+        resourceId: true,
+        type: true,
+        status: true,
+        startDate: true,
+        dueDate: true,
+        client: { select: { id: true, name: true } },
+        rentalContract: { select: { startDate: true, endDate: true } },
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    return operations.map((operation) => ({
+      operationId: operation.id,
+      resourceId: operation.resourceId as number,
+      type: operation.type,
+      status: operation.status,
+      client: operation.client,
+      ...bookingPeriod(operation),
+    }));
+  }
 }
 
 export default ResourcesService;
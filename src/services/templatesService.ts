@@ -0,0 +1,393 @@
+/**
+ * Templates Service
+ * Account message templates: CRUD with variable validation, lookup by key/locale/channel
+ * and rendering against an operation (previews and alerts)
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import EnvVars from '../common/EnvVars';
+import { InstallmentStatus, PixChargeStatus } from '../constants/enums';
+import { CreateTemplateDto, PreviewTemplateDto, UpdateTemplateDto } from '../dtos/templates.dto';
+import { PaginationResult } from '~@/utils/pagination';
+import { SYSTEM_ACTOR } from '../utils/audit';
+import {
+  defaultMessageTemplate,
+  extractPlaceholders,
+  findUnknownVariables,
+  formatTemplateDate,
+  formatTemplateMoney,
+  isLiteralTemplate,
+  MessageTemplate,
+  normalizeTemplateKey,
+  pickTemplateVariant,
+  renderTemplate,
+  resolveLocale,
+  TEMPLATE_VARIABLES,
+  TemplateLocale,
+} from '../utils/messageTemplates';
+import { getRemainingAmount } from '../utils/paymentAllocation';
+import { ACTIVE_BOLETO_STATUSES } from './boletosService';
+import LateFeesService from './lateFeesService';
+import { OPEN_INSTALLMENT_STATUSES } from './paymentAllocationService';
+import PayoffService from './payoffService';
+import PixChargesService from './pixChargesService';
+
+export interface RenderedMessage {
+  key: string | null; // template used; null for literal alert texts
+  locale: TemplateLocale;
+  subject: string;
+  body: string;
+  parameters: string[]; // body values in placeholder order, for WhatsApp approved templates
+  missing: string[]; // placeholders that rendered empty (e.g. no open installment)
+}
+
+interface RenderOptions {
+  locale: TemplateLocale;
+  installmentId?: bigint | null;
+  alertType?: string;
+  issuePixCharge?: boolean; // create the PIX charge for {{pix.code}} when there is none
+  now?: Date;
+}
+
+const operationInclude = { client: true, account: true } satisfies Prisma.OperationInclude;
+
+type OperationWithParties = Prisma.OperationGetPayload<{ include: typeof operationInclude }>;
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as Record<string, unknown>;
+
+export class TemplatesService {
+  private prisma: PrismaClient;
+  private lateFeesService: LateFeesService;
+  private payoffService: PayoffService;
+  private pixChargesService: PixChargesService;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+    this.lateFeesService = new LateFeesService({ prisma });
+    this.payoffService = new PayoffService({ prisma });
+    this.pixChargesService = new PixChargesService({ prisma });
+  }
+
+  async findAll(filters: { page?: number; limit?: number; accountId?: number; key?: string; locale?: string }) {
+    const { page = 1, limit = 20, accountId, key, locale } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.MessageTemplateWhereInput = { deletedAt: null };
+    if (accountId) where.accountId = accountId;
+    if (key) where.key = normalizeTemplateKey(key);
+    if (locale) where.locale = locale;
+
+    const [data, total] = await Promise.all([
+      this.prisma.messageTemplate.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ key: 'asc' }, { locale: 'asc' }],
+      }),
+      this.prisma.messageTemplate.count({ where }),
+    ]);
+
+    return {
+      results: data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    } as PaginationResult<any>;
+  }
+
+  async findById(id: number) {
+    return this.prisma.messageTemplate.findFirst({ where: { id, deletedAt: null } });
+  }
+
+  /**
+   * Variables available to templates
+   */
+  getVariables() {
+    return Object.entries(TEMPLATE_VARIABLES).map(([name, description]) => ({ name, description }));
+  }
+
+  async create(dto: CreateTemplateDto, actor?: string) {
+    const account = await this.prisma.account.findFirst({ where: { id: dto.accountId, deletedAt: null } });
+    if (!account) {
+      throw new Error('Account not found');
+    }
+
+    this.assertKnownVariables(dto.subject, dto.body);
+    const key = normalizeTemplateKey(dto.key);
+    const channel = dto.channel ?? null;
+    await this.assertUnique(dto.accountId, key, dto.locale, channel);
+
+    return this.prisma.messageTemplate.create({
+      data: {
+        accountId: dto.accountId,
+        key,
+        locale: dto.locale,
+        channel,
+        subject: dto.subject ?? null,
+        body: dto.body,
+        createdBy: actor,
+      },
+    });
+  }
+
+  async update(id: number, dto: UpdateTemplateDto, actor?: string) {
+    const current = await this.findById(id);
+    if (!current) {
+      throw new Error('Template not found');
+    }
+
+    const locale = dto.locale ?? current.locale;
+    const channel = dto.channel !== undefined ? dto.channel : current.channel;
+    this.assertKnownVariables(
+      dto.subject !== undefined ? dto.subject : current.subject,
+      dto.body ?? current.body
+    );
+    await this.assertUnique(current.accountId, current.key, locale, channel, id);
+
+    return this.prisma.messageTemplate.update({
+      where: { id },
+      data: {
+        locale,
+        channel,
+        subject: dto.subject,
+        body: dto.body,
+        updatedBy: actor,
+      },
+    });
+  }
+
+  async delete(id: number) {
+    // Soft delete: set deletedAt timestamp
+    return this.prisma.messageTemplate.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+  }
+
+  /**
+   * Render a stored template against an operation of the same account.
+   * Nothing is created: {{pix.code}} uses the installment's active charge, if any.
+   */
+  async preview(id: number, dto: PreviewTemplateDto): Promise<RenderedMessage> {
+    const template = await this.findById(id);
+    if (!template) {
+      throw new Error('Template not found');
+    }
+
+    const operation = await this.prisma.operation.findFirst({
+      where: { id: BigInt(String(dto.operationId)), deletedAt: null },
+      include: operationInclude,
+    });
+    if (!operation) {
+      throw new Error('Operation not found');
+    }
+    if (operation.accountId !== template.accountId) {
+      throw new Error('Operation belongs to another account');
+    }
+
+    return this.render(
+      template.key,
+      { subject: template.subject ?? '', body: template.body },
+      operation,
+      {
+        locale: dto.locale ?? resolveLocale(template.locale),
+        installmentId: dto.installmentId ? BigInt(String(dto.installmentId)) : null,
+      }
+    );
+  }
+
+  /**
+   * Message of an alert in the client's locale (client or account `meta.locale`).
+   * `Alert.template` is either the text itself or a template key; without one the key is
+   * the alert type. Account templates override the built-in ones of the same key.
+   */
+  async renderAlert(
+    alert: { type: string; template: string | null; meta: unknown; operation: OperationWithParties },
+    channel: string,
+    now: Date = new Date()
+  ): Promise<RenderedMessage> {
+    const { operation } = alert;
+    const locale = resolveLocale(asRecord(operation.client.meta).locale, asRecord(operation.account.meta).locale);
+    const typeKey = normalizeTemplateKey(alert.type);
+
+    const typeTemplate = await this.findTemplate(operation.accountId, typeKey, locale, channel);
+    const byType = typeTemplate
+      ? { key: typeKey, template: typeTemplate }
+      : { key: 'generic', template: defaultMessageTemplate('generic', locale) as MessageTemplate };
+
+    let { key, template }: { key: string | null; template: MessageTemplate } = byType;
+    if (alert.template && isLiteralTemplate(alert.template)) {
+      key = null;
+      template = { subject: byType.template.subject, body: alert.template };
+    } else if (alert.template) {
+      const named = await this.findTemplate(operation.accountId, alert.template, locale, channel);
+      if (named) {
+        key = normalizeTemplateKey(alert.template);
+        template = named;
+      }
+    }
+
+    const installmentId = asRecord(alert.meta).installmentId;
+    return this.render(key, template, operation, {
+      locale,
+      installmentId: installmentId ? BigInt(String(installmentId)) : null,
+      alertType: alert.type,
+      issuePixCharge: true,
+      now,
+    });
+  }
+
+  /**
+   * Account template of a key for the locale and channel, or the built-in one
+   */
+  async findTemplate(accountId: number, key: string, locale: TemplateLocale, channel?: string | null) {
+    const normalized = normalizeTemplateKey(key);
+    const variants = await this.prisma.messageTemplate.findMany({
+      where: { accountId, key: normalized, deletedAt: null },
+    });
+    const stored = pickTemplateVariant(variants, locale, channel);
+    const fallback = defaultMessageTemplate(normalized, locale);
+
+    if (stored) {
+      return { subject: stored.subject ?? fallback?.subject ?? '', body: stored.body };
+    }
+    return fallback;
+  }
+
+  private assertKnownVariables(...texts: Array<string | null | undefined>) {
+    const unknown = findUnknownVariables(...texts);
+    if (unknown.length) {
+      throw new Error(`Unknown template variables: ${unknown.join(', ')}`);
+    }
+  }
+
+  private async assertUnique(accountId: number, key: string, locale: string, channel: string | null, exceptId?: number) {
+    const existing = await this.prisma.messageTemplate.findFirst({
+      where: { accountId, key, locale, channel, deletedAt: null, ...(exceptId ? { id: { not: exceptId } } : {}) },
+    });
+    if (existing) {
+      throw new Error('Template already exists for this key, locale and channel');
+    }
+  }
+
+  private async render(
+    key: string | null,
+    template: MessageTemplate,
+    operation: OperationWithParties,
+    options: RenderOptions
+  ): Promise<RenderedMessage> {
+    const used = extractPlaceholders(template.subject, template.body);
+    const variables = await this.buildVariables(operation, used, options);
+    const value = (name: string) => renderTemplate(`{{${name}}}`, variables);
+
+    return {
+      key,
+      locale: options.locale,
+      subject: renderTemplate(template.subject, variables),
+      body: renderTemplate(template.body, variables),
+      parameters: extractPlaceholders(template.body).map(value),
+      missing: used.filter((name) => value(name) === ''),
+    };
+  }
+
+  // Values of the placeholders; PIX, boleto and payoff lookups only run when used
+  private async buildVariables(operation: OperationWithParties, used: string[], options: RenderOptions) {
+    const { locale, now = new Date() } = options;
+    const { client, account } = operation;
+    const uses = (prefix: string) => used.some((name) => name.startsWith(prefix));
+    const money = (value: number) => formatTemplateMoney(value, operation.currency, locale);
+
+    const variables: Record<string, Record<string, unknown>> = {
+      client: {
+        name: client.name,
+        firstName: client.name?.trim().split(/\s+/)[0],
+        email: client.email,
+        phone: client.phone,
+        document: client.document,
+      },
+      account: { name: account.name, email: account.email, phone: account.phone },
+      operation: {
+        id: String(operation.id),
+        title: operation.title,
+        principalAmount: money(Number(operation.principalAmount)),
+      },
+      alert: { type: options.alertType },
+      date: { today: formatTemplateDate(now, locale) },
+      installment: {},
+      pix: {},
+      boleto: {},
+      payoff: {},
+    };
+
+    if (uses('installment.') || uses('pix.') || uses('boleto.')) {
+      const schedule = await this.prisma.installment.findMany({
+        where: { operationId: operation.id, deletedAt: null, status: { not: InstallmentStatus.CANCELLED } },
+        orderBy: { dueDate: 'asc' },
+        include: { operation: true },
+      });
+      const installment = options.installmentId
+        ? schedule.find((i) => i.id === options.installmentId)
+        : schedule.find((i) => OPEN_INSTALLMENT_STATUSES.includes(i.status));
+
+      if (installment) {
+        const [{ accrual }] = await this.lateFeesService.withAccrual([installment], now);
+        variables.installment = {
+          number: schedule.indexOf(installment) + 1,
+          count: schedule.length,
+          amount: money(Number(installment.amount)),
+          amountDue: money(accrual ? accrual.amountDue : getRemainingAmount(installment)),
+          dueDate: formatTemplateDate(installment.dueDate, locale),
+          daysLate: accrual ? accrual.daysLate : 0,
+          status: installment.status,
+        };
+
+        if (uses('pix.')) {
+          variables.pix = { code: await this.pixCode(installment.id, !!options.issuePixCharge) };
+        }
+        if (uses('boleto.')) {
+          const boleto = await this.prisma.boleto.findFirst({
+            where: { installmentId: installment.id, status: { in: ACTIVE_BOLETO_STATUSES } },
+            orderBy: { createdAt: 'desc' },
+          });
+          variables.boleto = { digitableLine: boleto?.digitableLine };
+        }
+      }
+    }
+
+    if (uses('payoff.')) {
+      const quote = used.includes('payoff.amount') ? await this.payoffService.getQuote(operation.id, now) : null;
+      variables.payoff = {
+        amount: quote ? money(quote.total) : undefined,
+        link: EnvVars.Templates.PayoffUrl
+          ? EnvVars.Templates.PayoffUrl.replace('{operationId}', String(operation.id))
+          : undefined,
+      };
+    }
+
+    return variables;
+  }
+
+  // BR Code of the installment's PIX charge; a missing PIX setup leaves it empty
+  private async pixCode(installmentId: bigint, issue: boolean): Promise<string | undefined> {
+    if (issue) {
+      try {
+        const charge = await this.pixChargesService.createForInstallment(installmentId, SYSTEM_ACTOR);
+        return charge.payload;
+      } catch {
+        return undefined;
+      }
+    }
+
+    const active = await this.prisma.pixCharge.findFirst({
+      where: { installmentId, status: PixChargeStatus.ACTIVE },
+      orderBy: { createdAt: 'desc' },
+    });
+    return active?.payload;
+  }
+}
+
+export default TemplatesService;
@@ -5,6 +5,11 @@
 
 import { PrismaClient } from '@prisma/client';
 import { InputJsonValue } from '@prisma/client/runtime/library';
+import EnvVars from '../common/EnvVars';
+import { NotificationChannel, NotificationDeliveryStatus } from '../constants/enums';
+import { createNotificationProviders, NotificationProvider } from '../adapters/notificationProviders';
+import { resolveLocale } from '../utils/messageTemplates';
+import EmailService from './emailService';
 import {
   SendPhoneVerificationDto,
   VerifyPhoneDto,
@@ -14,9 +19,13 @@ import {
 
 export class VerificationService {
   private prisma: PrismaClient;
+  private whatsappProvider: NotificationProvider;
+  private emailService: EmailService;
 
   constructor({ prisma }: { prisma: PrismaClient }) {
     this.prisma = prisma;
+    this.whatsappProvider = createNotificationProviders()[NotificationChannel.WHATSAPP];
+    this.emailService = new EmailService({ prisma });
   }
 
   /**
@@ -81,12 +90,23 @@ export class VerificationService {
       },
     });
 
-    // TODO: Send code via WhatsApp API
-    // await whatsappService.send(phoneNumber, `Your verification code is: ${code}`);
-
-    // In development, log the code
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[DEV] Phone verification code for ${phoneNumber}: ${code}`);
+    // Sent with the approved authentication template (the 'log' provider prints it in development)
+    try {
+      await this.whatsappProvider.send({
+        channel: NotificationChannel.WHATSAPP,
+        recipient: { name: client.name, phone: phoneNumber },
+        title: 'Código de verificação',
+        body: `Seu código de verificação é ${code}`,
+        reference: `verification:${clientId}:${expiresAt.getTime()}`,
+        template: {
+          name: EnvVars.Whatsapp.OtpTemplate,
+          locale: resolveLocale(meta.locale),
+          parameters: [code],
+          copyCode: true,
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to send verification code: ${error instanceof Error ? error.message : 'unknown error'}`);
     }
 
     return {
@@ -193,16 +213,17 @@ export class VerificationService {
       },
     });
 
-    // TODO: Send code via email service
-    // await emailService.send({
-    //   to: email,
-    //   subject: 'Verification Code',
-    //   body: `Your verification code is: ${code}`,
-    // });
-
-    // In development, log the code
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[DEV] Email verification code for ${email}: ${code}`);
+    const log = await this.emailService.sendVerificationCode({
+      to: email,
+      name: client.name,
+      code,
+      expiresAt,
+      locale: meta.locale,
+      accountId: client.accountId,
+      reference: `verification:${clientId}:${expiresAt.getTime()}`,
+    });
+    if (log.status === NotificationDeliveryStatus.FAILED) {
+      throw new Error(`Failed to send verification code: ${log.error}`);
     }
 
     return {
@@ -0,0 +1,86 @@
+/**
+ * WhatsApp Service
+ * Status callbacks of the WhatsApp Cloud API: delivered, read and failed updates are stored in
+ * `meta.delivery` of the alert or notification that sent the message (matched by its wamid)
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { InputJsonValue } from '@prisma/client/runtime/library';
+import EnvVars from '../common/EnvVars';
+import { headerValue, safeEqual, WebhookRequest } from '../adapters/paymentProviders';
+import { parseWhatsappStatuses, verifyWhatsappSignature, WhatsappStatusUpdate } from '../adapters/whatsapp/cloudApi';
+import { readDeliveryState, recordProviderStatus, withDeliveryState } from '../utils/notificationDelivery';
+
+export interface WhatsappCallbackSummary {
+  received: number;
+  updated: number;
+  unknown: number; // statuses of messages we did not send through an alert/notification (e.g. codes)
+}
+
+export class WhatsappService {
+  private prisma: PrismaClient;
+
+  constructor({ prisma }: { prisma: PrismaClient }) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Webhook subscription handshake: echoes hub.challenge when hub.verify_token matches
+   */
+  verifySubscription(query: Record<string, unknown>): string {
+    const token = String(query['hub.verify_token'] ?? '');
+    if (query['hub.mode'] !== 'subscribe' || !EnvVars.Whatsapp.VerifyToken || !safeEqual(token, EnvVars.Whatsapp.VerifyToken)) {
+      throw new Error('Invalid verify token');
+    }
+    return String(query['hub.challenge'] ?? '');
+  }
+
+  async receiveStatuses(request: WebhookRequest): Promise<WhatsappCallbackSummary> {
+    if (!verifyWhatsappSignature(request.rawBody, headerValue(request, 'x-hub-signature-256'), EnvVars.Whatsapp.AppSecret)) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const updates = parseWhatsappStatuses(request.body);
+    const summary: WhatsappCallbackSummary = { received: updates.length, updated: 0, unknown: 0 };
+    for (const update of updates) {
+      const updated = await this.applyStatus(update);
+      if (updated) summary.updated += updated;
+      else summary.unknown++;
+    }
+    return summary;
+  }
+
+  // Number of records updated with the status
+  private async applyStatus(update: WhatsappStatusUpdate): Promise<number> {
+    const where = { meta: { path: ['delivery', 'providerMessageId'], equals: update.messageId } };
+    const [alerts, notifications] = await Promise.all([
+      this.prisma.alert.findMany({ where, select: { id: true, meta: true } }),
+      this.prisma.notification.findMany({ where, select: { id: true, meta: true } }),
+    ]);
+
+    for (const alert of alerts) {
+      const state = readDeliveryState(alert.meta);
+      if (!state) continue;
+      await this.prisma.alert.update({
+        where: { id: alert.id },
+        data: { meta: withDeliveryState(alert.meta, recordProviderStatus(state, update)) as unknown as InputJsonValue },
+      });
+    }
+
+    for (const notification of notifications) {
+      const state = readDeliveryState(notification.meta);
+      if (!state) continue;
+      await this.prisma.notification.update({
+        where: { id: notification.id },
+        data: {
+          meta: withDeliveryState(notification.meta, recordProviderStatus(state, update)) as unknown as InputJsonValue,
+          ...(update.status === 'read' ? { read: true } : {}),
+        },
+      });
+    }
+
+    return alerts.length + notifications.length;
+  }
+}
+
+export default WhatsappService;
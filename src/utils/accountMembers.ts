@@ -0,0 +1,42 @@
+/**
+ * Account membership helpers
+ *
+ * A platform user can belong to several accounts, with one role in each (see utils/permissions
+ * for what each role can do). Members join through emailed invitations and the plan's maxUsers
+ * limits how many an account can have.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { AccountInvitationStatus } from '../constants/enums';
+
+export const INVITATION_TTL_DAYS = 7;
+
+/**
+ * Random invitation token (sent by email) and the hash that is stored
+ */
+export function createInvitationToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('hex');
+  return { token, tokenHash: hashInvitationToken(token) };
+}
+
+export function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Status as seen by the API: pending invitations past their expiration are EXPIRED
+ */
+export function invitationStatus(invitation: { status: string; expiresAt: Date }, now = new Date()): string {
+  if (invitation.status === AccountInvitationStatus.PENDING && invitation.expiresAt <= now) {
+    return AccountInvitationStatus.EXPIRED;
+  }
+  return invitation.status;
+}
+
+/**
+ * Users the plan still allows (null = unlimited). Pending invitations hold a seat.
+ */
+export function seatsLeft(maxUsers: number | null | undefined, members: number, pendingInvitations = 0): number | null {
+  if (maxUsers === null || maxUsers === undefined) return null;
+  return Math.max(0, maxUsers - members - pendingInvitations);
+}
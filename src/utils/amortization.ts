@@ -0,0 +1,180 @@
+/**
+ * Amortization helpers for installment schedule generation
+ *
+ * All systems work in cents internally so the generated schedule always sums
+ * exactly to the financed amount; any rounding residue lands on the last installment.
+ * The interest rate is a percentage per period (per installment frequency).
+ */
+
+import { AmortizationSystem } from '../constants/enums';
+import { calculateNextDueDate } from './dateHelpers';
+
+export interface AmortizationInput {
+  financedAmount: number;
+  interestRate: number;
+  count: number;
+  startDate: Date;
+  frequency: string;
+  system: string;
+}
+
+export interface ScheduledInstallment {
+  number: number;
+  dueDate: Date;
+  amount: number;
+  principal: number;
+  interest: number;
+  balance: number;
+}
+
+const toCents = (value: number): number => Math.round(value * 100);
+const fromCents = (value: number): number => value / 100;
+
+/**
+ * Fixed payment (PMT) of the Price / French system, in cents
+ */
+function pricePaymentCents(financedCents: number, rate: number, count: number): number {
+  if (rate === 0) {
+    return Math.round(financedCents / count);
+  }
+  return Math.round((financedCents * rate) / (1 - Math.pow(1 + rate, -count)));
+}
+
+/**
+ * Splits principal and interest (in cents) for each period of the given system
+ */
+function splitPeriods(financedCents: number, rate: number, count: number, system: string): Array<{ principal: number; interest: number }> {
+  const periods: Array<{ principal: number; interest: number }> = [];
+  let balance = financedCents;
+
+  switch (system) {
+    case AmortizationSystem.PRICE: {
+      const payment = pricePaymentCents(financedCents, rate, count);
+      for (let i = 1; i <= count; i++) {
+        const interest = Math.round(balance * rate);
+        const principal = i === count ? balance : Math.min(payment - interest, balance);
+        periods.push({ principal, interest });
+        balance -= principal;
+      }
+      break;
+    }
+    case AmortizationSystem.SAC: {
+      const constantPrincipal = Math.round(financedCents / count);
+      for (let i = 1; i <= count; i++) {
+        const interest = Math.round(balance * rate);
+        const principal = i === count ? balance : Math.min(constantPrincipal, balance);
+        periods.push({ principal, interest });
+        balance -= principal;
+      }
+      break;
+    }
+    case AmortizationSystem.SIMPLE: {
+      const totalInterest = Math.round(financedCents * rate * count);
+      const interestPerPeriod = Math.round(totalInterest / count);
+      const principalPerPeriod = Math.round(financedCents / count);
+      let interestLeft = totalInterest;
+      for (let i = 1; i <= count; i++) {
+        const interest = i === count ? interestLeft : Math.min(interestPerPeriod, interestLeft);
+        const principal = i === count ? balance : Math.min(principalPerPeriod, balance);
+        periods.push({ principal, interest });
+        balance -= principal;
+        interestLeft -= interest;
+      }
+      break;
+    }
+    case AmortizationSystem.BULLET: {
+      const interest = Math.round(financedCents * rate);
+      for (let i = 1; i <= count; i++) {
+        periods.push({ principal: i === count ? financedCents : 0, interest });
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unsupported amortization system: ${system}`);
+  }
+
+  return periods;
+}
+
+/**
+ * Generates the full installment schedule for the given amortization system
+ */
+export function generateAmortizationSchedule(input: AmortizationInput): ScheduledInstallment[] {
+  const { financedAmount, interestRate, count, startDate, frequency, system } = input;
+
+  if (count < 1) {
+    throw new Error('Installments count must be at least 1');
+  }
+  if (financedAmount <= 0) {
+    throw new Error('Financed amount must be greater than zero');
+  }
+
+  const financedCents = toCents(financedAmount);
+  const rate = interestRate / 100;
+  let balance = financedCents;
+
+  return splitPeriods(financedCents, rate, count, system).map((period, index) => {
+    balance -= period.principal;
+    return {
+      number: index + 1,
+      dueDate: calculateNextDueDate(startDate, frequency, index + 1),
+      amount: fromCents(period.principal + period.interest),
+      principal: fromCents(period.principal),
+      interest: fromCents(period.interest),
+      balance: fromCents(balance),
+    };
+  });
+}
+
+const PERIODS_PER_YEAR: Record<string, number> = {
+  WEEKLY: 52,
+  BIWEEKLY: 26,
+  MONTHLY: 12,
+};
+
+/**
+ * Calculates the effective cost (CET) of a schedule as the internal rate of return
+ * of the cash flows: the client receives `releasedAmount` and pays every installment.
+ * Returns the periodic, monthly and annual rates as percentages.
+ */
+export function calculateEffectiveRate(
+  releasedAmount: number,
+  installmentAmounts: number[],
+  frequency: string
+): { periodic: number; monthly: number; annual: number } {
+  const periodsPerYear = PERIODS_PER_YEAR[frequency];
+  if (!periodsPerYear) {
+    throw new Error(`Unsupported frequency: ${frequency}`);
+  }
+
+  const presentValue = (rate: number) =>
+    installmentAmounts.reduce((acc, amount, index) => acc + amount / Math.pow(1 + rate, index + 1), 0);
+
+  // Bisection over the periodic rate: present value decreases as the rate grows
+  let low = 0;
+  let high = 1;
+  if (presentValue(low) <= releasedAmount) {
+    high = 0;
+  } else {
+    while (presentValue(high) > releasedAmount && high < 1e6) {
+      high *= 2;
+    }
+    for (let i = 0; i < 200; i++) {
+      const mid = (low + high) / 2;
+      if (presentValue(mid) > releasedAmount) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+  }
+
+  const periodic = high;
+  const toPercent = (rate: number) => Math.round(rate * 100 * 10000) / 10000;
+
+  return {
+    periodic: toPercent(periodic),
+    monthly: toPercent(Math.pow(1 + periodic, periodsPerYear / 12) - 1),
+    annual: toPercent(Math.pow(1 + periodic, periodsPerYear) - 1),
+  };
+}
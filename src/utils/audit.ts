@@ -2,14 +2,55 @@
  * Audit utilities
  *
  * Generic helper to build the "{id}-{email}" actor string
- * from the authenticated user (decoded from the JWT token).
+ * from the authenticated user (decoded from the JWT token),
+ * and to append entries to the audit trail (AuditLog).
  */
 
+import { Prisma } from '@prisma/client';
+import { InputJsonValue } from '@prisma/client/runtime/library';
 import type { AuthenticatedUser } from '../middlewares/auth.middleware';
 
+export interface AuditEntry {
+  actor?: string;
+  action: string;
+  entity?: string;
+  entityId?: string | number | bigint;
+  before?: unknown;
+  after?: unknown;
+  ip?: string;
+}
+
+// Actor recorded for changes made by jobs and automatic transitions
+export const SYSTEM_ACTOR = 'system';
+
 export function getActorFromUser(user?: AuthenticatedUser | null): string | undefined {
   if (!user) return undefined;
   return `${user.id}-${user.email}`;
 }
 
+/**
+ * Snapshot a record as plain JSON (BigInt as string, Decimal/Date via toJSON)
+ */
+function toAuditJson(value: unknown): InputJsonValue {
+  return JSON.parse(
+    JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v))
+  ) as InputJsonValue;
+}
 
+/**
+ * Append an entry to the audit trail. Accepts a transaction client so the
+ * entry is committed (or rolled back) together with the change it describes.
+ */
+export async function recordAuditLog(client: Prisma.TransactionClient, entry: AuditEntry) {
+  return client.auditLog.create({
+    data: {
+      actor: entry.actor,
+      action: entry.action,
+      entity: entry.entity,
+      entityId: entry.entityId !== undefined ? String(entry.entityId) : undefined,
+      before: entry.before !== undefined ? toAuditJson(entry.before) : undefined,
+      after: entry.after !== undefined ? toAuditJson(entry.after) : undefined,
+      ip: entry.ip,
+    },
+  });
+}
@@ -0,0 +1,86 @@
+/**
+ * Sign-in session helpers
+ *
+ * Each login opens a session (AuthSession). Its refresh token is "<session id>.<secret>" and only
+ * the hash is stored; every refresh replaces it, so a token that was already used can be told
+ * apart from a forged one and the session is revoked (reuse detection). Access tokens carry the
+ * session id and authMiddleware refuses them once the session is revoked or expired.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+// How often a request moves lastUsedAt forward (refreshes always do)
+export const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+const REFRESH_TOKEN_REGEX = /^(\d+)\.([0-9a-f]{64})$/;
+
+// Where a session was opened from (request IP and User-Agent header)
+export interface SessionClient {
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * IP and User-Agent of a request
+ */
+export function sessionClientFromRequest(req: { ip?: string; headers: Record<string, unknown> }): SessionClient {
+  const userAgent = req.headers['user-agent'];
+  return { ip: req.ip ?? null, userAgent: typeof userAgent === 'string' ? userAgent : null };
+}
+
+/**
+ * Random refresh token for a session and the hash that is stored
+ */
+export function createRefreshToken(sessionId: number): { token: string; tokenHash: string } {
+  const token = `${sessionId}.${randomBytes(32).toString('hex')}`;
+  return { token, tokenHash: hashRefreshToken(token) };
+}
+
+export function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Session a refresh token belongs to (null when it isn't one of ours)
+ */
+export function parseRefreshToken(token: string): number | null {
+  const match = REFRESH_TOKEN_REGEX.exec(token);
+  return match ? Number(match[1]) : null;
+}
+
+export function isSessionActive(session: { revokedAt: Date | null; expiresAt: Date }, now = new Date()): boolean {
+  return !session.revokedAt && session.expiresAt > now;
+}
+
+export function shouldTouchSession(lastUsedAt: Date, now = new Date()): boolean {
+  return now.getTime() - lastUsedAt.getTime() >= SESSION_TOUCH_INTERVAL_MS;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Readable device of a User-Agent, e.g. "Chrome on Windows" (null when unknown)
+ */
+export function describeDevice(userAgent?: string | null): string | null {
+  if (!userAgent) return null;
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} on ${system}`;
+  return browser ?? system ?? null;
+}
@@ -0,0 +1,382 @@
+/**
+ * Bank statement parsing and payment matching
+ *
+ * Statements are normalized to a list of transactions regardless of the source file
+ * (OFX, CSV export or CNAB cobrança retorno). Credits are then matched against open
+ * installments by reference, amount, payer document and due date proximity.
+ */
+
+import { BankStatementFormat } from '../constants/enums';
+import { detectCnabLayout, parseCnab240Retorno, parseCnab400Retorno, CnabSettlement } from './cnab';
+
+export interface StatementTransaction {
+  externalId: string | null;
+  postedAt: Date;
+  amount: number;
+  description: string | null;
+  payerName: string | null;
+  payerDocument: string | null;
+  reference: string | null;
+}
+
+export interface ParsedBankStatement {
+  format: BankStatementFormat;
+  transactions: StatementTransaction[];
+}
+
+export interface MatchCandidate {
+  installmentId: bigint;
+  dueDate: Date;
+  clientDocument: string | null;
+  amounts: number[]; // open amount and amount due with late fees
+  references: string[]; // e.g. INST<id>, PIX txids, boleto nosso número
+}
+
+export interface MatchProposal {
+  installmentId: bigint;
+  score: number;
+  reasons: string[];
+}
+
+export interface MatchOptions {
+  dateWindowDays: number;
+}
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = {
+  dateWindowDays: 10,
+};
+
+// Score weights (sum to 100); a proposal needs the minimum score and a reference or amount hit
+const MATCH_WEIGHTS = { reference: 40, amount: 30, payer_document: 20, date_window: 10 };
+const MIN_MATCH_SCORE = 40;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function invalidLine(line: number): Error {
+  return new Error(`Invalid bank statement file: line ${line}`);
+}
+
+/**
+ * CPF/CNPJ found in a free text (e.g. "PIX RECEBIDO 123.456.789-09 FULANO")
+ */
+export function extractDocument(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const match = /\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}|\d{3}\.\d{3}\.\d{3}-\d{2}|(?<!\d)(\d{14}|\d{11})(?!\d)/.exec(text);
+  return match ? match[0].replace(/\D/g, '') : null;
+}
+
+export function normalizeDocument(document: string | null | undefined): string | null {
+  const digits = (document || '').replace(/\D/g, '');
+  return digits || null;
+}
+
+/**
+ * "1.234,56", "1,234.56", "1234.56", "R$ -10,00" -> number
+ */
+export function parseStatementAmount(value: string): number | null {
+  let text = value.replace(/R\$|\s/g, '');
+  const negative = /^-|^\(.*\)$|-$/.test(text);
+  text = text.replace(/[()+-]/g, '');
+  if (!text) return null;
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+  const amount = Number(text);
+  return negative ? -amount : amount;
+}
+
+/**
+ * dd/mm/yyyy, dd-mm-yyyy, dd/mm/yy or ISO yyyy-mm-dd (time is ignored)
+ */
+export function parseStatementDate(value: string): Date | null {
+  const text = value.trim();
+  let year: number, month: number, day: number;
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+  const br = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/.exec(text);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (br) {
+    [day, month, year] = [Number(br[1]), Number(br[2]), Number(br[3])];
+    if (br[3].length === 2) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+const trimmedOrNull = (value: string | undefined | null) => value?.trim() || null;
+
+/**
+ * OFX 1.x (SGML, closing tags optional) and 2.x (XML) statements
+ */
+export function parseOfx(content: string): StatementTransaction[] {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi) || [];
+
+  return blocks.map((block, index) => {
+    const tag = (name: string) => {
+      const match = new RegExp(`<${name}>([^<\\r\\n]*)`, 'i').exec(block);
+      return match ? match[1].trim() : '';
+    };
+
+    const postedRaw = tag('DTPOSTED');
+    const postedAt = /^\d{8}/.test(postedRaw)
+      ? parseStatementDate(`${postedRaw.slice(0, 4)}-${postedRaw.slice(4, 6)}-${postedRaw.slice(6, 8)}`)
+      : null;
+    const amount = parseStatementAmount(tag('TRNAMT'));
+    if (!postedAt || amount === null) {
+      throw invalidLine(index + 1);
+    }
+
+    const name = trimmedOrNull(tag('NAME'));
+    const memo = trimmedOrNull(tag('MEMO'));
+    const description = [name, memo].filter(Boolean).join(' - ') || null;
+
+    return {
+      externalId: trimmedOrNull(tag('FITID')),
+      postedAt,
+      amount,
+      description,
+      payerName: name,
+      payerDocument: extractDocument(description),
+      reference: trimmedOrNull(tag('REFNUM')) || trimmedOrNull(tag('CHECKNUM')),
+    };
+  });
+}
+
+// Accepted CSV headers (lowercase, without accents and punctuation)
+const CSV_COLUMNS: Record<keyof StatementTransaction, string[]> = {
+  postedAt: ['data', 'date', 'datalancamento', 'datamovimento', 'dataoperacao', 'postedat'],
+  amount: ['valor', 'amount', 'value', 'credito', 'valorcredito'],
+  description: ['descricao', 'historico', 'description', 'memo', 'lancamento'],
+  payerName: ['nome', 'pagador', 'payer', 'name', 'payername', 'remetente'],
+  payerDocument: ['documento', 'cpf', 'cnpj', 'cpfcnpj', 'document', 'payerdocument'],
+  reference: ['referencia', 'reference', 'ref', 'identificador', 'txid', 'nossonumero'],
+  externalId: ['id', 'fitid', 'externalid', 'transactionid', 'codigo'],
+};
+
+function splitCsvLine(line: string, separator: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === separator && !quoted) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells.map((cell) => cell.trim());
+}
+
+const normalizeHeader = (header: string) =>
+  header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * CSV export with a header row; separator (";", "," or tab) and number format are detected
+ */
+export function parseCsv(content: string): StatementTransaction[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim().length > 0);
+  if (headerIndex === -1) return [];
+
+  const headerLine = lines[headerIndex];
+  const separator = [';', '\t', ','].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+  const headers = splitCsvLine(headerLine, separator).map(normalizeHeader);
+  const column = (key: keyof typeof CSV_COLUMNS) => headers.findIndex((h) => CSV_COLUMNS[key].includes(h));
+
+  const columns = {
+    postedAt: column('postedAt'),
+    amount: column('amount'),
+    description: column('description'),
+    payerName: column('payerName'),
+    payerDocument: column('payerDocument'),
+    reference: column('reference'),
+    externalId: column('externalId'),
+  };
+  if (columns.postedAt === -1 || columns.amount === -1) {
+    throw new Error('Invalid bank statement file: CSV must have date and amount columns');
+  }
+
+  const transactions: StatementTransaction[] = [];
+  lines.forEach((line, index) => {
+    if (index <= headerIndex || !line.trim()) return;
+
+    const cells = splitCsvLine(line, separator);
+    const cell = (position: number) => (position === -1 ? null : trimmedOrNull(cells[position]));
+
+    const postedAt = parseStatementDate(cell(columns.postedAt) || '');
+    const amount = parseStatementAmount(cell(columns.amount) || '');
+    if (!postedAt || amount === null) {
+      throw invalidLine(index + 1);
+    }
+
+    const description = cell(columns.description);
+    transactions.push({
+      externalId: cell(columns.externalId),
+      postedAt,
+      amount,
+      description,
+      payerName: cell(columns.payerName),
+      payerDocument: normalizeDocument(cell(columns.payerDocument)) || extractDocument(description),
+      reference: cell(columns.reference),
+    });
+  });
+
+  return transactions;
+}
+
+function fromCnabSettlement(settlement: CnabSettlement): StatementTransaction {
+  const description = settlement.documentNumber
+    ? `Liquidação boleto ${settlement.nossoNumero} doc ${settlement.documentNumber}`
+    : `Liquidação boleto ${settlement.nossoNumero}`;
+
+  return {
+    externalId: settlement.nossoNumero,
+    postedAt: settlement.creditedAt || settlement.occurredAt,
+    amount: settlement.paidAmount,
+    description,
+    payerName: settlement.payerName,
+    payerDocument: settlement.payerDocument,
+    reference: settlement.nossoNumero,
+  };
+}
+
+export function detectStatementFormat(content: string): BankStatementFormat {
+  if (/OFXHEADER|<OFX>/i.test(content)) return BankStatementFormat.OFX;
+  return detectCnabLayout(content) || BankStatementFormat.CSV;
+}
+
+/**
+ * Parse a statement file; the format is detected from the content when not given
+ */
+export function parseBankStatement(content: string, format?: BankStatementFormat): ParsedBankStatement {
+  const resolved = format || detectStatementFormat(content);
+
+  switch (resolved) {
+    case BankStatementFormat.OFX:
+      return { format: resolved, transactions: parseOfx(content) };
+    case BankStatementFormat.CNAB240:
+      return { format: resolved, transactions: parseCnab240Retorno(content).map(fromCnabSettlement) };
+    case BankStatementFormat.CNAB400:
+      return { format: resolved, transactions: parseCnab400Retorno(content).map(fromCnabSettlement) };
+    default:
+      return { format: BankStatementFormat.CSV, transactions: parseCsv(content) };
+  }
+}
+
+// Numeric references (nosso número) are compared without their zero padding
+const referenceKey = (value: string) => {
+  const key = value.toUpperCase();
+  return /^\d+$/.test(key) ? key.replace(/^0+(?=\d)/, '') : key;
+};
+
+const tokens = (transaction: Pick<StatementTransaction, 'reference' | 'externalId' | 'description'>) =>
+  new Set(
+    [transaction.reference, transaction.externalId, transaction.description]
+      .filter(Boolean)
+      .join(' ')
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map(referenceKey)
+  );
+
+/**
+ * Whether a credit mentions a reference (PIX txid, boleto nosso número) in its reference,
+ * bank id or description
+ */
+export function mentionsReference(
+  transaction: Pick<StatementTransaction, 'reference' | 'externalId' | 'description'>,
+  reference: string
+): boolean {
+  return tokens(transaction).has(referenceKey(reference));
+}
+
+/**
+ * Score how well a credit matches an installment (null when it should not be proposed)
+ */
+export function scoreMatch(
+  transaction: StatementTransaction,
+  candidate: MatchCandidate,
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): MatchProposal | null {
+  const reasons: (keyof typeof MATCH_WEIGHTS)[] = [];
+  const transactionTokens = tokens(transaction);
+
+  if (candidate.references.some((reference) => transactionTokens.has(referenceKey(reference)))) {
+    reasons.push('reference');
+  }
+  if (candidate.amounts.some((amount) => Math.abs(amount - transaction.amount) < 0.005)) {
+    reasons.push('amount');
+  }
+  if (transaction.payerDocument && transaction.payerDocument === normalizeDocument(candidate.clientDocument)) {
+    reasons.push('payer_document');
+  }
+  if (Math.abs(transaction.postedAt.getTime() - candidate.dueDate.getTime()) <= options.dateWindowDays * DAY_MS) {
+    reasons.push('date_window');
+  }
+
+  const score = reasons.reduce((sum, reason) => sum + MATCH_WEIGHTS[reason], 0);
+  if (score < MIN_MATCH_SCORE || !(reasons.includes('reference') || reasons.includes('amount'))) {
+    return null;
+  }
+
+  return { installmentId: candidate.installmentId, score, reasons };
+}
+
+/**
+ * Best installment for each transaction. Each installment is proposed at most once,
+ * highest scores first (ties go to the closest due date).
+ */
+export function proposeMatches(
+  transactions: StatementTransaction[],
+  candidates: MatchCandidate[],
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): (MatchProposal | null)[] {
+  const pairs: Array<{ index: number; proposal: MatchProposal; distance: number }> = [];
+
+  transactions.forEach((transaction, index) => {
+    if (transaction.amount <= 0) return;
+    for (const candidate of candidates) {
+      const proposal = scoreMatch(transaction, candidate, options);
+      if (proposal) {
+        const distance = Math.abs(transaction.postedAt.getTime() - candidate.dueDate.getTime());
+        pairs.push({ index, proposal, distance });
+      }
+    }
+  });
+
+  pairs.sort((a, b) => b.proposal.score - a.proposal.score || a.distance - b.distance);
+
+  const proposals: (MatchProposal | null)[] = transactions.map(() => null);
+  const taken = new Set<bigint>();
+  for (const { index, proposal } of pairs) {
+    if (proposals[index] || taken.has(proposal.installmentId)) continue;
+    proposals[index] = proposal;
+    taken.add(proposal.installmentId);
+  }
+
+  return proposals;
+}
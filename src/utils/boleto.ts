@@ -0,0 +1,232 @@
+/**
+ * Boleto helpers (FEBRABAN bank collection slips)
+ *
+ * The barcode has 44 digits: bank (3), currency "9" (1), check digit (1), due date
+ * factor (4), amount in cents (10) and a 25-digit free field defined by each bank with
+ * the agreement and the "nosso número". The "linha digitável" (47 digits) rearranges the
+ * barcode in five fields, the first three with their own modulo 10 check digit.
+ */
+
+export interface BoletoSettings {
+  bankCode: string | null; // 001 (Banco do Brasil), 237 (Bradesco), 341 (Itaú)
+  agency: string | null;
+  agencyDigit: string | null;
+  account: string | null;
+  accountDigit: string | null;
+  agreement: string | null; // convênio / código do beneficiário
+  wallet: string | null; // carteira
+  beneficiaryName: string | null; // defaults to the account name
+  beneficiaryDocument: string | null; // defaults to the account document
+}
+
+export interface BoletoBank {
+  code: string;
+  name: string;
+  defaultWallet: string;
+  nossoNumero(settings: BoletoSettings, sequence: number): string;
+  freeField(settings: BoletoSettings, nossoNumero: string): string;
+}
+
+export interface BoletoCodes {
+  barcode: string;
+  digitableLine: string;
+}
+
+export const DEFAULT_BOLETO_SETTINGS: BoletoSettings = {
+  bankCode: null,
+  agency: null,
+  agencyDigit: null,
+  account: null,
+  accountDigit: null,
+  agreement: null,
+  wallet: null,
+  beneficiaryName: null,
+  beneficiaryDocument: null,
+};
+
+// Base date of the due date factor; the factor restarts at 1000 after 9999 (2025-02-22)
+const DUE_DATE_BASE = Date.UTC(1997, 9, 7);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const digits = (value: string | null | undefined) => (value || '').replace(/\D/g, '');
+const pad = (value: string | number, length: number) => String(value).padStart(length, '0').slice(-length);
+
+/**
+ * Merges a stored (possibly partial) boleto setting with the defaults
+ */
+export function normalizeBoletoSettings(value: unknown): BoletoSettings {
+  const stored = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const toText = (raw: unknown, fallback: string | null) =>
+    (typeof raw === 'string' || typeof raw === 'number') && String(raw).trim() ? String(raw).trim() : fallback;
+
+  return {
+    bankCode: toText(stored.bankCode, DEFAULT_BOLETO_SETTINGS.bankCode),
+    agency: toText(stored.agency, DEFAULT_BOLETO_SETTINGS.agency),
+    agencyDigit: toText(stored.agencyDigit, DEFAULT_BOLETO_SETTINGS.agencyDigit),
+    account: toText(stored.account, DEFAULT_BOLETO_SETTINGS.account),
+    accountDigit: toText(stored.accountDigit, DEFAULT_BOLETO_SETTINGS.accountDigit),
+    agreement: toText(stored.agreement, DEFAULT_BOLETO_SETTINGS.agreement),
+    wallet: toText(stored.wallet, DEFAULT_BOLETO_SETTINGS.wallet),
+    beneficiaryName: toText(stored.beneficiaryName, DEFAULT_BOLETO_SETTINGS.beneficiaryName),
+    beneficiaryDocument: toText(stored.beneficiaryDocument, DEFAULT_BOLETO_SETTINGS.beneficiaryDocument),
+  };
+}
+
+/**
+ * Modulo 10 check digit (weights 2,1 from the right, products summed digit by digit)
+ */
+export function modulo10(value: string): number {
+  let sum = 0;
+  let weight = 2;
+  for (let i = value.length - 1; i >= 0; i--) {
+    const product = Number(value[i]) * weight;
+    sum += product > 9 ? product - 9 : product;
+    weight = weight === 2 ? 1 : 2;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Modulo 11 check digit of the barcode (weights 2..9 from the right; 0, 10 and 11 become 1)
+ */
+export function barcodeModulo11(value: string): number {
+  let sum = 0;
+  let weight = 2;
+  for (let i = value.length - 1; i >= 0; i--) {
+    sum += Number(value[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const digit = 11 - (sum % 11);
+  return digit === 0 || digit === 10 || digit === 11 ? 1 : digit;
+}
+
+/**
+ * Due date factor: days since 1997-10-07, restarting at 1000 after 9999
+ */
+export function dueDateFactor(dueDate: Date): string {
+  const day = Date.UTC(dueDate.getUTCFullYear(), dueDate.getUTCMonth(), dueDate.getUTCDate());
+  const days = Math.round((day - DUE_DATE_BASE) / MS_PER_DAY);
+  if (days < 1000) {
+    throw new Error('Due date is out of the boleto range');
+  }
+  return String(days > 9999 ? ((days - 10000) % 9000) + 1000 : days);
+}
+
+/**
+ * Barcode and "linha digitável" for a bank free field
+ */
+export function buildBoletoCodes(input: {
+  bankCode: string;
+  dueDate: Date;
+  amount: number;
+  freeField: string;
+}): BoletoCodes {
+  const cents = Math.round(input.amount * 100);
+  if (cents <= 0 || cents > 9999999999) {
+    throw new Error('Boleto amount is out of range');
+  }
+  if (!/^\d{25}$/.test(input.freeField)) {
+    throw new Error('Boleto free field must have 25 digits');
+  }
+
+  const bankCurrency = `${pad(input.bankCode, 3)}9`;
+  const factorAmount = `${dueDateFactor(input.dueDate)}${pad(cents, 10)}`;
+  const checkDigit = barcodeModulo11(`${bankCurrency}${factorAmount}${input.freeField}`);
+  const barcode = `${bankCurrency}${checkDigit}${factorAmount}${input.freeField}`;
+
+  return { barcode, digitableLine: digitableLineFromBarcode(barcode) };
+}
+
+/**
+ * "AAAAA.AAAAA BBBBB.BBBBBB CCCCC.CCCCCC D EEEEEEEEEEEEEE" for a 44-digit barcode
+ */
+export function digitableLineFromBarcode(barcode: string): string {
+  const field1 = `${barcode.substring(0, 4)}${barcode.substring(19, 24)}`;
+  const field2 = barcode.substring(24, 34);
+  const field3 = barcode.substring(34, 44);
+  const withDigit = (field: string) => `${field}${modulo10(field)}`;
+
+  const [f1, f2, f3] = [withDigit(field1), withDigit(field2), withDigit(field3)];
+  return [
+    `${f1.substring(0, 5)}.${f1.substring(5)}`,
+    `${f2.substring(0, 5)}.${f2.substring(5)}`,
+    `${f3.substring(0, 5)}.${f3.substring(5)}`,
+    barcode[4],
+    barcode.substring(5, 19),
+  ].join(' ');
+}
+
+/**
+ * Barcode for a typed/pasted "linha digitável" (null when a check digit does not match)
+ */
+export function barcodeFromDigitableLine(line: string): string | null {
+  const value = digits(line);
+  if (value.length !== 47) return null;
+
+  const fields = [value.substring(0, 10), value.substring(10, 21), value.substring(21, 32)];
+  if (fields.some((field) => modulo10(field.slice(0, -1)) !== Number(field.slice(-1)))) {
+    return null;
+  }
+
+  const barcode = [
+    value.substring(0, 4),
+    value[32],
+    value.substring(33, 47),
+    value.substring(4, 9),
+    value.substring(10, 20),
+    value.substring(21, 31),
+  ].join('');
+  return barcodeModulo11(barcode.substring(0, 4) + barcode.substring(5)) === Number(barcode[4]) ? barcode : null;
+}
+
+// Free field ("campo livre") layouts of the supported banks
+export const BOLETO_BANKS: Record<string, BoletoBank> = {
+  '001': {
+    code: '001',
+    name: 'BANCO DO BRASIL S.A.',
+    defaultWallet: '17',
+    // Convênio with 7 digits: convênio + 10-digit sequence
+    nossoNumero: (settings, sequence) => `${pad(digits(settings.agreement), 7)}${pad(sequence, 10)}`,
+    freeField: (settings, nossoNumero) => `000000${pad(nossoNumero, 17)}${pad(digits(settings.wallet) || '17', 2)}`,
+  },
+  '237': {
+    code: '237',
+    name: 'BANCO BRADESCO S.A.',
+    defaultWallet: '09',
+    nossoNumero: (_settings, sequence) => pad(sequence, 11),
+    freeField: (settings, nossoNumero) =>
+      `${pad(digits(settings.agency), 4)}${pad(digits(settings.wallet) || '09', 2)}${pad(nossoNumero, 11)}${pad(digits(settings.account), 7)}0`,
+  },
+  '341': {
+    code: '341',
+    name: 'BANCO ITAU S.A.',
+    defaultWallet: '109',
+    nossoNumero: (_settings, sequence) => pad(sequence, 8),
+    freeField: (settings, nossoNumero) => {
+      const agency = pad(digits(settings.agency), 4);
+      const account = pad(digits(settings.account), 5);
+      const wallet = pad(digits(settings.wallet) || '109', 3);
+      const number = pad(nossoNumero, 8);
+      return `${wallet}${number}${modulo10(`${agency}${account}${wallet}${number}`)}${agency}${account}${modulo10(`${agency}${account}`)}000`;
+    },
+  },
+};
+
+/**
+ * Bank of the configured agreement; throws when the settings are incomplete
+ */
+export function resolveBoletoBank(settings: BoletoSettings): BoletoBank {
+  if (!settings.bankCode || !settings.agency || !settings.account) {
+    throw new Error('Boleto bank agreement is not configured for this account');
+  }
+
+  const bank = BOLETO_BANKS[pad(digits(settings.bankCode), 3)];
+  if (!bank) {
+    throw new Error(`Bank ${settings.bankCode} is not supported for boletos`);
+  }
+  if (bank.code === '001' && digits(settings.agreement).length !== 7) {
+    throw new Error('Banco do Brasil boletos require a 7-digit agreement (convênio)');
+  }
+
+  return bank;
+}
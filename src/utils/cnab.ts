@@ -0,0 +1,386 @@
+/**
+ * CNAB helpers (FEBRABAN fixed-width bank files)
+ *
+ * Remessa (shipping) files register boletos with the bank; retorno (return) files report
+ * what happened to each of them: registrations, rejections, write-offs and settlements
+ * with the "nosso número", the payer and the amount credited. Fields are addressed by
+ * their 1-based start/end positions, as in the bank layout manuals.
+ */
+
+export interface CnabMovement {
+  nossoNumero: string;
+  documentNumber: string | null; // "seu número" / company control number
+  movementCode: string;
+  dueDate: Date | null;
+  titleAmount: number;
+  paidAmount: number;
+  interestAmount: number;
+  occurredAt: Date | null;
+  creditedAt: Date | null;
+  payerDocument: string | null;
+  payerName: string | null;
+  rejectionReasons: string | null;
+  line: number;
+}
+
+export interface CnabSettlement extends CnabMovement {
+  occurredAt: Date;
+}
+
+// CNAB 240 movement codes (retorno)
+export const Cnab240Movement = {
+  REGISTERED: '02',
+  REJECTED: '03',
+  SETTLED: '06',
+  WRITTEN_OFF: '09',
+  SETTLED_AFTER_WRITE_OFF: '17',
+} as const;
+
+// Movement codes that mean the boleto was paid
+export const CNAB240_SETTLEMENT_CODES: string[] = [Cnab240Movement.SETTLED, Cnab240Movement.SETTLED_AFTER_WRITE_OFF];
+export const CNAB400_SETTLEMENT_CODES = ['06', '07', '08', '15', '17'];
+
+/**
+ * Field at 1-based inclusive positions (as printed in the layouts)
+ */
+export function cnabField(line: string, start: number, end: number): string {
+  return line.substring(start - 1, end);
+}
+
+/**
+ * Amount with two implied decimals, e.g. "000000000015050" -> 150.5
+ */
+export function cnabAmount(value: string): number {
+  const digits = value.trim();
+  return /^\d+$/.test(digits) ? Number(digits) / 100 : 0;
+}
+
+/**
+ * DDMMAAAA (CNAB 240) or DDMMAA (CNAB 400) date; null for blank/zero dates
+ */
+export function cnabDate(value: string): Date | null {
+  const digits = value.trim();
+  if (!/^\d+$/.test(digits) || /^0+$/.test(digits)) return null;
+
+  const day = Number(digits.slice(0, 2));
+  const month = Number(digits.slice(2, 4));
+  const year = digits.length === 8
+    ? Number(digits.slice(4, 8))
+    : 2000 + Number(digits.slice(4, 6));
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const trimmedOrNull = (value: string) => value.trim() || null;
+
+const documentOrNull = (value: string) => {
+  const digits = value.replace(/\D/g, '').replace(/^0+(?=\d{11}$)/, '').replace(/^0+(?=\d{14}$)/, '');
+  return /^0*$/.test(digits) ? null : digits;
+};
+
+export function splitCnabLines(content: string): string[] {
+  return content.split(/\r?\n/).filter((line) => line.trim().length > 0);
+}
+
+/**
+ * Detect a CNAB file by its record length
+ */
+export function detectCnabLayout(content: string): 'CNAB240' | 'CNAB400' | null {
+  const lines = splitCnabLines(content);
+  if (!lines.length) return null;
+  if (lines.every((line) => line.length === 240)) return 'CNAB240';
+  if (lines.every((line) => line.length === 400)) return 'CNAB400';
+  return null;
+}
+
+/**
+ * Every movement of a CNAB 240 cobrança retorno (segments T + U)
+ */
+export function parseCnab240Movements(content: string): CnabMovement[] {
+  const lines = splitCnabLines(content);
+  const movements: CnabMovement[] = [];
+
+  lines.forEach((line, index) => {
+    if (cnabField(line, 8, 8) !== '3' || cnabField(line, 14, 14) !== 'T') return;
+
+    const segmentU = lines[index + 1] && cnabField(lines[index + 1], 14, 14) === 'U' ? lines[index + 1] : '';
+
+    movements.push({
+      nossoNumero: cnabField(line, 38, 57).trim(),
+      documentNumber: trimmedOrNull(cnabField(line, 59, 73)),
+      movementCode: cnabField(line, 16, 17),
+      dueDate: cnabDate(cnabField(line, 74, 81)),
+      titleAmount: cnabAmount(cnabField(line, 82, 96)),
+      paidAmount: cnabAmount(cnabField(segmentU, 78, 92)),
+      interestAmount: cnabAmount(cnabField(segmentU, 18, 32)),
+      occurredAt: cnabDate(cnabField(segmentU, 138, 145)),
+      creditedAt: cnabDate(cnabField(segmentU, 146, 153)),
+      payerDocument: documentOrNull(cnabField(line, 134, 148)),
+      payerName: trimmedOrNull(cnabField(line, 149, 188)),
+      rejectionReasons: trimmedOrNull(cnabField(line, 214, 223)),
+      line: index + 1,
+    });
+  });
+
+  return movements;
+}
+
+/**
+ * Settlements of a CNAB 240 cobrança retorno
+ */
+export function parseCnab240Retorno(content: string): CnabSettlement[] {
+  return parseCnab240Movements(content).filter(
+    (movement): movement is CnabSettlement =>
+      CNAB240_SETTLEMENT_CODES.includes(movement.movementCode) && movement.occurredAt !== null
+  );
+}
+
+/**
+ * Settlements of a CNAB 400 cobrança retorno (detail records "1", Bradesco-style layout)
+ */
+export function parseCnab400Retorno(content: string): CnabSettlement[] {
+  const lines = splitCnabLines(content);
+  const settlements: CnabSettlement[] = [];
+
+  lines.forEach((line, index) => {
+    if (cnabField(line, 1, 1) !== '1') return;
+
+    const movementCode = cnabField(line, 109, 110);
+    if (!CNAB400_SETTLEMENT_CODES.includes(movementCode)) return;
+
+    const occurredAt = cnabDate(cnabField(line, 111, 116));
+    if (!occurredAt) return;
+
+    settlements.push({
+      nossoNumero: cnabField(line, 71, 82).trim(),
+      documentNumber: trimmedOrNull(cnabField(line, 117, 126)),
+      movementCode,
+      dueDate: cnabDate(cnabField(line, 147, 152)),
+      titleAmount: cnabAmount(cnabField(line, 153, 165)),
+      paidAmount: cnabAmount(cnabField(line, 254, 266)),
+      interestAmount: cnabAmount(cnabField(line, 267, 279)),
+      occurredAt,
+      creditedAt: cnabDate(cnabField(line, 296, 301)),
+      payerDocument: null,
+      payerName: null,
+      rejectionReasons: null,
+      line: index + 1,
+    });
+  });
+
+  return settlements;
+}
+
+// ------------ REMESSA ------------
+
+export interface CnabBeneficiary {
+  bankCode: string;
+  bankName: string;
+  document: string; // CPF or CNPJ digits
+  name: string;
+  agreement: string; // convênio / código do beneficiário
+  agency: string;
+  agencyDigit: string;
+  account: string;
+  accountDigit: string;
+  wallet: string; // carteira
+}
+
+export interface CnabPayer {
+  document: string | null;
+  name: string;
+  address: string;
+  district: string;
+  zipCode: string;
+  city: string;
+  state: string;
+}
+
+export interface CnabTitle {
+  nossoNumero: string;
+  documentNumber: string; // "seu número", echoed back in the retorno
+  issuedAt: Date;
+  dueDate: Date;
+  amount: number;
+  monthlyInterestPercent: number;
+  finePercent: number;
+  chargesFrom: Date; // first day fine and interest apply
+  payer: CnabPayer;
+}
+
+export interface CnabRemessa {
+  beneficiary: CnabBeneficiary;
+  sequence: number; // NSA, increases with every file sent to the bank
+  generatedAt: Date;
+  titles: CnabTitle[];
+}
+
+/**
+ * Record of the given length with the fields written at their 1-based positions (blank elsewhere)
+ */
+export function cnabRecord(length: number, fields: Array<[number, string]>): string {
+  const chars = ' '.repeat(length).split('');
+  for (const [start, value] of fields) {
+    value.split('').forEach((char, i) => {
+      chars[start - 1 + i] = char;
+    });
+  }
+  return chars.join('').substring(0, length);
+}
+
+/**
+ * Numeric field: digits only, zero-padded on the left (keeps the rightmost digits)
+ */
+export function cnabNumber(value: string | number, length: number): string {
+  return String(value).replace(/\D/g, '').padStart(length, '0').slice(-length);
+}
+
+/**
+ * Alphanumeric field: uppercase without accents, blank-padded on the right
+ */
+export function cnabText(value: string | null | undefined, length: number): string {
+  const text = (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9 .,/\-]/g, ' ');
+  return text.padEnd(length, ' ').substring(0, length);
+}
+
+/**
+ * Amount with two implied decimals
+ */
+export function cnabMoney(amount: number, length: number): string {
+  return cnabNumber(Math.round(amount * 100), length);
+}
+
+export function cnabDateValue(date: Date): string {
+  return [
+    String(date.getUTCDate()).padStart(2, '0'),
+    String(date.getUTCMonth() + 1).padStart(2, '0'),
+    String(date.getUTCFullYear()),
+  ].join('');
+}
+
+const documentType = (document: string | null) => {
+  const digits = (document || '').replace(/\D/g, '');
+  if (!digits) return '0';
+  return digits.length > 11 ? '2' : '1';
+};
+
+/**
+ * CNAB 240 cobrança remessa (FEBRABAN layout 10.7): one batch with segments P, Q and R per title
+ */
+export function buildCnab240Remessa(remessa: CnabRemessa): string {
+  const { beneficiary: b, sequence, generatedAt, titles } = remessa;
+  const bank = cnabNumber(b.bankCode, 3);
+  const records: string[] = [];
+
+  const beneficiaryAccount = (start: number): Array<[number, string]> => [
+    [start, cnabNumber(b.agency, 5)],
+    [start + 5, cnabText(b.agencyDigit, 1)],
+    [start + 6, cnabNumber(b.account, 12)],
+    [start + 18, cnabText(b.accountDigit, 1)],
+  ];
+
+  // File header
+  records.push(cnabRecord(240, [
+    [1, bank], [4, '0000'], [8, '0'],
+    [18, documentType(b.document)], [19, cnabNumber(b.document, 14)],
+    [33, cnabText(b.agreement, 20)],
+    ...beneficiaryAccount(53),
+    [73, cnabText(b.name, 30)],
+    [103, cnabText(b.bankName, 30)],
+    [143, '1'],
+    [144, cnabDateValue(generatedAt)],
+    [152, generatedAt.toISOString().substring(11, 19).replace(/:/g, '')],
+    [158, cnabNumber(sequence, 6)],
+    [164, '103'],
+    [167, '00000'],
+  ]));
+
+  // Batch header
+  records.push(cnabRecord(240, [
+    [1, bank], [4, '0001'], [8, '1'], [9, 'R'], [10, '01'], [14, '060'],
+    [18, documentType(b.document)], [19, cnabNumber(b.document, 15)],
+    [34, cnabText(b.agreement, 20)],
+    ...beneficiaryAccount(54),
+    [74, cnabText(b.name, 30)],
+    [184, cnabNumber(sequence, 8)],
+    [192, cnabDateValue(generatedAt)],
+    [200, '00000000'],
+  ]));
+
+  let detail = 0;
+  const segment = (code: string, fields: Array<[number, string]>) => {
+    detail++;
+    records.push(cnabRecord(240, [
+      [1, bank], [4, '0001'], [8, '3'], [9, cnabNumber(detail, 5)], [14, code], [16, '01'],
+      ...fields,
+    ]));
+  };
+
+  for (const title of titles) {
+    segment('P', [
+      ...beneficiaryAccount(18),
+      [38, cnabNumber(title.nossoNumero, 20)],
+      [58, cnabNumber(b.wallet, 1)],
+      [59, '1'], [60, '1'], [61, '2'], [62, '2'],
+      [63, cnabText(title.documentNumber, 15)],
+      [78, cnabDateValue(title.dueDate)],
+      [86, cnabMoney(title.amount, 15)],
+      [101, '00000'], [106, '0'],
+      [107, '02'], [109, 'N'],
+      [110, cnabDateValue(title.issuedAt)],
+      [118, title.monthlyInterestPercent > 0 ? '2' : '3'],
+      [119, title.monthlyInterestPercent > 0 ? cnabDateValue(title.chargesFrom) : '00000000'],
+      [127, cnabMoney(title.monthlyInterestPercent, 15)],
+      [142, '0'], [143, '00000000'], [151, cnabMoney(0, 15)],
+      [166, cnabMoney(0, 15)], [181, cnabMoney(0, 15)],
+      [196, cnabText(title.documentNumber, 25)],
+      [221, '3'], [222, '00'], [224, '0'], [225, '000'],
+      [228, '09'], [230, '0000000000'],
+    ]);
+
+    segment('Q', [
+      [18, documentType(title.payer.document)], [19, cnabNumber(title.payer.document || '', 15)],
+      [34, cnabText(title.payer.name, 40)],
+      [74, cnabText(title.payer.address, 40)],
+      [114, cnabText(title.payer.district, 15)],
+      [129, cnabNumber(title.payer.zipCode, 8)],
+      [137, cnabText(title.payer.city, 15)],
+      [152, cnabText(title.payer.state, 2)],
+      [154, '0'], [155, cnabNumber(0, 15)],
+      [210, '000'],
+    ]);
+
+    segment('R', [
+      [18, '0'], [19, '00000000'], [27, cnabMoney(0, 15)],
+      [42, '0'], [43, '00000000'], [51, cnabMoney(0, 15)],
+      [66, title.finePercent > 0 ? '2' : '0'],
+      [67, title.finePercent > 0 ? cnabDateValue(title.chargesFrom) : '00000000'],
+      [75, cnabMoney(title.finePercent, 15)],
+      [200, '00000000'], [208, '000'], [211, '00000'], [217, '000000000000'], [231, '0'],
+    ]);
+  }
+
+  // Batch trailer: header + details + trailer
+  const total = titles.reduce((sum, title) => sum + Math.round(title.amount * 100), 0) / 100;
+  records.push(cnabRecord(240, [
+    [1, bank], [4, '0001'], [8, '5'],
+    [18, cnabNumber(detail + 2, 6)],
+    [24, cnabNumber(titles.length, 6)],
+    [30, cnabMoney(total, 17)],
+    [47, '0'.repeat(69)],
+  ]));
+
+  // File trailer
+  records.push(cnabRecord(240, [
+    [1, bank], [4, '9999'], [8, '9'],
+    [18, '000001'],
+    [24, cnabNumber(records.length + 1, 6)],
+    [30, '000000'],
+  ]));
+
+  return records.join('\r\n') + '\r\n';
+}
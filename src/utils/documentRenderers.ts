@@ -0,0 +1,548 @@
+/**
+ * PDF renderers for operation contracts, payment receipts and client statements
+ *
+ * Renderers only lay out the data they receive (see DocumentsService for the loading);
+ * texts are pt-BR and amounts are formatted in the account currency.
+ */
+
+import { DocumentTemplates } from './documentTemplates';
+import { LateFeePolicy } from './lateFees';
+import { PdfDocument, measureText, wrapText } from './pdf';
+import { amountInWords } from './promissoryNote';
+
+export interface DocumentParty {
+  name: string | null;
+  document: string | null;
+  address: string | null;
+  email?: string | null;
+  phone?: string | null;
+}
+
+export interface ContractDocument {
+  account: DocumentParty;
+  accountCity: string | null;
+  client: DocumentParty;
+  operation: {
+    id: bigint;
+    type: string;
+    title: string | null;
+    currency: string;
+    principalAmount: number;
+    entryAmount: number | null;
+    interestRate: number | null;
+    amortizationSystem: string | null;
+    frequency: string | null;
+    startDate: Date;
+    depositAmount: number | null;
+    resourceTitle: string | null;
+  };
+  installments: Array<{ dueDate: Date; amount: number; principal: number | null; interest: number | null }>;
+  lateFeePolicy: LateFeePolicy;
+  issuedAt: Date;
+}
+
+export interface ReceiptDocument {
+  account: DocumentParty;
+  client: DocumentParty;
+  payment: {
+    id: bigint;
+    amount: number;
+    currency: string;
+    paidAt: Date;
+    method: string | null;
+    reference: string | null;
+    reversalOfId: bigint | null; // set on compensating entries
+    reversedAt: Date | null; // set when this payment was reversed
+  };
+  operation: { id: bigint; type: string; title: string | null };
+  allocations: Array<{
+    dueDate: Date;
+    amount: number;
+    principalAmount: number;
+    interestAmount: number;
+    feeAmount: number;
+  }>;
+  issuedAt: Date;
+}
+
+export interface StatementDocument {
+  account: DocumentParty;
+  client: DocumentParty;
+  currency: string;
+  from: Date | null;
+  to: Date | null;
+  summary: {
+    operations: number;
+    contracted: number;
+    paid: number;
+    open: number;
+    overdue: number;
+  };
+  installments: Array<{
+    operationId: bigint;
+    dueDate: Date;
+    amount: number;
+    paidAmount: number;
+    openAmount: number;
+    status: string;
+  }>;
+  payments: Array<{
+    id: bigint;
+    operationId: bigint;
+    paidAt: Date;
+    method: string | null;
+    amount: number;
+  }>;
+  issuedAt: Date;
+}
+
+interface TableColumn {
+  label: string;
+  width: number; // fraction of the content width
+  align?: 'left' | 'right';
+}
+
+const OPERATION_TYPE_LABELS: Record<string, string> = {
+  LOAN: 'Empréstimo',
+  RENTAL: 'Locação',
+  PROMISSORY_NOTE: 'Nota promissória',
+  OTHER: 'Outro',
+};
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  WEEKLY: 'Semanal',
+  BIWEEKLY: 'Quinzenal',
+  MONTHLY: 'Mensal',
+};
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  CASH: 'Dinheiro',
+  BANK_TRANSFER: 'Transferência bancária',
+  PIX: 'PIX',
+  CARD: 'Cartão',
+};
+
+const INSTALLMENT_STATUS_LABELS: Record<string, string> = {
+  PENDING: 'Pendente',
+  PARTIALLY_PAID: 'Parcial',
+  PAID: 'Paga',
+  LATE: 'Em atraso',
+  CANCELLED: 'Cancelada',
+};
+
+export function formatMoney(value: number, currency: string): string {
+  return new Intl.NumberFormat('pt-BR', { style: 'currency', currency }).format(value);
+}
+
+export function formatDate(date: Date): string {
+  return date.toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+}
+
+function formatLongDate(date: Date): string {
+  return date.toLocaleDateString('pt-BR', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
+
+function formatPercent(value: number): string {
+  return `${value.toLocaleString('pt-BR', { maximumFractionDigits: 4 })}%`;
+}
+
+function describeParty(party: DocumentParty): string {
+  return [
+    party.name,
+    party.document ? `CPF/CNPJ ${party.document}` : null,
+    party.address,
+    party.email,
+    party.phone,
+  ].filter(Boolean).join(', ');
+}
+
+function describeOperation(operation: { id: bigint; type: string; title: string | null }): string {
+  return `${OPERATION_TYPE_LABELS[operation.type] || operation.type} nº ${operation.id}` +
+    (operation.title ? ` (${operation.title})` : '');
+}
+
+/**
+ * Shorten a text with an ellipsis so it fits the given width
+ */
+function fitText(value: string, width: number, size: number, bold = false): string {
+  if (measureText(value, size, bold) <= width) return value;
+  let text = value;
+  while (text.length > 1 && measureText(`${text}…`, size, bold) > width) text = text.slice(0, -1);
+  return `${text}…`;
+}
+
+/**
+ * Flowing A4 layout with the account header and footer on every page
+ */
+class DocumentLayout {
+  private doc = new PdfDocument();
+  private y = 0;
+  private pageNumber = 0;
+  private readonly margin = 50;
+
+  constructor(private templates: DocumentTemplates, private issuer: DocumentParty) {
+    this.startPage();
+  }
+
+  private get width(): number {
+    return this.doc.width - this.margin * 2;
+  }
+
+  private get bottom(): number {
+    return this.doc.height - this.margin - 20;
+  }
+
+  private startPage() {
+    if (this.pageNumber > 0) this.doc.addPage();
+    this.pageNumber++;
+
+    const name = this.templates.header.companyName || this.issuer.name || '';
+    const lines = [
+      [this.issuer.document ? `CPF/CNPJ ${this.issuer.document}` : null, this.issuer.email, this.issuer.phone]
+        .filter(Boolean)
+        .join(' - '),
+      this.issuer.address,
+      ...this.templates.header.lines,
+    ].filter((line): line is string => !!line);
+
+    let y = this.margin;
+    this.doc.text(name, this.margin, y, { size: 14, bold: true });
+    for (const line of lines) {
+      y += 11;
+      this.doc.text(line, this.margin, y, { size: 8.5 });
+    }
+    y += 8;
+    this.doc.line(this.margin, y, this.margin + this.width, y);
+
+    const footerY = this.doc.height - this.margin + 10;
+    if (this.templates.footer) {
+      this.doc.text(fitText(this.templates.footer, this.width - 60, 8), this.margin, footerY, { size: 8 });
+    }
+    this.doc.text(`Página ${this.pageNumber}`, this.margin + this.width, footerY, { size: 8, align: 'right' });
+
+    this.y = y + 24;
+  }
+
+  private ensure(height: number) {
+    if (this.y + height > this.bottom) this.startPage();
+  }
+
+  title(text: string, subtitle?: string) {
+    this.ensure(40);
+    this.doc.text(text, this.margin + this.width / 2, this.y, { size: 13, bold: true, align: 'center' });
+    if (subtitle) {
+      this.y += 15;
+      this.doc.text(subtitle, this.margin + this.width / 2, this.y, { size: 10, align: 'center' });
+    }
+    this.y += 24;
+  }
+
+  section(text: string) {
+    this.ensure(36);
+    this.y += 6;
+    this.doc.text(text, this.margin, this.y, { size: 10.5, bold: true });
+    this.y += 16;
+  }
+
+  paragraph(text: string, options: { size?: number; bold?: boolean } = {}) {
+    const size = options.size || 9.5;
+    for (const line of wrapText(text, this.width, size, options.bold)) {
+      this.ensure(size * 1.4);
+      this.doc.text(line, this.margin, this.y, { size, bold: options.bold });
+      this.y += size * 1.4;
+    }
+    this.y += 4;
+  }
+
+  /**
+   * Label/value pairs laid out in two columns
+   */
+  fields(pairs: Array<[string, string]>) {
+    const columnWidth = this.width / 2;
+    for (let i = 0; i < pairs.length; i += 2) {
+      this.ensure(14);
+      pairs.slice(i, i + 2).forEach(([label, value], column) => {
+        const x = this.margin + column * columnWidth;
+        this.doc.text(`${label}:`, x, this.y, { size: 9, bold: true });
+        const labelWidth = measureText(`${label}: `, 9, true);
+        this.doc.text(fitText(value, columnWidth - labelWidth - 8, 9), x + labelWidth, this.y, { size: 9 });
+      });
+      this.y += 14;
+    }
+    this.y += 4;
+  }
+
+  table(columns: TableColumn[], rows: string[][], footer?: string[]) {
+    const size = 8.5;
+    const rowHeight = 14;
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      let x = this.margin;
+      columns.forEach((column, i) => {
+        const cellWidth = column.width * this.width;
+        const text = fitText(cells[i] ?? '', cellWidth - 6, size, bold);
+        if (column.align === 'right') {
+          this.doc.text(text, x + cellWidth - 3, this.y, { size, bold, align: 'right' });
+        } else {
+          this.doc.text(text, x + 3, this.y, { size, bold });
+        }
+        x += cellWidth;
+      });
+    };
+    const drawHeader = () => {
+      drawRow(columns.map((column) => column.label), true);
+      this.doc.line(this.margin, this.y + 4, this.margin + this.width, this.y + 4);
+      this.y += rowHeight + 2;
+    };
+
+    this.ensure(rowHeight * 3);
+    drawHeader();
+    for (const row of rows) {
+      if (this.y + rowHeight > this.bottom) {
+        this.startPage();
+        drawHeader();
+      }
+      drawRow(row, false);
+      this.y += rowHeight;
+    }
+    if (footer) {
+      this.ensure(rowHeight + 4);
+      this.doc.line(this.margin, this.y - 9, this.margin + this.width, this.y - 9);
+      drawRow(footer, true);
+      this.y += rowHeight;
+    }
+    this.y += 6;
+  }
+
+  signatures(labels: string[]) {
+    this.ensure(60);
+    this.y += 36;
+    const gap = 30;
+    const lineWidth = (this.width - gap * (labels.length - 1)) / labels.length;
+    labels.forEach((label, i) => {
+      const x = this.margin + i * (lineWidth + gap);
+      this.doc.line(x, this.y, x + lineWidth, this.y);
+      this.doc.text(fitText(label, lineWidth, 8.5), x + lineWidth / 2, this.y + 11, { size: 8.5, align: 'center' });
+    });
+    this.y += 24;
+  }
+
+  stamp(text: string) {
+    this.ensure(24);
+    this.doc.text(text, this.margin + this.width / 2, this.y, { size: 12, bold: true, align: 'center' });
+    this.y += 20;
+  }
+
+  toBuffer(): Buffer {
+    return this.doc.toBuffer();
+  }
+}
+
+/**
+ * Operation contract: parties, financial terms, late fee terms, schedule and clauses
+ */
+export function renderContractPdf(data: ContractDocument, templates: DocumentTemplates): Buffer {
+  const { operation, installments } = data;
+  const money = (value: number) => formatMoney(value, operation.currency);
+  const layout = new DocumentLayout(templates, data.account);
+
+  layout.title(templates.contract.title, `Contrato nº ${operation.id}`);
+
+  layout.section('PARTES');
+  layout.paragraph(`CREDOR: ${describeParty(data.account)}.`);
+  layout.paragraph(`DEVEDOR: ${describeParty(data.client)}.`);
+
+  layout.section('CONDIÇÕES');
+  const terms: Array<[string, string]> = [
+    ['Operação', describeOperation(operation)],
+    ['Data de início', formatDate(operation.startDate)],
+    ['Valor principal', money(operation.principalAmount)],
+  ];
+  if (operation.entryAmount) terms.push(['Entrada', money(operation.entryAmount)]);
+  if (operation.interestRate) terms.push(['Taxa de juros', `${formatPercent(operation.interestRate)} ao período`]);
+  if (operation.amortizationSystem) terms.push(['Amortização', operation.amortizationSystem]);
+  if (operation.frequency) terms.push(['Periodicidade', FREQUENCY_LABELS[operation.frequency] || operation.frequency]);
+  terms.push(['Parcelas', String(installments.length)]);
+  if (operation.depositAmount) terms.push(['Caução', money(operation.depositAmount)]);
+  if (operation.resourceTitle) terms.push(['Bem', operation.resourceTitle]);
+  layout.fields(terms);
+
+  const policy = data.lateFeePolicy;
+  layout.paragraph(
+    `Encargos por atraso: multa de ${formatPercent(policy.finePercent)} e juros de mora de ` +
+      `${formatPercent(policy.dailyInterestPercent)} ao dia (${formatPercent(policy.dailyInterestPercent * 30)} ao mês)` +
+      `${policy.graceDays ? `, após ${policy.graceDays} dia(s) de carência` : ''}.`
+  );
+
+  layout.section('CRONOGRAMA DE PAGAMENTO');
+  const total = installments.reduce((sum, installment) => sum + installment.amount, 0);
+  layout.table(
+    [
+      { label: 'Nº', width: 0.1 },
+      { label: 'Vencimento', width: 0.2 },
+      { label: 'Amortização', width: 0.23, align: 'right' },
+      { label: 'Juros', width: 0.22, align: 'right' },
+      { label: 'Valor', width: 0.25, align: 'right' },
+    ],
+    installments.map((installment, i) => [
+      String(i + 1),
+      formatDate(installment.dueDate),
+      installment.principal !== null ? money(installment.principal) : '-',
+      installment.interest !== null ? money(installment.interest) : '-',
+      money(installment.amount),
+    ]),
+    ['', 'Total', '', '', money(Math.round(total * 100) / 100)]
+  );
+
+  if (templates.contract.clauses.length) {
+    layout.section('CLÁUSULAS');
+    templates.contract.clauses.forEach((clause, i) => layout.paragraph(`${i + 1}. ${clause}`));
+  }
+
+  const place = templates.contract.signaturePlace || data.accountCity;
+  layout.paragraph(`${place ? `${place}, ` : ''}${formatLongDate(data.issuedAt)}.`);
+  layout.signatures([`CREDOR: ${data.account.name || ''}`, `DEVEDOR: ${data.client.name || ''}`]);
+
+  return layout.toBuffer();
+}
+
+/**
+ * Payment receipt with the amount in words and how it was allocated
+ */
+export function renderReceiptPdf(data: ReceiptDocument, templates: DocumentTemplates): Buffer {
+  const { payment } = data;
+  const money = (value: number) => formatMoney(value, payment.currency);
+  const amount = Math.abs(payment.amount);
+  const method = payment.method ? PAYMENT_METHOD_LABELS[payment.method] || payment.method : null;
+  const layout = new DocumentLayout(templates, data.account);
+
+  layout.title(
+    payment.reversalOfId ? 'ESTORNO DE PAGAMENTO' : templates.receipt.title,
+    `Nº ${payment.id} - ${money(amount)}`
+  );
+
+  if (payment.reversalOfId) {
+    layout.paragraph(
+      `Registramos o estorno do pagamento nº ${payment.reversalOfId} de ${data.client.name || ''}, ` +
+        `no valor de ${money(amount)} (${amountInWords(amount, payment.currency)}), ` +
+        `referente a ${describeOperation(data.operation)}, em ${formatDate(payment.paidAt)}.`
+    );
+  } else {
+    layout.paragraph(
+      `Recebemos de ${data.client.name || ''}` +
+        `${data.client.document ? `, CPF/CNPJ ${data.client.document}` : ''}, ` +
+        `a importância de ${money(amount)} (${amountInWords(amount, payment.currency)}), ` +
+        `referente a ${describeOperation(data.operation)}, paga em ${formatDate(payment.paidAt)}` +
+        `${method ? ` via ${method}` : ''}.`
+    );
+  }
+
+  const fields: Array<[string, string]> = [
+    ['Data', formatDate(payment.paidAt)],
+    ['Valor', money(amount)],
+  ];
+  if (method) fields.push(['Forma de pagamento', method]);
+  if (payment.reference) fields.push(['Referência', payment.reference]);
+  layout.fields(fields);
+
+  if (data.allocations.length) {
+    layout.section('PARCELAS QUITADAS');
+    layout.table(
+      [
+        { label: 'Vencimento', width: 0.2 },
+        { label: 'Principal', width: 0.2, align: 'right' },
+        { label: 'Juros', width: 0.2, align: 'right' },
+        { label: 'Encargos', width: 0.2, align: 'right' },
+        { label: 'Total', width: 0.2, align: 'right' },
+      ],
+      data.allocations.map((allocation) => [
+        formatDate(allocation.dueDate),
+        money(Math.abs(allocation.principalAmount)),
+        money(Math.abs(allocation.interestAmount)),
+        money(Math.abs(allocation.feeAmount)),
+        money(Math.abs(allocation.amount)),
+      ])
+    );
+  }
+
+  if (payment.reversedAt) {
+    layout.stamp(`PAGAMENTO ESTORNADO EM ${formatDate(payment.reversedAt)}`);
+  }
+  if (templates.receipt.notes) {
+    layout.paragraph(templates.receipt.notes, { size: 8.5 });
+  }
+
+  layout.paragraph(`Emitido em ${formatLongDate(data.issuedAt)}.`);
+  layout.signatures([data.account.name || '']);
+
+  return layout.toBuffer();
+}
+
+/**
+ * Client statement: balances, installments and payments, optionally for a period
+ */
+export function renderStatementPdf(data: StatementDocument, templates: DocumentTemplates): Buffer {
+  const money = (value: number) => formatMoney(value, data.currency);
+  const layout = new DocumentLayout(templates, data.account);
+
+  const period = data.from || data.to
+    ? `Período: ${data.from ? formatDate(data.from) : 'início'} a ${data.to ? formatDate(data.to) : 'hoje'}`
+    : 'Todo o histórico';
+  layout.title(templates.statement.title, period);
+
+  layout.paragraph(`Cliente: ${describeParty(data.client)}.`);
+  layout.fields([
+    ['Operações', String(data.summary.operations)],
+    ['Total contratado', money(data.summary.contracted)],
+    ['Total pago', money(data.summary.paid)],
+    ['Saldo em aberto', money(data.summary.open)],
+    ['Em atraso', money(data.summary.overdue)],
+    ['Emitido em', formatDate(data.issuedAt)],
+  ]);
+
+  layout.section('PARCELAS');
+  layout.table(
+    [
+      { label: 'Vencimento', width: 0.15 },
+      { label: 'Operação', width: 0.13 },
+      { label: 'Valor', width: 0.18, align: 'right' },
+      { label: 'Pago', width: 0.18, align: 'right' },
+      { label: 'Em aberto', width: 0.18, align: 'right' },
+      { label: 'Situação', width: 0.18, align: 'right' },
+    ],
+    data.installments.map((installment) => [
+      formatDate(installment.dueDate),
+      `#${installment.operationId}`,
+      money(installment.amount),
+      money(installment.paidAmount),
+      money(installment.openAmount),
+      INSTALLMENT_STATUS_LABELS[installment.status] || installment.status,
+    ])
+  );
+
+  layout.section('PAGAMENTOS');
+  const paid = data.payments.reduce((sum, payment) => sum + payment.amount, 0);
+  layout.table(
+    [
+      { label: 'Data', width: 0.18 },
+      { label: 'Recibo', width: 0.16 },
+      { label: 'Operação', width: 0.16 },
+      { label: 'Forma', width: 0.25 },
+      { label: 'Valor', width: 0.25, align: 'right' },
+    ],
+    data.payments.map((payment) => [
+      formatDate(payment.paidAt),
+      `#${payment.id}`,
+      `#${payment.operationId}`,
+      payment.method ? PAYMENT_METHOD_LABELS[payment.method] || payment.method : '-',
+      money(payment.amount),
+    ]),
+    ['', '', '', 'Total', money(Math.round(paid * 100) / 100)]
+  );
+
+  if (templates.statement.notes) {
+    layout.paragraph(templates.statement.notes, { size: 8.5 });
+  }
+
+  return layout.toBuffer();
+}
@@ -0,0 +1,95 @@
+/**
+ * Document template settings
+ *
+ * Accounts customize the generated PDFs (contract, receipt, statement) through the
+ * `document_templates` setting. Anything not stored falls back to the defaults below.
+ */
+
+export interface DocumentTemplates {
+  header: {
+    companyName: string | null; // replaces the account name in the header
+    lines: string[]; // extra lines under the name (phone, website, registration...)
+  };
+  footer: string | null;
+  contract: {
+    title: string;
+    clauses: string[];
+    signaturePlace: string | null; // defaults to the account city
+  };
+  receipt: {
+    title: string;
+    notes: string | null;
+  };
+  statement: {
+    title: string;
+    notes: string | null;
+  };
+}
+
+export const DEFAULT_DOCUMENT_TEMPLATES: DocumentTemplates = {
+  header: {
+    companyName: null,
+    lines: [],
+  },
+  footer: null,
+  contract: {
+    title: 'CONTRATO DE OPERAÇÃO FINANCEIRA',
+    clauses: [
+      'O DEVEDOR pagará ao CREDOR as parcelas descritas no cronograma deste contrato, nas respectivas datas de vencimento.',
+      'O atraso no pagamento sujeitará o DEVEDOR à multa e aos juros de mora indicados neste contrato, calculados sobre o valor em aberto.',
+      'O DEVEDOR poderá quitar antecipadamente o saldo devedor, com redução proporcional dos juros das parcelas vincendas.',
+      'As partes elegem o foro da comarca do CREDOR para dirimir quaisquer questões oriundas deste contrato.',
+    ],
+    signaturePlace: null,
+  },
+  receipt: {
+    title: 'RECIBO DE PAGAMENTO',
+    notes: null,
+  },
+  statement: {
+    title: 'EXTRATO DO CLIENTE',
+    notes: null,
+  },
+};
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as Record<string, unknown>;
+
+const asText = (value: unknown, fallback: string | null): string | null =>
+  typeof value === 'string' && value.trim() ? value : fallback;
+
+const asLines = (value: unknown, fallback: string[]): string[] =>
+  Array.isArray(value) ? value.filter((line): line is string => typeof line === 'string') : fallback;
+
+/**
+ * Merges stored (possibly partial) templates with the defaults
+ */
+export function normalizeDocumentTemplates(value: unknown): DocumentTemplates {
+  const stored = asRecord(value);
+  const header = asRecord(stored.header);
+  const contract = asRecord(stored.contract);
+  const receipt = asRecord(stored.receipt);
+  const statement = asRecord(stored.statement);
+  const defaults = DEFAULT_DOCUMENT_TEMPLATES;
+
+  return {
+    header: {
+      companyName: asText(header.companyName, defaults.header.companyName),
+      lines: asLines(header.lines, defaults.header.lines),
+    },
+    footer: asText(stored.footer, defaults.footer),
+    contract: {
+      title: asText(contract.title, defaults.contract.title) as string,
+      clauses: asLines(contract.clauses, defaults.contract.clauses),
+      signaturePlace: asText(contract.signaturePlace, defaults.contract.signaturePlace),
+    },
+    receipt: {
+      title: asText(receipt.title, defaults.receipt.title) as string,
+      notes: asText(receipt.notes, defaults.receipt.notes),
+    },
+    statement: {
+      title: asText(statement.title, defaults.statement.title) as string,
+      notes: asText(statement.notes, defaults.statement.notes),
+    },
+  };
+}
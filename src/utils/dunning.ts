@@ -0,0 +1,262 @@
+/**
+ * Dunning cadence (collection reminders)
+ *
+ * Accounts configure the steps with the `dunning_rules` setting: days relative to the due
+ * date (negative before, 0 on the date, positive when late), with the channel and template
+ * of each step. Every open installment gets one alert per step; pending ones are dropped
+ * when the installment is paid, cancelled or moved to another due date.
+ */
+
+import { Prisma } from '@prisma/client';
+import { InputJsonValue } from '@prisma/client/runtime/library';
+import { InstallmentStatus, NotificationChannel, SettingKey } from '../constants/enums';
+import { SYSTEM_ACTOR } from './audit';
+
+export interface DunningStep {
+  offsetDays: number;
+  channel: NotificationChannel;
+  template: string | null; // default template of the step type when null
+}
+
+export interface DunningRules {
+  enabled: boolean;
+  sendHour: number; // UTC hour of the day the alerts go out
+  steps: DunningStep[];
+}
+
+// Alert meta written for each dunning step (meta.dunning)
+export interface DunningAlertMeta {
+  offsetDays: number;
+  dueDate: string;
+}
+
+export interface PlannedDunningAlert {
+  key: string;
+  installmentId: bigint;
+  type: string;
+  channel: NotificationChannel;
+  template: string | null;
+  sendAt: Date;
+  dunning: DunningAlertMeta;
+}
+
+export interface ExistingDunningAlert {
+  id: number;
+  enabled: boolean;
+  meta: unknown;
+}
+
+// "3 days before, on the due date, 1/5/15 days late" over WhatsApp
+export const DEFAULT_DUNNING_RULES: DunningRules = {
+  enabled: false,
+  sendHour: 12,
+  steps: [-3, 0, 1, 5, 15].map((offsetDays) => ({
+    offsetDays,
+    channel: NotificationChannel.WHATSAPP,
+    template: null,
+  })),
+};
+
+export const DUNNING_MAX_STEPS = 20;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as Record<string, unknown>;
+
+const CHANNELS: string[] = Object.values(NotificationChannel);
+
+// Installments that still get reminders
+export const DUNNING_INSTALLMENT_STATUSES: string[] = [
+  InstallmentStatus.PENDING,
+  InstallmentStatus.PARTIALLY_PAID,
+  InstallmentStatus.LATE,
+];
+
+/**
+ * Merges stored rules with the defaults; invalid steps are dropped and the rest sorted
+ */
+export function normalizeDunningRules(value: unknown): DunningRules {
+  const stored = asRecord(value);
+  const sendHour = Number(stored.sendHour);
+
+  const steps = Array.isArray(stored.steps)
+    ? stored.steps
+        .map(asRecord)
+        .filter((step) => Number.isInteger(Number(step.offsetDays)) && step.offsetDays !== null && step.offsetDays !== '')
+        .map((step) => {
+          const channel = String(step.channel ?? NotificationChannel.WHATSAPP).toUpperCase();
+          return {
+            offsetDays: Number(step.offsetDays),
+            channel: (CHANNELS.includes(channel) ? channel : NotificationChannel.WHATSAPP) as NotificationChannel,
+            template: typeof step.template === 'string' && step.template.trim() ? step.template : null,
+          };
+        })
+        .filter((step, index, all) => all.findIndex((s) => s.offsetDays === step.offsetDays) === index)
+        .sort((a, b) => a.offsetDays - b.offsetDays)
+        .slice(0, DUNNING_MAX_STEPS)
+    : DEFAULT_DUNNING_RULES.steps;
+
+  return {
+    enabled: typeof stored.enabled === 'boolean' ? stored.enabled : DEFAULT_DUNNING_RULES.enabled,
+    sendHour: Number.isInteger(sendHour) && sendHour >= 0 && sendHour <= 23 ? sendHour : DEFAULT_DUNNING_RULES.sendHour,
+    steps,
+  };
+}
+
+/**
+ * Alert type of a step, which also picks its default template
+ */
+export function dunningStepType(offsetDays: number): string {
+  if (offsetDays < 0) return 'PAYMENT_REMINDER';
+  if (offsetDays === 0) return 'PAYMENT_DUE';
+  return 'PAYMENT_OVERDUE';
+}
+
+export function dunningKey(installmentId: bigint | string, dunning: DunningAlertMeta): string {
+  return `${installmentId}:${dunning.dueDate}:${dunning.offsetDays}`;
+}
+
+/**
+ * Alerts the open installments should have under the rules
+ */
+export function planDunningAlerts(
+  installments: Array<{ id: bigint; dueDate: Date }>,
+  rules: DunningRules
+): PlannedDunningAlert[] {
+  if (!rules.enabled) return [];
+
+  const planned: PlannedDunningAlert[] = [];
+  for (const installment of installments) {
+    const due = installment.dueDate;
+    const dueDay = Date.UTC(due.getUTCFullYear(), due.getUTCMonth(), due.getUTCDate());
+    const dueDate = new Date(dueDay).toISOString().slice(0, 10);
+
+    for (const step of rules.steps) {
+      const sendAt = new Date(dueDay + step.offsetDays * MS_PER_DAY + rules.sendHour * 60 * 60 * 1000);
+      const dunning = { offsetDays: step.offsetDays, dueDate };
+      planned.push({
+        key: dunningKey(installment.id, dunning),
+        installmentId: installment.id,
+        type: dunningStepType(step.offsetDays),
+        channel: step.channel,
+        template: step.template,
+        sendAt,
+        dunning,
+      });
+    }
+  }
+  return planned;
+}
+
+/**
+ * Key of a dunning alert (null for alerts created by hand)
+ */
+export function existingDunningKey(meta: unknown): string | null {
+  const record = asRecord(meta);
+  const dunning = asRecord(record.dunning);
+  if (record.installmentId === undefined || dunning.dueDate === undefined) return null;
+  return dunningKey(String(record.installmentId), {
+    offsetDays: Number(dunning.offsetDays),
+    dueDate: String(dunning.dueDate),
+  });
+}
+
+/**
+ * Which planned alerts to create and which pending ones to cancel.
+ * Steps whose time has passed are not created; alerts already sent (or given up) are never
+ * created again for the same due date, and pending ones being retried are left alone.
+ */
+export function reconcileDunningAlerts(
+  existing: ExistingDunningAlert[],
+  planned: PlannedDunningAlert[],
+  now: Date = new Date()
+) {
+  const plannedKeys = new Set(planned.map((p) => p.key));
+  const existingKeys = new Set<string>();
+  const cancel: number[] = [];
+
+  for (const alert of existing) {
+    const key = existingDunningKey(alert.meta);
+    if (!key) continue;
+
+    const retrying = alert.enabled && asRecord(alert.meta).delivery !== undefined;
+    if (alert.enabled && !retrying && !plannedKeys.has(key)) {
+      cancel.push(alert.id);
+      continue;
+    }
+    if (alert.enabled || asRecord(alert.meta).delivery !== undefined) {
+      existingKeys.add(key);
+    }
+  }
+
+  return {
+    create: planned.filter((p) => p.sendAt > now && !existingKeys.has(p.key)),
+    cancel,
+  };
+}
+
+/**
+ * Bring the reminder alerts of an operation in line with its open installments and the
+ * account rules: missing steps are created and pending alerts that no longer apply
+ * (installment paid, cancelled or moved to another due date) are cancelled
+ */
+export async function syncDunningAlerts(client: Prisma.TransactionClient, operationId: bigint, now: Date = new Date()) {
+  const operation = await client.operation.findFirst({
+    where: { id: operationId, deletedAt: null },
+    select: {
+      accountId: true,
+      installmentsList: {
+        where: { deletedAt: null, status: { in: DUNNING_INSTALLMENT_STATUSES } },
+        select: { id: true, dueDate: true },
+      },
+      alerts: {
+        where: { deletedAt: null },
+        select: { id: true, enabled: true, meta: true },
+      },
+    },
+  });
+  if (!operation) {
+    return { created: 0, cancelled: 0 };
+  }
+
+  const setting = await client.setting.findFirst({
+    where: { accountId: operation.accountId, key: SettingKey.DUNNING_RULES, deletedAt: null },
+  });
+  const { create, cancel } = reconcileDunningAlerts(
+    operation.alerts,
+    planDunningAlerts(operation.installmentsList, normalizeDunningRules(setting?.value)),
+    now
+  );
+
+  for (const id of cancel) {
+    const alert = operation.alerts.find((a) => a.id === id)!;
+    await client.alert.update({
+      where: { id },
+      data: {
+        enabled: false,
+        meta: { ...asRecord(alert.meta), cancelledAt: now.toISOString() } as unknown as InputJsonValue,
+      },
+    });
+  }
+
+  if (create.length) {
+    await client.alert.createMany({
+      data: create.map((planned) => ({
+        operationId,
+        type: planned.type,
+        template: planned.template,
+        sendAt: planned.sendAt,
+        enabled: true,
+        meta: {
+          installmentId: String(planned.installmentId),
+          channel: planned.channel,
+          dunning: planned.dunning,
+        } as unknown as InputJsonValue,
+        createdBy: SYSTEM_ACTOR,
+      })),
+    });
+  }
+
+  return { created: create.length, cancelled: cancel.length };
+}
@@ -0,0 +1,184 @@
+/**
+ * Transactional email templates
+ *
+ * Each email has a subject, a plain-text body and an HTML body per locale, with `{{name}}`
+ * placeholders. Values are HTML-escaped in the HTML version, which is wrapped in a shared layout.
+ */
+
+import { DEFAULT_TEMPLATE_LOCALE, renderTemplate, TemplateLocale } from './messageTemplates';
+
+export const EMAIL_TEMPLATE_KEYS = ['verification', 'password_reset', 'welcome', 'invitation', 'payment_receipt'] as const;
+
+export type EmailTemplateKey = typeof EMAIL_TEMPLATE_KEYS[number];
+
+export interface EmailTemplate {
+  subject: string;
+  text: string;
+  html: string; // content of the layout
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const button = (label: string) =>
+  `<p style="margin:24px 0"><a href="{{link}}" style="background:#1f6feb;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block">${label}</a></p>`;
+
+export const EMAIL_TEMPLATES: Record<EmailTemplateKey, Record<TemplateLocale, EmailTemplate>> = {
+  verification: {
+    'pt-BR': {
+      subject: 'Seu código de verificação: {{code}}',
+      text: 'Olá {{name}},\n\nSeu código de verificação é {{code}}. Ele expira em {{minutes}} minutos.\n\nSe você não solicitou o código, ignore este e-mail.',
+      html: '<p>Olá {{name}},</p><p>Seu código de verificação é:</p><p style="font-size:28px;font-weight:bold;letter-spacing:6px">{{code}}</p><p>Ele expira em {{minutes}} minutos. Se você não solicitou o código, ignore este e-mail.</p>',
+    },
+    en: {
+      subject: 'Your verification code: {{code}}',
+      text: 'Hi {{name}},\n\nYour verification code is {{code}}. It expires in {{minutes}} minutes.\n\nIf you did not request it, ignore this email.',
+      html: '<p>Hi {{name}},</p><p>Your verification code is:</p><p style="font-size:28px;font-weight:bold;letter-spacing:6px">{{code}}</p><p>It expires in {{minutes}} minutes. If you did not request it, ignore this email.</p>',
+    },
+    es: {
+      subject: 'Su código de verificación: {{code}}',
+      text: 'Hola {{name}},\n\nSu código de verificación es {{code}}. Vence en {{minutes}} minutos.\n\nSi no lo solicitó, ignore este correo.',
+      html: '<p>Hola {{name}},</p><p>Su código de verificación es:</p><p style="font-size:28px;font-weight:bold;letter-spacing:6px">{{code}}</p><p>Vence en {{minutes}} minutos. Si no lo solicitó, ignore este correo.</p>',
+    },
+  },
+  password_reset: {
+    'pt-BR': {
+      subject: 'Redefinição de senha',
+      text: 'Olá {{name}},\n\nRecebemos um pedido para redefinir sua senha. Acesse o link abaixo em até {{hours}} hora(s):\n\n{{link}}\n\nSe você não fez o pedido, ignore este e-mail; sua senha continua a mesma.',
+      html: `<p>Olá {{name}},</p><p>Recebemos um pedido para redefinir sua senha. O link vale por {{hours}} hora(s).</p>${button('Redefinir senha')}<p>Se você não fez o pedido, ignore este e-mail; sua senha continua a mesma.</p>`,
+    },
+    en: {
+      subject: 'Reset your password',
+      text: 'Hi {{name}},\n\nWe received a request to reset your password. Open the link below within {{hours}} hour(s):\n\n{{link}}\n\nIf you did not ask for it, ignore this email; your password stays the same.',
+      html: `<p>Hi {{name}},</p><p>We received a request to reset your password. The link is valid for {{hours}} hour(s).</p>${button('Reset password')}<p>If you did not ask for it, ignore this email; your password stays the same.</p>`,
+    },
+    es: {
+      subject: 'Restablecer contraseña',
+      text: 'Hola {{name}},\n\nRecibimos una solicitud para restablecer su contraseña. Abra el enlace en las próximas {{hours}} hora(s):\n\n{{link}}\n\nSi no la solicitó, ignore este correo; su contraseña no cambia.',
+      html: `<p>Hola {{name}},</p><p>Recibimos una solicitud para restablecer su contraseña. El enlace vale por {{hours}} hora(s).</p>${button('Restablecer contraseña')}<p>Si no la solicitó, ignore este correo; su contraseña no cambia.</p>`,
+    },
+  },
+  welcome: {
+    'pt-BR': {
+      subject: 'Bem-vindo(a), {{name}}!',
+      text: 'Olá {{name}},\n\nSua conta {{accountName}} está pronta. Entre em {{link}} para cadastrar clientes e operações.\n\nBoas vendas!',
+      html: `<p>Olá {{name}},</p><p>Sua conta <strong>{{accountName}}</strong> está pronta. Já dá para cadastrar clientes, operações e acompanhar os recebimentos.</p>${button('Acessar minha conta')}`,
+    },
+    en: {
+      subject: 'Welcome, {{name}}!',
+      text: 'Hi {{name}},\n\nYour account {{accountName}} is ready. Sign in at {{link}} to add clients and operations.',
+      html: `<p>Hi {{name}},</p><p>Your account <strong>{{accountName}}</strong> is ready. You can now add clients, operations and track payments.</p>${button('Go to my account')}`,
+    },
+    es: {
+      subject: '¡Bienvenido(a), {{name}}!',
+      text: 'Hola {{name}},\n\nSu cuenta {{accountName}} está lista. Ingrese en {{link}} para registrar clientes y operaciones.',
+      html: `<p>Hola {{name}},</p><p>Su cuenta <strong>{{accountName}}</strong> está lista. Ya puede registrar clientes, operaciones y seguir los cobros.</p>${button('Ir a mi cuenta')}`,
+    },
+  },
+  invitation: {
+    'pt-BR': {
+      subject: '{{inviterName}} convidou você para {{accountName}}',
+      text: 'Olá,\n\n{{inviterName}} convidou você para participar da conta {{accountName}} como {{role}}.\n\nAceite o convite em até {{days}} dias:\n\n{{link}}\n\nSe você não esperava este convite, ignore este e-mail.',
+      html: `<p>Olá,</p><p><strong>{{inviterName}}</strong> convidou você para participar da conta <strong>{{accountName}}</strong> como {{role}}.</p>${button('Aceitar convite')}<p>O convite vale por {{days}} dias. Se você não o esperava, ignore este e-mail.</p>`,
+    },
+    en: {
+      subject: '{{inviterName}} invited you to {{accountName}}',
+      text: 'Hi,\n\n{{inviterName}} invited you to join the account {{accountName}} as {{role}}.\n\nAccept the invitation within {{days}} days:\n\n{{link}}\n\nIf you were not expecting it, ignore this email.',
+      html: `<p>Hi,</p><p><strong>{{inviterName}}</strong> invited you to join the account <strong>{{accountName}}</strong> as {{role}}.</p>${button('Accept invitation')}<p>The invitation is valid for {{days}} days. If you were not expecting it, ignore this email.</p>`,
+    },
+    es: {
+      subject: '{{inviterName}} lo invitó a {{accountName}}',
+      text: 'Hola,\n\n{{inviterName}} lo invitó a participar en la cuenta {{accountName}} como {{role}}.\n\nAcepte la invitación en los próximos {{days}} días:\n\n{{link}}\n\nSi no la esperaba, ignore este correo.',
+      html: `<p>Hola,</p><p><strong>{{inviterName}}</strong> lo invitó a participar en la cuenta <strong>{{accountName}}</strong> como {{role}}.</p>${button('Aceptar invitación')}<p>La invitación vale por {{days}} días. Si no la esperaba, ignore este correo.</p>`,
+    },
+  },
+  payment_receipt: {
+    'pt-BR': {
+      subject: 'Recibo de pagamento — {{accountName}}',
+      text: 'Olá {{name}},\n\nRecebemos seu pagamento de {{amount}} em {{paidAt}} referente a {{operationTitle}}.\nForma de pagamento: {{method}}\n\nO recibo segue em anexo.\n\n{{accountName}}',
+      html: '<p>Olá {{name}},</p><p>Recebemos seu pagamento referente a <strong>{{operationTitle}}</strong>.</p><table style="border-collapse:collapse;margin:16px 0"><tr><td style="padding:4px 16px 4px 0;color:#57606a">Valor</td><td><strong>{{amount}}</strong></td></tr><tr><td style="padding:4px 16px 4px 0;color:#57606a">Data</td><td>{{paidAt}}</td></tr><tr><td style="padding:4px 16px 4px 0;color:#57606a">Forma</td><td>{{method}}</td></tr></table><p>O recibo segue em anexo.</p><p>{{accountName}}</p>',
+    },
+    en: {
+      subject: 'Payment receipt — {{accountName}}',
+      text: 'Hi {{name}},\n\nWe received your payment of {{amount}} on {{paidAt}} for {{operationTitle}}.\nPayment method: {{method}}\n\nThe receipt is attached.\n\n{{accountName}}',
+      html: '<p>Hi {{name}},</p><p>We received your payment for <strong>{{operationTitle}}</strong>.</p><table style="border-collapse:collapse;margin:16px 0"><tr><td style="padding:4px 16px 4px 0;color:#57606a">Amount</td><td><strong>{{amount}}</strong></td></tr><tr><td style="padding:4px 16px 4px 0;color:#57606a">Date</td><td>{{paidAt}}</td></tr><tr><td style="padding:4px 16px 4px 0;color:#57606a">Method</td><td>{{method}}</td></tr></table><p>The receipt is attached.</p><p>{{accountName}}</p>',
+    },
+    es: {
+      subject: 'Recibo de pago — {{accountName}}',
+      text: 'Hola {{name}},\n\nRecibimos su pago de {{amount}} el {{paidAt}} correspondiente a {{operationTitle}}.\nForma de pago: {{method}}\n\nEl recibo va adjunto.\n\n{{accountName}}',
+      html: '<p>Hola {{name}},</p><p>Recibimos su pago correspondiente a <strong>{{operationTitle}}</strong>.</p><table style="border-collapse:collapse;margin:16px 0"><tr><td style="padding:4px 16px 4px 0;color:#57606a">Monto</td><td><strong>{{amount}}</strong></td></tr><tr><td style="padding:4px 16px 4px 0;color:#57606a">Fecha</td><td>{{paidAt}}</td></tr><tr><td style="padding:4px 16px 4px 0;color:#57606a">Forma</td><td>{{method}}</td></tr></table><p>El recibo va adjunto.</p><p>{{accountName}}</p>',
+    },
+  },
+};
+
+const FOOTERS: Record<TemplateLocale, string> = {
+  'pt-BR': 'Esta é uma mensagem automática. Por favor, não responda.',
+  en: 'This is an automated message. Please do not reply.',
+  es: 'Este es un mensaje automático. Por favor, no responda.',
+};
+
+const PAYMENT_METHOD_LABELS: Record<TemplateLocale, Record<string, string>> = {
+  'pt-BR': { CASH: 'Dinheiro', BANK_TRANSFER: 'Transferência bancária', PIX: 'PIX', CARD: 'Cartão', BOLETO: 'Boleto' },
+  en: { CASH: 'Cash', BANK_TRANSFER: 'Bank transfer', PIX: 'PIX', CARD: 'Card', BOLETO: 'Boleto' },
+  es: { CASH: 'Efectivo', BANK_TRANSFER: 'Transferencia bancaria', PIX: 'PIX', CARD: 'Tarjeta', BOLETO: 'Boleto' },
+};
+
+const ROLE_LABELS: Record<TemplateLocale, Record<string, string>> = {
+  'pt-BR': { owner: 'proprietário(a)', admin: 'administrador(a)', agent: 'operador(a)', viewer: 'leitor(a)' },
+  en: { owner: 'owner', admin: 'admin', agent: 'agent', viewer: 'viewer' },
+  es: { owner: 'propietario(a)', admin: 'administrador(a)', agent: 'operador(a)', viewer: 'lector(a)' },
+};
+
+export function roleLabel(role: string, locale: TemplateLocale): string {
+  return ROLE_LABELS[locale][role] ?? role;
+}
+
+export function paymentMethodLabel(method: string | null | undefined, locale: TemplateLocale): string {
+  if (!method) return '-';
+  return PAYMENT_METHOD_LABELS[locale][method] ?? method;
+}
+
+const HTML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+}
+
+function escapeVariables(variables: Record<string, unknown>): Record<string, unknown> {
+  const escaped: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(variables)) {
+    escaped[key] = typeof value === 'string' ? escapeHtml(value) : value;
+  }
+  return escaped;
+}
+
+function emailLayout(title: string, content: string, locale: TemplateLocale): string {
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${locale}"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>${title}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f6f8fa;font-family:Arial,Helvetica,sans-serif;color:#24292f;font-size:15px;line-height:1.5">',
+    '<div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #d0d7de;border-radius:8px;padding:32px">',
+    content,
+    '</div>',
+    `<p style="max-width:560px;margin:16px auto 0;color:#57606a;font-size:12px;text-align:center">${FOOTERS[locale]}</p>`,
+    '</body></html>',
+  ].join('\n');
+}
+
+/**
+ * Subject, text and HTML of an email in the locale (pt-BR when the locale has no version)
+ */
+export function renderEmail(key: EmailTemplateKey, locale: TemplateLocale, variables: Record<string, unknown>): RenderedEmail {
+  const template = EMAIL_TEMPLATES[key][locale] ?? EMAIL_TEMPLATES[key][DEFAULT_TEMPLATE_LOCALE];
+  const subject = renderTemplate(template.subject, variables);
+  const escaped = escapeVariables(variables);
+
+  return {
+    subject,
+    text: renderTemplate(template.text, variables),
+    html: emailLayout(escapeHtml(subject), renderTemplate(template.html, escaped), locale),
+  };
+}
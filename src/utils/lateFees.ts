@@ -0,0 +1,100 @@
+/**
+ * Late fee helpers for overdue installments
+ *
+ * Fine (multa) is a one-off percentage over the open amount once the installment is late.
+ * Daily interest (juros de mora) accrues pro-rata for every day past the due date.
+ */
+
+export interface LateFeePolicy {
+  finePercent: number;
+  dailyInterestPercent: number;
+  graceDays: number;
+}
+
+export interface LateFeeAccrual {
+  asOf: Date;
+  daysLate: number;
+  openAmount: number;
+  fine: number;
+  interest: number;
+  feesPaid: number;
+  amountDue: number;
+}
+
+// Brazilian defaults: 2% fine and 1% per month of interest (pro-rata per day)
+export const DEFAULT_LATE_FEE_POLICY: LateFeePolicy = {
+  finePercent: 2,
+  dailyInterestPercent: 1 / 30,
+  graceDays: 0,
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the date at midnight (UTC) to count whole days late
+ */
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Number of whole days between the due date and the reference date
+ */
+export function calculateDaysLate(dueDate: Date, asOf: Date = new Date()): number {
+  return Math.max(0, Math.floor((startOfDay(asOf) - startOfDay(dueDate)) / MS_PER_DAY));
+}
+
+/**
+ * Merges a stored (possibly partial) policy with the defaults
+ */
+export function normalizeLateFeePolicy(value: unknown): LateFeePolicy {
+  const stored = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const toNumber = (raw: unknown, fallback: number) =>
+    raw !== undefined && raw !== null && !isNaN(Number(raw)) ? Number(raw) : fallback;
+
+  return {
+    finePercent: toNumber(stored.finePercent, DEFAULT_LATE_FEE_POLICY.finePercent),
+    dailyInterestPercent: toNumber(stored.dailyInterestPercent, DEFAULT_LATE_FEE_POLICY.dailyInterestPercent),
+    graceDays: toNumber(stored.graceDays, DEFAULT_LATE_FEE_POLICY.graceDays),
+  };
+}
+
+/**
+ * Calculates fine and daily interest accrued on the open amount of an installment
+ * Late fees already paid (partial payments) are deducted from the amount due
+ */
+export function calculateLateFees(
+  openAmount: number,
+  dueDate: Date,
+  policy: LateFeePolicy,
+  asOf: Date = new Date(),
+  feesPaid = 0
+): LateFeeAccrual {
+  const daysLate = calculateDaysLate(dueDate, asOf);
+
+  if (openAmount <= 0 || daysLate <= policy.graceDays) {
+    return {
+      asOf,
+      daysLate,
+      openAmount: Math.max(0, openAmount),
+      fine: 0,
+      interest: 0,
+      feesPaid,
+      amountDue: Math.max(0, openAmount),
+    };
+  }
+
+  const fine = Math.round(openAmount * policy.finePercent) / 100;
+  const interest = Math.round(openAmount * policy.dailyInterestPercent * daysLate) / 100;
+  const outstandingFees = Math.max(0, fine + interest - feesPaid);
+
+  return {
+    asOf,
+    daysLate,
+    openAmount,
+    fine,
+    interest,
+    feesPaid,
+    amountDue: Math.round((openAmount + outstandingFees) * 100) / 100,
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Message templates
+ *
+ * Alerts and reminders are rendered from templates with `{{path}}` placeholders taken from
+ * TEMPLATE_VARIABLES. Accounts store their own templates per key, locale and channel; the
+ * defaults below cover the reminder keys in every supported locale.
+ */
+
+export const TEMPLATE_LOCALES = ['pt-BR', 'en', 'es'] as const;
+
+export type TemplateLocale = typeof TEMPLATE_LOCALES[number];
+
+export const DEFAULT_TEMPLATE_LOCALE: TemplateLocale = 'pt-BR';
+
+export interface MessageTemplate {
+  subject: string;
+  body: string;
+}
+
+// Variables a template may use (GET /api/templates/variables)
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+  'client.name': 'Client full name',
+  'client.firstName': 'Client first name',
+  'client.email': 'Client email',
+  'client.phone': 'Client phone',
+  'client.document': 'Client CPF/CNPJ',
+  'account.name': 'Account (creditor) name',
+  'account.email': 'Account email',
+  'account.phone': 'Account phone',
+  'operation.id': 'Operation id',
+  'operation.title': 'Operation title',
+  'operation.principalAmount': 'Operation principal, formatted in the operation currency',
+  'installment.number': 'Installment number in the schedule',
+  'installment.count': 'Number of installments of the operation',
+  'installment.amount': 'Installment amount, formatted',
+  'installment.amountDue': 'Amount due today with fine and interest, formatted',
+  'installment.dueDate': 'Installment due date, formatted for the locale',
+  'installment.daysLate': 'Days past the due date',
+  'installment.status': 'Installment status',
+  'pix.code': 'PIX "copia e cola" code for the amount due',
+  'boleto.digitableLine': 'Linha digitável of the active boleto',
+  'payoff.amount': 'Amount to settle the operation today, formatted',
+  'payoff.link': 'Payoff page link (PAYOFF_URL)',
+  'alert.type': 'Alert type',
+  'date.today': 'Current date, formatted for the locale',
+};
+
+export const DEFAULT_MESSAGE_TEMPLATES: Record<string, Record<TemplateLocale, MessageTemplate>> = {
+  payment_reminder: {
+    'pt-BR': {
+      subject: 'Lembrete de pagamento',
+      body: 'Olá {{client.firstName}}, a parcela {{installment.number}}/{{installment.count}} de {{installment.amount}} da sua operação com {{account.name}} vence em {{installment.dueDate}}.',
+    },
+    en: {
+      subject: 'Payment reminder',
+      body: 'Hi {{client.firstName}}, installment {{installment.number}}/{{installment.count}} of {{installment.amount}} with {{account.name}} is due on {{installment.dueDate}}.',
+    },
+    es: {
+      subject: 'Recordatorio de pago',
+      body: 'Hola {{client.firstName}}, la cuota {{installment.number}}/{{installment.count}} de {{installment.amount}} con {{account.name}} vence el {{installment.dueDate}}.',
+    },
+  },
+  payment_due: {
+    'pt-BR': {
+      subject: 'Parcela vence hoje',
+      body: 'Olá {{client.firstName}}, a parcela de {{installment.amount}} da sua operação com {{account.name}} vence hoje.',
+    },
+    en: {
+      subject: 'Installment due today',
+      body: 'Hi {{client.firstName}}, your installment of {{installment.amount}} with {{account.name}} is due today.',
+    },
+    es: {
+      subject: 'La cuota vence hoy',
+      body: 'Hola {{client.firstName}}, su cuota de {{installment.amount}} con {{account.name}} vence hoy.',
+    },
+  },
+  payment_overdue: {
+    'pt-BR': {
+      subject: 'Parcela em atraso',
+      body: 'Olá {{client.firstName}}, a parcela vencida em {{installment.dueDate}} está em aberto há {{installment.daysLate}} dia(s). Valor atualizado: {{installment.amountDue}}.',
+    },
+    en: {
+      subject: 'Overdue installment',
+      body: 'Hi {{client.firstName}}, the installment due on {{installment.dueDate}} is {{installment.daysLate}} day(s) late. Amount due: {{installment.amountDue}}.',
+    },
+    es: {
+      subject: 'Cuota vencida',
+      body: 'Hola {{client.firstName}}, la cuota vencida el {{installment.dueDate}} tiene {{installment.daysLate}} día(s) de atraso. Monto actualizado: {{installment.amountDue}}.',
+    },
+  },
+  generic: {
+    'pt-BR': {
+      subject: 'Aviso',
+      body: 'Olá {{client.firstName}}, há uma atualização sobre a sua operação {{operation.id}} com {{account.name}}.',
+    },
+    en: {
+      subject: 'Notice',
+      body: 'Hi {{client.firstName}}, there is an update on your operation {{operation.id}} with {{account.name}}.',
+    },
+    es: {
+      subject: 'Aviso',
+      body: 'Hola {{client.firstName}}, hay una novedad sobre su operación {{operation.id}} con {{account.name}}.',
+    },
+  },
+};
+
+// Intl locale used to format values of each template locale
+const INTL_LOCALES: Record<TemplateLocale, string> = {
+  'pt-BR': 'pt-BR',
+  en: 'en-US',
+  es: 'es-ES',
+};
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Template key as stored: lowercase, without the legacy "_template" suffix
+ */
+export function normalizeTemplateKey(name: string): string {
+  return name.trim().toLowerCase().replace(/_template$/, '');
+}
+
+/**
+ * Whether `Alert.template` holds the text itself rather than a template key
+ */
+export function isLiteralTemplate(value: string): boolean {
+  return /\s|\{\{/.test(value.trim());
+}
+
+/**
+ * Placeholders used by the texts, without duplicates
+ */
+export function extractPlaceholders(...texts: Array<string | null | undefined>): string[] {
+  const found = new Set<string>();
+  for (const text of texts) {
+    (text || '').replace(PLACEHOLDER, (match, name: string) => {
+      found.add(name);
+      return match;
+    });
+  }
+  return Array.from(found);
+}
+
+export function findUnknownVariables(...texts: Array<string | null | undefined>): string[] {
+  return extractPlaceholders(...texts).filter((name) => !(name in TEMPLATE_VARIABLES));
+}
+
+/**
+ * Replaces `{{path.to.value}}` placeholders; unknown or empty values render as ''
+ */
+export function renderTemplate(text: string, variables: Record<string, unknown>): string {
+  return text.replace(PLACEHOLDER, (_match, path: string) => {
+    const value = path.split('.').reduce<unknown>(
+      (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+      variables
+    );
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+/**
+ * First supported locale among the candidates ("pt", "en-US" and "es-AR" are accepted)
+ */
+export function resolveLocale(...candidates: unknown[]): TemplateLocale {
+  for (const candidate of candidates) {
+    if (typeof candidate !== 'string' || !candidate) continue;
+    const exact = TEMPLATE_LOCALES.find((locale) => locale.toLowerCase() === candidate.toLowerCase());
+    if (exact) return exact;
+    const language = candidate.toLowerCase().split(/[-_]/)[0];
+    const byLanguage = TEMPLATE_LOCALES.find((locale) => locale.toLowerCase().split('-')[0] === language);
+    if (byLanguage) return byLanguage;
+  }
+  return DEFAULT_TEMPLATE_LOCALE;
+}
+
+export function formatTemplateMoney(value: number, currency: string, locale: TemplateLocale): string {
+  return new Intl.NumberFormat(INTL_LOCALES[locale], { style: 'currency', currency }).format(value);
+}
+
+export function formatTemplateDate(date: Date, locale: TemplateLocale): string {
+  return date.toLocaleDateString(INTL_LOCALES[locale], { timeZone: 'UTC' });
+}
+
+/**
+ * Built-in template of a key in the locale (null for keys without a default)
+ */
+export function defaultMessageTemplate(key: string, locale: TemplateLocale): MessageTemplate | null {
+  const variants = DEFAULT_MESSAGE_TEMPLATES[normalizeTemplateKey(key)];
+  return variants ? variants[locale] : null;
+}
+
+/**
+ * Best stored variant for the locale and channel: the exact locale first, then the default
+ * locale; within a locale a channel-specific template wins over a generic one
+ */
+export function pickTemplateVariant<T extends { locale: string; channel: string | null }>(
+  variants: T[],
+  locale: TemplateLocale,
+  channel?: string | null
+): T | null {
+  for (const candidate of Array.from(new Set([locale, DEFAULT_TEMPLATE_LOCALE]))) {
+    const inLocale = variants.filter((v) => v.locale === candidate);
+    const match = inLocale.find((v) => channel && v.channel === channel) ?? inLocale.find((v) => !v.channel);
+    if (match) return match;
+  }
+  return null;
+}
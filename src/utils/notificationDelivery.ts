@@ -0,0 +1,190 @@
+/**
+ * Delivery bookkeeping for alerts and notifications
+ *
+ * The state lives in `meta.delivery` of the record: status, attempts, provider message id
+ * and a short history. Failed attempts are retried with increasing delays until the
+ * attempt limit, then the delivery is given up (FAILED). Providers with status callbacks
+ * (WhatsApp) move sent messages on to DELIVERED and READ.
+ */
+
+import { NotificationDeliveryStatus } from '../constants/enums';
+
+export interface DeliveryAttempt {
+  at: string;
+  status: NotificationDeliveryStatus;
+  provider: string | null;
+  providerMessageId?: string | null;
+  error?: string;
+}
+
+export interface DeliveryState {
+  status: NotificationDeliveryStatus;
+  channel: string;
+  attempts: number;
+  provider: string | null;
+  providerMessageId: string | null;
+  sentAt: string | null;
+  deliveredAt?: string | null;
+  readAt?: string | null;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  history: DeliveryAttempt[];
+}
+
+export interface ProviderStatusUpdate {
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  timestamp: Date;
+  error?: string | null;
+}
+
+export interface DeliveryFailure {
+  message: string;
+  retryable: boolean;
+}
+
+// Wait after the 1st, 2nd, 3rd... failed attempt; the last delay repeats
+export const RETRY_DELAYS_MINUTES = [1, 5, 15, 60, 240];
+
+const HISTORY_SIZE = 10;
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as Record<string, unknown>;
+
+/**
+ * Delivery state stored in a record meta (null before the first attempt)
+ */
+export function readDeliveryState(meta: unknown): DeliveryState | null {
+  const delivery = asRecord(meta).delivery;
+  if (!delivery || typeof delivery !== 'object') return null;
+  const stored = delivery as Partial<DeliveryState>;
+  return {
+    status: stored.status ?? NotificationDeliveryStatus.RETRYING,
+    channel: stored.channel ?? '',
+    attempts: Number(stored.attempts) || 0,
+    provider: stored.provider ?? null,
+    providerMessageId: stored.providerMessageId ?? null,
+    sentAt: stored.sentAt ?? null,
+    deliveredAt: stored.deliveredAt ?? null,
+    readAt: stored.readAt ?? null,
+    lastError: stored.lastError ?? null,
+    nextAttemptAt: stored.nextAttemptAt ?? null,
+    history: Array.isArray(stored.history) ? stored.history : [],
+  };
+}
+
+/**
+ * Meta with the delivery state replaced, keeping the other keys
+ */
+export function withDeliveryState(meta: unknown, state: DeliveryState): Record<string, unknown> {
+  return { ...asRecord(meta), delivery: state };
+}
+
+export function retryDelayMinutes(attempts: number): number {
+  return RETRY_DELAYS_MINUTES[Math.min(Math.max(attempts, 1), RETRY_DELAYS_MINUTES.length) - 1];
+}
+
+function appendHistory(state: DeliveryState | null, attempt: DeliveryAttempt): DeliveryAttempt[] {
+  return [...(state?.history ?? []), attempt].slice(-HISTORY_SIZE);
+}
+
+export function recordDeliverySuccess(
+  state: DeliveryState | null,
+  channel: string,
+  result: { provider: string; providerMessageId: string | null; sentAt: Date },
+  now: Date = new Date()
+): DeliveryState {
+  return {
+    status: NotificationDeliveryStatus.SENT,
+    channel,
+    attempts: (state?.attempts ?? 0) + 1,
+    provider: result.provider,
+    providerMessageId: result.providerMessageId,
+    sentAt: result.sentAt.toISOString(),
+    lastError: null,
+    nextAttemptAt: null,
+    history: appendHistory(state, {
+      at: now.toISOString(),
+      status: NotificationDeliveryStatus.SENT,
+      provider: result.provider,
+      providerMessageId: result.providerMessageId,
+    }),
+  };
+}
+
+/**
+ * Failed attempt: schedules the next one, or gives up when the failure is permanent
+ * or the attempt limit was reached
+ */
+export function recordDeliveryFailure(
+  state: DeliveryState | null,
+  channel: string,
+  provider: string | null,
+  failure: DeliveryFailure,
+  maxAttempts: number,
+  now: Date = new Date()
+): DeliveryState {
+  const attempts = (state?.attempts ?? 0) + 1;
+  const giveUp = !failure.retryable || attempts >= maxAttempts;
+  const status = giveUp ? NotificationDeliveryStatus.FAILED : NotificationDeliveryStatus.RETRYING;
+
+  return {
+    status,
+    channel,
+    attempts,
+    provider,
+    providerMessageId: null,
+    sentAt: null,
+    lastError: failure.message,
+    nextAttemptAt: giveUp ? null : new Date(now.getTime() + retryDelayMinutes(attempts) * 60000).toISOString(),
+    history: appendHistory(state, { at: now.toISOString(), status, provider, error: failure.message }),
+  };
+}
+
+// Later statuses win; callbacks may arrive out of order
+const STATUS_RANK: Record<string, number> = {
+  [NotificationDeliveryStatus.SENT]: 1,
+  [NotificationDeliveryStatus.DELIVERED]: 2,
+  [NotificationDeliveryStatus.READ]: 3,
+};
+
+/**
+ * Status callback of a message the provider accepted. A failure reported after delivery
+ * is ignored; failed messages are not retried, since the provider already had them.
+ */
+export function recordProviderStatus(state: DeliveryState, update: ProviderStatusUpdate): DeliveryState {
+  const at = update.timestamp.toISOString();
+  const current = STATUS_RANK[state.status] ?? 0;
+  const next = { ...state };
+  let status: NotificationDeliveryStatus;
+
+  if (update.status === 'failed') {
+    status = NotificationDeliveryStatus.FAILED;
+    if (current < STATUS_RANK[NotificationDeliveryStatus.DELIVERED]) {
+      next.status = status;
+      next.lastError = update.error || 'Message not delivered';
+    }
+  } else {
+    status =
+      update.status === 'read' ? NotificationDeliveryStatus.READ
+      : update.status === 'delivered' ? NotificationDeliveryStatus.DELIVERED
+      : NotificationDeliveryStatus.SENT;
+    if (status !== NotificationDeliveryStatus.SENT) {
+      next.deliveredAt = state.deliveredAt ?? at;
+    }
+    if (status === NotificationDeliveryStatus.READ) {
+      next.readAt = state.readAt ?? at;
+    }
+    if (STATUS_RANK[status] > current && state.status !== NotificationDeliveryStatus.FAILED) {
+      next.status = status;
+    }
+  }
+
+  next.history = appendHistory(state, {
+    at,
+    status,
+    provider: state.provider,
+    providerMessageId: state.providerMessageId,
+    ...(update.error ? { error: update.error } : {}),
+  });
+  return next;
+}
@@ -0,0 +1,117 @@
+/**
+ * Resource occupancy helpers
+ *
+ * An operation linked to a resource books it for a period: the contract period for rentals,
+ * start date to due date for any other operation. Periods are half-open ([start, end)) and a
+ * null end means open-ended, so back-to-back bookings do not conflict.
+ */
+
+import { OperationStatus } from '../constants/enums';
+
+// Operation statuses that keep a resource booked
+export const OCCUPYING_OPERATION_STATUSES: string[] = [
+  OperationStatus.DRAFT,
+  OperationStatus.ACTIVE,
+  OperationStatus.OVERDUE,
+  OperationStatus.DEFAULTED,
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface BookingPeriod {
+  start: Date;
+  end: Date | null;
+}
+
+export interface AvailabilitySummary {
+  occupied: BookingPeriod[];
+  free: BookingPeriod[];
+  totalDays: number;
+  occupiedDays: number;
+  occupancyRate: number;
+  vacancyRate: number;
+}
+
+export interface BookableOperation {
+  startDate: Date;
+  dueDate: Date | null;
+  rentalContract?: { startDate: Date; endDate: Date | null } | null;
+}
+
+/**
+ * Period an operation keeps its resource booked
+ */
+export function bookingPeriod(operation: BookableOperation): BookingPeriod {
+  if (operation.rentalContract) {
+    return { start: operation.rentalContract.startDate, end: operation.rentalContract.endDate };
+  }
+  return { start: operation.startDate, end: operation.dueDate };
+}
+
+/**
+ * Whether two periods overlap (null end = open-ended)
+ */
+export function periodsOverlap(a: BookingPeriod, b: BookingPeriod): boolean {
+  return (a.end === null || b.start < a.end) && (b.end === null || a.start < b.end);
+}
+
+/**
+ * Days between two dates, rounded to whole days
+ */
+function daysBetween(start: Date, end: Date): number {
+  return Math.round((end.getTime() - start.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Occupied and free periods of a resource within [from, to), with its occupancy rate
+ */
+export function summarizeAvailability(bookings: BookingPeriod[], from: Date, to: Date): AvailabilitySummary {
+  // Clip to the window, then merge overlapping or adjacent bookings
+  const clipped = bookings
+    .filter((booking) => periodsOverlap(booking, { start: from, end: to }))
+    .map((booking) => ({
+      start: booking.start > from ? booking.start : from,
+      end: booking.end === null || booking.end > to ? to : booking.end,
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const occupied: Array<{ start: Date; end: Date }> = [];
+  for (const period of clipped) {
+    const last = occupied[occupied.length - 1];
+    if (last && period.start <= last.end) {
+      if (period.end > last.end) last.end = period.end;
+    } else {
+      occupied.push({ ...period });
+    }
+  }
+
+  const free: BookingPeriod[] = [];
+  let cursor = from;
+  for (const period of occupied) {
+    if (period.start > cursor) free.push({ start: cursor, end: period.start });
+    cursor = period.end;
+  }
+  if (cursor < to) free.push({ start: cursor, end: to });
+
+  const totalDays = daysBetween(from, to);
+  const occupiedDays = occupied.reduce((sum, period) => sum + daysBetween(period.start, period.end), 0);
+
+  return {
+    occupied,
+    free,
+    totalDays,
+    occupiedDays,
+    ...occupancyRates(occupiedDays, totalDays),
+  };
+}
+
+/**
+ * Occupancy and vacancy rates, in percent with 2 decimals
+ */
+export function occupancyRates(occupiedDays: number, totalDays: number): { occupancyRate: number; vacancyRate: number } {
+  if (totalDays <= 0) {
+    return { occupancyRate: 0, vacancyRate: 0 };
+  }
+  const occupancyRate = Math.round((occupiedDays / totalDays) * 10000) / 100;
+  return { occupancyRate, vacancyRate: Math.round((100 - occupancyRate) * 100) / 100 };
+}
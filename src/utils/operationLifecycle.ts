@@ -0,0 +1,88 @@
+/**
+ * Operation lifecycle
+ *
+ * DRAFT → ACTIVE → OVERDUE → SETTLED / DEFAULTED / CANCELLED / RENEGOTIATED
+ *
+ * ACTIVE and OVERDUE move back and forth as installments fall late and get caught up.
+ * SETTLED can be reopened when the payment that settled it is reversed.
+ * CANCELLED and RENEGOTIATED are final.
+ */
+
+import { InstallmentStatus, OperationStatus } from '../constants/enums';
+
+export const OPERATION_TRANSITIONS: Record<OperationStatus, OperationStatus[]> = {
+  [OperationStatus.DRAFT]: [OperationStatus.ACTIVE, OperationStatus.CANCELLED],
+  [OperationStatus.ACTIVE]: [
+    OperationStatus.OVERDUE,
+    OperationStatus.SETTLED,
+    OperationStatus.DEFAULTED,
+    OperationStatus.CANCELLED,
+    OperationStatus.RENEGOTIATED,
+  ],
+  [OperationStatus.OVERDUE]: [
+    OperationStatus.ACTIVE,
+    OperationStatus.SETTLED,
+    OperationStatus.DEFAULTED,
+    OperationStatus.CANCELLED,
+    OperationStatus.RENEGOTIATED,
+  ],
+  [OperationStatus.DEFAULTED]: [OperationStatus.SETTLED, OperationStatus.RENEGOTIATED, OperationStatus.CANCELLED],
+  [OperationStatus.SETTLED]: [OperationStatus.ACTIVE, OperationStatus.OVERDUE],
+  [OperationStatus.CANCELLED]: [],
+  [OperationStatus.RENEGOTIATED]: [],
+};
+
+// Statuses an operation may be created with
+export const INITIAL_OPERATION_STATUSES: string[] = [OperationStatus.DRAFT, OperationStatus.ACTIVE];
+
+/**
+ * Operations created before the lifecycle existed have no status; treat them as active
+ */
+export function normalizeOperationStatus(status?: string | null): OperationStatus {
+  return (status || OperationStatus.ACTIVE) as OperationStatus;
+}
+
+export function canTransition(from: string | null | undefined, to: string): boolean {
+  const allowed = OPERATION_TRANSITIONS[normalizeOperationStatus(from)];
+  return !!allowed && allowed.includes(to as OperationStatus);
+}
+
+/**
+ * Status an operation should have given its installments, or null when it is not
+ * driven by installments (draft, defaulted, cancelled or renegotiated).
+ * A running rental contract keeps getting charges, so paying all of them so far keeps it
+ * active; only ending the contract settles it.
+ */
+export function deriveOperationStatus(
+  current: string | null | undefined,
+  installmentStatuses: string[],
+  running = false
+): OperationStatus | null {
+  const status = normalizeOperationStatus(current);
+  const automatic: OperationStatus[] = [
+    OperationStatus.ACTIVE,
+    OperationStatus.OVERDUE,
+    OperationStatus.SETTLED,
+    OperationStatus.DEFAULTED,
+  ];
+  if (!automatic.includes(status) || !installmentStatuses.length) {
+    return null;
+  }
+
+  const open = installmentStatuses.filter(
+    (s) => s !== InstallmentStatus.PAID && s !== InstallmentStatus.CANCELLED
+  );
+  if (!open.length && running) {
+    return status === OperationStatus.DEFAULTED ? null : OperationStatus.ACTIVE;
+  }
+  if (!open.length) {
+    return installmentStatuses.includes(InstallmentStatus.PAID) ? OperationStatus.SETTLED : null;
+  }
+
+  // A defaulted operation only leaves that state once it is fully paid
+  if (status === OperationStatus.DEFAULTED) {
+    return null;
+  }
+
+  return open.includes(InstallmentStatus.LATE) ? OperationStatus.OVERDUE : OperationStatus.ACTIVE;
+}
@@ -0,0 +1,94 @@
+/**
+ * Payment allocation helpers
+ *
+ * A payment is applied installment by installment (in the given order) and, inside each
+ * installment, to late fees first, then interest, then principal. Whatever is left after
+ * an installment is settled rolls forward to the next one.
+ */
+
+export interface AllocatableInstallment {
+  id: bigint;
+  amount: number;
+  interest: number;
+  paidAmount: number;
+  outstandingFees: number;
+}
+
+export interface AllocationLine {
+  installmentId: bigint;
+  amount: number;
+  feeAmount: number;
+  interestAmount: number;
+  principalAmount: number;
+  paidAmount: number;
+  remainingAmount: number;
+  settled: boolean;
+}
+
+export interface AllocationPlan {
+  allocations: AllocationLine[];
+  unallocatedAmount: number;
+}
+
+const toCents = (value: number): number => Math.round(value * 100);
+const fromCents = (value: number): number => value / 100;
+
+/**
+ * Remaining scheduled amount (interest + principal) of an installment
+ */
+export function getRemainingAmount(installment: {
+  amount: unknown;
+  paidAmount?: unknown;
+  remainingAmount?: unknown;
+}): number {
+  if (installment.remainingAmount !== null && installment.remainingAmount !== undefined) {
+    return Number(installment.remainingAmount);
+  }
+  return fromCents(toCents(Number(installment.amount)) - toCents(Number(installment.paidAmount ?? 0)));
+}
+
+/**
+ * Splits a payment across installments: fees, then interest, then principal, oldest first
+ */
+export function allocatePayment(amount: number, installments: AllocatableInstallment[]): AllocationPlan {
+  let available = toCents(amount);
+  const allocations: AllocationLine[] = [];
+
+  for (const installment of installments) {
+    if (available <= 0) break;
+
+    const total = toCents(installment.amount);
+    const alreadyPaid = toCents(installment.paidAmount);
+    // Interest is always paid before principal, so paid amount covers interest first
+    const openInterest = Math.max(0, toCents(installment.interest) - alreadyPaid);
+    const openPrincipal = Math.max(0, total - alreadyPaid - openInterest);
+    const openFees = Math.max(0, toCents(installment.outstandingFees));
+
+    const feeAmount = Math.min(available, openFees);
+    available -= feeAmount;
+    const interestAmount = Math.min(available, openInterest);
+    available -= interestAmount;
+    const principalAmount = Math.min(available, openPrincipal);
+    available -= principalAmount;
+
+    const applied = feeAmount + interestAmount + principalAmount;
+    if (applied === 0) continue;
+
+    const paidAmount = alreadyPaid + interestAmount + principalAmount;
+    allocations.push({
+      installmentId: installment.id,
+      amount: fromCents(applied),
+      feeAmount: fromCents(feeAmount),
+      interestAmount: fromCents(interestAmount),
+      principalAmount: fromCents(principalAmount),
+      paidAmount: fromCents(paidAmount),
+      remainingAmount: fromCents(total - paidAmount),
+      settled: paidAmount >= total,
+    });
+  }
+
+  return {
+    allocations,
+    unallocatedAmount: fromCents(Math.max(0, available)),
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Payment references
+ *
+ * Gateways echo back a reference chosen when the charge was created. Besides PIX txids,
+ * an installment can be referenced directly as "INST<installmentId>" (e.g. in card
+ * checkout metadata or generic gateway payloads).
+ */
+
+const INSTALLMENT_REFERENCE = /^INST(\d+)$/i;
+
+export function installmentReference(installmentId: bigint): string {
+  return `INST${installmentId}`;
+}
+
+export function parseInstallmentReference(reference: string): bigint | null {
+  const match = INSTALLMENT_REFERENCE.exec(reference.trim());
+  return match ? BigInt(match[1]) : null;
+}
@@ -0,0 +1,152 @@
+/**
+ * Early payoff helpers
+ *
+ * Installments due on or before the payoff date are owed in full (plus accrued late fees).
+ * Anticipated installments are brought to present value at the contract rate, which gives
+ * the client a discount of the interest not yet incurred: compound discounting for
+ * PRICE, SAC and BULLET, simple (linear) discounting for SIMPLE.
+ */
+
+import { AmortizationSystem } from '../constants/enums';
+
+export interface PayoffInstallment {
+  id: bigint;
+  dueDate: Date;
+  status: string;
+  amount: number;
+  interest: number;
+  paidAmount: number;
+  openAmount: number;
+  lateFees: number;
+}
+
+export interface PayoffLine {
+  installmentId: bigint;
+  dueDate: Date;
+  status: string;
+  anticipated: boolean;
+  openAmount: number;
+  principal: number;
+  interest: number;
+  lateFees: number;
+  interestDiscount: number;
+  amountDue: number;
+}
+
+export interface PayoffQuote {
+  asOf: Date;
+  outstandingPrincipal: number;
+  outstandingInterest: number;
+  interestDiscount: number;
+  lateFees: number;
+  total: number;
+  installments: PayoffLine[];
+}
+
+export interface PayoffTerms {
+  interestRate: number;
+  amortizationSystem: string;
+  frequency: string;
+}
+
+const DAYS_PER_PERIOD: Record<string, number> = {
+  WEEKLY: 7,
+  BIWEEKLY: 14,
+  MONTHLY: 30,
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toCents = (value: number): number => Math.round(value * 100);
+const fromCents = (value: number): number => value / 100;
+
+/**
+ * Whole days from the payoff date until the due date (0 when already due)
+ */
+function daysAhead(dueDate: Date, asOf: Date): number {
+  const due = Date.UTC(dueDate.getUTCFullYear(), dueDate.getUTCMonth(), dueDate.getUTCDate());
+  const ref = Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), asOf.getUTCDate());
+  return Math.max(0, Math.round((due - ref) / MS_PER_DAY));
+}
+
+/**
+ * Present value (in cents) of an amount due `periods` periods ahead
+ */
+function presentValueCents(cents: number, rate: number, periods: number, system: string): number {
+  if (rate <= 0 || periods <= 0) {
+    return cents;
+  }
+  if (system === AmortizationSystem.SIMPLE) {
+    return Math.round(cents / (1 + rate * periods));
+  }
+  return Math.round(cents / Math.pow(1 + rate, periods));
+}
+
+/**
+ * Builds the payoff quote of an operation's open installments at `asOf`
+ */
+export function calculatePayoffQuote(
+  installments: PayoffInstallment[],
+  terms: PayoffTerms,
+  asOf: Date = new Date()
+): PayoffQuote {
+  const periodDays = DAYS_PER_PERIOD[terms.frequency];
+  if (!periodDays) {
+    throw new Error(`Unsupported frequency: ${terms.frequency}`);
+  }
+  const rate = terms.interestRate / 100;
+
+  let principalCents = 0;
+  let interestCents = 0;
+  let discountCents = 0;
+  let feesCents = 0;
+  let totalCents = 0;
+
+  const lines = installments.map((installment) => {
+    const openCents = toCents(installment.openAmount);
+    // Interest is always paid before principal, so paid amount covers interest first
+    const openInterestCents = Math.min(
+      openCents,
+      Math.max(0, toCents(installment.interest) - toCents(installment.paidAmount))
+    );
+    const openPrincipalCents = openCents - openInterestCents;
+
+    const days = daysAhead(installment.dueDate, asOf);
+    const anticipated = days > 0;
+    const lateFeesCents = anticipated ? 0 : toCents(installment.lateFees);
+    const presentCents = anticipated
+      ? presentValueCents(openCents, rate, days / periodDays, terms.amortizationSystem)
+      : openCents;
+    const lineDiscountCents = openCents - presentCents;
+    const amountDueCents = presentCents + lateFeesCents;
+
+    principalCents += openPrincipalCents;
+    interestCents += openInterestCents;
+    discountCents += lineDiscountCents;
+    feesCents += lateFeesCents;
+    totalCents += amountDueCents;
+
+    return {
+      installmentId: installment.id,
+      dueDate: installment.dueDate,
+      status: installment.status,
+      anticipated,
+      openAmount: fromCents(openCents),
+      principal: fromCents(openPrincipalCents),
+      interest: fromCents(openInterestCents),
+      lateFees: fromCents(lateFeesCents),
+      interestDiscount: fromCents(lineDiscountCents),
+      amountDue: fromCents(amountDueCents),
+    };
+  });
+
+  return {
+    asOf,
+    outstandingPrincipal: fromCents(principalCents),
+    outstandingInterest: fromCents(interestCents),
+    interestDiscount: fromCents(discountCents),
+    lateFees: fromCents(feesCents),
+    total: fromCents(totalCents),
+    installments: lines,
+  };
+}
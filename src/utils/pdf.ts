@@ -0,0 +1,177 @@
+/**
+ * Minimal PDF writer for generated documents (notes, contracts, receipts)
+ *
+ * Supports text in the standard Helvetica fonts (WinAnsi encoding, so Portuguese accents
+ * work), lines and rectangles on A4 pages. Coordinates are in points from the top-left
+ * corner; text `y` is the baseline.
+ */
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'center' | 'right';
+}
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+// Characters outside Latin-1 that WinAnsi still encodes
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+/**
+ * Approximate Helvetica advance width of a character, in 1/1000 em
+ */
+function charWidth(char: string, bold: boolean): number {
+  let width = 556;
+  if (' ijl.,:;\'|!I()[]/'.includes(char)) width = 278;
+  else if ('mwMW@'.includes(char)) width = 833;
+  else if (char >= 'A' && char <= 'Z') width = 667;
+  else if ('frt-'.includes(char)) width = 333;
+  return bold ? width * 1.05 : width;
+}
+
+/**
+ * Approximate width of a text in points
+ */
+export function measureText(value: string, size = 10, bold = false): number {
+  let width = 0;
+  for (const char of value) width += charWidth(char, bold);
+  return (width * size) / 1000;
+}
+
+/**
+ * Break a text into lines that fit the given width
+ */
+export function wrapText(value: string, width: number, size = 10, bold = false): string[] {
+  const lines: string[] = [];
+  for (const paragraph of value.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureText(candidate, size, bold) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Encode a JS string as a PDF literal string (WinAnsi bytes held in a latin1 string)
+ */
+function encodeText(value: string): string {
+  let encoded = '';
+  for (const char of value) {
+    const code = WIN_ANSI_EXTRAS[char] ?? char.charCodeAt(0);
+    const byte = code <= 0xff ? String.fromCharCode(code) : '?';
+    encoded += byte === '(' || byte === ')' || byte === '\\' ? `\\${byte}` : byte;
+  }
+  return `(${encoded})`;
+}
+
+const num = (value: number): string => (Math.round(value * 100) / 100).toString();
+
+export class PdfDocument {
+  readonly width = A4.width;
+  readonly height = A4.height;
+  private pages: string[][] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  addPage(): this {
+    this.pages.push([]);
+    return this;
+  }
+
+  text(value: string, x: number, y: number, options: PdfTextOptions = {}): this {
+    const size = options.size || 10;
+    const bold = options.bold || false;
+    let left = x;
+    if (options.align === 'center') left = x - measureText(value, size, bold) / 2;
+    if (options.align === 'right') left = x - measureText(value, size, bold);
+
+    this.current.push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${num(left)} ${num(this.height - y)} Td ${encodeText(value)} Tj ET`
+    );
+    return this;
+  }
+
+  /**
+   * Write wrapped text and return the baseline below the last line
+   */
+  paragraph(value: string, x: number, y: number, width: number, options: PdfTextOptions & { lineHeight?: number } = {}): number {
+    const size = options.size || 10;
+    const lineHeight = options.lineHeight || size * 1.4;
+    let baseline = y;
+    for (const line of wrapText(value, width, size, options.bold)) {
+      this.text(line, x, baseline, options);
+      baseline += lineHeight;
+    }
+    return baseline;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5): this {
+    this.current.push(
+      `${num(lineWidth)} w ${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`
+    );
+    return this;
+  }
+
+  rect(x: number, y: number, width: number, height: number, lineWidth = 0.5): this {
+    this.current.push(
+      `${num(lineWidth)} w ${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re S`
+    );
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    // 1: catalog, 2: page tree, 3-4: fonts, then a page and its content stream per page
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${this.pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${this.pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ];
+
+    this.pages.forEach((operations, i) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets = objects.map((object, i) => {
+      const offset = output.length;
+      output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+
+    const xref = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
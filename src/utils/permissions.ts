@@ -0,0 +1,143 @@
+/**
+ * Permissions and account roles
+ *
+ * Every account has the system roles owner, admin, agent and viewer and can create its own.
+ * A role is a set of account permissions that the account can edit, except the owner's, which
+ * always has all of them. Platform admins have every permission, platform ones included.
+ */
+
+import { Permission, UserRole } from '../constants/enums';
+
+export interface PermissionDefinition {
+  key: Permission;
+  description: string;
+  platform?: boolean; // never granted through an account role
+}
+
+export const PERMISSION_CATALOG: PermissionDefinition[] = [
+  { key: Permission.ACCOUNTS_UPDATE, description: 'Edit the account data' },
+  { key: Permission.MEMBERS_MANAGE, description: 'Invite members, change their roles and remove them' },
+  { key: Permission.ROLES_MANAGE, description: 'Create roles and edit their permissions' },
+  { key: Permission.CLIENTS_CREATE, description: 'Create clients' },
+  { key: Permission.CLIENTS_UPDATE, description: 'Edit clients and verify their phone and email' },
+  { key: Permission.CLIENTS_DELETE, description: 'Delete clients' },
+  { key: Permission.CLIENTS_EXPORT, description: 'Export client statements' },
+  { key: Permission.OPERATIONS_CREATE, description: 'Create operations' },
+  { key: Permission.OPERATIONS_UPDATE, description: 'Edit operations and trigger their alerts' },
+  { key: Permission.OPERATIONS_DELETE, description: 'Delete operations' },
+  { key: Permission.OPERATIONS_SETTLE, description: 'Settle and renegotiate operations' },
+  { key: Permission.INSTALLMENTS_UPDATE, description: 'Edit installments and mark them as paid' },
+  { key: Permission.PAYMENTS_CREATE, description: 'Register payments' },
+  { key: Permission.PAYMENTS_REVERSE, description: 'Reverse payments' },
+  { key: Permission.BILLING_MANAGE, description: 'Issue PIX charges and boletos and process bank return files' },
+  { key: Permission.BANK_STATEMENTS_IMPORT, description: 'Import and reconcile bank statements' },
+  { key: Permission.PROMISSORY_NOTES_MANAGE, description: 'Protest and endorse promissory notes' },
+  { key: Permission.RESOURCES_MANAGE, description: 'Manage resources and end rentals' },
+  { key: Permission.ALERTS_MANAGE, description: 'Manage alerts and notifications' },
+  { key: Permission.TEMPLATES_MANAGE, description: 'Manage message templates' },
+  { key: Permission.SETTINGS_MANAGE, description: 'Change account settings' },
+  { key: Permission.PLATFORM_MANAGE, description: 'Manage plans, features, modules and economic indexes', platform: true },
+  { key: Permission.PLATFORM_USERS, description: 'Manage platform users', platform: true },
+  {
+    key: Permission.PLATFORM_PAYMENTS,
+    description: 'Review, reconcile and ignore payment provider events',
+    platform: true,
+  },
+];
+
+export const ALL_PERMISSIONS: string[] = PERMISSION_CATALOG.map((permission) => permission.key);
+
+export const ACCOUNT_PERMISSIONS: string[] = PERMISSION_CATALOG.filter((permission) => !permission.platform).map(
+  (permission) => permission.key
+);
+
+/**
+ * Default name and permissions of the roles every account has. An account can change the
+ * permissions of admin, agent and viewer; the owner always has all account permissions.
+ */
+export const SYSTEM_ROLES: Record<string, { name: string; permissions: string[] }> = {
+  [UserRole.OWNER]: { name: 'Owner', permissions: ACCOUNT_PERMISSIONS },
+  [UserRole.ADMIN]: {
+    name: 'Admin',
+    permissions: ACCOUNT_PERMISSIONS.filter((permission) => permission !== Permission.ROLES_MANAGE),
+  },
+  [UserRole.AGENT]: {
+    name: 'Agent',
+    permissions: [
+      Permission.CLIENTS_CREATE,
+      Permission.CLIENTS_UPDATE,
+      Permission.CLIENTS_EXPORT,
+      Permission.OPERATIONS_CREATE,
+      Permission.OPERATIONS_UPDATE,
+      Permission.OPERATIONS_SETTLE,
+      Permission.INSTALLMENTS_UPDATE,
+      Permission.PAYMENTS_CREATE,
+      Permission.BILLING_MANAGE,
+      Permission.PROMISSORY_NOTES_MANAGE,
+      Permission.RESOURCES_MANAGE,
+      Permission.ALERTS_MANAGE,
+    ],
+  },
+  [UserRole.VIEWER]: { name: 'Viewer', permissions: [] },
+};
+
+export const ROLE_KEY_REGEX = /^[a-z][a-z0-9_-]{1,49}$/;
+
+// Role as seen by the permission checks: its key and what it grants
+export interface RoleGrant {
+  role: string;
+  permissions: readonly string[];
+}
+
+export function isSystemRole(key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(SYSTEM_ROLES, key);
+}
+
+export function hasPermission(permissions: readonly string[] | null | undefined, permission: string): boolean {
+  return !!permissions && permissions.includes(permission);
+}
+
+/**
+ * Permissions of a role in an account: the stored set when the account edited it, the default
+ * otherwise. Permissions that left the catalog are dropped; the owner always has all of them.
+ */
+export function rolePermissions(key: string, stored?: readonly string[] | null): string[] {
+  if (key === UserRole.OWNER) return [...ACCOUNT_PERMISSIONS];
+  const permissions = stored ?? SYSTEM_ROLES[key]?.permissions ?? [];
+  return ACCOUNT_PERMISSIONS.filter((permission) => permissions.includes(permission));
+}
+
+/**
+ * Permissions that can't be granted by an account role (unknown or platform ones)
+ */
+export function invalidPermissions(permissions: readonly string[]): string[] {
+  return permissions.filter((permission) => !ACCOUNT_PERMISSIONS.includes(permission));
+}
+
+/**
+ * Whether `actor` is above `role`: the owner is above every other role; anybody else only
+ * above roles with fewer permissions, all of which they have. Nobody is above the owner.
+ */
+export function outranks(actor: RoleGrant, role: RoleGrant): boolean {
+  if (role.role === UserRole.OWNER) return false;
+  if (actor.role === UserRole.OWNER) return true;
+  return (
+    actor.role !== role.role &&
+    role.permissions.length < actor.permissions.length &&
+    role.permissions.every((permission) => actor.permissions.includes(permission))
+  );
+}
+
+/**
+ * Whether the actor can give, change or take away `role` from a member
+ */
+export function canManageRole(actor: RoleGrant, role: RoleGrant): boolean {
+  return hasPermission(actor.permissions, Permission.MEMBERS_MANAGE) && outranks(actor, role);
+}
+
+/**
+ * Whether the actor can edit or delete `role` (checked with its current and its new permissions)
+ */
+export function canEditRole(actor: RoleGrant, role: RoleGrant): boolean {
+  return hasPermission(actor.permissions, Permission.ROLES_MANAGE) && outranks(actor, role);
+}
@@ -0,0 +1,143 @@
+/**
+ * PIX helpers: BR Code ("copia e cola") payloads
+ *
+ * The payload follows the EMV QR Code (Merchant-Presented Mode) layout defined by the
+ * Banco Central do Brasil: ID + two-digit length + value fields, closed by a CRC16 checksum.
+ */
+
+import { randomBytes } from 'crypto';
+
+export interface PixSettings {
+  key: string | null; // CPF/CNPJ, e-mail, phone (+55...) or random key (EVP)
+  merchantName: string | null; // defaults to the account name
+  merchantCity: string | null; // defaults to the account city
+}
+
+export interface PixPayloadInput {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+  amount?: number;
+  txid?: string;
+  description?: string;
+}
+
+export const DEFAULT_PIX_SETTINGS: PixSettings = {
+  key: null,
+  merchantName: null,
+  merchantCity: null,
+};
+
+const PIX_GUI = 'br.gov.bcb.pix';
+const CURRENCY_BRL = '986'; // ISO 4217
+const MAX_NAME_LENGTH = 25;
+const MAX_CITY_LENGTH = 15;
+const MAX_TXID_LENGTH = 25;
+
+/**
+ * Merges a stored (possibly partial) PIX setting with the defaults
+ */
+export function normalizePixSettings(value: unknown): PixSettings {
+  const stored = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const toText = (raw: unknown, fallback: string | null) =>
+    typeof raw === 'string' && raw.trim() ? raw.trim() : fallback;
+
+  return {
+    key: toText(stored.key, DEFAULT_PIX_SETTINGS.key),
+    merchantName: toText(stored.merchantName, DEFAULT_PIX_SETTINGS.merchantName),
+    merchantCity: toText(stored.merchantCity, DEFAULT_PIX_SETTINGS.merchantCity),
+  };
+}
+
+/**
+ * CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF) as 4 uppercase hex digits
+ */
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+  for (const byte of Buffer.from(payload, 'utf8')) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * Plain ASCII for name/city fields, e.g. "São Paulo" -> "Sao Paulo"
+ */
+function toAscii(value: string, maxLength: number): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7E]/g, '')
+    .trim()
+    .slice(0, maxLength);
+}
+
+function field(id: string, value: string): string {
+  const length = Buffer.byteLength(value, 'utf8');
+  if (length > 99) {
+    throw new Error(`PIX field ${id} is too long`);
+  }
+  return `${id}${String(length).padStart(2, '0')}${value}`;
+}
+
+/**
+ * Transaction id for a charge: up to 25 letters and digits, unique per receiver
+ */
+export function generateTxid(prefix = ''): string {
+  const cleanPrefix = prefix.replace(/[^A-Za-z0-9]/g, '');
+  const random = randomBytes(16).toString('hex').toUpperCase();
+  return `${cleanPrefix}${random}`.slice(0, MAX_TXID_LENGTH);
+}
+
+/**
+ * Build a static BR Code payload; with `amount` and `txid` it identifies a single charge
+ */
+export function buildPixPayload(input: PixPayloadInput): string {
+  const txid = input.txid || '***';
+  if (txid !== '***' && !/^[A-Za-z0-9]{1,25}$/.test(txid)) {
+    throw new Error('PIX txid must have up to 25 letters or digits');
+  }
+
+  const merchantAccount =
+    field('00', PIX_GUI) +
+    field('01', input.key) +
+    (input.description ? field('02', input.description) : '');
+
+  const payload =
+    field('00', '01') +
+    field('26', merchantAccount) +
+    field('52', '0000') +
+    field('53', CURRENCY_BRL) +
+    (input.amount !== undefined ? field('54', input.amount.toFixed(2)) : '') +
+    field('58', 'BR') +
+    field('59', toAscii(input.merchantName, MAX_NAME_LENGTH) || 'N/A') +
+    field('60', toAscii(input.merchantCity, MAX_CITY_LENGTH) || 'N/A') +
+    field('62', field('05', txid)) +
+    '6304';
+
+  return payload + crc16(payload);
+}
+
+/**
+ * Split a BR Code into its top-level fields (checks the CRC)
+ */
+export function parsePixPayload(payload: string): Record<string, string> {
+  const body = payload.slice(0, -4);
+  if (!body.endsWith('6304') || crc16(body) !== payload.slice(-4).toUpperCase()) {
+    throw new Error('Invalid PIX payload checksum');
+  }
+
+  const fields: Record<string, string> = {};
+  let position = 0;
+  while (position < payload.length) {
+    const id = payload.slice(position, position + 2);
+    const length = Number(payload.slice(position + 2, position + 4));
+    fields[id] = payload.slice(position + 4, position + 4 + length);
+    position += 4 + length;
+  }
+  return fields;
+}
@@ -0,0 +1,183 @@
+/**
+ * Promissory note helpers
+ *
+ * A note follows its installment: paid with it, cancelled with it (renegotiation, payoff
+ * discount) and back to issued (or protested) when a payment is reversed.
+ */
+
+import { Prisma } from '@prisma/client';
+import { InstallmentStatus, PromissoryNoteStatus } from '../constants/enums';
+
+export interface NoteParty {
+  name: string | null;
+  document: string | null;
+  address: string | null;
+}
+
+export interface PartyAddress {
+  street?: string | null;
+  number?: string | null;
+  complement?: string | null;
+  neighborhood?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+}
+
+const UNITS = [
+  '', 'um', 'dois', 'três', 'quatro', 'cinco', 'seis', 'sete', 'oito', 'nove', 'dez',
+  'onze', 'doze', 'treze', 'quatorze', 'quinze', 'dezesseis', 'dezessete', 'dezoito', 'dezenove',
+];
+const TENS = ['', '', 'vinte', 'trinta', 'quarenta', 'cinquenta', 'sessenta', 'setenta', 'oitenta', 'noventa'];
+const HUNDREDS = [
+  '', 'cento', 'duzentos', 'trezentos', 'quatrocentos', 'quinhentos',
+  'seiscentos', 'setecentos', 'oitocentos', 'novecentos',
+];
+const SCALES: Array<[string, string]> = [
+  ['', ''],
+  ['mil', 'mil'],
+  ['milhão', 'milhões'],
+  ['bilhão', 'bilhões'],
+];
+const CURRENCY_NAMES: Record<string, [string, string]> = {
+  BRL: ['real', 'reais'],
+  USD: ['dólar', 'dólares'],
+  EUR: ['euro', 'euros'],
+  GBP: ['libra', 'libras'],
+};
+
+/**
+ * Note status implied by its installment
+ */
+export function derivePromissoryNoteStatus(installmentStatus: string, protestedAt?: Date | null): string {
+  if (installmentStatus === InstallmentStatus.PAID) return PromissoryNoteStatus.PAID;
+  if (installmentStatus === InstallmentStatus.CANCELLED) return PromissoryNoteStatus.CANCELLED;
+  return protestedAt ? PromissoryNoteStatus.PROTESTED : PromissoryNoteStatus.ISSUED;
+}
+
+/**
+ * Number from 1 to 999 in words (pt-BR)
+ */
+function hundredsInWords(value: number): string {
+  if (value === 100) return 'cem';
+
+  const parts: string[] = [];
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  if (hundreds) parts.push(HUNDREDS[hundreds]);
+  if (rest >= 20) {
+    parts.push(TENS[Math.floor(rest / 10)]);
+    if (rest % 10) parts.push(UNITS[rest % 10]);
+  } else if (rest) {
+    parts.push(UNITS[rest]);
+  }
+  return parts.join(' e ');
+}
+
+/**
+ * Whole number in words (pt-BR), e.g. 1250 -> "mil duzentos e cinquenta"
+ */
+export function numberInWords(value: number): string {
+  if (value === 0) return 'zero';
+
+  const groups: number[] = [];
+  for (let rest = Math.floor(value); rest > 0; rest = Math.floor(rest / 1000)) {
+    groups.push(rest % 1000);
+  }
+
+  const parts: string[] = [];
+  for (let i = groups.length - 1; i >= 0; i--) {
+    const group = groups[i];
+    if (!group) continue;
+
+    const words = i === 1 && group === 1
+      ? 'mil'
+      : [hundredsInWords(group), group === 1 ? SCALES[i][0] : SCALES[i][1]].filter(Boolean).join(' ');
+
+    // "e" joins the last group when it is below 100 or a round hundred ("mil e cem", "mil e cinco")
+    const isLast = groups.slice(0, i).every((g) => g === 0);
+    if (parts.length && isLast && (group < 100 || group % 100 === 0)) {
+      parts.push(`e ${words}`);
+    } else {
+      parts.push(words);
+    }
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Amount in words as written on the note, e.g. "mil e cem reais e cinquenta centavos"
+ */
+export function amountInWords(amount: number, currency = 'BRL'): string {
+  const cents = Math.round(amount * 100);
+  const whole = Math.floor(cents / 100);
+  const fraction = cents % 100;
+  const [singular, plural] = CURRENCY_NAMES[currency] || [currency, currency];
+
+  const parts: string[] = [];
+  if (whole) {
+    // "um milhão de reais", but "um milhão e cem reais"
+    const roundMillions = whole >= 1000000 && whole % 1000000 === 0;
+    parts.push(`${numberInWords(whole)}${roundMillions ? ' de' : ''} ${whole === 1 ? singular : plural}`);
+  }
+  if (fraction) {
+    parts.push(`${numberInWords(fraction)} ${fraction === 1 ? 'centavo' : 'centavos'}`);
+  }
+  return parts.length ? parts.join(' e ') : `zero ${plural}`;
+}
+
+/**
+ * Single-line address, e.g. "Rua A, 10 - Centro, São Paulo/SP, 01000-000"
+ */
+export function formatPartyAddress(address?: PartyAddress | null): string | null {
+  if (!address) return null;
+
+  const street = [address.street, address.number].filter(Boolean).join(', ');
+  const line = [street, address.complement, address.neighborhood].filter(Boolean).join(' - ');
+  const city = [address.city, address.state].filter(Boolean).join('/');
+  const formatted = [line, city, address.zip].filter(Boolean).join(', ');
+  return formatted || null;
+}
+
+/**
+ * Snapshot of a note party (issuer, beneficiary or guarantor)
+ */
+export function buildNoteParty(entity: {
+  name?: string | null;
+  document?: string | null;
+  address?: PartyAddress | null;
+}): NoteParty {
+  return {
+    name: entity.name || null,
+    document: entity.document || null,
+    address: formatPartyAddress(entity.address),
+  };
+}
+
+/**
+ * Bring the notes of an operation in line with their installments
+ */
+export async function syncPromissoryNotes(client: Prisma.TransactionClient, operationId: bigint) {
+  const notes = await client.promissoryNote.findMany({
+    where: { operationId },
+    select: {
+      id: true,
+      status: true,
+      protestedAt: true,
+      installment: { select: { status: true, paidAt: true } },
+    },
+  });
+
+  for (const note of notes) {
+    const status = derivePromissoryNoteStatus(note.installment.status, note.protestedAt);
+    if (status === note.status) continue;
+
+    await client.promissoryNote.update({
+      where: { id: note.id },
+      data: {
+        status,
+        paidAt: status === PromissoryNoteStatus.PAID ? note.installment.paidAt || new Date() : null,
+      },
+    });
+  }
+}
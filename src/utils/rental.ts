@@ -0,0 +1,56 @@
+/**
+ * Rental helpers
+ *
+ * Rent is charged monthly: charge N is due N months after the contract start and covers
+ * the month before it. Readjustments happen on every contract anniversary using the
+ * accumulated variation of the index over the 12 months before the anniversary month.
+ */
+
+import { addMonths, calculateNextDueDate } from './dateHelpers';
+
+/**
+ * Due date of the Nth rent charge (1-based)
+ */
+export function rentChargeDueDate(startDate: Date, chargeNumber: number): Date {
+  return calculateNextDueDate(startDate, 'MONTHLY', chargeNumber);
+}
+
+/**
+ * Start of the period covered by the Nth rent charge (1-based)
+ */
+export function rentPeriodStart(startDate: Date, chargeNumber: number): Date {
+  return chargeNumber <= 1 ? new Date(startDate) : addMonths(startDate, chargeNumber - 1);
+}
+
+/**
+ * First day (UTC) of the month of a date
+ */
+export function toReferenceMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * The 12 reference months (first day, UTC) used to readjust rent on an anniversary
+ */
+export function adjustmentReferenceMonths(anniversary: Date): Date[] {
+  const months: Date[] = [];
+  for (let i = 12; i >= 1; i--) {
+    months.push(new Date(Date.UTC(anniversary.getUTCFullYear(), anniversary.getUTCMonth() - i, 1)));
+  }
+  return months;
+}
+
+/**
+ * Accumulated (compounded) variation of monthly rates, in percent
+ */
+export function accumulateIndexVariation(monthlyRates: number[]): number {
+  const factor = monthlyRates.reduce((acc, rate) => acc * (1 + rate / 100), 1);
+  return Math.round((factor - 1) * 100 * 10000) / 10000;
+}
+
+/**
+ * Readjusted rent; negative accumulated variations never reduce the rent
+ */
+export function readjustRent(rentAmount: number, variationPercent: number): number {
+  return Math.round(rentAmount * (1 + Math.max(0, variationPercent) / 100) * 100) / 100;
+}
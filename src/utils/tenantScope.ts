@@ -0,0 +1,148 @@
+/**
+ * Tenant scope
+ *
+ * Every query a non-admin user makes runs in the account of their token: reads only see the
+ * account's records, updates and deletes only reach them and creates can't target another
+ * account. Records outside the account behave as if they didn't exist (404). The Prisma
+ * extension in prisma/tenant applies these rules to every model listed here; models that are
+ * not listed (platform users, plans, features, audit log, economic indexes) are shared.
+ */
+
+import { RecordNotFoundError } from '../common/classes';
+
+export interface TenantContext {
+  accountId: number;
+  userId: number;
+}
+
+type Where = Record<string, unknown>;
+type Args = Record<string, any>;
+
+// Models with their own accountId column
+const ACCOUNT_MODELS = [
+  'AccountMember',
+  'AccountRole',
+  'AccountInvitation',
+  'Client',
+  'Operation',
+  'PromissoryNote',
+  'PixCharge',
+  'Boleto',
+  'BoletoRemessa',
+  'PaymentWebhookEvent',
+  'BankStatement',
+  'Resource',
+  'MessageTemplate',
+  'EmailLog',
+  'Setting',
+  'FeatureUsage',
+  'LeadQualification',
+];
+
+const byAccount = ({ accountId }: TenantContext): Where => ({ accountId });
+const byOperation = ({ accountId }: TenantContext): Where => ({ operation: { accountId } });
+
+/**
+ * Condition a record must meet to belong to the tenant, per model
+ */
+export const TENANT_SCOPES: Record<string, (tenant: TenantContext) => Where> = {
+  ...Object.fromEntries(ACCOUNT_MODELS.map((model) => [model, byAccount])),
+  Account: ({ accountId }) => ({ id: accountId }),
+  Address: ({ accountId }) => ({ OR: [{ accountId }, { client: { accountId } }, { resource: { accountId } }] }),
+  ClientPhoto: ({ accountId }) => ({ client: { accountId } }),
+  Installment: byOperation,
+  Payment: byOperation,
+  Alert: byOperation,
+  OperationPhoto: byOperation,
+  OperationStatusChange: byOperation,
+  RentalContract: byOperation,
+  RentAdjustment: ({ accountId }) => ({ contract: { operation: { accountId } } }),
+  PromissoryNoteEndorsement: ({ accountId }) => ({ note: { accountId } }),
+  PaymentAllocation: ({ accountId }) => ({ payment: { operation: { accountId } } }),
+  BankStatementTransaction: ({ accountId }) => ({ statement: { accountId } }),
+  Notification: ({ userId }) => ({ userId }), // notifications belong to their user
+};
+
+const WHERE_OPERATIONS = [
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'delete',
+  'deleteMany',
+  'upsert',
+];
+
+export function isTenantScoped(model: string | undefined): boolean {
+  return !!model && Object.prototype.hasOwnProperty.call(TENANT_SCOPES, model);
+}
+
+/**
+ * `where` narrowed to the tenant's records (its own conditions are kept as they are)
+ */
+export function scopeWhere(model: string, where: Where | undefined, tenant: TenantContext): Where {
+  const scope = TENANT_SCOPES[model](tenant);
+  if (!where) return scope;
+  const and = where.AND === undefined ? [] : Array.isArray(where.AND) ? where.AND : [where.AND];
+  return { ...where, AND: [...and, scope] };
+}
+
+/**
+ * Data of a record created in the tenant: the account is filled in when missing; another
+ * account is refused as not found
+ */
+export function scopeCreateData(model: string, data: Args, tenant: TenantContext): Args {
+  if (!ACCOUNT_MODELS.includes(model)) return data;
+  const accountId = data.accountId ?? data.account?.connect?.id;
+  if (accountId === undefined || accountId === null) {
+    return data.account ? data : { ...data, accountId: tenant.accountId };
+  }
+  if (Number(accountId) !== tenant.accountId) {
+    throw new RecordNotFoundError('Account');
+  }
+  return data;
+}
+
+/**
+ * Data of an update in the tenant: records can't be moved to another account
+ */
+export function scopeUpdateData(model: string, data: Args | undefined, tenant: TenantContext): Args | undefined {
+  if (!data || !ACCOUNT_MODELS.includes(model)) return data;
+  const accountId = data.accountId ?? data.account?.connect?.id;
+  if (accountId !== undefined && accountId !== null && Number(accountId) !== tenant.accountId) {
+    throw new RecordNotFoundError('Account');
+  }
+  return data;
+}
+
+/**
+ * Arguments of a query run in the tenant. Shared models pass through unchanged.
+ */
+export function scopeArgs(model: string, operation: string, args: Args | undefined, tenant: TenantContext): Args {
+  const scoped: Args = { ...(args ?? {}) };
+  if (!isTenantScoped(model)) return scoped;
+
+  if (WHERE_OPERATIONS.includes(operation)) {
+    scoped.where = scopeWhere(model, scoped.where, tenant);
+  }
+
+  if (operation === 'create') {
+    scoped.data = scopeCreateData(model, scoped.data ?? {}, tenant);
+  } else if (operation === 'createMany' || operation === 'createManyAndReturn') {
+    const rows: Args[] = Array.isArray(scoped.data) ? scoped.data : [scoped.data];
+    scoped.data = rows.map((row) => scopeCreateData(model, row, tenant));
+  } else if (operation === 'upsert') {
+    scoped.create = scopeCreateData(model, scoped.create ?? {}, tenant);
+    scoped.update = scopeUpdateData(model, scoped.update, tenant);
+  } else if (operation === 'update' || operation === 'updateMany') {
+    scoped.data = scopeUpdateData(model, scoped.data, tenant);
+  }
+
+  return scoped;
+}